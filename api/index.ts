@@ -12,6 +12,7 @@ import { FlashcardCacheService } from '../src/core/services/FlashcardCacheServic
 import { WebLLMService } from '../src/core/services/WebLLMService.js';
 import { QuizStorageService } from '../src/core/services/QuizStorageService.js';
 import { FlashcardStorageService } from '../src/core/services/FlashcardStorageService.js';
+import { SpacedRepetitionService } from '../src/core/services/SpacedRepetitionService.js';
 import passport from 'passport';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
 // @ts-ignore
@@ -41,6 +42,7 @@ try {
     // Storage and caches (lightweight, in-memory for serverless)
     const quizStorage = new QuizStorageService();
     const flashcardStorage = new FlashcardStorageService();
+    const spacedRepetition = new SpacedRepetitionService();
     // Only initialize QueueService if Redis is configured (prevents crash on Vercel)
     const queueService = process.env.REDIS_URL ? new QueueService() : null;
     const flashcardCache = new FlashcardCacheService(3600);
@@ -66,7 +68,13 @@ try {
         flashcardCache,
         webllmService,
         quizStorage,
-        flashcardStorage
+        flashcardStorage,
+        null,
+        null,
+        null,
+        null,
+        null,
+        { spacedRepetition }
     );
 
     // Setup GraphQL and REST routes (no http listen in serverless)
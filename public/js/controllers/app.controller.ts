@@ -29,6 +29,7 @@ type QuizPrefetched = {
 type DeckCard = { id: string; front: string; back: string; topic?: string };
 type QuizStartEvent = { count: number; topic?: string; timer?: number };
 type QuizStartPrefetchedEvent = { quizId: string };
+type QuizStartExamEvent = { quizId: string };
 // type HarderEvent = { difficulty?: 'deep-dive' | 'basics' }; (Unused)
 // type QuizResultPayload = { cards: DeckCard[]; recommendedTopics?: string[] }; (Unused)
 
@@ -209,6 +210,11 @@ export class AppController {
 
     await deckModel.loadInitialDeck();
 
+    // An exam interrupted by a reload carries on where it was, with the time it has left
+    if (await quizModel.resumeExam()) {
+      this.switchTab('quiz');
+    }
+
     // Seed available quizzes list with anything cached/prefetched
     if (typeof quizModel.listPrefetched === 'function') {
       this.quizView.renderAvailableQuizzes([
@@ -365,6 +371,7 @@ export class AppController {
     eventBus.on('deck:loaded', (cards: DeckCard[]) => {
       console.log('AppController received deck:loaded event with', cards?.length, 'cards');
       deckModel.setCards(cards);
+      void deckModel.prioritizeDueCards();
       storageService.storeFlashcards(cards || []);
       // Kick off quiz pre-generation for the current deck
       this.prefetchQuizFromCards(cards);
@@ -381,7 +388,7 @@ export class AppController {
         // But the user just requested it with specific settings.
         // Ideally we should regenerate or just apply the timer to the existing questions.
         // Let's apply the requested timer.
-        quizModel.startQuiz(prefetched.questions, 'standard', prefetched.topic, timer || 0);
+        quizModel.startQuiz(prefetched.questions, 'standard', prefetched.topic, timer || 0, prefetched.id);
         this.switchTab('quiz');
         this.quizView.showQuestionUI();
         this.quizView.renderQuestion(prefetched.questions[0]);
@@ -426,7 +433,7 @@ export class AppController {
               });
               const questions = quizResponse?.questions || quizResponse?.data?.questions;
               if (questions && questions.length > 0) {
-                quizModel.startQuiz(questions, 'standard', topic, timer || 0);
+                quizModel.startQuiz(questions, 'standard', topic, timer || 0, quizResponse?.quizId);
               } else { throw new Error('Invalid quiz response from server'); }
             } else { throw new Error('Failed to generate flashcards for quiz'); }
           } else if (flashcardResponse.cards) {
@@ -438,7 +445,7 @@ export class AppController {
             });
             const questions = quizResponse?.questions || quizResponse?.data?.questions;
             if (questions && questions.length > 0) {
-              quizModel.startQuiz(questions, 'standard', topic, timer || 0);
+              quizModel.startQuiz(questions, 'standard', topic, timer || 0, quizResponse?.quizId);
             } else { throw new Error('Invalid quiz response from server'); }
           } else {
             throw new Error('Failed to generate flashcards for quiz');
@@ -454,7 +461,7 @@ export class AppController {
 
           const questions = response?.questions || response?.data?.questions;
           if (questions && questions.length > 0) {
-            quizModel.startQuiz(questions, 'standard', quizTopic, timer || 0);
+            quizModel.startQuiz(questions, 'standard', quizTopic, timer || 0, response?.quizId);
           } else {
             throw new Error('Invalid quiz response from server');
           }
@@ -490,7 +497,7 @@ export class AppController {
         });
 
         if (response.questions) {
-          quizModel.startQuiz(response.questions, 'standard', topic);
+          quizModel.startQuiz(response.questions, 'standard', topic, 0, response.quizId);
           this.switchTab('quiz');
         } else {
           throw new Error('Invalid quiz response');
@@ -505,8 +512,13 @@ export class AppController {
 
     // Handle quiz retry
     eventBus.on('quiz:retry', () => {
+      // Each exam attempt draws its own questions
+      if (quizModel.mode === 'exam' && quizModel.quizId) {
+        eventBus.emit('quiz:start-exam', { quizId: quizModel.quizId });
+        return;
+      }
       if (quizModel.questions.length > 0) {
-        quizModel.startQuiz(quizModel.questions, quizModel.mode);
+        quizModel.startQuiz(quizModel.questions, quizModel.mode, quizModel.currentTopic, quizModel.timeLimit, quizModel.quizId);
       }
     });
 
@@ -525,9 +537,12 @@ export class AppController {
             if (quiz.questions) {
               quiz.questions = quiz.questions.map((q: any, idx: number) => ({
                 id: q.id || q.cardId || `${quiz.id}-q-${idx}`,
+                kind: q.kind,
                 question: q.question,
                 options: q.options || [],
                 correctAnswer: q.correctAnswer || q.answer || q.expected,
+                correctAnswers: q.correctAnswers,
+                acceptedAnswers: q.acceptedAnswers,
                 explanation: q.explanation
               }));
             }
@@ -536,8 +551,10 @@ export class AppController {
         } catch (e) { }
       }
 
-      if (quiz && quiz.questions?.length) {
-        quizModel.startQuiz(quiz.questions, 'standard', quiz.topic || 'Quiz');
+      if (quiz?.mode === 'exam' || quiz?.exam) {
+        eventBus.emit('quiz:start-exam', { quizId });
+      } else if (quiz && quiz.questions?.length) {
+        quizModel.startQuiz(quiz.questions, 'standard', quiz.topic || 'Quiz', 0, quiz.id);
         this.switchTab('quiz');
         this.quizView.showQuestionUI();
         this.quizView.renderQuestion(quiz.questions[0]);
@@ -546,6 +563,17 @@ export class AppController {
       }
     });
 
+    // Start an attempt at an exam; the server draws its questions and keeps its deadlines
+    eventBus.on('quiz:start-exam', async ({ quizId }: QuizStartExamEvent) => {
+      try {
+        await quizModel.startExam(quizId);
+        this.switchTab('quiz');
+      } catch (error) {
+        console.error('Failed to start exam:', error);
+        alert('Could not start the exam. Please try again.');
+      }
+    });
+
     // Handle deck harder (Deep Dive)
     eventBus.on('deck:harder', async (data: any) => {
       const topic = deckModel.currentTopic;
@@ -763,6 +791,7 @@ export class AppController {
         deckModel.setCards(deck.cards);
         this.studyView.renderCard(deckModel.getCurrentCard());
         this.studyView.updateStats(deckModel.getStats());
+        void deckModel.prioritizeDueCards();
         this.switchTab('study');
       }
     };
@@ -1,20 +1,25 @@
 import {apiService} from '../services/api.service.js';
 import {eventBus} from '../utils/event-bus.js';
+import {expandClozeCards} from '../utils/cloze.util.js';
 
 export interface Flashcard {
   id: string;
   front: string;
   back: string;
   topic?: string;
+  kind?: 'basic' | 'cloze';
+  clozeIndex?: number;
+  source?: { filename?: string; page?: number; type?: string; url?: string };
 }
 
 export class DeckModel {
-  cards = [];
+  cards: Flashcard[] = [];
   currentIndex = 0;
   leftSwipes = 0;
   rightSwipes = 0;
   demoCard: any;
   currentTopic: string = '';
+  cardShownAt = 0;
   
   constructor() {
     // Demo card to show when there are no cards
@@ -33,7 +38,8 @@ export class DeckModel {
   }
   
   setCards(cards: Flashcard[]): void {
-    this.cards = cards;
+    // Each cloze deletion is studied (and scheduled) as its own card
+    this.cards = expandClozeCards(cards);
     this.currentIndex = 0;
     this.leftSwipes = 0;
     this.rightSwipes = 0;
@@ -41,6 +47,7 @@ export class DeckModel {
     if (cards.length > 0 && cards[0].topic) {
       this.currentTopic = cards[0].topic;
     }
+    this.cardShownAt = Date.now();
     
     eventBus.emit('deck:updated', this.getStats());
     eventBus.emit('card:changed', this.getCurrentCard());
@@ -61,6 +68,7 @@ export class DeckModel {
     }
     
     this.currentIndex++;
+    this.cardShownAt = Date.now();
     eventBus.emit('card:changed', this.getCurrentCard());
     eventBus.emit('deck:updated', this.getStats());
     return true;
@@ -69,6 +77,7 @@ export class DeckModel {
   async recordSwipe(direction) {
     const card = this.getCurrentCard();
     if (!card) return;
+    const latencyMs = this.cardShownAt ? Date.now() - this.cardShownAt : 0;
     
     if (direction === 'left') {
       this.leftSwipes++;
@@ -81,6 +90,7 @@ export class DeckModel {
         this.cards.push(movedCard);
         // currentIndex stays the same, but now points to the next card
         // We need to emit change events so UI updates immediately
+        this.cardShownAt = Date.now();
         eventBus.emit('card:changed', this.getCurrentCard());
       }
     } else {
@@ -93,13 +103,42 @@ export class DeckModel {
       await apiService.post('/swipe', {
         cardId: card.id,
         direction,
-        timestamp: Date.now()
+        latencyMs
       });
     } catch (error) {
       console.error('Failed to record swipe:', error);
     }
   }
   
+  /**
+   * Reorder the deck so cards due for review come first, based on the server's schedule.
+   * Keeps the current order if the scheduler is unreachable.
+   */
+  async prioritizeDueCards() {
+    if (this.cards.length < 2) return;
+
+    try {
+      const data = await apiService.post('/reviews/prioritize', {
+        cardIds: this.cards.map(c => c.id)
+      });
+      if (!data || !Array.isArray(data.cardIds)) return;
+
+      const byId = new Map(this.cards.map(c => [c.id, c]));
+      const ordered = data.cardIds
+        .map((id: string) => byId.get(id))
+        .filter((c: Flashcard | undefined): c is Flashcard => !!c);
+      if (ordered.length !== this.cards.length) return;
+
+      this.cards = ordered;
+      this.currentIndex = 0;
+      this.cardShownAt = Date.now();
+      eventBus.emit('deck:updated', this.getStats());
+      eventBus.emit('card:changed', this.getCurrentCard());
+    } catch (error) {
+      console.error('Failed to prioritize due cards:', error);
+    }
+  }
+  
   getStats() {
     return {
       total: this.cards.length,
@@ -1,6 +1,10 @@
 // @ts-nocheck
 import { apiService } from '../services/api.service.js';
 import { eventBus } from '../utils/event-bus.js';
+import { formatAnswer, gradeAnswer, questionKind } from '../utils/quiz-question.util.js';
+
+// The exam attempt in progress, so a reload can resume it
+const EXAM_ATTEMPT_KEY = 'examAttemptId';
 
 export class QuizModel {
   questions: any[] = [];
@@ -10,6 +14,13 @@ export class QuizModel {
   prefetched: Array<{ id: string; topic: string; questions: any[]; source: 'flashcards' | 'topic'; createdAt: number }> = [];
   mode: string = 'standard'; // standard, web, advanced
   currentTopic: string = 'General';
+  quizId: string | null = null;
+  // Per-question timing sent with the attempt; times in milliseconds
+  timings: Record<string, { startedAt?: number; answeredAt?: number; timeMs: number; changes: number; timedOut: boolean }> = {};
+  visitStartedAt: number = 0;
+  visitAnswer: any = undefined;
+  // Exam attempt being taken: one section at a time, timed against the server's deadline
+  exam: { attemptId: string; sectionIndex: number; sectionCount: number; title: string; deadline: number | null } | null = null;
 
   constructor() {
     // Properties are now initialized directly on the class
@@ -19,14 +30,18 @@ export class QuizModel {
   remainingTime: number = 0;
   timerInterval: any = null;
 
-  startQuiz(questions, mode = 'standard', topic = 'General', timeLimit = 0) {
+  startQuiz(questions, mode = 'standard', topic = 'General', timeLimit = 0, quizId: string | null = null) {
     this.questions = questions;
     this.mode = mode;
+    this.exam = null;
     this.currentIndex = 0;
     this.answers = {};
+    this.timings = {};
     this.currentTopic = topic;
+    this.quizId = quizId;
     this.timeLimit = timeLimit;
     this.stopTimer(); // Clear any existing timer
+    this.beginVisit();
 
     eventBus.emit('quiz:started', this.getCurrentQuestion());
 
@@ -38,7 +53,9 @@ export class QuizModel {
 
   startTimer() {
     this.stopTimer();
-    this.remainingTime = this.timeLimit;
+    this.remainingTime = this.exam?.deadline
+      ? Math.max(0, Math.ceil((this.exam.deadline - Date.now()) / 1000))
+      : this.timeLimit;
     eventBus.emit('quiz:timer-tick', this.remainingTime);
 
     this.timerInterval = setInterval(() => {
@@ -60,10 +77,16 @@ export class QuizModel {
 
   handleTimeout() {
     this.stopTimer();
+    // The section's time is up; the server has closed it too
+    if (this.exam) {
+      this.finishExamSection();
+      return;
+    }
     // Mark as unanswered/timeout
     const currentQ = this.getCurrentQuestion();
     if (currentQ) {
       this.answers[currentQ.id] = null; // null indicates timeout/skipped
+      this.timingFor(currentQ.id).timedOut = true;
     }
 
     if (this.currentIndex < this.questions.length - 1) {
@@ -77,6 +100,37 @@ export class QuizModel {
     return this.questions[this.currentIndex];
   }
 
+  timingFor(questionId) {
+    if (!this.timings[questionId]) {
+      this.timings[questionId] = { timeMs: 0, changes: 0, timedOut: false };
+    }
+    return this.timings[questionId];
+  }
+
+  // Start timing the question now on screen
+  beginVisit() {
+    const q = this.getCurrentQuestion();
+    if (!q) return;
+    const now = Date.now();
+    const timing = this.timingFor(q.id);
+    timing.startedAt = timing.startedAt ?? now;
+    this.visitStartedAt = now;
+    this.visitAnswer = this.answers[q.id];
+  }
+
+  // Add the time since beginVisit; typed answers count as changed once per visit that edits them
+  endVisit() {
+    const q = this.getCurrentQuestion();
+    if (!q || !this.visitStartedAt) return;
+    const timing = this.timingFor(q.id);
+    timing.timeMs += Date.now() - this.visitStartedAt;
+    this.visitStartedAt = 0;
+    const answer = this.answers[q.id];
+    if (questionKind(q) === 'short-answer' && this.visitAnswer && answer && answer !== this.visitAnswer) {
+      timing.changes++;
+    }
+  }
+
   addPrefetchedQuiz(entry: { id: string; topic: string; questions: any[]; source: 'flashcards' | 'topic'; createdAt?: number }) {
     const createdAt = entry.createdAt ?? Date.now();
     // Replace if same topic/source existing
@@ -90,13 +144,24 @@ export class QuizModel {
   }
 
   answerQuestion(questionId, back) {
+    const previous = this.answers[questionId];
+    const question = this.questions.find(q => q.id === questionId);
+    const timing = this.timingFor(questionId);
+    if (question && questionKind(question) !== 'short-answer' && previous !== undefined && previous !== null
+      && JSON.stringify(previous) !== JSON.stringify(back)) {
+      timing.changes++;
+    }
+    timing.answeredAt = Date.now();
     this.answers[questionId] = back;
   }
 
   nextQuestion() {
     this.stopTimer();
     if (this.currentIndex < this.questions.length - 1) {
+      this.endVisit();
+      this.saveExamProgress();
       this.currentIndex++;
+      this.beginVisit();
       eventBus.emit('quiz:question-changed', this.getCurrentQuestion());
       if (this.timeLimit > 0) {
         this.startTimer();
@@ -116,7 +181,10 @@ export class QuizModel {
     // Let's just restart timer for the previous question to be fair (or harsh).
     this.stopTimer();
     if (this.currentIndex > 0) {
+      this.endVisit();
+      this.saveExamProgress();
       this.currentIndex--;
+      this.beginVisit();
       eventBus.emit('quiz:question-changed', this.getCurrentQuestion());
       if (this.timeLimit > 0) {
         this.startTimer();
@@ -127,20 +195,24 @@ export class QuizModel {
   }
 
   async submitQuiz(topic?: string) {
+    if (this.exam) return this.finishExamSection();
     this.stopTimer();
+    this.endVisit();
     const quizTopic = topic || this.currentTopic || 'General';
     let score = 0;
     const results = this.questions.map(q => {
-      const userAnswer = this.answers[q.id];
-      const isCorrect = userAnswer === q.correctAnswer;
+      const answer = this.answers[q.id];
+      const isCorrect = gradeAnswer(q, answer);
       if (isCorrect) score++;
       return {
         cardId: q.id || q.cardId,
         question: q.question,
-        userAnswer,
+        answer,
+        userAnswer: answer === null || answer === undefined ? answer : formatAnswer(q, answer),
         correctAnswer: q.correctAnswer,
         correct: isCorrect,
-        expected: q.correctAnswer || q.expected // Ensure expected is passed for UI
+        expected: q.correctAnswer || q.expected, // Ensure expected is passed for UI
+        timing: this.timings[q.id]
       };
     });
 
@@ -151,13 +223,14 @@ export class QuizModel {
       results,
       timestamp: Date.now(),
       questions: [...this.questions],
-      timeLimit: this.timeLimit
+      timeLimit: this.timeLimit,
+      timeSpent: Object.values(this.timings).reduce((sum, timing) => sum + timing.timeMs, 0)
     };
 
     try {
       // Use hybrid submitQuiz method
       // We pass the full result object, apiService handles adaptation for GraphQL
-      const response = await apiService.submitQuiz(quizResult.id || this.currentTopic, quizResult);
+      const response = await apiService.submitQuiz(this.quizId || this.currentTopic, quizResult);
 
       if (response && (response.id || response.quizId)) {
         quizResult.id = response.id || response.quizId; // Add ID from server
@@ -178,6 +251,123 @@ export class QuizModel {
     return quizResult;
   }
 
+  async startExam(quizId: string) {
+    const view = await apiService.startExam(quizId);
+    localStorage.setItem(EXAM_ATTEMPT_KEY, view.id);
+    this.loadExamSection(view);
+  }
+
+  // Pick up the exam attempt that was in progress before a reload
+  async resumeExam() {
+    const attemptId = localStorage.getItem(EXAM_ATTEMPT_KEY);
+    if (!attemptId) return false;
+    try {
+      const view = await apiService.getExamAttempt(attemptId);
+      if (view?.status === 'in-progress') {
+        this.loadExamSection(view);
+        return true;
+      }
+    } catch (error) {
+      console.warn('Could not resume exam:', error);
+    }
+    localStorage.removeItem(EXAM_ATTEMPT_KEY);
+    return false;
+  }
+
+  // Show the open section; the learner sees no grades until the exam is submitted
+  loadExamSection(view) {
+    const section = view.sections[view.currentSection];
+    this.stopTimer();
+    this.exam = {
+      attemptId: view.id,
+      sectionIndex: view.currentSection,
+      sectionCount: view.sections.length,
+      title: section?.title || '',
+      deadline: view.remainingSeconds === null ? null : Date.now() + view.remainingSeconds * 1000
+    };
+    this.questions = view.questions;
+    this.mode = 'exam';
+    this.currentIndex = 0;
+    this.answers = { ...view.answers };
+    this.timings = {};
+    this.currentTopic = view.topic;
+    this.quizId = view.quizId;
+    this.timeLimit = view.remainingSeconds ?? 0;
+    this.beginVisit();
+
+    eventBus.emit('quiz:started', this.getCurrentQuestion());
+    if (this.timeLimit > 0) {
+      this.startTimer();
+    }
+  }
+
+  examAnswers() {
+    return Object.entries(this.answers)
+      .filter(([, answer]) => answer !== null && answer !== undefined)
+      .map(([questionId, answer]) => ({ questionId, answer }));
+  }
+
+  // Save answers as the learner moves between questions, so a reload loses nothing
+  saveExamProgress() {
+    const answers = this.examAnswers();
+    if (!this.exam || !answers.length) return;
+    apiService.saveExamAnswers(this.exam.attemptId, answers)
+      .catch(error => console.warn('Failed to save exam answers:', error));
+  }
+
+  // Leave the section for good: the next one opens, or after the last the exam is graded
+  async finishExamSection(): Promise<any> {
+    this.stopTimer();
+    this.endVisit();
+    const { attemptId, sectionIndex, sectionCount } = this.exam;
+    let view = null;
+    try {
+      view = sectionIndex >= sectionCount - 1
+        ? await apiService.submitExam(attemptId, this.examAnswers())
+        : await apiService.nextExamSection(attemptId, this.examAnswers());
+    } catch (error) {
+      // The server may have moved on already when the time ran out; continue from where it is
+      console.warn('Failed to finish exam section:', error);
+      view = await apiService.getExamAttempt(attemptId).catch(() => null);
+    }
+    if (!view) return null;
+    if (view.status === 'submitted') return this.completeExam(view);
+    this.loadExamSection(view);
+    return null;
+  }
+
+  completeExam(view) {
+    this.exam = null;
+    localStorage.removeItem(EXAM_ATTEMPT_KEY);
+    // Results in the order the questions were shown
+    const review = view.review || [];
+    const results = review.map(item => ({
+      cardId: item.id,
+      question: item.question,
+      answer: item.answer,
+      userAnswer: item.answer === null ? item.answer : formatAnswer(item, item.answer),
+      correctAnswer: item.correctAnswer,
+      correct: !!item.grade?.correct,
+      expected: item.correctAnswer
+    }));
+
+    const quizResult = {
+      id: view.quizId,
+      score: view.result?.score ?? 0,
+      total: view.result?.total ?? results.length,
+      topic: view.topic,
+      results,
+      timestamp: view.submittedAt || Date.now(),
+      questions: review,
+      timeLimit: 0
+    };
+    this.history.unshift(quizResult);
+    this.history = this.history.slice(0, 10);
+    eventBus.emit('quiz:completed', quizResult);
+    eventBus.emit('quiz:history-updated', this.history);
+    return quizResult;
+  }
+
   async loadHistory() {
     try {
       const data = await apiService.get('/quiz/history');
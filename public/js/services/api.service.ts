@@ -1,8 +1,11 @@
-import { graphqlService } from './graphql.service';
+import { graphqlService, type QuestionTiming } from './graphql.service';
 import { cacheService } from './cache.service';
 import { configService } from './ConfigService';
 
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// The largest page the list endpoints serve
+const LIST_PAGE_SIZE = 100;
 type RequestOptions = {
   method?: HttpMethod;
   headers?: Record<string, string>;
@@ -26,6 +29,7 @@ type QuizSummary = {
   topic: string;
   questionCount: number;
   source: string;
+  mode?: string;
   createdAt: string | number;
 };
 
@@ -39,6 +43,37 @@ type QuizDetail = {
 
 type QuizHistoryEntry = { quizId: string; score: number; total: number; timestamp: string | number };
 
+type ExamAnswer = { questionId: string; answer: string | string[] };
+
+/** An exam attempt as the server shows it: the open section's questions, and a review once submitted. */
+export type ExamAttemptView = {
+  id: string;
+  quizId: string;
+  topic: string;
+  status: 'in-progress' | 'submitted';
+  startedAt: number;
+  submittedAt?: number;
+  sections: Array<{ id: string; title: string; timeLimitSeconds: number; questionCount: number; status: 'pending' | 'open' | 'closed' }>;
+  currentSection: number | null;
+  questions: Array<{ id: string; kind: string; question: string; options: string[] }>;
+  answers: Record<string, string | string[]>;
+  remainingSeconds: number | null;
+  result?: { score: number; total: number; credit: number; percentage: number; lateAnswers: string[] };
+  review?: Array<{
+    id: string;
+    kind: string;
+    question: string;
+    options: string[];
+    sectionId: string;
+    answer: string | string[] | null;
+    correctAnswer: string;
+    correctAnswers?: string[];
+    explanation?: string;
+    grade: { correct: boolean; credit: number; method: string; explanation: string } | null;
+    late: boolean;
+  }>;
+};
+
 type JobStatus = {
   id: string;
   status: string;
@@ -47,6 +82,10 @@ type JobStatus = {
   error?: string | null;
 };
 
+type GenerationStage = 'searching' | 'scraping' | 'generating' | 'validating';
+
+type StreamedCard = { id: string; front: string; back: string; topic: string; kind?: string };
+
 type CreateQuizParams = {
   topic?: string;
   count?: number;
@@ -154,6 +193,24 @@ export class ApiService {
     return this.request(endpoint, { method: 'GET' });
   }
 
+  /**
+   * GET every page of a paged list endpoint, following pageInfo.endCursor,
+   * and answer with all the items under `key` in the last page's response.
+   */
+  async getAllPages(endpoint: string, key: string) {
+    const items: unknown[] = [];
+    let after: string | null = null;
+    let page: any;
+    do {
+      const query = new URLSearchParams({ first: String(LIST_PAGE_SIZE) });
+      if (after) query.set('after', after);
+      page = await this.get(`${endpoint}?${query}`);
+      items.push(...(page?.[key] ?? []));
+      after = page?.pageInfo?.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (after);
+    return { ...page, [key]: items };
+  }
+
   isAuthenticated() {
     return !!localStorage.getItem('authToken');
   }
@@ -271,10 +328,10 @@ export class ApiService {
         result = await graphqlService.getDecks();
       } catch (error) {
         console.warn('[API] GraphQL getDecks failed, falling back to REST', error);
-        result = await this.get('/decks');
+        result = await this.getAllPages('/decks', 'history');
       }
     } else {
-      result = await this.get('/decks');
+      result = await this.getAllPages('/decks', 'history');
     }
 
     if (result && result.history) {
@@ -319,10 +376,10 @@ export class ApiService {
         result = await graphqlService.getQuizHistory();
       } catch (error) {
         console.warn('[API] GraphQL getQuizHistory failed, falling back to REST', error);
-        result = await this.get('/quiz/history') as QuizHistoryEntry[];
+        result = await this.getAllPages('/quiz/history', 'quizzes') as QuizHistoryEntry[];
       }
     } else {
-      result = await this.get('/quiz/history') as QuizHistoryEntry[];
+      result = await this.getAllPages('/quiz/history', 'quizzes') as QuizHistoryEntry[];
     }
 
     await cacheService.set(cacheKey, result);
@@ -344,10 +401,10 @@ export class ApiService {
         result = { success: true, quizzes };
       } catch (error) {
         console.warn('[API] GraphQL getAllQuizzes failed, falling back to REST', error);
-        result = await this.get('/quiz/list/all') as { success: boolean; quizzes: QuizSummary[] };
+        result = await this.getAllPages('/quiz/list/all', 'quizzes') as { success: boolean; quizzes: QuizSummary[] };
       }
     } else {
-      result = await this.get('/quiz/list/all') as { success: boolean; quizzes: QuizSummary[] };
+      result = await this.getAllPages('/quiz/list/all', 'quizzes') as { success: boolean; quizzes: QuizSummary[] };
     }
 
     await cacheService.set(cacheKey, result);
@@ -435,13 +492,13 @@ export class ApiService {
    * Submit quiz - supports both REST and GraphQL
    * Handles the difference between server-side scoring (GraphQL) and client-side (REST legacy)
    */
-  async submitQuiz(quizId: string, data: { answers?: Record<string, string> | Array<{ questionId: string; answer: string }>; results?: Array<{ cardId?: string; id?: string; userAnswer: string }> }) {
+  async submitQuiz(quizId: string, data: { answers?: Record<string, string> | Array<{ questionId: string; answer: string }>; results?: Array<{ cardId?: string; id?: string; answer?: string | string[]; userAnswer: string; timing?: QuestionTiming }> }) {
     const result = await this._submitQuizInternal(quizId, data);
     await cacheService.invalidatePattern('quiz-history');
     return result;
   }
 
-  private async _submitQuizInternal(quizId: string, data: { answers?: Record<string, string> | Array<{ questionId: string; answer: string }>; results?: Array<{ cardId?: string; id?: string; userAnswer: string }> }) {
+  private async _submitQuizInternal(quizId: string, data: { answers?: Record<string, string> | Array<{ questionId: string; answer: string }>; results?: Array<{ cardId?: string; id?: string; answer?: string | string[]; userAnswer: string; timing?: QuestionTiming }> }) {
     if (this.useGraphQL) {
       try {
         // GraphQL expects answers array: { questionId, answer }
@@ -449,7 +506,7 @@ export class ApiService {
         // We need to extract answers if possible, or change caller.
 
         // If data has 'answers' map/record, convert to array
-        let answers: Array<{ questionId: string; answer: string }> = [];
+        let answers: Array<{ questionId: string; answer: string | string[]; timing?: QuestionTiming }> = [];
         if (data.answers && !Array.isArray(data.answers)) {
           answers = Object.entries(data.answers).map(([qId, ans]) => ({
             questionId: qId,
@@ -463,7 +520,8 @@ export class ApiService {
             .filter(r => r.cardId || r.id)
             .map(r => ({
               questionId: (r.cardId || r.id) as string, // Use cardId or id as questionId
-              answer: r.userAnswer
+              answer: r.answer ?? r.userAnswer,
+              ...(r.timing ? { timing: r.timing } : {})
             }));
         }
 
@@ -482,6 +540,36 @@ export class ApiService {
     return this.post('/quiz/history', data);
   }
 
+  // Exams are REST-only: the server keeps their deadlines and locks finished sections
+
+  async startExam(quizId: string): Promise<ExamAttemptView> {
+    const response = await this.post(`/quiz/exam/${quizId}/attempts`, {});
+    return response.data;
+  }
+
+  async getExamAttempt(attemptId: string): Promise<ExamAttemptView> {
+    const response = await this.get(`/quiz/exam/attempts/${attemptId}`);
+    return response.data;
+  }
+
+  async saveExamAnswers(attemptId: string, answers: ExamAnswer[]): Promise<ExamAttemptView> {
+    const response = await this.request(`/quiz/exam/attempts/${attemptId}/answers`, {
+      method: 'PUT',
+      body: JSON.stringify({ answers }),
+    });
+    return response.data;
+  }
+
+  async nextExamSection(attemptId: string, answers: ExamAnswer[]): Promise<ExamAttemptView> {
+    const response = await this.post(`/quiz/exam/attempts/${attemptId}/next-section`, { answers });
+    return response.data;
+  }
+
+  async submitExam(attemptId: string, answers: ExamAnswer[]): Promise<ExamAttemptView> {
+    const response = await this.post(`/quiz/exam/attempts/${attemptId}/submit`, { answers });
+    return response.data;
+  }
+
   /**
    * Generate flashcards - supports both REST and GraphQL
    */
@@ -530,6 +618,56 @@ export class ApiService {
     return this.post('/generate', params);
   }
 
+  /**
+   * Generate over Server-Sent Events: cards arrive through `onCard` as the model
+   * writes them and the promise resolves with the final result (`done` event).
+   * Uses fetch rather than EventSource so the auth header can be sent.
+   */
+  async streamFlashcards(
+    params: { topic: string; count: number; mode?: string; knowledgeSource?: string; parentTopic?: string; llmConfig?: any },
+    handlers: { onStage?: (stage: GenerationStage, step: string) => void; onCard?: (card: StreamedCard) => void } = {}
+  ): Promise<{ cards: StreamedCard[]; recommendedTopics?: string[] }> {
+    const response = await fetch(`${this.baseUrl}/generate/stream`, {
+      method: 'POST',
+      headers: { ...this.authHeaders(), 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      body: JSON.stringify({ ...params, runtime: 'ollama' })
+    });
+    if (!response.ok || !response.body) {
+      if (response.status === 401) {
+        throw new Error('Unauthorized: Session expired, please log in again');
+      }
+      throw new Error(`API Error: ${response.statusText}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Events are separated by a blank line; comments (": ping") carry no data
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const event = frame.match(/^event: (.*)$/m)?.[1];
+        const data = frame.match(/^data: (.*)$/m)?.[1];
+        if (!event || data === undefined) continue;
+
+        const payload = JSON.parse(data);
+        if (event === 'stage') handlers.onStage?.(payload.stage, payload.step);
+        else if (event === 'card') handlers.onCard?.(payload.card);
+        else if (event === 'done') return payload;
+        else if (event === 'error') throw new Error(payload.message || 'Generation failed');
+      }
+
+      if (done) break;
+    }
+    throw new Error('Generation stream ended unexpectedly');
+  }
+
   async generateFlashcardsFromText(
     text: string,
     topic: string,
@@ -638,6 +776,10 @@ export class ApiService {
         throw new Error(lastStatus?.error || 'Job failed to complete');
       }
 
+      if (status === 'cancelled') {
+        throw new Error('Job was cancelled');
+      }
+
       if (status === 'not_found') {
         throw new Error('Job not found');
       }
@@ -1,5 +1,55 @@
 import { GraphQLClient } from 'graphql-request';
 
+type QuestionKind = 'multiple-choice' | 'multiple-select' | 'true-false' | 'ordering' | 'short-answer';
+
+/** A quiz question in the flat shape the quiz views use, whatever its kind. */
+export type QuizQuestionData = {
+  id: string;
+  kind: QuestionKind;
+  question: string;
+  options: string[];
+  correctAnswer: string;
+  correctAnswers?: string[];
+  acceptedAnswers?: string[];
+  explanation?: string | null;
+};
+
+/** Time spent on one question, in milliseconds. */
+export type QuestionTiming = {
+  startedAt?: number;
+  answeredAt?: number;
+  timeMs: number;
+  changes?: number;
+  timedOut?: boolean;
+};
+
+// `QuizQuestion` is a union; every member type needs its own fragment
+const QUIZ_QUESTION_FIELDS = `
+  __typename
+  ... on MultipleChoiceQuestion { id kind question options correctAnswer explanation }
+  ... on MultipleSelectQuestion { id kind question options correctAnswers explanation }
+  ... on TrueFalseQuestion { id kind question isTrue explanation }
+  ... on OrderingQuestion { id kind question items correctOrder explanation }
+  ... on ShortAnswerQuestion { id kind question correctAnswer acceptedAnswers explanation }
+`;
+
+function flattenQuestion(question: any): QuizQuestionData {
+  const kind = String(question.kind).toLowerCase().replace('_', '-') as QuestionKind;
+  const base = { id: question.id, kind, question: question.question, explanation: question.explanation };
+  switch (kind) {
+    case 'multiple-select':
+      return { ...base, options: question.options, correctAnswers: question.correctAnswers, correctAnswer: question.correctAnswers.join(', ') };
+    case 'true-false':
+      return { ...base, options: ['True', 'False'], correctAnswer: question.isTrue ? 'True' : 'False' };
+    case 'ordering':
+      return { ...base, options: question.items, correctAnswers: question.correctOrder, correctAnswer: question.correctOrder.join(' → ') };
+    case 'short-answer':
+      return { ...base, options: [], correctAnswer: question.correctAnswer, acceptedAnswers: question.acceptedAnswers };
+    default:
+      return { ...base, options: question.options, correctAnswer: question.correctAnswer };
+  }
+}
+
 /**
  * GraphQL Service for making GraphQL queries and mutations
  * Uses graphql-request for lightweight client-side GraphQL
@@ -87,21 +137,25 @@ class GraphQLService {
   }[]> {
     const query = `
       query {
-        decks {
-          id
-          topic
-          cards {
-            id
-            front
-            back
-            topic
+        decks(first: 100) {
+          edges {
+            node {
+              id
+              topic
+              cards {
+                id
+                front
+                back
+                topic
+              }
+              timestamp
+            }
           }
-          timestamp
         }
       }
     `;
-    const result = await this.query<{ decks: { id: string; topic: string; cards: { id: string; front: string; back: string; topic: string }[]; timestamp: string }[] }>(query);
-    return result.decks;
+    const result = await this.query<{ decks: { edges: { node: { id: string; topic: string; cards: { id: string; front: string; back: string; topic: string }[]; timestamp: string } }[] } }>(query);
+    return result.decks.edges.map(edge => edge.node);
   }
 
   /**
@@ -181,7 +235,7 @@ class GraphQLService {
   async getQuiz(id: string): Promise<{
     id: string;
     topic: string;
-    questions: { id: string; question: string; options: string[]; correctAnswer: string; explanation?: string | null }[];
+    questions: QuizQuestionData[];
     mode: string;
     createdAt: string;
   } | null> {
@@ -191,19 +245,15 @@ class GraphQLService {
           id
           topic
           questions {
-            id
-            question
-            options
-            correctAnswer
-            explanation
+            ${QUIZ_QUESTION_FIELDS}
           }
           mode
           createdAt
         }
       }
     `;
-    const result = await this.query<{ quiz: { id: string; topic: string; questions: { id: string; question: string; options: string[]; correctAnswer: string; explanation?: string | null }[]; mode: string; createdAt: string } | null }>(query, { id });
-    return result.quiz;
+    const result = await this.query<{ quiz: { id: string; topic: string; questions: unknown[]; mode: string; createdAt: string } | null }>(query, { id });
+    return result.quiz && { ...result.quiz, questions: result.quiz.questions.map(flattenQuestion) };
   }
 
   /**
@@ -212,52 +262,58 @@ class GraphQLService {
   async getQuizHistory(): Promise<{ quizId: string; score: number; total: number; timestamp: string }[]> {
     const query = `
       query {
-        quizHistory {
-          quizId
-          score
-          total
-          timestamp
+        quizHistory(first: 100) {
+          edges {
+            node {
+              quizId
+              score
+              total
+              timestamp
+            }
+          }
         }
       }
     `;
-    const result = await this.query<{ quizHistory: { quizId: string; score: number; total: number; timestamp: string }[] }>(query);
-    return result.quizHistory;
+    const result = await this.query<{ quizHistory: { edges: { node: { quizId: string; score: number; total: number; timestamp: string } }[] } }>(query);
+    return result.quizHistory.edges.map(edge => edge.node);
   }
 
   /**
    * Get all quizzes
    */
-  async getAllQuizzes(): Promise<{ id: string; topic: string; questionCount: number; source: string; createdAt: string }[]> {
+  async getAllQuizzes(): Promise<{ id: string; topic: string; questionCount: number; source: string; mode: string; createdAt: string }[]> {
     const query = `
       query {
-        allQuizzes {
-          id
-          topic
-          questions {
-            id
+        allQuizzes(first: 100) {
+          edges {
+            node {
+              id
+              topic
+              questions {
+                __typename
+              }
+              mode
+              createdAt
+            }
           }
-          createdAt
         }
       }
     `;
-    const result = await this.query<{ allQuizzes: { id: string; topic: string; questionCount: number; source: string; createdAt: string }[] }>(query);
-    return result.allQuizzes;
+    const result = await this.query<{ allQuizzes: { edges: { node: { id: string; topic: string; questionCount: number; source: string; mode: string; createdAt: string } }[] } }>(query);
+    return result.allQuizzes.edges.map(edge => edge.node);
   }
 
   /**
    * Create a quiz
    */
-  async createQuiz(input: { topic?: string; cards?: { id: string; front: string; back: string; topic?: string }[]; count?: number }): Promise<{ id: string; topic: string; questionCount: number; source: string; createdAt: string }> {
+  async createQuiz(input: { topic?: string; cards?: { id: string; front: string; back: string; topic?: string }[]; count?: number; kinds?: string[] }): Promise<{ id: string; topic: string; questionCount: number; source: string; createdAt: string }> {
     const mutation = `
       mutation CreateQuiz($input: QuizInput!) {
         createQuiz(input: $input) {
           id
           topic
           questions {
-            id
-            question
-            options
-            correctAnswer
+            ${QUIZ_QUESTION_FIELDS}
           }
         }
       }
@@ -269,18 +325,24 @@ class GraphQLService {
   /**
    * Submit quiz answers
    */
-  async submitQuizAnswers(quizId: string, answers: { questionId: string; answer: string }[]): Promise<{ score: number; total: number; percentage: number; attemptId?: string }> {
+  async submitQuizAnswers(quizId: string, answers: { questionId: string; answer: string | string[]; timing?: QuestionTiming }[]): Promise<{ score: number; total: number; percentage: number; attemptId?: string; timeSpent?: number | null }> {
     const mutation = `
       mutation SubmitQuizAnswer($quizId: ID!, $answers: [QuizAnswerInput!]!) {
         submitQuizAnswer(quizId: $quizId, answers: $answers) {
           quizId
           score
           total
+          timeSpent
           timestamp
         }
       }
     `;
-    const result = await this.mutate<{ submitQuizAnswer: { score: number; total: number; percentage: number; attemptId?: string } }>(mutation, { quizId, answers });
+    // Lists of options go in `choices`
+    const input = answers.map(({ questionId, answer, timing }) => ({
+      ...(Array.isArray(answer) ? { questionId, choices: answer } : { questionId, answer }),
+      ...(timing ? { timing: { startedAt: timing.startedAt, answeredAt: timing.answeredAt, timeMs: timing.timeMs, changes: timing.changes, timedOut: timing.timedOut } } : {})
+    }));
+    const result = await this.mutate<{ submitQuizAnswer: { score: number; total: number; percentage: number; attemptId?: string; timeSpent?: number | null } }>(mutation, { quizId, answers: input });
     return result.submitQuizAnswer;
   }
 
@@ -0,0 +1,66 @@
+// {{c1::answer}} or {{c1::answer::hint}}
+const CLOZE_PATTERN = /\{\{c(\d+)::(.*?)(?:::(.*?))?\}\}/g;
+
+export interface ClozeSource {
+  id: string;
+  front: string;
+  back: string;
+  topic?: string;
+  kind?: 'basic' | 'cloze';
+  clozeIndex?: number;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const match of (text || '').matchAll(CLOZE_PATTERN)) {
+    indices.add(Number(match[1]));
+  }
+  return Array.from(indices).sort((a, b) => a - b);
+}
+
+export function revealCloze(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_m, _n: string, answer: string) => answer);
+}
+
+/**
+ * Expand cloze cards into one study item per deletion; basic cards pass through.
+ * Item ids (`<cardId>::c1`) match the ones the server schedules reviews under.
+ */
+export function expandClozeCards<T extends ClozeSource>(cards: T[]): T[] {
+  return cards.flatMap(card => {
+    if (card.kind !== 'cloze' || card.clozeIndex !== undefined) return [card];
+    const indices = getClozeIndices(card.front);
+    if (indices.length === 0) return [card];
+    return indices.map(index => ({ ...card, id: `${card.id}::c${index}`, clozeIndex: index }));
+  });
+}
+
+/**
+ * HTML for the question side: the active deletion is blanked (or shows its hint).
+ */
+export function renderClozeFront(text: string, index: number): string {
+  return escapeHtml(text).replace(CLOZE_PATTERN, (_m, n: string, answer: string, hint?: string) =>
+    Number(n) === index
+      ? `<span class="cloze-blank text-indigo-500">[${hint || '...'}]</span>`
+      : answer
+  );
+}
+
+/**
+ * HTML for the answer side: the full sentence with the active deletion highlighted.
+ */
+export function renderClozeBack(text: string, index: number): string {
+  return escapeHtml(text).replace(CLOZE_PATTERN, (_m, n: string, answer: string) =>
+    Number(n) === index
+      ? `<span class="cloze-answer font-bold text-indigo-600">${answer}</span>`
+      : answer
+  );
+}
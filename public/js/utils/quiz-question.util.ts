@@ -0,0 +1,71 @@
+// Mirrors src/utils/quizQuestions.ts so answers are graded the same in the browser
+export type QuestionKind = 'multiple-choice' | 'multiple-select' | 'true-false' | 'ordering' | 'short-answer';
+
+/** One option or typed text, or several options (multiple-select) or every item in order (ordering). */
+export type QuizAnswer = string | readonly string[];
+
+export interface GradableQuestion {
+  kind?: QuestionKind;
+  correctAnswer: string;
+  correctAnswers?: readonly string[];
+  acceptedAnswers?: readonly string[];
+}
+
+export function questionKind(question: { kind?: QuestionKind }): QuestionKind {
+  return question.kind ?? 'multiple-choice';
+}
+
+export function gradeAnswer(question: GradableQuestion, answer: QuizAnswer | null | undefined): boolean {
+  if (answer === null || answer === undefined) return false;
+  switch (questionKind(question)) {
+    case 'multiple-choice':
+      return typeof answer === 'string' && answer.trim() === question.correctAnswer.trim();
+    case 'true-false': {
+      const given = typeof answer === 'string' ? parseTruth(answer) : undefined;
+      return given !== undefined && given === parseTruth(question.correctAnswer);
+    }
+    case 'multiple-select': {
+      const given = new Set(answerList(answer));
+      const expected = new Set((question.correctAnswers ?? []).map(item => item.trim()));
+      return given.size === expected.size && [...given].every(item => expected.has(item));
+    }
+    case 'ordering': {
+      const given = answerList(answer);
+      const expected = question.correctAnswers ?? [];
+      return given.length === expected.length && given.every((item, index) => item === expected[index]!.trim());
+    }
+    case 'short-answer': {
+      const given = typeof answer === 'string' ? normalizeText(answer) : '';
+      return given !== '' && [question.correctAnswer, ...question.acceptedAnswers ?? []].some(accepted => normalizeText(accepted) === given);
+    }
+  }
+}
+
+/** A submitted answer as text, for results and history. */
+export function formatAnswer(question: { kind?: QuestionKind }, answer: QuizAnswer | null | undefined): string {
+  if (answer === null || answer === undefined) return '';
+  if (typeof answer === 'string') return answer;
+  return answer.join(questionKind(question) === 'ordering' ? ' → ' : ', ');
+}
+
+function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(a|an|the) /, '');
+}
+
+function parseTruth(text: string): boolean | undefined {
+  const value = text.trim().toLowerCase();
+  if (['true', 't', 'yes'].includes(value)) return true;
+  if (['false', 'f', 'no'].includes(value)) return false;
+  return undefined;
+}
+
+function answerList(answer: QuizAnswer): string[] {
+  return (typeof answer === 'string' ? [answer] : [...answer]).map(item => item.trim());
+}
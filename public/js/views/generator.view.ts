@@ -421,27 +421,38 @@ NOW create ${count} flashcards about "${topic}" following this EXACT format:`;
         const { ConfigurationService } = await import('../services/ConfigurationService.js');
         const knowledgeSource = ConfigurationService.getKnowledgeSource();
 
-        // Use hybrid method - supports both GraphQL and REST
-        this.updateLoadingProgress(10, 'Queuing backend job...');
+        // Stream cards as they are generated; fall back to the queued job + polling
+        let backendResult: any = null;
+        try {
+          backendResult = await this.generateStreaming(topic, count, knowledgeSource);
+        } catch (streamError) {
+          if (isAuthError(streamError)) throw streamError;
+          console.warn('[Generator] Streaming generation failed, falling back to queued job:', streamError);
+        }
 
-        const data = await apiService.generateFlashcards({
-          topic,
-          count,
-          runtime: 'ollama',
-          knowledgeSource
-        } as any);
-        let backendResult = data;
-
-        if ((!data.cards || data.cards.length === 0) && data.jobId) {
-          backendResult = await apiService.waitForJobResult(data.jobId, {
-            maxWaitMs: 90000, // fail fast: 90s cap
-            pollIntervalMs: 2000,
-            onProgress: (p) => this.updateLoadingProgress(p, 'Waiting for backend to finish...')
-          });
+        if (!backendResult) {
+          // Use hybrid method - supports both GraphQL and REST
+          this.updateLoadingProgress(10, 'Queuing backend job...');
+
+          const data = await apiService.generateFlashcards({
+            topic,
+            count,
+            runtime: 'ollama',
+            knowledgeSource
+          } as any);
+          backendResult = data;
+
+          if ((!data.cards || data.cards.length === 0) && data.jobId) {
+            backendResult = await apiService.waitForJobResult(data.jobId, {
+              maxWaitMs: 90000, // fail fast: 90s cap
+              pollIntervalMs: 2000,
+              onProgress: (p) => this.updateLoadingProgress(p, 'Waiting for backend to finish...')
+            });
+          }
         }
 
         cards = (backendResult?.cards || []);
-        console.log('Received response from backend:', data);
+        console.log('Received response from backend:', backendResult);
 
         // Enforce requested count in case backend over-returns
         if (cards.length > count) {
@@ -587,6 +598,8 @@ NOW create ${count} flashcards about "${topic}" following this EXACT format:`;
       'application/vnd.ms-excel',
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
       'text/plain',
+      'text/csv',
+      'text/tab-separated-values',
       'image/png',
       'image/jpeg',
       'image/jpg',
@@ -601,7 +614,7 @@ NOW create ${count} flashcards about "${topic}" following this EXACT format:`;
         return;
       }
       if (!allowedTypes.has(file.type) && !file.type.startsWith('image/')) {
-        alert(`"${file.name}" is not a supported type. Allowed: PDF, Word, Excel, TXT, and common images.`);
+        alert(`"${file.name}" is not a supported type. Allowed: PDF, Word, Excel, CSV, TXT, and common images.`);
         return;
       }
       this.selectedFiles.push(file);
@@ -865,6 +878,50 @@ NOW create ${count} flashcards about "${topic}" following this EXACT format:`;
     setLoadingText(message, progress);
   }
 
+  /**
+   * Generate over the event stream, previewing each card in the loading modal as it
+   * arrives. The previews are drafts; the resolved result holds the final cards.
+   */
+  private async generateStreaming(topic: string, count: number, knowledgeSource: string) {
+    const stages: Record<string, [number, string]> = {
+      searching: [15, 'Searching the web...'],
+      scraping: [30, 'Reading sources...'],
+      generating: [45, 'Generating flashcards...'],
+      validating: [90, 'Checking card quality...']
+    };
+    let received = 0;
+
+    this.updateLoadingProgress(5, 'Starting generation...');
+    return apiService.streamFlashcards({ topic, count, knowledgeSource }, {
+      onStage: (stage) => {
+        const [progress, message] = stages[stage] ?? [undefined, undefined];
+        this.updateLoadingProgress(progress, message);
+      },
+      onCard: (card) => {
+        received += 1;
+        this.renderStreamedCard(card, received === 1);
+        this.updateLoadingProgress(Math.min(85, 45 + Math.round((received / count) * 40)), `Generated ${Math.min(received, count)} of ${count} cards...`);
+      }
+    });
+  }
+
+  private renderStreamedCard(card: { front: string; back: string }, first: boolean) {
+    const container = document.getElementById('skeleton-container');
+    if (!container) return;
+    if (first) container.innerHTML = '';
+
+    const preview = document.createElement('div');
+    preview.className = 'rounded-lg border border-gray-200 bg-white p-3 text-left text-sm shadow-sm';
+    const front = document.createElement('p');
+    front.className = 'font-medium text-gray-900';
+    front.textContent = card.front;
+    const back = document.createElement('p');
+    back.className = 'mt-1 text-gray-600';
+    back.textContent = card.back;
+    preview.append(front, back);
+    container.appendChild(preview);
+  }
+
   async pollForRecommendations(topic: string) {
     console.log(`[Generator] Polling for recommendations: ${topic}`);
 
@@ -4,6 +4,7 @@ import { eventBus } from '../utils/event-bus.js';
 import { quizModel } from '../models/quiz.model.js';
 import { apiService } from '../services/api.service.js';
 import { showLoading, hideLoading, setLoadingText } from '../utils/loading.util.js';
+import { questionKind } from '../utils/quiz-question.util.js';
 
 export class QuizView extends BaseView {
   constructor() {
@@ -650,22 +651,8 @@ export class QuizView extends BaseView {
 
       const optionsContainer = questionText.querySelector('#quiz-options-container');
 
-      // Render options
-      if (optionsContainer && question.options) {
-        question.options.forEach((option, index) => {
-          const btn = document.createElement('button');
-          const isSelected = quizModel.answers[question.id] === option;
-          btn.className = `w-full text-left p-4 rounded-lg border-2 transition-all ${isSelected
-            ? 'border-indigo-600 bg-indigo-50 text-indigo-700 shadow-md'
-            : 'border-gray-200 hover:border-gray-300 bg-white hover:bg-gray-50'
-            }`;
-          btn.textContent = option;
-          btn.onclick = () => {
-            quizModel.answerQuestion(question.id, option);
-            this.renderQuestion(question); // Re-render to update selection
-          };
-          optionsContainer.appendChild(btn);
-        });
+      if (optionsContainer) {
+        this.renderAnswerInput(question, optionsContainer);
       }
     }
 
@@ -693,6 +680,99 @@ export class QuizView extends BaseView {
     }
   }
 
+  /** Controls for answering the question, by kind; every change is stored on the quiz model. */
+  renderAnswerInput(question, container) {
+    const answer = quizModel.answers[question.id];
+    const optionClass = (isSelected) => `w-full text-left p-4 rounded-lg border-2 transition-all ${isSelected
+      ? 'border-indigo-600 bg-indigo-50 text-indigo-700 shadow-md'
+      : 'border-gray-200 hover:border-gray-300 bg-white hover:bg-gray-50'
+      }`;
+
+    switch (questionKind(question)) {
+      case 'multiple-select': {
+        const selected = Array.isArray(answer) ? answer : [];
+        const hint = document.createElement('p');
+        hint.className = 'text-sm text-gray-500';
+        hint.textContent = 'Select all that apply';
+        container.appendChild(hint);
+        question.options.forEach((option) => {
+          const btn = document.createElement('button');
+          const isSelected = selected.includes(option);
+          btn.className = optionClass(isSelected);
+          btn.setAttribute('aria-pressed', String(isSelected));
+          btn.textContent = `${isSelected ? '☑' : '☐'} ${option}`;
+          btn.onclick = () => {
+            // Keep the options' order so the stored answer reads naturally
+            const next = isSelected ? selected.filter(item => item !== option) : question.options.filter(item => item === option || selected.includes(item));
+            quizModel.answerQuestion(question.id, next);
+            this.renderQuestion(question);
+          };
+          container.appendChild(btn);
+        });
+        break;
+      }
+      case 'ordering': {
+        const order = Array.isArray(answer) ? answer : question.options;
+        const hint = document.createElement('p');
+        hint.className = 'text-sm text-gray-500';
+        hint.textContent = 'Use the arrows to put the items in order';
+        container.appendChild(hint);
+        const list = document.createElement('ol');
+        list.className = 'space-y-2';
+        order.forEach((item, index) => {
+          const row = document.createElement('li');
+          row.className = 'flex items-center gap-3 p-3 rounded-lg border-2 border-gray-200 bg-white';
+          const label = document.createElement('span');
+          label.className = 'flex-1';
+          label.textContent = `${index + 1}. ${item}`;
+          row.appendChild(label);
+          [['↑', 'up', index - 1], ['↓', 'down', index + 1]].forEach(([arrow, direction, target]) => {
+            const btn = document.createElement('button');
+            btn.className = 'px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-40';
+            btn.textContent = arrow;
+            btn.setAttribute('aria-label', `Move ${item} ${direction}`);
+            btn.disabled = target < 0 || target >= order.length;
+            btn.onclick = () => {
+              const next = [...order];
+              [next[index], next[target]] = [next[target], next[index]];
+              quizModel.answerQuestion(question.id, next);
+              this.renderQuestion(question);
+            };
+            row.appendChild(btn);
+          });
+          list.appendChild(row);
+        });
+        container.appendChild(list);
+        break;
+      }
+      case 'short-answer': {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.className = 'w-full p-4 rounded-lg border-2 border-gray-200 focus:border-indigo-600 focus:outline-none';
+        input.placeholder = 'Type your answer';
+        input.setAttribute('aria-label', 'Your answer');
+        input.value = typeof answer === 'string' ? answer : '';
+        // No re-render while typing, so the input keeps focus
+        input.oninput = () => quizModel.answerQuestion(question.id, input.value);
+        container.appendChild(input);
+        break;
+      }
+      default: {
+        // Multiple choice, and true/false with its two options
+        (question.options || []).forEach((option) => {
+          const btn = document.createElement('button');
+          btn.className = optionClass(answer === option);
+          btn.textContent = option;
+          btn.onclick = () => {
+            quizModel.answerQuestion(question.id, option);
+            this.renderQuestion(question); // Re-render to update selection
+          };
+          container.appendChild(btn);
+        });
+      }
+    }
+  }
+
   renderHistory(history) {
     if (!this.elements.historyList) return;
 
@@ -1,7 +1,9 @@
 import { BaseView } from './base.view.js';
 import { eventBus } from '../utils/event-bus.js';
 import { deckModel } from '../models/deck.model.js';
+import type { Flashcard } from '../models/deck.model.js';
 import { studyPlanService } from '../services/study-plan.service.js';
+import { renderClozeBack, renderClozeFront, revealCloze } from '../utils/cloze.util.js';
 
 export class StudyView extends BaseView {
   constructor() {
@@ -105,13 +107,25 @@ export class StudyView extends BaseView {
     // Use 'card' class to trigger new 3D styles
     cardEl.className = 'card w-full h-96 relative';
 
+    const isCloze = card.kind === 'cloze' && typeof card.clozeIndex === 'number';
+    const frontLabel = isCloze ? 'Fill in the blank' : 'Question';
+    const frontHtml = isCloze ? renderClozeFront(card.front, card.clozeIndex) : card.front;
+    let backHtml = card.back;
+    if (isCloze) {
+      backHtml = renderClozeBack(card.front, card.clozeIndex);
+      if (card.back && card.back !== revealCloze(card.front)) {
+        backHtml += `<div class="text-base text-gray-500 mt-4">${this.escapeHtml(card.back)}</div>`;
+      }
+    }
+    const sourceLabel = this.sourceLabel(card);
+
     cardEl.innerHTML = `
       <div class="card-inner w-full h-full relative">
         
         <!-- Front (Question) -->
         <div class="card-front flex flex-col items-center justify-center p-8">
-          <div class="text-xs uppercase tracking-widest text-gray-400 mb-4 font-semibold">Question</div>
-          <div class="text-3xl font-bold text-gray-800 text-center leading-tight whitespace-pre-line">${card.front}</div>
+          <div class="text-xs uppercase tracking-widest text-gray-400 mb-4 font-semibold">${frontLabel}</div>
+          <div class="text-3xl font-bold text-gray-800 text-center leading-tight whitespace-pre-line">${frontHtml}</div>
           <div class="absolute bottom-6 text-indigo-400 text-sm flex items-center gap-2 animate-pulse-slow">
             <span class="material-icons text-sm">touch_app</span> Tap to flip
           </div>
@@ -120,7 +134,8 @@ export class StudyView extends BaseView {
         <!-- Back (Answer) -->
         <div class="card-back flex flex-col items-center justify-center p-8 overflow-y-auto">
           <div class="text-xs uppercase tracking-widest text-indigo-400 mb-4 font-semibold">Answer</div>
-          <div class="text-xl font-medium text-gray-700 text-center leading-relaxed whitespace-pre-line">${card.back}</div>
+          <div class="text-xl font-medium text-gray-700 text-center leading-relaxed whitespace-pre-line">${backHtml}</div>
+          ${sourceLabel ? `<div class="card-source text-xs text-gray-400 mt-4 flex items-center gap-1"><span class="material-icons text-xs">description</span>${sourceLabel}</div>` : ''}
         </div>
       </div>
     `;
@@ -135,6 +150,20 @@ export class StudyView extends BaseView {
     this.elements.stack.appendChild(cardEl);
   }
 
+  /** "notes.pdf · p. 12" for cards generated from an uploaded document. */
+  private sourceLabel(card: Flashcard): string {
+    const { filename, page } = card.source || {};
+    if (!filename && page === undefined) return '';
+    const parts = [filename ? this.escapeHtml(filename) : '', page !== undefined ? `p. ${page}` : ''];
+    return parts.filter(Boolean).join(' · ');
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
   flipCard() {
     const cardInner = document.querySelector('.card-inner');
     if (cardInner) {
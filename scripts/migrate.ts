@@ -0,0 +1,54 @@
+// Move the local SQLite database between schema versions
+import 'dotenv/config';
+import { LocalDbService } from '../src/core/services/LocalDbService.js';
+
+const USAGE = `Usage: npx tsx scripts/migrate.ts <command> [version] [--db <path>]
+
+Commands:
+  status              List migrations and whether they are applied
+  migrate [version]   Apply pending migrations, up to the latest by default
+  rollback [version]  Revert migrations, one step by default
+
+The database defaults to .data/local.db.`;
+
+async function main(args: string[]) {
+    const dbFlag = args.indexOf('--db');
+    const dbPath = dbFlag >= 0 ? args.splice(dbFlag, 2)[1] : undefined;
+    const [command, version] = args;
+    const target = version === undefined ? undefined : Number(version);
+    if (!command || !['status', 'migrate', 'rollback'].includes(command) || (target !== undefined && !Number.isInteger(target))) {
+        console.error(USAGE);
+        process.exit(1);
+    }
+
+    const db = new LocalDbService(dbPath, { migrate: false });
+    await db.initialize();
+
+    const { data, error } = command === 'migrate'
+        ? await db.migrateSchema(target)
+        : command === 'rollback'
+            ? await db.rollbackSchema(target)
+            : { data: [], error: null };
+    if (error) {
+        console.error(`❌ ${error}`);
+        process.exit(1);
+    }
+    for (const migration of data) {
+        console.log(`${command === 'migrate' ? '⬆️  Applied' : '⬇️  Reverted'} ${migration.version} ${migration.name}`);
+    }
+
+    const status = await db.getSchemaStatus();
+    if (status.error) {
+        console.error(`❌ ${status.error}`);
+        process.exit(1);
+    }
+    for (const migration of status.data) {
+        const applied = migration.appliedAt ? `applied ${new Date(migration.appliedAt).toISOString()}` : 'pending';
+        console.log(`${String(migration.version).padStart(4)}  ${migration.name.padEnd(24)} ${applied}`);
+    }
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
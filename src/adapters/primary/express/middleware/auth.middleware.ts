@@ -43,3 +43,35 @@ export async function authMiddleware(req: Request, res: Response, next: NextFunc
         res.status(401).json({ error: 'Invalid or expired token' });
     }
 }
+
+/**
+ * Restrict a route to operators (see AuthService.isAdmin). Must run after authMiddleware.
+ */
+export function adminMiddleware(req: Request, res: Response, next: NextFunction): void {
+    if (!AuthService.getInstance().isAdmin((req as any).user)) {
+        res.status(403).json({ error: 'Admin access required' });
+        return;
+    }
+    next();
+}
+
+/**
+ * Attach the user when a valid token is present, but never reject the request.
+ * Used by endpoints that personalise results for signed-in users and still work anonymously.
+ */
+export async function optionalAuthMiddleware(req: Request, _res: Response, next: NextFunction): Promise<void> {
+    const authHeader = req.headers.authorization;
+    if (!authHeader) {
+        next();
+        return;
+    }
+
+    try {
+        const token = authHeader.replace('Bearer ', '');
+        const payload = await AuthService.getInstance().decryptToken(token);
+        (req as any).user = payload;
+    } catch {
+        // Invalid tokens are treated as anonymous
+    }
+    next();
+}
@@ -89,6 +89,7 @@ export const ErrorCodes = {
     UNAUTHORIZED: 'UNAUTHORIZED',
     FORBIDDEN: 'FORBIDDEN',
     NOT_FOUND: 'NOT_FOUND',
+    CONFLICT: 'CONFLICT',
     RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
     FILE_TOO_LARGE: 'FILE_TOO_LARGE',
     UNSUPPORTED_FILE_TYPE: 'UNSUPPORTED_FILE_TYPE',
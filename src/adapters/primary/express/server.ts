@@ -16,19 +16,24 @@ import { expressMiddleware as apolloExpressMiddleware } from '@apollo/server/exp
 import { makeExecutableSchema } from '@graphql-tools/schema';
 import { AuthService } from '../../../core/services/AuthService.js';
 import { apiRateLimiter, authRateLimiter } from './middleware/rateLimit.middleware.js';
-import { authMiddleware } from './middleware/auth.middleware.js';
+import { adminMiddleware, authMiddleware, optionalAuthMiddleware } from './middleware/auth.middleware.js';
 import { requestIdMiddleware, requestLoggingMiddleware } from './middleware/logging.js';
 import { asyncHandler } from './middleware/async-handler.js';
 import { sendError, sendSuccess, ErrorCodes } from './response-helpers.js';
-import { isValidGenerateBody, isValidQuizBody } from './validators.js';
+import { isValidAdaptiveQuizBody, isValidCardBody, isValidExamAnswers, isValidExamBody, isValidGenerateBody, isValidQuestionKinds, isValidQuizAnswers, isValidQuizBody } from './validators.js';
 import { typeDefs } from '../../../graphql/schema.js';
 import { resolvers } from '../../../graphql/resolvers/index.js';
 import { createContext } from '../../../graphql/context.js';
 import type { StudyUseCase } from '../../../core/ports/interfaces.js';
-import type { QueueService } from '../../../core/services/QueueService.js';
+import type { DeadLetterFilter, QueueService } from '../../../core/services/QueueService.js';
 import type { FlashcardCacheService } from '../../../core/services/FlashcardCacheService.js';
 import type { WebLLMService } from '../../../core/services/WebLLMService.js';
-import type { QuizStorageService } from '../../../core/services/QuizStorageService.js';
+import type { QuizListQuery, QuizSortKey, QuizStorageService } from '../../../core/services/QuizStorageService.js';
+import { AdaptiveQuizError } from '../../../core/services/AdaptiveQuizService.js';
+import type { AdaptiveQuizService } from '../../../core/services/AdaptiveQuizService.js';
+import { ExamError, hideExamQuestions } from '../../../core/services/ExamService.js';
+import type { ExamService } from '../../../core/services/ExamService.js';
+import { GENERATED_BY } from '../../../core/services/FlashcardStorageService.js';
 import type { FlashcardStorageService } from '../../../core/services/FlashcardStorageService.js';
 import type { RedisService } from '../../../core/services/RedisService.js';
 import { SupabaseService } from '../../../core/services/SupabaseService.js';
@@ -36,7 +41,16 @@ import type { LocalDbService } from '../../../core/services/LocalDbService.js';
 import type { UpstashVectorService } from '../../../core/services/UpstashVectorService.js';
 import type { InMemoryVectorService } from '../../../core/services/InMemoryVectorService.js';
 import type { BlobStorageService } from '../../../core/services/BlobStorageService.js';
+import { ANONYMOUS_USER_ID, gradeFromSwipe, isReviewGrade } from '../../../core/services/SpacedRepetitionService.js';
+import type { SpacedRepetitionService } from '../../../core/services/SpacedRepetitionService.js';
 import { logger } from '../../../core/services/LoggerService.js';
+import { QUESTION_KINDS, normalizeQuestionTiming } from '../../../utils/quizQuestions.js';
+import { CardQueryError } from '../../../utils/cardQuery.js';
+import type { CardQueryContext } from '../../../utils/cardQuery.js';
+import { PaginationError, deckLastStudied } from '../../../utils/pagination.js';
+import type { DeckSortKey, PageInfo, SortOrder } from '../../../utils/pagination.js';
+import { deckSerializers } from '../../../core/serializers/DeckSerializerRegistry.js';
+import { DeckSerializationError } from '../../../core/serializers/DeckSerializer.js';
 import { appProperties } from '../../../config/properties.js';
 import { ensureSupportedFileType } from '../../../utils/fileType.js';
 
@@ -46,6 +60,85 @@ const MAX_UPLOAD_BYTES_TEST = appProperties.TEST_MAX_UPLOAD_MB * 1024 * 1024;
 const isTestAuth = (req: express.Request): boolean =>
   (req.headers['x-test-auth'] === 'true');
 
+/** The signed-in user's id; undefined for anonymous requests. */
+const signedInUserId = (req: express.Request): string | undefined => {
+  const user = (req as { user?: { id?: string; sub?: string } }).user;
+  return user?.id || user?.sub || undefined;
+};
+
+const requestUserId = (req: express.Request): string => signedInUserId(req) || ANONYMOUS_USER_ID;
+
+/** Judged grading calls the model once per short answer, so judged submissions share the API rate limit. */
+const judgedRateLimiter: express.RequestHandler = (req, res, next) =>
+  req.body?.judge === true ? apiRateLimiter(req, res, next) : next();
+
+/** Dead-letter filter from query or body fields; null when `failedSince` is not a valid date. */
+const parseDeadLetterFilter = (source: Record<string, unknown> = {}): DeadLetterFilter | null => {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  const filter: DeadLetterFilter = {};
+  const topic = text(source.topic);
+  const userId = text(source.userId);
+  const reason = text(source.reason);
+  const failedSince = text(source.failedSince);
+  if (topic) filter.topic = topic;
+  if (userId) filter.userId = userId;
+  if (reason) filter.reason = reason;
+  if (failedSince) {
+    const date = new Date(failedSince);
+    if (Number.isNaN(date.getTime())) return null;
+    filter.failedSince = date;
+  }
+  return filter;
+};
+
+/**
+ * Paging, sorting and filters shared by list endpoints:
+ * `?first=&after=&sortBy=&order=&topic=`. Sort keys are checked by the store.
+ */
+const parseListQuery = <K extends string>(source: Record<string, unknown> = {}) => {
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+  const time = (name: string) => {
+    const value = text(source[name]);
+    if (value === undefined) return undefined;
+    const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    if (Number.isNaN(parsed)) throw new PaginationError(`${name} must be a date or a timestamp in milliseconds`);
+    return parsed;
+  };
+  const first = text(source.first);
+  const order = text(source.order);
+  if (order !== undefined && order !== 'asc' && order !== 'desc') {
+    throw new PaginationError('order must be asc or desc');
+  }
+  return {
+    first: first === undefined ? undefined : Number(first),
+    after: text(source.after),
+    sortBy: text(source.sortBy) as K | undefined,
+    order: order as SortOrder | undefined,
+    topic: text(source.topic),
+    createdAfter: time('createdAfter'),
+    createdBefore: time('createdBefore')
+  };
+};
+
+/** Quiz list filters: `?source=flashcards|topic&attempted=true|false`. */
+const quizFilters = (source: Record<string, unknown> = {}): Pick<QuizListQuery, 'source' | 'attempted'> => ({
+  source: source.source === 'flashcards' || source.source === 'topic' ? source.source : undefined,
+  attempted: source.attempted === 'true' ? true : source.attempted === 'false' ? false : undefined
+});
+
+const INVALID_KINDS_MESSAGE = `kinds must be a non-empty list of: ${QUESTION_KINDS.join(', ')}`;
+
+const EMPTY_PAGE_INFO: PageInfo = { hasNextPage: false, hasPreviousPage: false, startCursor: null, endCursor: null };
+
+/**
+ * Optional domain services that are not needed by every deployment.
+ */
+export interface ExpressServerServices {
+  spacedRepetition?: SpacedRepetitionService;
+  adaptiveQuiz?: AdaptiveQuizService;
+  exams?: ExamService;
+}
+
 export class ExpressServer {
   private app: express.Application;
   private httpServer: http.Server;
@@ -73,6 +166,9 @@ export class ExpressServer {
   private redisService: RedisService | null = null;
   private supabaseService: SupabaseService | null = null;
   private ollamaAdapter: any = null; // OllamaAdapter for warmup
+  private spacedRepetition: SpacedRepetitionService | null = null;
+  private adaptiveQuiz: AdaptiveQuizService | null = null;
+  private exams: ExamService | null = null;
 
   constructor(
     private studyService: StudyUseCase,
@@ -85,7 +181,8 @@ export class ExpressServer {
     _supabaseService: SupabaseService | LocalDbService | null = null,
     _vectorService: UpstashVectorService | InMemoryVectorService | null = null,
     _blobService: BlobStorageService | null = null,
-    _ollamaAdapter: any = null // OllamaAdapter for warmup
+    _ollamaAdapter: any = null, // OllamaAdapter for warmup
+    services: ExpressServerServices = {}
   ) {
     this.app = express();
     this.httpServer = http.createServer(this.app);
@@ -109,6 +206,9 @@ export class ExpressServer {
     supa.initialize().catch(err => logger.warn('Supabase init failed', err));
     this.supabaseService = supa;
     this.ollamaAdapter = _ollamaAdapter; // Store OllamaAdapter for warmup
+    this.spacedRepetition = services.spacedRepetition ?? null;
+    this.adaptiveQuiz = services.adaptiveQuiz ?? null;
+    this.exams = services.exams ?? null;
     // this._redisService = redisService;
     // this._supabaseService = supabaseService;
     // this._vectorService = vectorService;
@@ -162,7 +262,7 @@ export class ExpressServer {
     this.app.use(cors({
       origin: process.env.CORS_ORIGIN ? process.env.CORS_ORIGIN.split(',') : '*',
       credentials: true,
-      methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+      methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
       allowedHeaders: ['Content-Type', 'Authorization']
     }));
 
@@ -267,7 +367,8 @@ export class ExpressServer {
             quizStorage: this.quizStorage,
             flashcardStorage: this.flashcardStorage,
             queueService: this.queueService,
-            webllmService: this.webllmService
+            webllmService: this.webllmService,
+            spacedRepetition: this.spacedRepetition
           });
 
           // Add DataLoaders for query batching (basic implementation)
@@ -379,6 +480,12 @@ export class ExpressServer {
     }
   }
 
+  /** Lets card searches filter on the requesting user's review state (`is:due`, `is:new`). */
+  private cardQueryContext(req: express.Request): CardQueryContext {
+    const userId = requestUserId(req);
+    return { dueState: card => this.spacedRepetition?.getDueState(userId, card) ?? 'new' };
+  }
+
   private setupWebSocket() {
     if (!this.webllmService) return;
 
@@ -496,6 +603,11 @@ export class ExpressServer {
       this.handleGenerate(req, res)
     );
 
+    // Streaming generation (Server-Sent Events): stage changes and cards as they are produced
+    this.app.post('/api/generate/stream', apiRateLimiter, authMiddleware, (req, res) =>
+      this.handleGenerateStream(req, res)
+    );
+
     // Job Status Endpoint
     // Job status endpoint (requires auth; frontend handles 401 by prompting re-login)
     this.app.get('/api/jobs/:id', authMiddleware, asyncHandler(async (req, res) => {
@@ -512,6 +624,40 @@ export class ExpressServer {
       return sendSuccess(res, status, { requestId });
     }));
 
+    // Cancel a job: queued jobs are dropped, running ones abort their model and scrape calls
+    this.app.delete('/api/jobs/:id', authMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const jobId = req.params.id || '';
+
+      if (!this.queueService) {
+        return sendError(res, 404, 'Queue service not available', {
+          requestId,
+          code: ErrorCodes.NOT_FOUND
+        });
+      }
+
+      const status = await this.queueService.getJobStatus(jobId);
+      if (status?.status === 'not_found') {
+        return sendError(res, 404, 'Job not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      // Jobs queued without a user (e.g. background work) can be cancelled by any signed-in user;
+      // a job shared by identical requests belongs to each of them
+      const userId = requestUserId(req);
+      const owners: string[] = status?.data?.requesters ?? (status?.data?.userId ? [status.data.userId] : []);
+      if (owners.length > 0 && !owners.includes(userId)) {
+        return sendError(res, 403, 'You can only cancel your own jobs', { requestId, code: ErrorCodes.FORBIDDEN });
+      }
+
+      const outcome = await this.queueService.cancelJob(jobId, userId);
+      if (outcome === 'not_found') {
+        return sendError(res, 404, 'Job not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      if (outcome === 'finished') {
+        return sendError(res, 409, `Job already ${status.status}`, { requestId, code: ErrorCodes.CONFLICT });
+      }
+      return sendSuccess(res, { id: jobId, status: outcome }, { requestId });
+    }));
+
     // Queue Statistics (Admin)
     this.app.get('/api/queue/stats', authMiddleware, asyncHandler(async (req, res) => {
       const requestId = (req as any).requestId;
@@ -527,6 +673,65 @@ export class ExpressServer {
       return sendSuccess(res, stats, { requestId });
     }));
 
+    // Dead-letter queue (Admin): jobs that failed every attempt, e.g. during an Ollama outage
+    const deadLetterRoute = (
+      handler: (queueService: QueueService, req: express.Request, res: express.Response, requestId: string) => Promise<void>
+    ) => asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      if (!this.queueService) {
+        return sendError(res, 404, 'Queue service not available', {
+          requestId,
+          code: ErrorCodes.NOT_FOUND
+        });
+      }
+      return handler(this.queueService, req, res, requestId);
+    });
+    const invalidFilter = (res: express.Response, requestId: string) =>
+      sendError(res, 400, 'failedSince must be a date', { requestId, code: ErrorCodes.VALIDATION_ERROR });
+
+    this.app.get('/api/admin/dlq', authMiddleware, adminMiddleware, deadLetterRoute(async (queueService, req, res, requestId) => {
+      const filter = parseDeadLetterFilter(req.query as Record<string, unknown>);
+      if (!filter) return invalidFilter(res, requestId);
+      const limit = Number(req.query.limit);
+      const entries = await queueService.listDeadLetters(filter, Number.isInteger(limit) && limit > 0 ? limit : undefined);
+      return sendSuccess(res, entries, { requestId });
+    }));
+
+    // Replay every entry matching the filter in the body
+    this.app.post('/api/admin/dlq/replay', authMiddleware, adminMiddleware, deadLetterRoute(async (queueService, req, res, requestId) => {
+      const filter = parseDeadLetterFilter(req.body);
+      if (!filter) return invalidFilter(res, requestId);
+      const replayed = await queueService.replayDeadLetters(filter);
+      return sendSuccess(res, { replayed }, { requestId });
+    }));
+
+    this.app.post('/api/admin/dlq/:id/replay', authMiddleware, adminMiddleware, deadLetterRoute(async (queueService, req, res, requestId) => {
+      const deadLetterId = req.params.id || '';
+      const jobId = await queueService.replayDeadLetter(deadLetterId);
+      if (!jobId) {
+        return sendError(res, 404, 'Dead-letter entry not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, { deadLetterId, jobId }, { requestId });
+    }));
+
+    this.app.delete('/api/admin/dlq/:id', authMiddleware, adminMiddleware, deadLetterRoute(async (queueService, req, res, requestId) => {
+      if (!(await queueService.purgeDeadLetter(req.params.id || ''))) {
+        return sendError(res, 404, 'Dead-letter entry not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, { purged: 1 }, { requestId });
+    }));
+
+    // Purging needs a filter, or all=true to empty the queue
+    this.app.delete('/api/admin/dlq', authMiddleware, adminMiddleware, deadLetterRoute(async (queueService, req, res, requestId) => {
+      const filter = parseDeadLetterFilter(req.query as Record<string, unknown>);
+      if (!filter) return invalidFilter(res, requestId);
+      if (Object.keys(filter).length === 0 && req.query.all !== 'true') {
+        return sendError(res, 400, 'Specify a filter or all=true', { requestId, code: ErrorCodes.VALIDATION_ERROR });
+      }
+      const purged = await queueService.purgeDeadLetters(filter);
+      return sendSuccess(res, { purged }, { requestId });
+    }));
+
     // Search endpoint for WebLLM (client-side)
     this.app.post('/api/search', async (req, res) => {
       try {
@@ -608,7 +813,7 @@ export class ExpressServer {
 
         // Persist uploaded cards for later quiz generation
         if (this.flashcardStorage && Array.isArray(cards)) {
-          this.flashcardStorage.storeFlashcards(cards as any);
+          this.flashcardStorage.storeFlashcards(cards as any, GENERATED_BY, signedInUserId(req));
         }
         if (this.supabaseService && this.supabaseService.isAvailable() && Array.isArray(cards)) {
           this.supabaseService.storeFlashcards(cards as any).catch(err => logger.warn('Supabase store flashcards failed (upload)', err));
@@ -717,7 +922,7 @@ export class ExpressServer {
         );
 
         if (this.flashcardStorage && Array.isArray(cards)) {
-          this.flashcardStorage.storeFlashcards(cards as any);
+          this.flashcardStorage.storeFlashcards(cards as any, GENERATED_BY, signedInUserId(req));
         }
         if (this.supabaseService && this.supabaseService.isAvailable() && Array.isArray(cards)) {
           this.supabaseService.storeFlashcards(cards as any).catch(err => logger.warn('Supabase store flashcards failed (chunk upload)', err));
@@ -780,7 +985,7 @@ export class ExpressServer {
         }
 
         if (this.flashcardStorage && Array.isArray(cards)) {
-          this.flashcardStorage.storeFlashcards(cards as any);
+          this.flashcardStorage.storeFlashcards(cards as any, GENERATED_BY, signedInUserId(req));
         }
 
         res.json({ success: true, cards });
@@ -816,13 +1021,19 @@ export class ExpressServer {
       const requestId = (req as any).requestId;
 
       try {
-        const { topic, numQuestions, count, flashcardIds, cards, llmConfig } = req.body;
+        const { topic, numQuestions, count, flashcardIds, cards, llmConfig, kinds } = req.body;
         if (!isValidQuizBody(req.body)) {
           return sendError(res, 400, 'Either topic or flashcardIds is required', {
             requestId,
             code: ErrorCodes.VALIDATION_ERROR
           });
         }
+        if (!isValidQuestionKinds(kinds)) {
+          return sendError(res, 400, INVALID_KINDS_MESSAGE, {
+            requestId,
+            code: ErrorCodes.VALIDATION_ERROR
+          });
+        }
         const desiredCount = numQuestions ?? count;
 
         // Route to appropriate quiz creation method
@@ -832,7 +1043,8 @@ export class ExpressServer {
             desiredCount || Math.min(cards.length, 10),
             cards,
             'ollama', // Default runtime
-            llmConfig
+            llmConfig,
+            { kinds }
           );
 
           const quiz = {
@@ -875,7 +1087,8 @@ export class ExpressServer {
             desiredCount || Math.min(flashcards.length, 10),
             formattedCards,
             'ollama',
-            llmConfig
+            llmConfig,
+            { kinds }
           );
 
           const quiz = {
@@ -905,7 +1118,8 @@ export class ExpressServer {
             numQuestions || 5,
             undefined,
             'ollama',
-            llmConfig
+            llmConfig,
+            { kinds }
           );
 
           const quiz = {
@@ -933,9 +1147,14 @@ export class ExpressServer {
     // Create quiz from flashcards
     this.app.post('/api/quiz/create-from-flashcards', apiRateLimiter, async (req, res) => {
       try {
-        const { flashcardIds, flashcards: payloadFlashcards, count, numQuestions, options } = req.body;
+        const { flashcardIds, flashcards: payloadFlashcards, count, numQuestions, options, kinds } = req.body;
         const desiredCount = numQuestions ?? count;
 
+        if (!isValidQuestionKinds(kinds)) {
+          res.status(400).json({ error: INVALID_KINDS_MESSAGE });
+          return;
+        }
+
         if ((!flashcardIds || !Array.isArray(flashcardIds) || flashcardIds.length === 0) && (!payloadFlashcards || !Array.isArray(payloadFlashcards))) {
           res.status(400).json({ error: 'flashcardIds array or flashcards payload is required' });
           return;
@@ -976,7 +1195,8 @@ export class ExpressServer {
           desiredCount || Math.min(flashcards.length, 10),
           formattedCards,
           'ollama',
-          req.body.llmConfig
+          req.body.llmConfig,
+          { kinds }
         );
 
         // Create quiz object
@@ -1016,12 +1236,16 @@ export class ExpressServer {
     // Create quiz from topic
     this.app.post('/api/quiz/create-from-topic', apiRateLimiter, async (req, res) => {
       try {
-        const { topic, count, options } = req.body;
+        const { topic, count, options, kinds } = req.body;
 
         if (!topic) {
           res.status(400).json({ error: 'topic is required' });
           return;
         }
+        if (!isValidQuestionKinds(kinds)) {
+          res.status(400).json({ error: INVALID_KINDS_MESSAGE });
+          return;
+        }
 
         // Search for relevant context using web search
         // let context = '';
@@ -1041,7 +1265,8 @@ export class ExpressServer {
           count || 5,
           undefined,
           'ollama',
-          req.body.llmConfig
+          req.body.llmConfig,
+          { kinds }
         );
 
         // Create quiz object
@@ -1076,18 +1301,28 @@ export class ExpressServer {
 
     // Get quiz history - MUST come before /api/quiz/:quizId to avoid route collision
     // Duplicate quiz history route removed - now at top before parameterized routes
-    this.app.get('/api/quiz/history', async (_req, res) => {
+    this.app.get('/api/quiz/history', optionalAuthMiddleware, async (req, res) => {
       try {
-        const quizzes = this.quizStorage?.getAllQuizzes() || [];
-
-        // Attach attempts to each quiz
-        const quizzesWithAttempts = quizzes.map(quiz => ({
-          ...quiz,
-          attempts: this.quizStorage?.getAttempts(quiz.id) || []
+        if (!this.quizStorage) {
+          res.json({ quizzes: [], pageInfo: EMPTY_PAGE_INFO, totalCount: 0 });
+          return;
+        }
+        const page = this.quizStorage.listQuizzes({ ...parseListQuery<QuizSortKey>(req.query), ...quizFilters(req.query) });
+
+        // Attach the caller's attempts to each quiz (every attempt for operators)
+        const userId = signedInUserId(req);
+        const isAdmin = this.authService.isAdmin((req as any).user);
+        const quizzesWithAttempts = page.edges.map(({ node: quiz }) => ({
+          ...hideExamQuestions(quiz),
+          attempts: (this.quizStorage?.getAttempts(quiz.id) || []).filter(attempt => isAdmin || (userId && attempt.userId === userId))
         }));
 
-        res.json({ quizzes: quizzesWithAttempts });
+        res.json({ quizzes: quizzesWithAttempts, pageInfo: page.pageInfo, totalCount: page.totalCount });
       } catch (error: any) {
+        if (error instanceof PaginationError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
         console.warn('[API] Failed to get quiz history, returning empty array:', error.message);
         res.json({ quizzes: [], warning: 'history unavailable' });
       }
@@ -1096,15 +1331,19 @@ export class ExpressServer {
     // Get specific quiz
     this.app.get('/api/quiz/:quizId', async (req, res) => {
       try {
-        const quiz = this.quizStorage?.getQuiz(req.params.quizId);
+        const stored = this.quizStorage?.getQuiz(req.params.quizId);
 
-        if (!quiz) {
+        if (!stored) {
           res.status(404).json({ error: 'Quiz not found' });
           return;
         }
+        // Exams are taken through attempts, which hold back the answers until submission
+        const quiz = hideExamQuestions(stored);
 
         // Shuffle options for each question to ensure variety on retry
         const shuffledQuestions = quiz.questions.map(q => {
+          // True/False reads best in a fixed order
+          if (q.kind === 'true-false') return q;
           // Create a copy of options and shuffle them
           const shuffledOptions = [...q.options].sort(() => Math.random() - 0.5);
           return {
@@ -1125,37 +1364,75 @@ export class ExpressServer {
       }
     });
 
+    // Accuracy, timing and option choices per question across the caller's attempts at a quiz (all attempts for operators)
+    this.app.get('/api/quiz/:quizId/analytics', authMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const userId = this.authService.isAdmin((req as any).user) ? undefined : requestUserId(req);
+      const analytics = this.quizStorage?.getAnalytics(req.params.quizId || '', userId);
+      if (!analytics) {
+        return sendError(res, 404, 'Quiz not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, analytics, { requestId });
+    }));
+
     // Submit quiz answers
-    this.app.post('/api/quiz/:id/submit', async (req, res) => {
+    this.app.post('/api/quiz/:id/submit', judgedRateLimiter, optionalAuthMiddleware, async (req, res) => {
       try {
-        const quizId = req.params.id;
-        const { answers } = req.body;
+        const quizId = req.params.id || '';
+        const { answers, judge, llmConfig, timings } = req.body;
 
         const quiz = this.quizStorage?.getQuiz(quizId);
-        if (!quiz) {
+        if (!this.quizStorage || !quiz) {
           res.status(404).json({ error: 'Quiz not found' });
           return;
         }
+        // Exam deadlines are kept by their attempts
+        if (quiz.exam) {
+          res.status(409).json({ error: 'Exams are submitted through /api/quiz/exam/attempts/:attemptId/submit' });
+          return;
+        }
 
         if (!answers || !Array.isArray(answers)) {
           res.status(400).json({ error: 'answers array is required' });
           return;
         }
+        if (!isValidQuizAnswers(answers)) {
+          res.status(400).json({ error: 'each answer must be text, a list of options, or null' });
+          return;
+        }
+        if (judge !== undefined && typeof judge !== 'boolean') {
+          res.status(400).json({ error: 'judge must be a boolean' });
+          return;
+        }
+        if (timings !== undefined && !Array.isArray(timings)) {
+          res.status(400).json({ error: 'timings must be an array in question order' });
+          return;
+        }
 
-        // Calculate score
-        let score = 0;
-        quiz.questions.forEach((question, index) => {
-          if (answers[index] === question.correctAnswer) {
-            score++;
-          }
-        });
+        // Answers (and timings) are given in question order
+        const { score, credit, grades } = await this.quizStorage.gradeAnswers(
+          quiz,
+          quiz.questions.map((question, index) => ({ questionId: question.id, answer: answers[index] ?? '' })),
+          { judge, llmConfig }
+        );
+        // No answer took longer than the quiz has existed
+        const servedForMs = Date.now() - new Date(quiz.createdAt).getTime();
+        const questionTimings = timings ? Object.fromEntries(quiz.questions
+          .map((question, index) => [question.id, normalizeQuestionTiming(timings[index], servedForMs)] as const)
+          .filter(([, timing]) => timing !== undefined)) : undefined;
 
+        const userId = signedInUserId(req);
         const attempt = {
           id: `attempt-${Date.now()}`,
           quizId,
+          ...(userId ? { userId } : {}),
           answers,  // Keep as array for now
           score,
           total: quiz.questions.length,
+          credit,
+          grades,
+          timings: questionTimings,
+          timeSpent: questionTimings ? Object.values(questionTimings).reduce((sum, timing) => sum + (timing?.timeMs ?? 0), 0) : undefined,
           timestamp: Date.now(),
           completedAt: Date.now()
         };
@@ -1168,8 +1445,10 @@ export class ExpressServer {
         res.json({
           success: true,
           score,
+          credit,
           totalQuestions: quiz.questions.length,
           percentage: Math.round((score / quiz.questions.length) * 100),
+          grades,
           attempt
         });
       } catch (error: any) {
@@ -1179,21 +1458,26 @@ export class ExpressServer {
     });
 
     // List all quizzes
-    this.app.get('/api/quiz/list/all', async (_req, res) => {
+    this.app.get('/api/quiz/list/all', async (req, res) => {
       try {
-        const quizzes = this.quizStorage?.getAllQuizzes() || [];
+        const page = this.quizStorage?.listQuizzes({ ...parseListQuery<QuizSortKey>(req.query), ...quizFilters(req.query) });
 
         // Return summaries only
-        const summaries = quizzes.map(q => ({
+        const summaries = (page?.edges ?? []).map(({ node: q }) => ({
           id: q.id,
           topic: q.topic,
           questionCount: q.questions.length,
           source: q.source,
+          mode: q.exam ? 'exam' : 'standard',
           createdAt: q.createdAt
         }));
 
-        res.json({ success: true, quizzes: summaries });
+        res.json({ success: true, quizzes: summaries, pageInfo: page?.pageInfo ?? EMPTY_PAGE_INFO, totalCount: page?.totalCount ?? 0 });
       } catch (error: unknown) {
+        if (error instanceof PaginationError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
         res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
       }
     });
@@ -1297,6 +1581,149 @@ export class ExpressServer {
 
 
 
+    // Adaptive quizzes: a session asks one question at a time, chosen for the learner's estimated ability
+    this.app.post('/api/quiz/adaptive', apiRateLimiter, optionalAuthMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const body = req.body || {};
+      if (!this.adaptiveQuiz) {
+        return sendError(res, 503, 'Adaptive quizzes are not available', { requestId, code: ErrorCodes.INTERNAL_ERROR });
+      }
+      if (!isValidAdaptiveQuizBody(body)) {
+        return sendError(res, 400, 'topic is required (max 200 characters); maxQuestions must be 1-50 and targetStandardError above 0 and at most 1', {
+          requestId,
+          code: ErrorCodes.VALIDATION_ERROR
+        });
+      }
+
+      const session = await this.adaptiveQuiz.startSession({
+        topic: body.topic,
+        userId: signedInUserId(req),
+        maxQuestions: body.maxQuestions,
+        targetStandardError: body.targetStandardError,
+        llmConfig: body.llmConfig
+      });
+      return sendSuccess(res, session, { requestId, statusCode: 201 });
+    }));
+
+    this.app.get('/api/quiz/adaptive/:sessionId', optionalAuthMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const session = this.adaptiveQuiz?.getSession(req.params.sessionId || '', signedInUserId(req));
+      if (!session) {
+        return sendError(res, 404, 'Adaptive quiz not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, session, { requestId });
+    }));
+
+    this.app.post('/api/quiz/adaptive/:sessionId/answers', optionalAuthMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const { questionId, answer, judge } = req.body || {};
+      const validAnswer = typeof answer === 'string' || (Array.isArray(answer) && answer.every(item => typeof item === 'string'));
+      if (typeof questionId !== 'string' || !validAnswer || (judge !== undefined && typeof judge !== 'boolean')) {
+        return sendError(res, 400, 'questionId and answer (text or a list of options) are required; judge must be a boolean', {
+          requestId,
+          code: ErrorCodes.VALIDATION_ERROR
+        });
+      }
+
+      try {
+        const result = await this.adaptiveQuiz?.answer(req.params.sessionId || '', questionId, answer, { judge }, signedInUserId(req));
+        if (!result) {
+          return sendError(res, 404, 'Adaptive quiz not found', { requestId, code: ErrorCodes.NOT_FOUND });
+        }
+        return sendSuccess(res, result, { requestId });
+      } catch (error) {
+        if (error instanceof AdaptiveQuizError) {
+          return sendError(res, 409, error.message, { requestId, code: ErrorCodes.CONFLICT });
+        }
+        throw error;
+      }
+    }));
+
+    // Exams: timed sections of questions drawn per attempt, graded only once submitted
+    this.app.post('/api/quiz/exam', apiRateLimiter, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const body = req.body || {};
+      if (!this.exams) {
+        return sendError(res, 503, 'Exams are not available', { requestId, code: ErrorCodes.INTERNAL_ERROR });
+      }
+      if (!isValidExamBody(body)) {
+        return sendError(res, 400, 'topic and 1-20 sections are required; each section needs questions or a quizId, and timeLimitSeconds (0-86400) and pick (1 or more) are optional', {
+          requestId,
+          code: ErrorCodes.VALIDATION_ERROR
+        });
+      }
+
+      try {
+        const quiz = this.exams.createExam(body as Parameters<ExamService['createExam']>[0]);
+        return sendSuccess(res, { id: quiz.id, topic: quiz.topic, questionCount: quiz.questions.length, exam: quiz.exam }, { requestId, statusCode: 201 });
+      } catch (error) {
+        if (error instanceof ExamError) {
+          return sendError(res, 400, error.message, { requestId, code: ErrorCodes.VALIDATION_ERROR });
+        }
+        throw error;
+      }
+    }));
+
+    // Attempts belong to the user who starts them
+    this.app.post('/api/quiz/exam/:quizId/attempts', optionalAuthMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      try {
+        const attempt = this.exams?.startAttempt(req.params.quizId || '', signedInUserId(req));
+        if (!attempt) {
+          return sendError(res, 404, 'Quiz not found', { requestId, code: ErrorCodes.NOT_FOUND });
+        }
+        return sendSuccess(res, attempt, { requestId, statusCode: 201 });
+      } catch (error) {
+        if (error instanceof ExamError) {
+          return sendError(res, 409, error.message, { requestId, code: ErrorCodes.CONFLICT });
+        }
+        throw error;
+      }
+    }));
+
+    this.app.get('/api/quiz/exam/attempts/:attemptId', optionalAuthMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const attempt = await this.exams?.getAttempt(req.params.attemptId || '', signedInUserId(req));
+      if (!attempt) {
+        return sendError(res, 404, 'Exam attempt not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, attempt, { requestId });
+    }));
+
+    // Saving answers, moving to the next section and submitting share their validation and errors
+    const examAction = (action: 'save' | 'next' | 'submit') => asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const { answers = [], judge } = req.body || {};
+      if (!isValidExamAnswers(answers) || (judge !== undefined && typeof judge !== 'boolean')) {
+        return sendError(res, 400, 'answers must be a list of { questionId, answer } with text or a list of options; judge must be a boolean', {
+          requestId,
+          code: ErrorCodes.VALIDATION_ERROR
+        });
+      }
+
+      try {
+        const attemptId = req.params.attemptId || '';
+        const userId = signedInUserId(req);
+        const attempt = action === 'save'
+          ? await this.exams?.saveAnswers(attemptId, answers, userId)
+          : action === 'next'
+            ? await this.exams?.nextSection(attemptId, answers, { judge }, userId)
+            : await this.exams?.submit(attemptId, answers, { judge }, userId);
+        if (!attempt) {
+          return sendError(res, 404, 'Exam attempt not found', { requestId, code: ErrorCodes.NOT_FOUND });
+        }
+        return sendSuccess(res, attempt, { requestId });
+      } catch (error) {
+        if (error instanceof ExamError) {
+          return sendError(res, 409, error.message, { requestId, code: ErrorCodes.CONFLICT });
+        }
+        throw error;
+      }
+    });
+    this.app.put('/api/quiz/exam/attempts/:attemptId/answers', optionalAuthMiddleware, examAction('save'));
+    this.app.post('/api/quiz/exam/attempts/:attemptId/next-section', judgedRateLimiter, optionalAuthMiddleware, examAction('next'));
+    this.app.post('/api/quiz/exam/attempts/:attemptId/submit', judgedRateLimiter, optionalAuthMiddleware, examAction('submit'));
+
     this.app.post('/api/quiz/history', async (req, res) => {
       try {
         const result = req.body;
@@ -1324,17 +1751,289 @@ export class ExpressServer {
     dropRoute('post', '/api/decks');
 
     // Decks (History)
-    this.app.get('/api/decks', async (_req, res) => {
+    this.app.get('/api/decks', optionalAuthMiddleware, async (req, res) => {
       try {
-        const history = await this.studyService.getDeckHistory();
-        res.json({ history: history || [] });
+        const page = await this.studyService.listDecks({
+          ...parseListQuery<DeckSortKey>(req.query),
+          lastStudied: deckLastStudied(() => this.spacedRepetition?.getLastReviewTimes(requestUserId(req)) ?? new Map())
+        });
+        res.json({ history: page.edges.map(edge => edge.node), pageInfo: page.pageInfo, totalCount: page.totalCount });
       } catch (error: any) {
+        if (error instanceof PaginationError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
         console.warn('[API] Failed to get deck history:', error.message);
         // Return empty array instead of 500 error for serverless compatibility
-        res.json({ history: [], warning: 'Server-side storage unavailable' });
+        res.json({ history: [], pageInfo: EMPTY_PAGE_INFO, totalCount: 0, warning: 'Server-side storage unavailable' });
       }
     });
 
+    // Deck import (apkg, csv, tsv, quizlet, markdown, json): every deck in the file becomes a topic deck
+    this.app.post('/api/decks/import', apiRateLimiter, authMiddleware, this.upload.single('file'), asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const file = req.file;
+      const maxSize = isTestAuth(req) ? MAX_UPLOAD_BYTES_TEST : MAX_UPLOAD_BYTES;
+
+      if (!file) {
+        return sendError(res, 400, 'No file uploaded. Please select a deck file.', {
+          requestId,
+          code: ErrorCodes.VALIDATION_ERROR
+        });
+      }
+      if (file.size > maxSize) {
+        return sendError(res, 400, `File too large. Maximum size is ${(maxSize / 1024 / 1024)}MB.`, {
+          requestId,
+          code: ErrorCodes.FILE_TOO_LARGE
+        });
+      }
+
+      const serializer = req.body?.format
+        ? deckSerializers.get(String(req.body.format))
+        : deckSerializers.forFilename(file.originalname);
+      if (!serializer) {
+        return sendError(res, 400, `Unsupported deck format. Supported formats: ${deckSerializers.formats().join(', ')}`, {
+          requestId,
+          code: ErrorCodes.UNSUPPORTED_FILE_TYPE
+        });
+      }
+
+      const topic = (typeof req.body?.topic === 'string' && req.body.topic.trim())
+        || path.parse(file.originalname).name
+        || 'Imported Deck';
+
+      let decks;
+      try {
+        decks = await serializer.deserialize(file.buffer, { topic });
+      } catch (error) {
+        if (error instanceof DeckSerializationError) {
+          return sendError(res, error.status, error.message, { requestId, code: ErrorCodes.PROCESSING_ERROR });
+        }
+        throw error;
+      }
+
+      for (const deck of decks) {
+        await this.flashcardStorage.saveDeck(deck, requestUserId(req));
+      }
+
+      return sendSuccess(res, {
+        decks: decks.map(deck => ({
+          id: this.flashcardStorage.getDeckId(deck.topic),
+          topic: deck.topic,
+          cardCount: deck.cards.length
+        }))
+      }, { requestId, statusCode: 201 });
+    }));
+
+    // Single cards of a topic deck; edits are written through to the database and vector index
+    this.app.get('/api/decks/:deckId/cards/:cardId', asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const card = this.flashcardStorage.getDeckCard(req.params.deckId || '', req.params.cardId || '');
+      if (!card) {
+        return sendError(res, 404, 'Card not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, card, { requestId });
+    }));
+
+    this.app.post('/api/decks/:deckId/cards', authMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const body = req.body || {};
+      if (!isValidCardBody(body)) {
+        return sendError(res, 400, 'A card needs a non-empty front and back; kind must be basic or cloze and tags a list of strings', {
+          requestId,
+          code: ErrorCodes.VALIDATION_ERROR
+        });
+      }
+
+      const card = await this.flashcardStorage.createCard(req.params.deckId || '', body, requestUserId(req));
+      if (!card) {
+        return sendError(res, 404, 'Deck not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, card, { requestId, statusCode: 201 });
+    }));
+
+    this.app.patch('/api/decks/:deckId/cards/:cardId', authMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const body = req.body || {};
+      if (!isValidCardBody(body, true)) {
+        return sendError(res, 400, 'Provide at least one of front, back, kind or tags; front and back must not be empty', {
+          requestId,
+          code: ErrorCodes.VALIDATION_ERROR
+        });
+      }
+
+      const card = await this.flashcardStorage.updateCard(req.params.deckId || '', req.params.cardId || '', body, requestUserId(req));
+      if (!card) {
+        return sendError(res, 404, 'Card not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, card, { requestId });
+    }));
+
+    this.app.delete('/api/decks/:deckId/cards/:cardId', authMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const deleted = await this.flashcardStorage.removeCard(req.params.deckId || '', req.params.cardId || '', requestUserId(req));
+      if (!deleted) {
+        return sendError(res, 404, 'Card not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, { id: req.params.cardId, deleted: true }, { requestId });
+    }));
+
+    // Library navigation: nested decks (Biology::Cell), tags, card search and saved searches
+    this.app.get('/api/decks/tree', asyncHandler(async (req, res) => {
+      return sendSuccess(res, { decks: this.flashcardStorage.getDeckTree() }, { requestId: (req as any).requestId });
+    }));
+
+    this.app.get('/api/tags', asyncHandler(async (req, res) => {
+      return sendSuccess(res, { tags: this.flashcardStorage.getTags() }, { requestId: (req as any).requestId });
+    }));
+
+    this.app.post('/api/cards/tags', authMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const { cardIds, add, remove } = req.body || {};
+      const isStringList = (value: unknown) => Array.isArray(value) && value.every(item => typeof item === 'string');
+      if (!isStringList(cardIds) || cardIds.length === 0 || (add !== undefined && !isStringList(add)) || (remove !== undefined && !isStringList(remove))) {
+        return sendError(res, 400, 'cardIds must be a non-empty list of card ids; add and remove lists of tags', {
+          requestId,
+          code: ErrorCodes.VALIDATION_ERROR
+        });
+      }
+      const cards = await this.flashcardStorage.tagCards(cardIds, { add, remove }, requestUserId(req));
+      return sendSuccess(res, { cards }, { requestId });
+    }));
+
+    this.app.get('/api/cards/search', optionalAuthMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      try {
+        const cards = this.flashcardStorage.searchCards(String(req.query.q ?? ''), this.cardQueryContext(req));
+        return sendSuccess(res, { cards, total: cards.length }, { requestId });
+      } catch (error) {
+        if (error instanceof CardQueryError) {
+          return sendError(res, 400, error.message, { requestId, code: ErrorCodes.VALIDATION_ERROR });
+        }
+        throw error;
+      }
+    }));
+
+    this.app.get('/api/searches', authMiddleware, asyncHandler(async (req, res) => {
+      return sendSuccess(res, { searches: this.flashcardStorage.getSavedSearches(requestUserId(req)) }, { requestId: (req as any).requestId });
+    }));
+
+    this.app.post('/api/searches', authMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const { name, query } = req.body || {};
+      if (typeof name !== 'string' || !name.trim() || typeof query !== 'string') {
+        return sendError(res, 400, 'A saved search needs a name and a query', { requestId, code: ErrorCodes.VALIDATION_ERROR });
+      }
+      try {
+        const search = this.flashcardStorage.saveSearch(requestUserId(req), name.trim(), query);
+        return sendSuccess(res, search, { requestId, statusCode: 201 });
+      } catch (error) {
+        if (error instanceof CardQueryError) {
+          return sendError(res, 400, error.message, { requestId, code: ErrorCodes.VALIDATION_ERROR });
+        }
+        throw error;
+      }
+    }));
+
+    this.app.get('/api/searches/:id/cards', authMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const search = this.flashcardStorage.getSavedSearch(requestUserId(req), req.params.id || '');
+      if (!search) {
+        return sendError(res, 404, 'Saved search not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      const cards = this.flashcardStorage.searchCards(search.query, this.cardQueryContext(req));
+      return sendSuccess(res, { search, cards, total: cards.length }, { requestId });
+    }));
+
+    this.app.delete('/api/searches/:id', authMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      if (!this.flashcardStorage.deleteSavedSearch(requestUserId(req), req.params.id || '')) {
+        return sendError(res, 404, 'Saved search not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, { id: req.params.id, deleted: true }, { requestId });
+    }));
+
+    // Card history: every saved version of a card, including the generated original
+    this.app.get('/api/cards/:cardId/revisions', asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const revisions = this.flashcardStorage.getRevisions(req.params.cardId || '');
+      if (revisions.length === 0) {
+        return sendError(res, 404, 'No revisions for this card', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, { cardId: req.params.cardId, revisions }, { requestId });
+    }));
+
+    this.app.post('/api/cards/:cardId/revisions/:revisionId/revert', authMiddleware, asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const card = await this.flashcardStorage.revertCard(req.params.cardId || '', req.params.revisionId || '', requestUserId(req));
+      if (!card) {
+        return sendError(res, 404, 'Revision not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+      return sendSuccess(res, card, { requestId });
+    }));
+
+    // Bulk move/copy: cards go to an existing deck (toDeckId) or to a topic deck, created if new (toTopic)
+    for (const action of ['move', 'copy'] as const) {
+      this.app.post(`/api/cards/${action}`, authMiddleware, asyncHandler(async (req, res) => {
+        const requestId = (req as any).requestId;
+        const { cardIds, toDeckId, toTopic } = req.body || {};
+        if (!Array.isArray(cardIds) || cardIds.length === 0 || !cardIds.every(id => typeof id === 'string')) {
+          return sendError(res, 400, 'cardIds must be a non-empty list of card ids', { requestId, code: ErrorCodes.VALIDATION_ERROR });
+        }
+        if (typeof toDeckId !== 'string' && typeof toTopic !== 'string') {
+          return sendError(res, 400, 'Provide toDeckId or toTopic', { requestId, code: ErrorCodes.VALIDATION_ERROR });
+        }
+
+        const target = { deckId: typeof toDeckId === 'string' ? toDeckId : undefined, topic: typeof toTopic === 'string' ? toTopic : undefined };
+        const cards = action === 'move'
+          ? await this.flashcardStorage.moveCards(cardIds, target, requestUserId(req))
+          : await this.flashcardStorage.copyCards(cardIds, target, requestUserId(req));
+        if (!cards) {
+          return sendError(res, 404, 'Target deck not found', { requestId, code: ErrorCodes.NOT_FOUND });
+        }
+        return sendSuccess(res, {
+          deckId: cards[0] ? this.flashcardStorage.getDeckId(cards[0].topic) : target.deckId ?? this.flashcardStorage.getDeckId(target.topic ?? ''),
+          cards
+        }, { requestId });
+      }));
+    }
+
+    this.app.get('/api/decks/:id/export', asyncHandler(async (req, res) => {
+      const requestId = (req as any).requestId;
+      const format = String(req.query.format || 'apkg').toLowerCase();
+
+      const serializer = deckSerializers.get(format);
+      if (!serializer) {
+        return sendError(res, 400, `Unsupported export format: ${format}`, {
+          requestId,
+          code: ErrorCodes.VALIDATION_ERROR
+        });
+      }
+
+      // Generated decks live in flashcard storage; saved decks come from deck history
+      const deckId = req.params.id || '';
+      const deck = (await this.flashcardStorage.getDeck(deckId))
+        ?? (await this.studyService.getDeck(deckId).catch(() => null));
+      if (!deck) {
+        return sendError(res, 404, 'Deck not found', { requestId, code: ErrorCodes.NOT_FOUND });
+      }
+
+      let buffer: Buffer;
+      try {
+        buffer = await serializer.serialize(deck);
+      } catch (error) {
+        if (error instanceof DeckSerializationError) {
+          return sendError(res, error.status, error.message, { requestId, code: ErrorCodes.PROCESSING_ERROR });
+        }
+        throw error;
+      }
+
+      const filename = (deck.topic || 'deck').replace(/[^a-z0-9-_]+/gi, '_');
+      res.setHeader('Content-Type', serializer.mimeType);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}${serializer.extensions[0] ?? ''}"`);
+      res.send(buffer);
+    }));
+
     this.app.get('/api/decks/:id', async (req, res) => {
       try {
         const deck = await this.studyService.getDeck(req.params.id);
@@ -1349,11 +2048,16 @@ export class ExpressServer {
       }
     });
 
-    this.app.post('/api/decks', async (req, res) => {
+    this.app.post('/api/decks', optionalAuthMiddleware, async (req, res) => {
       try {
         const deck = req.body;
         deck.timestamp = Date.now();
         deck.id = `deck-${Date.now()}`;
+        // Signed-in edits to stored cards show up as revisions of those cards
+        const userId = signedInUserId(req);
+        if (userId && Array.isArray(deck.cards)) {
+          this.flashcardStorage.recordRevisions(deck.cards, userId);
+        }
         await this.studyService.saveDeck(deck);
         res.json({ success: true, id: deck.id });
       } catch (error: any) {
@@ -1362,12 +2066,84 @@ export class ExpressServer {
       }
     });
 
-    // Swipe tracking (optional analytics)
-    this.app.post('/api/swipe', async (_req, res) => {
+    // Swipe tracking: each swipe is a review that feeds the spaced-repetition scheduler
+    this.app.post('/api/swipe', optionalAuthMiddleware, async (req, res) => {
       try {
-        // Optional: Track swipes for analytics
-        // For now, just acknowledge
-        res.json({ success: true });
+        const { cardId, direction, grade, latencyMs } = req.body || {};
+
+        if (typeof cardId !== 'string' || cardId.length === 0) {
+          res.status(400).json({ error: 'cardId is required' });
+          return;
+        }
+        if (!isReviewGrade(grade) && direction !== 'left' && direction !== 'right') {
+          res.status(400).json({ error: 'direction must be left or right, or grade must be again|hard|good|easy' });
+          return;
+        }
+
+        if (!this.spacedRepetition) {
+          res.json({ success: true });
+          return;
+        }
+
+        // Reviewed at server time: a client's clock could move the card's due date anywhere
+        const schedule = this.spacedRepetition.recordReview({
+          userId: requestUserId(req),
+          cardId,
+          grade: isReviewGrade(grade) ? grade : gradeFromSwipe(direction),
+          latencyMs: typeof latencyMs === 'number' ? latencyMs : undefined
+        });
+
+        res.json({ success: true, schedule });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Order a set of cards so that due reviews come first
+    this.app.post('/api/reviews/prioritize', optionalAuthMiddleware, async (req, res) => {
+      try {
+        const { cardIds } = req.body || {};
+        if (!Array.isArray(cardIds) || cardIds.some((id: unknown) => typeof id !== 'string')) {
+          res.status(400).json({ error: 'cardIds array is required' });
+          return;
+        }
+
+        if (!this.spacedRepetition) {
+          res.json({ success: true, cardIds, dueCount: 0, newCount: cardIds.length });
+          return;
+        }
+
+        const ordered = this.spacedRepetition.prioritize(requestUserId(req), cardIds);
+        res.json({ success: true, ...ordered });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // "Due today" queue across every deck, honouring the daily new/review limits
+    this.app.get('/api/reviews/queue', authMiddleware, async (req, res) => {
+      try {
+        const newLimit = req.query.newLimit !== undefined ? Number(req.query.newLimit) : appProperties.REVIEW_NEW_CARDS_PER_DAY;
+        const reviewLimit = req.query.reviewLimit !== undefined ? Number(req.query.reviewLimit) : appProperties.REVIEW_MAX_REVIEWS_PER_DAY;
+        if (!Number.isInteger(newLimit) || newLimit < 0 || !Number.isInteger(reviewLimit) || reviewLimit < 0) {
+          res.status(400).json({ error: 'newLimit and reviewLimit must be non-negative integers' });
+          return;
+        }
+
+        if (!this.spacedRepetition) {
+          res.json({ success: true, items: [], dueCount: 0, newCount: 0, reviewsRemaining: 0, newRemaining: 0 });
+          return;
+        }
+
+        const userId = requestUserId(req);
+        const queue = this.spacedRepetition.reviewQueue(
+          userId,
+          this.flashcardStorage.getUserFlashcards(userId),
+          { newPerDay: newLimit, reviewsPerDay: reviewLimit }
+        );
+        const items = queue.items.map(item => ({ ...item, deckId: this.flashcardStorage.getDeckId(item.topic) }));
+
+        res.json({ success: true, ...queue, items });
       } catch (error: any) {
         res.status(500).json({ error: error.message });
       }
@@ -1562,6 +2338,7 @@ export class ExpressServer {
               front: c.front,
               back: c.back,
               topic: c.topic,
+              ...(c.kind && c.kind !== 'basic' ? { kind: c.kind } : {}),
               sourceType: c.source_type || c.sourceType,
               sourceName: c.source_name || c.sourceName
             }));
@@ -1589,7 +2366,7 @@ export class ExpressServer {
             knowledgeSource: knowledgeSource || 'ai-web',
             runtime: runtime || 'ollama',
             parentTopic,
-            userId: (req as { user?: { id?: string } }).user?.id
+            userId: requestUserId(req)
           });
 
           res.status(202).json({ jobId, status: 'queued' });
@@ -1636,6 +2413,98 @@ export class ExpressServer {
     }
   }
 
+  /**
+   * Same request body as /api/generate, answered as an event stream instead of a
+   * job id: `stage` and draft `card` events while the pipeline runs, then `done`
+   * with the final cards (or `error`). Always generates in-process, never queued.
+   */
+  private async handleGenerateStream(req: express.Request, res: express.Response) {
+    const requestId = (req as any).requestId;
+    const { topic, count, mode, knowledgeSource, runtime, parentTopic, llmConfig } = req.body;
+    if (!isValidGenerateBody(req.body)) {
+      return sendError(res, 400, 'topic is required', {
+        requestId,
+        code: ErrorCodes.VALIDATION_ERROR
+      });
+    }
+    const desiredCount = Math.max(1, parseInt(count || '10', 10));
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+
+    // Stop the pipeline (and its model calls) once the client goes away
+    const abort = new AbortController();
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+      if (!res.writableEnded) abort.abort(new Error('Client disconnected'));
+    });
+    const send = (event: string, data: unknown) => {
+      if (closed || res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const heartbeat = setInterval(() => {
+      if (!closed && !res.writableEnded) res.write(': ping\n\n');
+    }, appProperties.SSE_HEARTBEAT_MS);
+
+    try {
+      const cached = this.flashcardCache && !llmConfig
+        ? await this.flashcardCache.get(topic, desiredCount, mode, knowledgeSource)
+        : undefined;
+      if (cached) {
+        (cached.cards || []).forEach((card: unknown) => send('card', { card }));
+        send('done', { cached: true, ...cached });
+        return;
+      }
+
+      const result = await this.studyService.generateFlashcards(
+        topic,
+        desiredCount,
+        mode,
+        knowledgeSource || 'ai-web',
+        runtime || 'ollama',
+        parentTopic,
+        llmConfig,
+        {
+          signal: abort.signal,
+          onEvent: (event) => event.type === 'card'
+            ? send('card', { card: event.card })
+            : send('stage', { stage: event.stage, step: event.step })
+        }
+      );
+
+      // Persist to Supabase (best-effort)
+      if (this.supabaseService && this.supabaseService.isAvailable() && result.cards?.length) {
+        this.supabaseService.storeFlashcards(result.cards).catch(err => logger.warn('Supabase store flashcards failed', err));
+      }
+
+      send('done', {
+        cards: result.cards,
+        recommendedTopics: result.recommendedTopics,
+        metadata: {
+          runtime: runtime || 'ollama',
+          knowledgeSource: knowledgeSource || 'ai-web',
+          timestamp: Date.now()
+        }
+      });
+    } catch (error: unknown) {
+      if (abort.signal.aborted) {
+        logger.info('Streaming generation stopped: client disconnected', { requestId });
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Streaming generation failed', { requestId, message });
+      send('error', { message, code: ErrorCodes.INTERNAL_ERROR, requestId });
+    } finally {
+      clearInterval(heartbeat);
+      if (!res.writableEnded) res.end();
+    }
+  }
+
   public getApp(): express.Application {
     return this.app;
   }
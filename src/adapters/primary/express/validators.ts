@@ -1,3 +1,6 @@
+import type { QuestionKind } from '../../../core/domain/types.js';
+import { QUESTION_KINDS } from '../../../utils/quizQuestions.js';
+
 export type GenerateRequestBody = {
   topic?: unknown;
   count?: unknown;
@@ -35,6 +38,7 @@ export type QuizRequestBody = {
   count?: unknown;
   flashcardIds?: unknown;
   cards?: unknown;
+  kinds?: unknown;
 };
 
 export function isValidQuizBody(body: QuizRequestBody): boolean {
@@ -42,3 +46,108 @@ export function isValidQuizBody(body: QuizRequestBody): boolean {
   const hasFlashcards = Array.isArray(body.flashcardIds) || Array.isArray(body.cards);
   return hasTopic || hasFlashcards;
 }
+
+/** Question kinds to generate are optional, but when given must be a non-empty list of known kinds. */
+export function isValidQuestionKinds(kinds: unknown): kinds is QuestionKind[] | undefined {
+  return kinds === undefined
+    || (Array.isArray(kinds) && kinds.length > 0 && kinds.every(kind => QUESTION_KINDS.includes(kind)));
+}
+
+export type AdaptiveQuizRequestBody = {
+  topic?: unknown;
+  maxQuestions?: unknown;
+  targetStandardError?: unknown;
+};
+
+/** An adaptive quiz needs a topic; the question limit (1-50) and target standard error (0-1 logits) are optional. */
+export function isValidAdaptiveQuizBody(body: AdaptiveQuizRequestBody): boolean {
+  if (typeof body.topic !== 'string' || body.topic.trim().length === 0 || body.topic.length > 200) {
+    return false;
+  }
+  if (body.maxQuestions !== undefined && !(Number.isInteger(body.maxQuestions) && (body.maxQuestions as number) >= 1 && (body.maxQuestions as number) <= 50)) {
+    return false;
+  }
+  if (body.targetStandardError !== undefined
+    && !(typeof body.targetStandardError === 'number' && body.targetStandardError > 0 && body.targetStandardError <= 1)) {
+    return false;
+  }
+  return true;
+}
+
+export type ExamRequestBody = {
+  topic?: unknown;
+  sections?: unknown;
+  shuffleQuestions?: unknown;
+  shuffleOptions?: unknown;
+};
+
+/**
+ * An exam needs a topic and 1-20 sections. Each section takes its pool from
+ * `questions` (1-200) or an existing quiz's `quizId`; its title (max 200
+ * characters), time limit (0-86400 seconds) and questions to draw (1 or more)
+ * are optional.
+ */
+export function isValidExamBody(body: ExamRequestBody): boolean {
+  if (typeof body.topic !== 'string' || body.topic.trim().length === 0 || body.topic.length > 200) {
+    return false;
+  }
+  if (!Array.isArray(body.sections) || body.sections.length === 0 || body.sections.length > 20) {
+    return false;
+  }
+  if ([body.shuffleQuestions, body.shuffleOptions].some(flag => flag !== undefined && typeof flag !== 'boolean')) {
+    return false;
+  }
+  return body.sections.every((section: any) => {
+    if (!section || typeof section !== 'object') return false;
+    const hasQuestions = Array.isArray(section.questions) && section.questions.length > 0 && section.questions.length <= 200;
+    const hasQuiz = typeof section.quizId === 'string' && section.quizId.length > 0;
+    if (hasQuestions === hasQuiz) return false;
+    if (section.title !== undefined && (typeof section.title !== 'string' || section.title.length > 200)) return false;
+    if (section.timeLimitSeconds !== undefined
+      && !(Number.isInteger(section.timeLimitSeconds) && section.timeLimitSeconds >= 0 && section.timeLimitSeconds <= 86400)) {
+      return false;
+    }
+    return section.pick === undefined || (Number.isInteger(section.pick) && section.pick >= 1);
+  });
+}
+
+/** Exam answers: a list of `{ questionId, answer }`, the answer being text or a list of options. */
+export function isValidExamAnswers(answers: unknown): answers is Array<{ questionId: string; answer: string | string[] }> {
+  return Array.isArray(answers) && answers.every(item => item
+    && typeof item.questionId === 'string'
+    && (typeof item.answer === 'string' || (Array.isArray(item.answer) && item.answer.every((option: unknown) => typeof option === 'string'))));
+}
+
+/** Quiz answers in question order: text, a list of options, or null for a skipped question. */
+export function isValidQuizAnswers(answers: unknown): answers is Array<string | string[] | null> {
+  return Array.isArray(answers) && answers.every(answer => answer === null
+    || typeof answer === 'string'
+    || (Array.isArray(answer) && answer.every((option: unknown) => typeof option === 'string')));
+}
+
+export type CardRequestBody = {
+  front?: unknown;
+  back?: unknown;
+  kind?: unknown;
+  tags?: unknown;
+};
+
+/** A new card needs a front and back; with `partial` (edits) every field is optional but at least one is set. */
+export function isValidCardBody(body: CardRequestBody, partial = false): boolean {
+  const text = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+  const fields = [body.front, body.back, body.kind, body.tags];
+
+  if (partial ? fields.every(value => value === undefined) : !(text(body.front) && text(body.back))) {
+    return false;
+  }
+  if ((body.front !== undefined && !text(body.front)) || (body.back !== undefined && !text(body.back))) {
+    return false;
+  }
+  if (body.kind !== undefined && body.kind !== 'basic' && body.kind !== 'cloze') {
+    return false;
+  }
+  if (body.tags !== undefined && !(Array.isArray(body.tags) && body.tags.every(tag => typeof tag === 'string'))) {
+    return false;
+  }
+  return true;
+}
@@ -1,6 +1,9 @@
 import Anthropic from '@anthropic-ai/sdk';
 import type { Flashcard, QuizQuestion } from '../../../core/domain/models.js';
 import type { LLMAdapter } from '../../../core/services/AdapterManager.js';
+import type { AnswerJudgement, AnswerJudgementRequest, QuizGenerationOptions } from '../../../core/ports/interfaces.js';
+import { answerJudgementPrompt, parseAnswerJudgement } from '../../../utils/answerMatching.js';
+import { normalizeQuizQuestion, questionKindsPrompt } from '../../../utils/quizQuestions.js';
 import { v4 as uuidv4 } from 'uuid';
 
 export class AnthropicAdapter implements LLMAdapter {
@@ -106,7 +109,7 @@ Create ${count} flashcards now:`;
         return this.parseFlashcards(content.text, count, topic);
     }
 
-    async generateQuiz(flashcards: Flashcard[], count: number): Promise<QuizQuestion[]> {
+    async generateQuiz(flashcards: Flashcard[], count: number, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
         if (!this.client) {
             throw new Error('Anthropic client not configured');
         }
@@ -133,7 +136,7 @@ JSON FORMAT:
   "options": ["A", "B", "C", "D"],
   "correctAnswer": 2
 }]
-
+${options?.kinds?.length ? `\n${questionKindsPrompt(options.kinds)}\n` : ''}
 Return ONLY the JSON array:`;
 
         const message = await this.client.messages.create({
@@ -150,12 +153,12 @@ Return ONLY the JSON array:`;
         return this.parseQuizQuestions(content.text, count);
     }
 
-    async generateQuizFromFlashcards(flashcards: Flashcard[], count: number): Promise<QuizQuestion[]> {
+    async generateQuizFromFlashcards(flashcards: Flashcard[], count: number, _llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
         // Alias method required by interface - delegates to generateQuiz
-        return this.generateQuiz(flashcards, count);
+        return this.generateQuiz(flashcards, count, options);
     }
 
-    async generateAdvancedQuiz(previousResults: any, mode: 'harder' | 'remedial', _context?: string): Promise<QuizQuestion[]> {
+    async generateAdvancedQuiz(previousResults: any, mode: 'harder' | 'remedial', _context?: string, _llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
         if (!this.client) {
             throw new Error('Anthropic client not configured');
         }
@@ -182,7 +185,7 @@ REQUIREMENTS:
 - EXACTLY 4 options per question
 - All options must be plausible
 - Test deeper understanding
-- Return JSON: [{"question": "...", "options": ["A","B","C","D"], "correctAnswer": 0-3}]`;
+- Return JSON: [{"question": "...", "options": ["A","B","C","D"], "correctAnswer": 0-3}]${options?.kinds?.length ? `\n\n${questionKindsPrompt(options.kinds)}` : ''}`;
 
         const message = await this.client.messages.create({
             model: this.model,
@@ -223,6 +226,25 @@ Provide a brief, direct answer (1-2 sentences):`;
         return content.text.trim();
     }
 
+    async judgeAnswer(request: AnswerJudgementRequest): Promise<AnswerJudgement> {
+        if (!this.client) {
+            throw new Error('Anthropic client not configured');
+        }
+
+        const message = await this.client.messages.create({
+            model: this.model,
+            max_tokens: 256,
+            messages: [{ role: 'user', content: answerJudgementPrompt(request) }],
+        });
+
+        const content = message.content[0];
+        if (!content || content.type !== 'text') {
+            throw new Error('Unexpected response type from Anthropic');
+        }
+
+        return parseAnswerJudgement(content.text);
+    }
+
     async generateSubTopics(topic: string): Promise<string[]> {
         if (!this.client) {
             throw new Error('Anthropic client not configured');
@@ -319,15 +341,10 @@ Return as JSON array: ["subtopic1", "subtopic2", ...]`;
             const parsed = JSON.parse(jsonMatch[0]);
             if (!Array.isArray(parsed)) throw new Error('Response is not an array');
 
-            return parsed.map(item => {
-                const correctIdx = item.correctAnswer ?? 0;
-                return {
-                    id: uuidv4(),
-                    question: item.question || '',
-                    options: item.options || [],
-                    correctAnswer: item.options?.[correctIdx] || item.options?.[0] || ''
-                };
-            });
+            // Ids written by the model are not unique across quizzes
+            return parsed
+                .map(item => normalizeQuizQuestion({ ...item, id: undefined }, uuidv4()))
+                .filter((question): question is QuizQuestion => question !== null);
         } catch (error) {
             console.error('[AnthropicAdapter] Failed to parse quiz questions:', error);
             return [];
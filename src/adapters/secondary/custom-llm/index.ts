@@ -1,6 +1,9 @@
 import OpenAI from 'openai';
 import type { Flashcard, QuizQuestion } from '../../../core/domain/models.js';
 import type { LLMAdapter } from '../../../core/services/AdapterManager.js';
+import type { AnswerJudgement, AnswerJudgementRequest, QuizGenerationOptions } from '../../../core/ports/interfaces.js';
+import { answerJudgementPrompt, parseAnswerJudgement } from '../../../utils/answerMatching.js';
+import { normalizeQuizQuestion, questionKindsPrompt } from '../../../utils/quizQuestions.js';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -97,7 +100,7 @@ Create ${count} flashcards now:`;
         return this.parseFlashcards(responseText, count, topic);
     }
 
-    async generateQuiz(flashcards: Flashcard[], count: number): Promise<QuizQuestion[]> {
+    async generateQuiz(flashcards: Flashcard[], count: number, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
         if (!this.client) {
             throw new Error('Custom LLM client not configured');
         }
@@ -124,7 +127,7 @@ JSON FORMAT:
   "options": ["A", "B", "C", "D"],
   "correctAnswer": 2
 }]
-
+${options?.kinds?.length ? `\n${questionKindsPrompt(options.kinds)}\n` : ''}
 Return ONLY the JSON array:`;
 
         const completion = await this.client.chat.completions.create({
@@ -138,12 +141,12 @@ Return ONLY the JSON array:`;
         return this.parseQuizQuestions(text, count);
     }
 
-    async generateQuizFromFlashcards(flashcards: Flashcard[], count: number): Promise<QuizQuestion[]> {
+    async generateQuizFromFlashcards(flashcards: Flashcard[], count: number, _llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
         // Alias method required by interface - delegates to generateQuiz
-        return this.generateQuiz(flashcards, count);
+        return this.generateQuiz(flashcards, count, options);
     }
 
-    async generateAdvancedQuiz(previousResults: unknown, mode: 'harder' | 'remedial'): Promise<QuizQuestion[]> {
+    async generateAdvancedQuiz(previousResults: unknown, mode: 'harder' | 'remedial', _context?: string, _llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
         if (!this.client) {
             throw new Error('Custom LLM client not configured');
         }
@@ -170,7 +173,7 @@ REQUIREMENTS:
 - EXACTLY 4 options per question
 - All options must be plausible
 - Test deeper understanding
-- Return JSON: [{"question": "...", "options": ["A","B","C","D"], "correctAnswer": 0-3}]`;
+- Return JSON: [{"question": "...", "options": ["A","B","C","D"], "correctAnswer": 0-3}]${options?.kinds?.length ? `\n\n${questionKindsPrompt(options.kinds)}` : ''}`;
 
         const completion = await this.client.chat.completions.create({
             model: this.model,
@@ -204,6 +207,22 @@ Provide a brief, direct answer (1-2 sentences):`;
         return completion.choices[0]?.message?.content?.trim() || '';
     }
 
+    async judgeAnswer(request: AnswerJudgementRequest): Promise<AnswerJudgement> {
+        if (!this.client) {
+            throw new Error('Custom LLM client not configured');
+        }
+
+        const completion = await this.client.chat.completions.create({
+            model: this.model,
+            messages: [{ role: 'user', content: answerJudgementPrompt(request) }],
+            // Grading should not vary between attempts
+            temperature: 0,
+            max_tokens: 256,
+        });
+
+        return parseAnswerJudgement(completion.choices[0]?.message?.content || '');
+    }
+
     async generateSubTopics(topic: string): Promise<string[]> {
         if (!this.client) {
             throw new Error('Custom LLM client not configured');
@@ -289,15 +308,10 @@ Return as JSON array: ["subtopic1", "subtopic2", ...]`;
             const parsed = JSON.parse(jsonMatch[0]);
             if (!Array.isArray(parsed)) throw new Error('Response is not an array');
 
-            return parsed.map(item => {
-                const correctIdx = item.correctAnswer ?? 0;
-                return {
-                    id: uuidv4(),
-                    question: item.question || '',
-                    options: item.options || [],
-                    correctAnswer: item.options?.[correctIdx] || item.options?.[0] || ''
-                };
-            });
+            // Ids written by the model are not unique across quizzes
+            return parsed
+                .map(item => normalizeQuizQuestion({ ...item, id: undefined }, uuidv4()))
+                .filter((question): question is QuizQuestion => question !== null);
         } catch (error) {
             console.error('[CustomLLMAdapter] Failed to parse quiz questions:', error);
             return [];
@@ -0,0 +1,109 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Deck, QuizResult } from '../../../core/domain/models.js';
+import type { StoragePort } from '../../../core/ports/interfaces.js';
+import { pageDecks } from '../../../utils/pagination.js';
+import type { Connection, DeckListQuery } from '../../../utils/pagination.js';
+
+/** Format of the files written by this adapter; older files are upgraded when read. */
+export const JSON_STORAGE_VERSION = 1;
+
+interface StoredFile<T> {
+  version: number;
+  items: T[];
+}
+
+/**
+ * Upgrades a file from the version it was written in to the next one, indexed
+ * by the old version. Version 0 is a bare JSON array, e.g. a hand-made export.
+ */
+const UPGRADES: Array<(file: StoredFile<unknown>) => StoredFile<unknown>> = [
+  file => ({ version: 1, items: file.items })
+];
+
+/**
+ * Quiz results and deck history as JSON files in a directory, for self-hosted
+ * setups without SQLite. Writes go to a temporary file that is then renamed, so
+ * a crash never leaves a half-written file behind.
+ */
+export class JsonDirectoryAdapter implements StoragePort {
+  private files = new Map<string, Promise<unknown[]>>();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  async saveQuizResult(result: QuizResult): Promise<void> {
+    await this.upsert<QuizResult>('quiz-history.json', result);
+  }
+
+  async getQuizHistory(): Promise<QuizResult[]> {
+    return [...await this.read<QuizResult>('quiz-history.json')];
+  }
+
+  async saveDeck(deck: Deck): Promise<void> {
+    await this.upsert<Deck>('deck-history.json', deck);
+  }
+
+  async getDeckHistory(): Promise<Deck[]> {
+    return [...await this.read<Deck>('deck-history.json')];
+  }
+
+  async listDecks(query?: DeckListQuery): Promise<Connection<Deck>> {
+    return pageDecks(await this.getDeckHistory(), query);
+  }
+
+  async getDeck(id: string): Promise<Deck | null> {
+    return (await this.read<Deck>('deck-history.json')).find(deck => deck.id === id) ?? null;
+  }
+
+  /** Items of a file, read once and then kept in memory; a failed read is tried again next time. */
+  private read<T>(name: string): Promise<T[]> {
+    if (!this.files.has(name)) {
+      const loading = this.load(name);
+      this.files.set(name, loading);
+      loading.catch(() => {
+        if (this.files.get(name) === loading) this.files.delete(name);
+      });
+    }
+    return this.files.get(name)! as Promise<T[]>;
+  }
+
+  private async load(name: string): Promise<unknown[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(this.directory, name), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const parsed = JSON.parse(raw);
+    let file: StoredFile<unknown> = Array.isArray(parsed) ? { version: 0, items: parsed } : parsed;
+    if (file.version > JSON_STORAGE_VERSION) {
+      throw new Error(`${name} was written by a newer version (format ${file.version}, this build reads up to ${JSON_STORAGE_VERSION})`);
+    }
+    while (file.version < JSON_STORAGE_VERSION) {
+      file = UPGRADES[file.version]!(file);
+    }
+    return file.items;
+  }
+
+  /** Add or replace an item by id and write the file; writes are serialised. */
+  private async upsert<T extends { id: string }>(name: string, item: T): Promise<void> {
+    const write = this.writing.then(async () => {
+      const items = await this.read<T>(name);
+      const index = items.findIndex(existing => existing.id === item.id);
+      if (index >= 0) items[index] = item;
+      else items.push(item);
+
+      const file: StoredFile<T> = { version: JSON_STORAGE_VERSION, items };
+      const target = path.join(this.directory, name);
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(`${target}.tmp`, JSON.stringify(file, null, 2));
+      await fs.rename(`${target}.tmp`, target);
+    });
+    // A failed write must not block the ones queued after it
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -1,5 +1,7 @@
 import type { Deck, QuizResult } from '../../../core/domain/models.js';
 import type { StoragePort } from '../../../core/ports/interfaces.js';
+import { pageDecks } from '../../../utils/pagination.js';
+import type { Connection, DeckListQuery } from '../../../utils/pagination.js';
 
 export class FileSystemAdapter implements StoragePort {
   // In-memory storage for serverless environments
@@ -48,6 +50,10 @@ export class FileSystemAdapter implements StoragePort {
     }
   }
 
+  async listDecks(query?: DeckListQuery): Promise<Connection<Deck>> {
+    return pageDecks(this.deckHistory, query);
+  }
+
   async getDeck(id: string): Promise<Deck | null> {
     try {
       const deck = this.deckHistory.find(d => d.id === id);
@@ -1,6 +1,9 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import type { Flashcard, QuizQuestion } from '../../../core/domain/models.js';
 import type { LLMAdapter } from '../../../core/services/AdapterManager.js';
+import type { AnswerJudgement, AnswerJudgementRequest, QuizGenerationOptions } from '../../../core/ports/interfaces.js';
+import { answerJudgementPrompt, parseAnswerJudgement } from '../../../utils/answerMatching.js';
+import { normalizeQuizQuestion, questionKindsPrompt } from '../../../utils/quizQuestions.js';
 import { v4 as uuidv4 } from 'uuid';
 
 export class GoogleAdapter implements LLMAdapter {
@@ -84,7 +87,7 @@ Create ${count} flashcards now:`;
         return this.parseFlashcards(responseText, count, topic);
     }
 
-    async generateQuiz(flashcards: Flashcard[], count: number): Promise<QuizQuestion[]> {
+    async generateQuiz(flashcards: Flashcard[], count: number, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
         if (!this.client) {
             throw new Error('Google client not configured');
         }
@@ -111,7 +114,7 @@ JSON FORMAT:
   "options": ["A", "B", "C", "D"],
   "correctAnswer": 2
 }]
-
+${options?.kinds?.length ? `\n${questionKindsPrompt(options.kinds)}\n` : ''}
 Return ONLY the JSON array:`;
 
         const model = this.client.getGenerativeModel({ model: this.model });
@@ -121,12 +124,12 @@ Return ONLY the JSON array:`;
         return this.parseQuizQuestions(text, count);
     }
 
-    async generateQuizFromFlashcards(flashcards: Flashcard[], count: number): Promise<QuizQuestion[]> {
+    async generateQuizFromFlashcards(flashcards: Flashcard[], count: number, _llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
         // Alias method required by interface - delegates to generateQuiz
-        return this.generateQuiz(flashcards, count);
+        return this.generateQuiz(flashcards, count, options);
     }
 
-    async generateAdvancedQuiz(previousResults: unknown, mode: 'harder' | 'remedial'): Promise<QuizQuestion[]> {
+    async generateAdvancedQuiz(previousResults: unknown, mode: 'harder' | 'remedial', _context?: string, _llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
         if (!this.client) {
             throw new Error('Google client not configured');
         }
@@ -153,7 +156,7 @@ REQUIREMENTS:
 - EXACTLY 4 options per question
 - All options must be plausible
 - Test deeper understanding
-- Return JSON: [{"question": "...", "options": ["A","B","C","D"], "correctAnswer": 0-3}]`;
+- Return JSON: [{"question": "...", "options": ["A","B","C","D"], "correctAnswer": 0-3}]${options?.kinds?.length ? `\n\n${questionKindsPrompt(options.kinds)}` : ''}`;
 
         const model = this.client.getGenerativeModel({ model: this.model });
         const result = await model.generateContent(prompt);
@@ -178,6 +181,16 @@ Provide a brief, direct answer (1-2 sentences):`;
         return result.response.text().trim();
     }
 
+    async judgeAnswer(request: AnswerJudgementRequest): Promise<AnswerJudgement> {
+        if (!this.client) {
+            throw new Error('Google client not configured');
+        }
+
+        const model = this.client.getGenerativeModel({ model: this.model });
+        const result = await model.generateContent(answerJudgementPrompt(request));
+        return parseAnswerJudgement(result.response.text());
+    }
+
     async generateSubTopics(topic: string): Promise<string[]> {
         if (!this.client) {
             throw new Error('Google client not configured');
@@ -249,15 +262,10 @@ Return as JSON array: ["subtopic1", "subtopic2", ...]`;
             const parsed = JSON.parse(jsonMatch[0]);
             if (!Array.isArray(parsed)) throw new Error('Response is not an array');
 
-            return parsed.map(item => {
-                const correctIdx = item.correctAnswer ?? 0;
-                return {
-                    id: uuidv4(),
-                    question: item.question || '',
-                    options: item.options || [],
-                    correctAnswer: item.options?.[correctIdx] || item.options?.[0] || ''
-                };
-            });
+            // Ids written by the model are not unique across quizzes
+            return parsed
+                .map(item => normalizeQuizQuestion({ ...item, id: undefined }, uuidv4()))
+                .filter((question): question is QuizQuestion => question !== null);
         } catch (error) {
             console.error('[GoogleAdapter] Failed to parse quiz questions:', error);
             return [];
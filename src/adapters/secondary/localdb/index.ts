@@ -0,0 +1,57 @@
+import type { Deck, QuizResult } from '../../../core/domain/models.js';
+import type { StoragePort } from '../../../core/ports/interfaces.js';
+import type { LocalDbService } from '../../../core/services/LocalDbService.js';
+import { pageDecks } from '../../../utils/pagination.js';
+import type { Connection, DeckListQuery } from '../../../utils/pagination.js';
+
+/**
+ * Quiz results and deck history in the local SQLite database, so they survive
+ * restarts. Falls back to memory together with LocalDbService when SQLite is unavailable.
+ */
+export class LocalDbStorageAdapter implements StoragePort {
+  constructor(private db: LocalDbService) {}
+
+  async saveQuizResult(result: QuizResult): Promise<void> {
+    await this.db.initialize();
+    const { error } = await this.db.saveQuizResult({
+      id: result.id,
+      topic: result.topic,
+      score: result.score,
+      total: result.total,
+      result,
+      created_at: result.timestamp
+    });
+    if (error) throw new Error(`Failed to save quiz result: ${error}`);
+  }
+
+  async getQuizHistory(): Promise<QuizResult[]> {
+    await this.db.initialize();
+    const { data, error } = await this.db.getQuizResults();
+    if (error) throw new Error(`Failed to load quiz history: ${error}`);
+    return data.map(row => row.result as QuizResult);
+  }
+
+  async saveDeck(deck: Deck): Promise<void> {
+    await this.db.initialize();
+    const { error } = await this.db.saveDeckHistory({ id: deck.id, topic: deck.topic, deck, created_at: deck.timestamp });
+    if (error) throw new Error(`Failed to save deck: ${error}`);
+  }
+
+  async getDeckHistory(): Promise<Deck[]> {
+    await this.db.initialize();
+    const { data, error } = await this.db.getDeckHistory();
+    if (error) throw new Error(`Failed to load deck history: ${error}`);
+    return data.map(row => row.deck as Deck);
+  }
+
+  async listDecks(query?: DeckListQuery): Promise<Connection<Deck>> {
+    return pageDecks(await this.getDeckHistory(), query);
+  }
+
+  async getDeck(id: string): Promise<Deck | null> {
+    await this.db.initialize();
+    const { data, error } = await this.db.getDeckHistory(id);
+    if (error) throw new Error(`Failed to load deck: ${error}`);
+    return (data[0]?.deck as Deck | undefined) ?? null;
+  }
+}
@@ -1,5 +1,7 @@
 import type { LLMAdapter } from '../../../core/services/AdapterManager.js';
 import type { Flashcard, QuizQuestion } from '../../../core/domain/models.js';
+import type { AnswerJudgement, AnswerJudgementRequest } from '../../../core/ports/interfaces.js';
+import { normalizeText } from '../../../utils/quizQuestions.js';
 
 export class MockLLMAdapter implements LLMAdapter {
     readonly name = 'mock';
@@ -30,6 +32,11 @@ export class MockLLMAdapter implements LLMAdapter {
         return `This is a mock answer to "${question}".`;
     }
 
+    async judgeAnswer(request: AnswerJudgementRequest): Promise<AnswerJudgement> {
+        const same = normalizeText(request.answer) === normalizeText(request.expected);
+        return { credit: same ? 1 : 0, rationale: same ? 'Mock judgement: same answer.' : 'Mock judgement: different answer.' };
+    }
+
     async generateAdvancedQuiz(_previousResults: unknown, _mode: 'harder' | 'remedial'): Promise<QuizQuestion[]> {
         return [
             {
@@ -1,4 +1,4 @@
-import type { AIServicePort } from '../../../core/ports/interfaces.js';
+import type { AIServicePort, AnswerJudgement, AnswerJudgementRequest, QuizGenerationOptions } from '../../../core/ports/interfaces.js';
 import type { Flashcard, QuizQuestion } from '../../../core/domain/models.js';
 import { OllamaAdapter } from '../ollama/index.js';
 import { MCPClientWrapper } from '../mcp/MCPClientWrapper.js';
@@ -60,14 +60,19 @@ export class HybridOllamaAdapter implements AIServicePort {
         return this.directAdapter.generateBriefAnswer(question, context);
     }
 
-    async generateAdvancedQuiz(previousResults: any, mode: 'harder' | 'remedial'): Promise<QuizQuestion[]> {
+    async judgeAnswer(request: AnswerJudgementRequest, llmConfig?: any): Promise<AnswerJudgement> {
         // MCP doesn't support this yet, use direct adapter
-        return this.directAdapter.generateAdvancedQuiz(previousResults, mode);
+        return this.directAdapter.judgeAnswer(request, llmConfig);
     }
 
-    async generateQuizFromFlashcards(flashcards: Flashcard[], count: number): Promise<QuizQuestion[]> {
+    async generateAdvancedQuiz(previousResults: any, mode: 'harder' | 'remedial', context?: string, llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
         // MCP doesn't support this yet, use direct adapter
-        return this.directAdapter.generateQuizFromFlashcards(flashcards, count);
+        return this.directAdapter.generateAdvancedQuiz(previousResults, mode, context, llmConfig, options);
+    }
+
+    async generateQuizFromFlashcards(flashcards: Flashcard[], count: number, llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
+        // MCP doesn't support this yet, use direct adapter
+        return this.directAdapter.generateQuizFromFlashcards(flashcards, count, llmConfig, options);
     }
 
     async generateSummary(topic: string): Promise<string> {
@@ -3,6 +3,11 @@ import type { Flashcard, QuizQuestion } from '../../../core/domain/models.js';
 import type { CacheService } from '../../../core/services/CacheService.js';
 import { CacheService as CacheServiceClass } from '../../../core/services/CacheService.js';
 import type { LLMAdapter } from '../../../core/services/AdapterManager.js';
+import type { AnswerJudgement, AnswerJudgementRequest, QuizGenerationOptions } from '../../../core/ports/interfaces.js';
+import { answerJudgementPrompt, parseAnswerJudgement } from '../../../utils/answerMatching.js';
+import { hasCloze, revealCloze } from '../../../utils/cloze.js';
+import { normalizeQuizQuestion, questionKind, questionKindsPrompt } from '../../../utils/quizQuestions.js';
+import { emitGenerationEvent, generationSignal, isObservingGeneration, JsonArrayItemStream } from '../../../utils/generationEvents.js';
 
 export class OllamaAdapter implements LLMAdapter {
   readonly name = 'ollama';
@@ -134,7 +139,7 @@ export class OllamaAdapter implements LLMAdapter {
     const cacheKey = `ollama:flashcards:${topic}:${count}`;
     if (this.cache && !llmConfig) { // Skip cache if custom config
       const cached = await this.cache.get(cacheKey);
-      if (cached !== undefined) return cached;
+      if (cached !== undefined) return this.replayCards(cached);
     }
 
     const systemPrompt = `You are a helpful study assistant that creates educational flashcards for learning. You create QUESTIONS and ANSWERS, NOT code examples.`;
@@ -170,7 +175,27 @@ JSON FORMAT:
 
 Now create ${count} flashcards:`;
 
-    const response = await this.callOllama(prompt, systemPrompt, { ...llmConfig, format: 'json' });
+    const stamp = Date.now();
+    const toCard = (item: any, index: number): Flashcard => {
+      if (typeof item === 'string') {
+        // Convert string to flashcard format
+        return {
+          id: `gen-${stamp}-${index}`,
+          front: `What is: ${topic}? (Card ${index + 1})`,
+          back: item,
+          topic: topic
+        } as any;
+      }
+      // Map question/answer to front/back for frontend compatibility
+      return {
+        id: `gen-${stamp}-${index}`,
+        front: item.question || item.front || `Question ${index + 1}`,
+        back: item.answer || item.back || item.toString(),
+        topic: topic
+      } as any;
+    };
+
+    const response = await this.callOllama(prompt, systemPrompt, { ...llmConfig, format: 'json' }, this.cardStreamer(toCard));
     console.log('Raw AI response:', response);
     const parsed = this.extractJSON(response);
     console.log('Parsed JSON:', parsed);
@@ -178,24 +203,7 @@ Now create ${count} flashcards:`;
     // Handle both array of objects and array of strings
     let result: Flashcard[] = [];
     if (Array.isArray(parsed)) {
-      result = parsed.map((item: any, index: number) => {
-        if (typeof item === 'string') {
-          // Convert string to flashcard format
-          return {
-            id: `gen-${Date.now()}-${index}`,
-            front: `What is: ${topic}? (Card ${index + 1})`,
-            back: item,
-            topic: topic
-          } as any;
-        }
-        // Map question/answer to front/back for frontend compatibility
-        return {
-          id: `gen-${Date.now()}-${index}`,
-          front: item.question || item.front || `Question ${index + 1}`,
-          back: item.answer || item.back || item.toString(),
-          topic: topic
-        } as any;
-      });
+      result = parsed.map(toCard);
     }
 
     // Store in cache (only if standard config)
@@ -212,7 +220,7 @@ Now create ${count} flashcards:`;
     const cacheKey = `ollama:flashcards-text:${textHash}:${topic}:${count}`;
     if (this.cache && !llmConfig) {
       const cached = await this.cache.get(cacheKey);
-      if (cached !== undefined) return cached;
+      if (cached !== undefined) return this.replayCards(cached);
     }
 
     const systemPrompt = `You are a careful study assistant. You must ONLY use the provided source text to create flashcards. Do not add outside knowledge.`;
@@ -226,18 +234,28 @@ RULES:
 2) Answers must be 1-3 sentences, concise, and derived from the source text.
 3) Questions end with "?".
 4) If a detail is unclear or absent in the text, skip it.
-5) Output JSON only: [{"question": "...", "answer": "..."}]
+5) For key terms, definitions, names, dates and numbers you MAY write a cloze card instead:
+   a sentence from the text with the term hidden as {{c1::term}}. Use c2, c3 for further hidden terms in the same sentence.
+   Example: {"cloze": "The {{c1::mitochondria}} produce most of the cell's {{c2::ATP}}."}
+6) Output JSON only: [{"question": "...", "answer": "..."} or {"cloze": "..."}]
 
 Begin now.`;
 
-    const response = await this.callOllama(prompt, systemPrompt, { ...llmConfig, format: 'json' });
-    const result = this.extractJSON(response).map((card: any, index: number) => ({
-      id: `file-${Date.now()}-${index}`,
-      front: card.question || card.front,
-      back: card.answer || card.back,
-      topic: topic,
-      source: pageInfo ? { page: pageInfo.page } : undefined
-    }));
+    const stamp = Date.now();
+    const toCard = (card: any, index: number): Flashcard => {
+      const base = {
+        id: `file-${stamp}-${index}`,
+        topic: topic,
+        source: pageInfo ? { page: pageInfo.page } : undefined
+      };
+      if (typeof card.cloze === 'string' && hasCloze(card.cloze)) {
+        return { ...base, kind: 'cloze', front: card.cloze, back: revealCloze(card.cloze) } as any;
+      }
+      return { ...base, front: card.question || card.front, back: card.answer || card.back } as any;
+    };
+
+    const response = await this.callOllama(prompt, systemPrompt, { ...llmConfig, format: 'json' }, this.cardStreamer(toCard));
+    const result = this.extractJSON(response).map(toCard);
 
     // Store in cache
     if (this.cache && result.length > 0 && !llmConfig) {
@@ -253,6 +271,12 @@ Begin now.`;
     return this.callOllama(prompt, systemPrompt, llmConfig);
   }
 
+  async judgeAnswer(request: AnswerJudgementRequest, llmConfig?: any): Promise<AnswerJudgement> {
+    const systemPrompt = "You are a fair examiner. Output ONLY valid JSON.";
+    const response = await this.callOllama(answerJudgementPrompt(request), systemPrompt, { ...llmConfig, format: 'json' });
+    return parseAnswerJudgement(response);
+  }
+
   async generateSummary(topic: string, llmConfig?: any): Promise<string> {
     // Check cache
     const cacheKey = `ollama:summary:${topic}`;
@@ -325,7 +349,7 @@ Begin now.`;
     return result;
   }
 
-  async generateAdvancedQuiz(previousResults: any, mode: 'harder' | 'remedial', context?: string, llmConfig?: any): Promise<QuizQuestion[]> {
+  async generateAdvancedQuiz(previousResults: any, mode: 'harder' | 'remedial', context?: string, llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
     const { topic, wrongAnswers } = previousResults;
     let systemPrompt = '';
     let prompt = '';
@@ -337,18 +361,23 @@ Begin now.`;
       systemPrompt = `You are a patient tutor. Create a remedial quiz.`;
       prompt = `Student missed: ${wrongAnswers.join(', ')}. Create 5 questions to reinforce these concepts. Return ONLY a JSON array with "id", "question", "options"(array), "correctAnswer", "explanation".`;
     }
+    if (options?.kinds?.length) {
+      prompt += `\n\n${questionKindsPrompt(options.kinds)}`;
+    }
 
     const response = await this.callOllama(prompt, systemPrompt, { ...llmConfig, format: 'json' });
     const result = this.extractJSON(response);
+    const questions = options?.kinds?.length ? this.normalizeQuestions(result) : result;
 
     // Ensure option count for advanced quizzes too
-    return this.ensureOptionCount(result);
+    return this.ensureOptionCount(questions);
   }
 
-  async generateQuizFromFlashcards(flashcards: Flashcard[], count: number, llmConfig?: any): Promise<QuizQuestion[]> {
+  async generateQuizFromFlashcards(flashcards: Flashcard[], count: number, llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]> {
     // Check cache
     const flashcardIds = flashcards.map(fc => fc.id).sort().join(',');
-    const cacheKey = `ollama:quiz:flashcards:${CacheServiceClass.hashKey(flashcardIds)}:${count}`;
+    const kinds = options?.kinds?.length ? options.kinds : undefined;
+    const cacheKey = `ollama:quiz:flashcards:${CacheServiceClass.hashKey(flashcardIds)}:${count}${kinds ? `:${kinds.join(',')}` : ''}`;
 
     if (this.cache && !llmConfig) {
       const cached = await this.cache.get(cacheKey);
@@ -387,7 +416,7 @@ Begin now.`;
         DETECTION RULES:
         - If a question is inherently binary (yes/no, true/false), use only 2 options.
         - FOR ALL OTHER QUESTIONS, YOU MUST PROVIDE EXACTLY 4 OPTIONS. NO EXCEPTIONS.
-        
+        ${kinds ? `\n${questionKindsPrompt(kinds)}\nThe option rules above apply to multiple-choice questions only.\n` : ''}
         JSON Format (return ONLY valid JSON, no markdown):
         [
           {
@@ -413,20 +442,16 @@ Begin now.`;
     console.log(`[OllamaAdapter] Extracted ${result.length} questions from LLM response`);
 
     // Check if questions have valid structure
-    const validQuestions = result.filter((q: any) =>
-      q.question &&
-      q.correctAnswer &&
-      q.options &&
-      Array.isArray(q.options) &&
-      q.options.length >= 2
-    );
+    const validQuestions = this.normalizeQuestions(result);
 
     // If LLM returned good data, verify and return
     if (validQuestions.length >= Math.min(count, 2)) {
       console.log(`[OllamaAdapter] ${validQuestions.length} valid questions found, proceeding with verification`);
       const topic = flashcards[0]?.topic || 'General Knowledge';
-      const verified = await this.verifyAndRefineQuiz(validQuestions, topic, llmConfig);
-      const finalQuiz = this.ensureOptionCount(verified);
+      // Only multiple-choice questions have distractors to review
+      const choices = validQuestions.filter(q => questionKind(q) === 'multiple-choice');
+      const verified = choices.length > 0 ? await this.verifyAndRefineQuiz(choices, topic, llmConfig) : [];
+      const finalQuiz = this.ensureOptionCount(validQuestions.map(q => questionKind(q) === 'multiple-choice' ? verified.shift() ?? q : q));
 
       // Cache if successful
       if (this.cache && finalQuiz.length > 0 && !llmConfig) {
@@ -575,8 +600,16 @@ Begin now.`;
     return this.ensureOptionCount(currentQuiz);
   }
 
+  private normalizeQuestions(raw: any[]): QuizQuestion[] {
+    return raw
+      .map((q, index) => normalizeQuizQuestion(q, `q${index + 1}`))
+      .filter((q): q is QuizQuestion => q !== null);
+  }
+
   private ensureOptionCount(quiz: QuizQuestion[]): QuizQuestion[] {
     return quiz.map((q, qIndex) => {
+      if (questionKind(q) !== 'multiple-choice') return q;
+
       // Ensure options array exists
       let options = (q.options && Array.isArray(q.options)) ? [...q.options] : [];
       const correctAnswer = q.correctAnswer || '';
@@ -808,7 +841,26 @@ Begin now.`;
     return result;
   }
 
-  private async callOllama(prompt: string, system: string, config?: { baseUrl?: string, model?: string, apiKey?: string, format?: string }): Promise<string> {
+  /**
+   * While a generation is being observed (e.g. streamed to the browser), report
+   * each card as soon as its JSON object is complete. Undefined otherwise, which
+   * keeps callOllama on the plain non-streaming request.
+   */
+  private cardStreamer(toCard: (item: any, index: number) => Flashcard): ((item: unknown) => void) | undefined {
+    if (!isObservingGeneration()) return undefined;
+    let index = 0;
+    return (item) => {
+      const card = toCard(item, index++);
+      if (card.front && card.back) emitGenerationEvent({ type: 'card', card });
+    };
+  }
+
+  private replayCards(cards: Flashcard[]): Flashcard[] {
+    if (Array.isArray(cards)) cards.forEach(card => emitGenerationEvent({ type: 'card', card }));
+    return cards;
+  }
+
+  private async callOllama(prompt: string, system: string, config?: { baseUrl?: string, model?: string, apiKey?: string, format?: string }, onItem?: (item: unknown) => void): Promise<string> {
     try {
       const headers: Record<string, string> = {};
       // Use config key if provided, else env var
@@ -822,12 +874,22 @@ Begin now.`;
 
       console.log(`[OllamaAdapter] Sending request to ${model} at ${baseUrl}/api/generate...`);
       const start = Date.now();
+      if (onItem) {
+        const response = await this.streamOllama(`${baseUrl}/api/generate`, {
+          model: model,
+          prompt: `${system} \n\n${prompt} `,
+          format: config?.format,
+          stream: true
+        }, headers, onItem);
+        console.log(`[OllamaAdapter] Streamed request completed in ${Date.now() - start}ms`);
+        return response;
+      }
       const res = await axios.post(`${baseUrl}/api/generate`, {
         model: model,
         prompt: `${system} \n\n${prompt} `,
         format: config?.format,
         stream: false
-      }, { headers });
+      }, { headers, signal: generationSignal() });
       console.log(`[OllamaAdapter] Request completed in ${Date.now() - start}ms`);
       return res.data.response;
     } catch (error: any) {
@@ -836,6 +898,36 @@ Begin now.`;
     }
   }
 
+  /**
+   * Ollama streams newline-delimited JSON chunks (`{"response": "...", "done": false}`).
+   * The text is accumulated and every completed array item is handed to `onItem`.
+   */
+  private async streamOllama(url: string, body: Record<string, unknown>, headers: Record<string, string>, onItem: (item: unknown) => void): Promise<string> {
+    const res = await axios.post(url, body, { headers, responseType: 'stream', signal: generationSignal() });
+    const items = new JsonArrayItemStream();
+    let text = '';
+    let pending = '';
+
+    const consume = (line: string) => {
+      if (!line.trim()) return;
+      const chunk = JSON.parse(line);
+      if (chunk.error) throw new Error(chunk.error);
+      if (typeof chunk.response === 'string' && chunk.response) {
+        text += chunk.response;
+        items.push(chunk.response).forEach(onItem);
+      }
+    };
+
+    for await (const data of res.data as AsyncIterable<Buffer | string>) {
+      pending += data.toString();
+      const lines = pending.split('\n');
+      pending = lines.pop() ?? '';
+      lines.forEach(consume);
+    }
+    consume(pending);
+    return text;
+  }
+
   private extractJSON(text: string): any {
     // 1. Clean the text
     let cleaned = text.replace(/```json\s * /g, '').replace(/```\s*/g, '').trim();
@@ -891,6 +983,17 @@ Begin now.`;
       }
     }
 
+    // Cloze cards: {"cloze": "... {{c1::term}} ..."}
+    const clozeRegex = /\{\s*"cloze"\s*:\s*"((?:[^"\\]|\\.)*)"\s*\}/g;
+    let clozeMatch;
+    while ((clozeMatch = clozeRegex.exec(text)) !== null) {
+      try {
+        cards.push({ cloze: JSON.parse(`"${(clozeMatch[1] || '').replace(/\n/g, '\\n')}"`) });
+      } catch (e) {
+        cards.push({ cloze: clozeMatch[1] });
+      }
+    }
+
     // Also try to match loose "front": "..." "back": "..." patterns (not in JSON object)
     if (cards.length === 0) {
       const looseRegex = /"front"\s*:\s*"((?:[^"\\]|\\.)*)"\s*[,\s]*"back"\s*:\s*"((?:[^"\\]|\\.)*)"/g;
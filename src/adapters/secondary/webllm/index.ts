@@ -6,7 +6,7 @@
  * and orchestration is handled by the backend service.
  */
 
-import type { AIServicePort } from '../../../core/ports/interfaces.js';
+import type { AIServicePort, AnswerJudgement, AnswerJudgementRequest } from '../../../core/ports/interfaces.js';
 import type { Flashcard, QuizQuestion } from '../../../core/domain/models.js';
 import type { CacheService } from '../../../core/services/CacheService.js';
 import type { WebLLMService } from '../../../core/services/WebLLMService.js';
@@ -83,6 +83,10 @@ export class WebLLMAdapter implements AIServicePort, LLMAdapter {
         throw new Error('WebLLM generation requires WebSocket session. Use /api/webllm/session endpoint first.');
     }
 
+    async judgeAnswer(_request: AnswerJudgementRequest): Promise<AnswerJudgement> {
+        throw new Error('WebLLM generation requires WebSocket session. Use /api/webllm/session endpoint first.');
+    }
+
     async generateSummary(topic: string): Promise<string> {
         const cacheKey = `webllm:summary:${topic}`;
         if (this.cache) {
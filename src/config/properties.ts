@@ -36,5 +36,27 @@ export const appProperties = {
   JOB_BACKEND_MAX_MS: Number(props.JOB_BACKEND_MAX_MS ?? 90000),
   XLS_MAX_ROWS_PER_SHEET: Number(props.XLS_MAX_ROWS_PER_SHEET ?? 200),
   MAX_EXTRACT_TEXT_CHARS: Number(props.MAX_EXTRACT_TEXT_CHARS ?? 20000),
+  DOC_CHUNK_CHARS: Number(props.DOC_CHUNK_CHARS ?? 8000),
+  DOC_CHARS_PER_CARD: Number(props.DOC_CHARS_PER_CARD ?? 2000),
+  DOC_MAX_CARDS: Number(props.DOC_MAX_CARDS ?? 50),
+  DOC_CHUNK_CONCURRENCY: Number(props.DOC_CHUNK_CONCURRENCY ?? 2),
+  GRAPH_NODE_ATTEMPTS: Number(props.GRAPH_NODE_ATTEMPTS ?? 2),
+  GRAPH_NODE_BACKOFF_MS: Number(props.GRAPH_NODE_BACKOFF_MS ?? 500),
+  CARD_QUALITY_THRESHOLD: Number(props.CARD_QUALITY_THRESHOLD ?? 0.6),
+  CARD_QUALITY_MAX_ROUNDS: Number(props.CARD_QUALITY_MAX_ROUNDS ?? 2),
+  SSE_HEARTBEAT_MS: Number(props.SSE_HEARTBEAT_MS ?? 15000),
+  QUEUE_CONCURRENCY: Number(props.QUEUE_CONCURRENCY ?? 4),
+  QUEUE_MAX_JOBS_PER_USER: Number(props.QUEUE_MAX_JOBS_PER_USER ?? 2),
+  QUEUE_USER_RETRY_DELAY_MS: Number(props.QUEUE_USER_RETRY_DELAY_MS ?? 2000),
+  QUEUE_JOB_ATTEMPTS: Number(props.QUEUE_JOB_ATTEMPTS ?? 3),
+  QUEUE_BACKOFF_MS: Number(props.QUEUE_BACKOFF_MS ?? 2000),
+  REVIEW_NEW_CARDS_PER_DAY: Number(props.REVIEW_NEW_CARDS_PER_DAY ?? 20),
+  REVIEW_MAX_REVIEWS_PER_DAY: Number(props.REVIEW_MAX_REVIEWS_PER_DAY ?? 200),
+  GRADING_TYPO_RATIO: Number(props.GRADING_TYPO_RATIO ?? 0.2),
+  GRADING_MIN_PARTIAL_CREDIT: Number(props.GRADING_MIN_PARTIAL_CREDIT ?? 0.5),
+  ADAPTIVE_TARGET_SE: Number(props.ADAPTIVE_TARGET_SE ?? 0.4),
+  ADAPTIVE_MIN_QUESTIONS: Number(props.ADAPTIVE_MIN_QUESTIONS ?? 5),
+  ADAPTIVE_MAX_QUESTIONS: Number(props.ADAPTIVE_MAX_QUESTIONS ?? 20),
+  EXAM_GRACE_SECONDS: Number(props.EXAM_GRACE_SECONDS ?? 5),
 };
 
@@ -1,26 +1,83 @@
-import type { ID, Timestamp, QuizSource } from './types.js';
+import type { ID, Timestamp, QuizSource, ReviewGrade, CardKind, QuestionKind, GradingMethod } from './types.js';
 
 export interface Flashcard {
   readonly id: ID;
-  readonly front: string;  // question
-  readonly back: string;   // answer
+  readonly front: string;  // question, or cloze text with {{c1::...}} deletions
+  readonly back: string;   // answer, or the cloze text with every deletion revealed
   readonly topic: string;
+  readonly kind?: CardKind; // defaults to 'basic'
+  readonly clozeIndex?: number; // set on review items expanded from a cloze card
+  readonly tags?: readonly string[];
   readonly source?: {
     readonly filename?: string;
     readonly page?: number;
     readonly type?: string;
     readonly url?: string;
   };
+  readonly quality?: CardQuality;
 }
 
+/**
+ * Heuristic quality of a generated card. Each criterion and the weighted `score`
+ * run from 0 (bad) to 1 (good); `grounding` is only set when scored against source text.
+ */
+export interface CardQuality {
+  readonly score: number;
+  readonly atomicity: number;     // one fact per card
+  readonly answerLength: number;  // short, reviewable answers
+  readonly ambiguity: number;     // specific, self-contained question
+  readonly leakage: number;       // question does not give the answer away
+  readonly grounding?: number;    // answer supported by the source context
+  readonly issues: readonly string[];
+}
+
+/**
+ * A quiz question; `kind` decides how `options` and the answers are read:
+ *
+ * - multiple-choice (default): one of `options` is `correctAnswer`
+ * - true-false: `options` are True and False, `correctAnswer` is one of them
+ * - multiple-select: `correctAnswers` are every correct option
+ * - ordering: `options` are the items as shown, `correctAnswers` the same items in order
+ * - short-answer: no options; `correctAnswer` or one of `acceptedAnswers` is typed in
+ *
+ * `correctAnswer` is always set, as a readable form of the answer for multiple-select and ordering.
+ */
 export interface QuizQuestion {
   readonly id: ID;
+  readonly kind?: QuestionKind;
   readonly question: string;
   readonly options: readonly string[];
   readonly correctAnswer: string;
+  readonly correctAnswers?: readonly string[];
+  readonly acceptedAnswers?: readonly string[];
   readonly explanation?: string;
 }
 
+/**
+ * How one answer was graded. `credit` runs from 0 to 1 and `correct` means full
+ * credit; `method` is the rule that decided, and `explanation` says why.
+ */
+export interface AnswerGrade {
+  readonly correct: boolean;
+  readonly credit: number;
+  readonly method: GradingMethod;
+  readonly explanation: string;
+}
+
+/** Time spent on one question of an attempt, in milliseconds since the epoch for the timestamps. */
+export interface QuestionTiming {
+  /** First shown. */
+  readonly startedAt?: number;
+  /** Last answered. */
+  readonly answeredAt?: number;
+  /** Total time on screen, over every visit. */
+  readonly timeMs: number;
+  /** Times a given answer was replaced by a different one. */
+  readonly changes: number;
+  /** The question's time limit ran out. */
+  readonly timedOut: boolean;
+}
+
 export interface QuizResult {
   readonly id: ID;
   readonly timestamp: Timestamp;
@@ -43,3 +100,38 @@ export interface Deck {
   readonly cards: readonly Flashcard[];
   readonly source?: QuizSource;
 }
+
+export interface ReviewLog {
+  readonly id: ID;
+  readonly userId: ID;
+  readonly cardId: ID;
+  readonly grade: ReviewGrade;
+  readonly latencyMs: number;
+  readonly reviewedAt: Timestamp;
+}
+
+export interface CardSchedule {
+  readonly userId: ID;
+  readonly cardId: ID;
+  readonly easeFactor: number;
+  readonly intervalDays: number;
+  readonly repetitions: number;
+  readonly lapses: number;
+  readonly dueAt: Timestamp;
+  readonly lastReviewedAt?: Timestamp;
+}
+
+export interface ReviewQueueItem {
+  readonly cardId: ID;
+  readonly topic: string;
+  readonly state: 'due' | 'new';
+  readonly dueAt?: Timestamp;
+}
+
+export interface ReviewQueue {
+  readonly items: ReviewQueueItem[];
+  readonly dueCount: number;
+  readonly newCount: number;
+  readonly reviewsRemaining: number; // daily review allowance not yet used
+  readonly newRemaining: number;     // daily new-card allowance not yet used
+}
@@ -8,3 +8,7 @@ export type KnowledgeSource = 'ai-only' | 'web-only' | 'ai-web';
 export type QuizMode = 'standard' | 'deep-dive';
 export type QuizSource = 'flashcards' | 'topic';
 export type JobStatus = 'COMPLETED' | 'FAILED' | 'PROCESSING' | 'not_found';
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+export type CardKind = 'basic' | 'cloze';
+export type QuestionKind = 'multiple-choice' | 'multiple-select' | 'true-false' | 'ordering' | 'short-answer';
+export type GradingMethod = 'exact' | 'normalized' | 'synonym' | 'fuzzy' | 'partial' | 'llm' | 'none';
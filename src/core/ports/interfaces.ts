@@ -1,5 +1,7 @@
 import type { Flashcard, QuizQuestion, QuizResult, Deck } from '../domain/models.js';
-import type { KnowledgeSource, Runtime } from '../domain/types.js';
+import type { KnowledgeSource, QuestionKind, Runtime } from '../domain/types.js';
+import type { GenerationListener } from '../../utils/generationEvents.js';
+import type { Connection, DeckListQuery } from '../../utils/pagination.js';
 
 export interface SearchResult {
   title: string;
@@ -18,8 +20,10 @@ export interface AIServicePort {
     llmConfig?: any
   ): Promise<Flashcard[]>;
   generateBriefAnswer(question: string, context: string, llmConfig?: any): Promise<string>;
-  generateAdvancedQuiz(previousResults: unknown, mode: 'harder' | 'remedial', context?: string, llmConfig?: any): Promise<QuizQuestion[]>;
-  generateQuizFromFlashcards(flashcards: Flashcard[], count: number, llmConfig?: any): Promise<QuizQuestion[]>;
+  /** Judge whether a typed answer means the same as the expected one. */
+  judgeAnswer(request: AnswerJudgementRequest, llmConfig?: any): Promise<AnswerJudgement>;
+  generateAdvancedQuiz(previousResults: unknown, mode: 'harder' | 'remedial', context?: string, llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]>;
+  generateQuizFromFlashcards(flashcards: Flashcard[], count: number, llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]>;
   generateSummary(topic: string, llmConfig?: any): Promise<string>;
   generateSearchQuery(topic: string, parentTopic?: string, llmConfig?: any): Promise<string>;
   generateSubTopics(topic: string, llmConfig?: any): Promise<string[]>;
@@ -34,21 +38,53 @@ export interface StoragePort {
   getQuizHistory(): Promise<QuizResult[]>;
   saveDeck(deck: Deck): Promise<void>;
   getDeckHistory(): Promise<Deck[]>;
+  /** One page of saved decks, filtered and sorted (newest first by default). */
+  listDecks(query?: DeckListQuery): Promise<Connection<Deck>>;
   getDeck(id: string): Promise<Deck | null>;
 }
 
+export interface GenerationOptions {
+  /** Stable id (e.g. the queue job id) under which pipeline progress is checkpointed, so a retry resumes. */
+  checkpointId?: string;
+  /** Receives stage changes and draft cards while the run is in progress. */
+  onEvent?: GenerationListener;
+  /** Cancels the run: in-flight model calls and scraping are aborted and the call rejects. */
+  signal?: AbortSignal;
+}
+
+export interface QuizGenerationOptions {
+  /** Question kinds to generate; multiple-choice only when unset. */
+  kinds?: readonly QuestionKind[];
+}
+
+export interface AnswerJudgementRequest {
+  question: string;
+  expected: string;
+  /** Other answers known to be correct. */
+  acceptedAnswers?: readonly string[];
+  answer: string;
+}
+
+export interface AnswerJudgement {
+  /** 0 (wrong) to 1 (equivalent); values between are partial credit. */
+  credit: number;
+  rationale: string;
+}
+
 // Input Ports (Driving)
 export interface StudyUseCase {
-  generateFlashcards(topic: string, count: number, mode?: 'standard' | 'deep-dive', knowledgeSource?: KnowledgeSource, runtime?: Runtime, parentTopic?: string, llmConfig?: any): Promise<{ cards: Flashcard[], recommendedTopics?: string[] }>;
+  generateFlashcards(topic: string, count: number, mode?: 'standard' | 'deep-dive', knowledgeSource?: KnowledgeSource, runtime?: Runtime, parentTopic?: string, llmConfig?: any, options?: GenerationOptions): Promise<{ cards: Flashcard[], recommendedTopics?: string[] }>;
   processFile(file: Buffer, filename: string, mimeType: string, topic: string): Promise<Flashcard[]>;
   processRawText(text: string, topic: string): Promise<Flashcard[]>;
   processUrls(urls: string[], topic: string): Promise<Flashcard[]>;
   getBriefAnswer(question: string, context: string): Promise<string>;
-  generateQuiz(topic: string, count: number, flashcards?: Flashcard[], preferredRuntime?: Runtime, llmConfig?: any): Promise<QuizQuestion[]>;
+  generateQuiz(topic: string, count: number, flashcards?: Flashcard[], preferredRuntime?: Runtime, llmConfig?: any, options?: QuizGenerationOptions): Promise<QuizQuestion[]>;
   generateAdvancedQuiz(previousResults: unknown, mode: 'harder' | 'remedial', llmConfig?: any): Promise<QuizQuestion[]>;
   saveQuizResult(result: QuizResult): Promise<string>;
   getQuizHistory(): Promise<QuizResult[]>;
   saveDeck(deck: Deck): Promise<void>;
   getDeckHistory(): Promise<Deck[]>;
+  /** One page of saved decks, filtered and sorted (newest first by default). */
+  listDecks(query?: DeckListQuery): Promise<Connection<Deck>>;
   getDeck(id: string): Promise<Deck | null>;
 }
@@ -0,0 +1,34 @@
+import type { Flashcard } from '../domain/models.js';
+import { AnkiPackageError, AnkiPackageService } from '../services/AnkiPackageService.js';
+import { DeckSerializationError } from './DeckSerializer.js';
+import type { DeckSerializer, SerializedDeck } from './DeckSerializer.js';
+
+/**
+ * Registry entry for Anki packages; the format work lives in AnkiPackageService.
+ */
+export class AnkiDeckSerializer implements DeckSerializer {
+    readonly format = 'apkg';
+    readonly extensions = ['.apkg'];
+    readonly mimeType = 'application/apkg';
+
+    constructor(private packages: AnkiPackageService = new AnkiPackageService()) {}
+
+    async serialize(deck: { topic: string; cards: readonly Flashcard[] }): Promise<Buffer> {
+        return this.wrap(() => this.packages.exportPackage(deck));
+    }
+
+    async deserialize(data: Buffer): Promise<SerializedDeck[]> {
+        return this.wrap(() => this.packages.importPackage(data));
+    }
+
+    private async wrap<T>(fn: () => Promise<T>): Promise<T> {
+        try {
+            return await fn();
+        } catch (error) {
+            if (error instanceof AnkiPackageError) {
+                throw new DeckSerializationError(error.message, error.status);
+            }
+            throw error;
+        }
+    }
+}
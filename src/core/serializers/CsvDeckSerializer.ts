@@ -0,0 +1,127 @@
+import type { Flashcard } from '../domain/models.js';
+import { DeckSerializationError, importedCardId } from './DeckSerializer.js';
+import type { DeckSerializer, SerializedDeck } from './DeckSerializer.js';
+
+const FRONT_HEADERS = ['front', 'question', 'term', 'prompt'];
+const BACK_HEADERS = ['back', 'answer', 'definition', 'response'];
+const KIND_HEADERS = ['kind', 'type'];
+const TAG_HEADERS = ['tags', 'tag'];
+
+/**
+ * RFC 4180 style parser: quoted fields may contain the delimiter, quotes ("") and newlines.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^﻿/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field.length === 0) {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field.length > 0 || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter(r => r.some(cell => cell.trim().length > 0));
+}
+
+/**
+ * Delimited text with a `front,back,kind,tags` header. Also reads header-less files
+ * where every row is exactly a front/back pair.
+ */
+export class CsvDeckSerializer implements DeckSerializer {
+    constructor(
+        readonly format: string = 'csv',
+        private delimiter: string = ',',
+        readonly extensions: readonly string[] = ['.csv'],
+        readonly mimeType: string = 'text/csv'
+    ) {}
+
+    async serialize(deck: { topic: string; cards: readonly Flashcard[] }): Promise<Buffer> {
+        const lines = [['front', 'back', 'kind', 'tags']]
+            .concat(deck.cards.map(card => [card.front, card.back, card.kind || 'basic', (card.tags || []).join(' ')]))
+            .map(cells => cells.map(cell => this.quote(cell)).join(this.delimiter));
+        return Buffer.from(lines.join('\r\n') + '\r\n', 'utf-8');
+    }
+
+    async deserialize(data: Buffer, options: { topic: string }): Promise<SerializedDeck[]> {
+        const rows = parseDelimited(data.toString('utf-8'), this.delimiter);
+        if (rows.length === 0) {
+            throw new DeckSerializationError(`${this.format.toUpperCase()} file is empty`);
+        }
+
+        const header = (rows[0] ?? []).map(cell => cell.trim().toLowerCase());
+        const column = (names: string[]) => header.findIndex(h => names.includes(h));
+        let frontCol = column(FRONT_HEADERS);
+        let backCol = column(BACK_HEADERS);
+        const kindCol = column(KIND_HEADERS);
+        const tagCol = column(TAG_HEADERS);
+
+        let body = rows.slice(1);
+        if (frontCol < 0 || backCol < 0) {
+            // No recognised header: only accept plain two-column pairs
+            const isPairs = rows.every(r => r.filter((cell, i) => i < 2 || cell.trim()).length === 2);
+            if (!isPairs) {
+                throw new DeckSerializationError(`${this.format.toUpperCase()} file has no front/back columns`);
+            }
+            frontCol = 0;
+            backCol = 1;
+            body = rows;
+        }
+
+        const cards: Flashcard[] = [];
+        body.forEach((row, index) => {
+            const front = (row[frontCol] ?? '').trim();
+            const back = (row[backCol] ?? '').trim();
+            if (!front || !back) return;
+
+            const tags = tagCol >= 0 ? (row[tagCol] ?? '').split(/[\s;]+/).filter(Boolean) : [];
+            cards.push({
+                id: importedCardId(index),
+                front,
+                back,
+                topic: options.topic,
+                ...(kindCol >= 0 && (row[kindCol] ?? '').trim().toLowerCase() === 'cloze' ? { kind: 'cloze' as const } : {}),
+                ...(tags.length ? { tags } : {})
+            });
+        });
+
+        if (cards.length === 0) {
+            throw new DeckSerializationError(`${this.format.toUpperCase()} file has no complete front/back rows`);
+        }
+        return [{ topic: options.topic, cards }];
+    }
+
+    private quote(value: string): string {
+        if (value.includes(this.delimiter) || /["\r\n]/.test(value)) {
+            return `"${value.replace(/"/g, '""')}"`;
+        }
+        return value;
+    }
+}
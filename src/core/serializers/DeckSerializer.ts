@@ -0,0 +1,36 @@
+import type { Flashcard } from '../domain/models.js';
+
+export interface SerializedDeck {
+    topic: string;
+    cards: Flashcard[];
+}
+
+/**
+ * A deck file format. Serializers are stateless and registered by format name
+ * in the DeckSerializerRegistry.
+ */
+export interface DeckSerializer {
+    readonly format: string;
+    readonly extensions: readonly string[];
+    readonly mimeType: string;
+    serialize(deck: { topic: string; cards: readonly Flashcard[] }): Promise<Buffer>;
+    /**
+     * Parse a file into decks. `topic` is used when the format does not carry one.
+     */
+    deserialize(data: Buffer, options: { topic: string }): Promise<SerializedDeck[]>;
+}
+
+/**
+ * Thrown when a file cannot be read as the requested format.
+ * `status` lets routes answer with a 4xx/501 rather than a generic 500.
+ */
+export class DeckSerializationError extends Error {
+    constructor(message: string, public readonly status = 400) {
+        super(message);
+        this.name = 'DeckSerializationError';
+    }
+}
+
+export function importedCardId(index: number): string {
+    return `import-${Date.now()}-${index}`;
+}
@@ -0,0 +1,50 @@
+import path from 'path';
+import type { DeckSerializer } from './DeckSerializer.js';
+import { CsvDeckSerializer } from './CsvDeckSerializer.js';
+import { QuizletDeckSerializer } from './QuizletDeckSerializer.js';
+import { MarkdownDeckSerializer } from './MarkdownDeckSerializer.js';
+import { JsonDeckSerializer } from './JsonDeckSerializer.js';
+import { AnkiDeckSerializer } from './AnkiDeckSerializer.js';
+
+/**
+ * Deck formats by name. New formats plug in with `register`; the import/export
+ * routes and the upload pipeline look serializers up here.
+ */
+export class DeckSerializerRegistry {
+    private serializers = new Map<string, DeckSerializer>();
+
+    register(serializer: DeckSerializer): this {
+        this.serializers.set(serializer.format.toLowerCase(), serializer);
+        return this;
+    }
+
+    get(format: string): DeckSerializer | undefined {
+        return this.serializers.get(format.toLowerCase());
+    }
+
+    /**
+     * Find a serializer by file extension. When several share one (e.g. `.txt`),
+     * the first registered wins; pass an explicit format to pick another.
+     */
+    forFilename(filename: string): DeckSerializer | undefined {
+        const ext = path.extname(filename || '').toLowerCase();
+        if (!ext) return undefined;
+        return Array.from(this.serializers.values()).find(s => s.extensions.includes(ext));
+    }
+
+    formats(): string[] {
+        return Array.from(this.serializers.keys());
+    }
+}
+
+export function createDeckSerializerRegistry(): DeckSerializerRegistry {
+    return new DeckSerializerRegistry()
+        .register(new CsvDeckSerializer())
+        .register(new CsvDeckSerializer('tsv', '\t', ['.tsv', '.tab'], 'text/tab-separated-values'))
+        .register(new QuizletDeckSerializer())
+        .register(new MarkdownDeckSerializer())
+        .register(new JsonDeckSerializer())
+        .register(new AnkiDeckSerializer());
+}
+
+export const deckSerializers = createDeckSerializerRegistry();
@@ -0,0 +1,84 @@
+import type { Flashcard } from '../domain/models.js';
+import { DeckSerializationError, importedCardId } from './DeckSerializer.js';
+import type { DeckSerializer, SerializedDeck } from './DeckSerializer.js';
+
+export const DECK_JSON_SCHEMA = 'mindflip.deck';
+export const DECK_JSON_VERSION = 1;
+
+/**
+ * Versioned JSON that keeps every Flashcard field, including `source`.
+ *
+ * v1: { schema: 'mindflip.deck', version: 1, topic, exportedAt, cards: Flashcard[] }
+ */
+export class JsonDeckSerializer implements DeckSerializer {
+    readonly format = 'json';
+    readonly extensions = ['.json'];
+    readonly mimeType = 'application/json';
+
+    async serialize(deck: { topic: string; cards: readonly Flashcard[] }): Promise<Buffer> {
+        const document = {
+            schema: DECK_JSON_SCHEMA,
+            version: DECK_JSON_VERSION,
+            topic: deck.topic,
+            exportedAt: Date.now(),
+            // Only Flashcard fields; storage bookkeeping (usedInQuizzes, createdAt) stays out of the file
+            cards: deck.cards.map(({ id, front, back, topic, kind, clozeIndex, tags, source, quality }) =>
+                ({ id, front, back, topic, kind, clozeIndex, tags, source, quality }))
+        };
+        return Buffer.from(JSON.stringify(document, null, 2), 'utf-8');
+    }
+
+    async deserialize(data: Buffer, options: { topic: string }): Promise<SerializedDeck[]> {
+        let document: any;
+        try {
+            document = JSON.parse(data.toString('utf-8').replace(/^﻿/, ''));
+        } catch {
+            throw new DeckSerializationError('File is not valid JSON');
+        }
+
+        if (document?.schema !== DECK_JSON_SCHEMA || typeof document.version !== 'number') {
+            throw new DeckSerializationError(`JSON is not a ${DECK_JSON_SCHEMA} document`);
+        }
+        if (document.version > DECK_JSON_VERSION) {
+            throw new DeckSerializationError(`Deck JSON version ${document.version} is newer than supported version ${DECK_JSON_VERSION}`);
+        }
+        if (!Array.isArray(document.cards)) {
+            throw new DeckSerializationError('Deck JSON has no cards array');
+        }
+
+        const topic = typeof document.topic === 'string' && document.topic.trim() ? document.topic : options.topic;
+        const cards = document.cards.map((raw: any, index: number) => this.readCard(raw, index, topic));
+        return [{ topic, cards }];
+    }
+
+    private readCard(raw: any, index: number, topic: string): Flashcard {
+        if (typeof raw?.front !== 'string' || typeof raw?.back !== 'string') {
+            throw new DeckSerializationError(`Card ${index} is missing front/back text`);
+        }
+
+        const source = raw.source && typeof raw.source === 'object'
+            ? {
+                ...(typeof raw.source.filename === 'string' ? { filename: raw.source.filename } : {}),
+                ...(typeof raw.source.page === 'number' ? { page: raw.source.page } : {}),
+                ...(typeof raw.source.type === 'string' ? { type: raw.source.type } : {}),
+                ...(typeof raw.source.url === 'string' ? { url: raw.source.url } : {})
+            }
+            : undefined;
+        const quality = raw.quality && typeof raw.quality === 'object' && typeof raw.quality.score === 'number'
+            ? raw.quality
+            : undefined;
+        const tags = Array.isArray(raw.tags) ? raw.tags.filter((t: unknown): t is string => typeof t === 'string') : undefined;
+
+        return {
+            id: typeof raw.id === 'string' && raw.id ? raw.id : importedCardId(index),
+            front: raw.front,
+            back: raw.back,
+            topic: typeof raw.topic === 'string' && raw.topic ? raw.topic : topic,
+            ...(raw.kind === 'cloze' || raw.kind === 'basic' ? { kind: raw.kind } : {}),
+            ...(typeof raw.clozeIndex === 'number' ? { clozeIndex: raw.clozeIndex } : {}),
+            ...(tags ? { tags } : {}),
+            ...(source ? { source } : {}),
+            ...(quality ? { quality } : {})
+        };
+    }
+}
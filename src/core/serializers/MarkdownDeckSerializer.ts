@@ -0,0 +1,60 @@
+import type { Flashcard } from '../domain/models.js';
+import { hasCloze } from '../../utils/cloze.js';
+import { DeckSerializationError, importedCardId } from './DeckSerializer.js';
+import type { DeckSerializer, SerializedDeck } from './DeckSerializer.js';
+
+/**
+ * Markdown decks: an optional `# Topic` title, then one `## front` heading per card
+ * with everything up to the next heading as the back.
+ */
+export class MarkdownDeckSerializer implements DeckSerializer {
+    readonly format = 'markdown';
+    readonly extensions = ['.md', '.markdown'];
+    readonly mimeType = 'text/markdown';
+
+    async serialize(deck: { topic: string; cards: readonly Flashcard[] }): Promise<Buffer> {
+        const sections = deck.cards.map(card => `## ${card.front.replace(/\s*\n\s*/g, ' ')}\n\n${card.back.trim()}\n`);
+        return Buffer.from(`# ${deck.topic}\n\n${sections.join('\n')}`, 'utf-8');
+    }
+
+    async deserialize(data: Buffer, options: { topic: string }): Promise<SerializedDeck[]> {
+        let topic = options.topic;
+        const cards: Flashcard[] = [];
+        let current: { front: string; body: string[] } | null = null;
+
+        const flush = () => {
+            if (!current) return;
+            const front = current.front.trim();
+            const back = current.body.join('\n').trim();
+            if (front && back) {
+                cards.push({
+                    id: importedCardId(cards.length),
+                    front,
+                    back,
+                    topic,
+                    ...(hasCloze(front) ? { kind: 'cloze' as const } : {})
+                });
+            }
+            current = null;
+        };
+
+        for (const line of data.toString('utf-8').replace(/^﻿/, '').split(/\r?\n/)) {
+            const cardHeading = /^##\s+(.+?)\s*#*\s*$/.exec(line);
+            const titleHeading = /^#\s+(.+?)\s*#*\s*$/.exec(line);
+            if (cardHeading) {
+                flush();
+                current = { front: cardHeading[1] ?? '', body: [] };
+            } else if (titleHeading && !current && cards.length === 0) {
+                topic = (titleHeading[1] ?? '').trim() || topic;
+            } else if (current) {
+                current.body.push(line);
+            }
+        }
+        flush();
+
+        if (cards.length === 0) {
+            throw new DeckSerializationError('No "## front" sections with an answer found');
+        }
+        return [{ topic, cards: cards.map(card => ({ ...card, topic })) }];
+    }
+}
@@ -0,0 +1,37 @@
+import type { Flashcard } from '../domain/models.js';
+import { DeckSerializationError, importedCardId } from './DeckSerializer.js';
+import type { DeckSerializer, SerializedDeck } from './DeckSerializer.js';
+
+/**
+ * Quizlet's default copy/paste export: `term<TAB>definition`, one card per line, no quoting.
+ * Line breaks and tabs inside a card cannot be represented and are flattened to spaces.
+ */
+export class QuizletDeckSerializer implements DeckSerializer {
+    readonly format = 'quizlet';
+    readonly extensions = ['.txt'];
+    readonly mimeType = 'text/plain';
+
+    async serialize(deck: { topic: string; cards: readonly Flashcard[] }): Promise<Buffer> {
+        const flatten = (value: string) => value.replace(/[\t\r\n]+/g, ' ').trim();
+        const lines = deck.cards.map(card => `${flatten(card.front)}\t${flatten(card.back)}`);
+        return Buffer.from(lines.join('\n') + '\n', 'utf-8');
+    }
+
+    async deserialize(data: Buffer, options: { topic: string }): Promise<SerializedDeck[]> {
+        const cards: Flashcard[] = [];
+        data.toString('utf-8').replace(/^﻿/, '').split(/\r?\n/).forEach((line, index) => {
+            const tab = line.indexOf('\t');
+            if (tab < 0) return;
+            const front = line.slice(0, tab).trim();
+            const back = line.slice(tab + 1).trim();
+            if (front && back) {
+                cards.push({ id: importedCardId(index), front, back, topic: options.topic });
+            }
+        });
+
+        if (cards.length === 0) {
+            throw new DeckSerializationError('No tab-separated term/definition lines found');
+        }
+        return [{ topic: options.topic, cards }];
+    }
+}
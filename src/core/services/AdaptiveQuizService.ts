@@ -0,0 +1,384 @@
+import { randomUUID } from 'crypto';
+import { LoggerService } from './LoggerService.js';
+import { appProperties } from '../../config/properties.js';
+import type { AnswerGrade, QuestionTiming, QuizQuestion as GeneratedQuestion } from '../domain/models.js';
+import type { StudyUseCase } from '../ports/interfaces.js';
+import { GradingService } from './GradingService.js';
+import type { GradingOptions } from './GradingService.js';
+import type { QuizQuestion, QuizStorageService } from './QuizStorageService.js';
+import { calibrateItems, estimateAbility, itemInformation, DEFAULT_ITEM } from '../../utils/irt.js';
+import type { AbilityEstimate, ItemParameters } from '../../utils/irt.js';
+import { normalizeQuizQuestion } from '../../utils/quizQuestions.js';
+import type { QuizAnswer } from '../../utils/quizQuestions.js';
+
+const logger = new LoggerService();
+
+// An item this uninformative at the learner's ability is not worth asking while new ones can be generated
+const MIN_INFORMATION = 0.1;
+// Unfinished sessions are dropped after a day
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Starting difficulty for items that have not been answered yet
+const DIFFICULTY_PRIORS: Record<NonNullable<QuizQuestion['difficulty']>, number> = {
+    easy: -1,
+    medium: 0,
+    hard: 1
+};
+
+export type AdaptiveEndReason = 'converged' | 'max-questions' | 'out-of-questions';
+
+export interface AdaptiveQuizConfig {
+    /** The session ends once the ability estimate's standard error is this small... */
+    targetStandardError?: number;
+    /** ...and at least this many questions were answered. */
+    minQuestions?: number;
+    maxQuestions?: number;
+}
+
+export interface StartAdaptiveQuizParams extends AdaptiveQuizConfig {
+    topic: string;
+    /** The learner, whose own earlier attempts set the starting ability; anonymous sessions start at 0. */
+    userId?: string;
+    /** Passed on when new questions have to be generated. */
+    llmConfig?: any;
+}
+
+/** A question as the learner sees it, without its answer. */
+export interface AdaptiveQuestion {
+    id: string;
+    kind: QuizQuestion['kind'];
+    question: string;
+    options: string[];
+}
+
+export interface AdaptiveResponse {
+    questionId: string;
+    answer: QuizAnswer;
+    grade: AnswerGrade;
+    timing: QuestionTiming;
+    /** The item's parameters when it was asked. */
+    item: ItemParameters;
+    /** Ability estimate after this answer. */
+    ability: AbilityEstimate;
+}
+
+export interface AdaptiveSession {
+    id: string;
+    topic: string;
+    /** Only this learner can see and answer the session; unset for anonymous sessions. */
+    userId?: string;
+    status: 'active' | 'completed';
+    startedAt: number;
+    completedAt?: number;
+    endReason?: AdaptiveEndReason;
+    /** Ability estimated from the learner's earlier attempts on the topic; the mean of the session's prior. */
+    priorAbility: number;
+    ability: AbilityEstimate;
+    question: AdaptiveQuestion | null;
+    responses: AdaptiveResponse[];
+    targetStandardError: number;
+    minQuestions: number;
+    maxQuestions: number;
+}
+
+export interface AdaptiveAnswerResult {
+    grade: AnswerGrade;
+    explanation?: string;
+    session: AdaptiveSession;
+}
+
+export class AdaptiveQuizError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AdaptiveQuizError';
+    }
+}
+
+interface SessionState {
+    session: AdaptiveSession;
+    questions: Map<string, QuizQuestion>;
+    items: Record<string, ItemParameters>;
+    /** Generated during this session and not asked yet. */
+    generated: Set<string>;
+    current: QuizQuestion | null;
+    askedAt: number;
+    llmConfig?: any;
+}
+
+/**
+ * Adaptive quizzes driven by item response theory. Every stored question on a
+ * topic is an item whose difficulty and discrimination are calibrated from all
+ * attempts at it; the learner's ability starts from their own earlier attempts and
+ * is re-estimated after each answer. Each next question is the one that tells
+ * the most about the learner at their current estimate, and new questions are
+ * generated when none left is informative. A session ends when the estimate
+ * converges, and is then stored as a quiz and attempt like any other.
+ */
+export class AdaptiveQuizService {
+    private sessions = new Map<string, SessionState>();
+    private config: Required<AdaptiveQuizConfig>;
+
+    constructor(
+        private quizStorage: QuizStorageService,
+        private grader: GradingService = new GradingService(),
+        private studyService?: Pick<StudyUseCase, 'generateAdvancedQuiz'>,
+        config: AdaptiveQuizConfig = {}
+    ) {
+        this.config = {
+            targetStandardError: config.targetStandardError ?? appProperties.ADAPTIVE_TARGET_SE,
+            minQuestions: config.minQuestions ?? appProperties.ADAPTIVE_MIN_QUESTIONS,
+            maxQuestions: config.maxQuestions ?? appProperties.ADAPTIVE_MAX_QUESTIONS
+        };
+    }
+
+    async startSession(params: StartAdaptiveQuizParams): Promise<AdaptiveSession> {
+        this.pruneSessions(Date.now());
+        const { questions, items, attempts } = this.itemBank(params.topic);
+        const own = params.userId ? attempts.filter(attempt => attempt.userId === params.userId) : [];
+        const history = own.length
+            ? estimateAbility(own.flatMap(({ credits }) =>
+                Object.entries(credits).map(([id, credit]) => ({ item: items[id] ?? DEFAULT_ITEM, credit }))))
+            : { theta: 0 };
+        const maxQuestions = params.maxQuestions ?? this.config.maxQuestions;
+
+        const state: SessionState = {
+            session: {
+                id: randomUUID(),
+                topic: params.topic.trim(),
+                ...(params.userId ? { userId: params.userId } : {}),
+                status: 'active',
+                startedAt: Date.now(),
+                priorAbility: history.theta,
+                ability: { theta: history.theta, standardError: 1 },
+                question: null,
+                responses: [],
+                targetStandardError: params.targetStandardError ?? this.config.targetStandardError,
+                minQuestions: Math.min(this.config.minQuestions, maxQuestions),
+                maxQuestions
+            },
+            questions,
+            items,
+            generated: new Set(),
+            current: null,
+            askedAt: 0,
+            llmConfig: params.llmConfig
+        };
+        this.sessions.set(state.session.id, state);
+        logger.info('Adaptive quiz started', {
+            sessionId: state.session.id,
+            topic: state.session.topic,
+            items: questions.size,
+            priorAbility: Number(history.theta.toFixed(2))
+        });
+
+        await this.advance(state);
+        return state.session;
+    }
+
+    getSession(sessionId: string, userId?: string): AdaptiveSession | undefined {
+        return this.ownSession(sessionId, userId)?.session;
+    }
+
+    /**
+     * Grade the answer to the current question, update the ability estimate and
+     * pick the next question. Returns null for an unknown session or one another learner started.
+     */
+    async answer(sessionId: string, questionId: string, answer: QuizAnswer, options?: GradingOptions, userId?: string): Promise<AdaptiveAnswerResult | null> {
+        const state = this.ownSession(sessionId, userId);
+        if (!state) return null;
+        const { session, current } = state;
+        if (session.status !== 'active') {
+            throw new AdaptiveQuizError('This adaptive quiz has already ended');
+        }
+        if (!current) {
+            throw new AdaptiveQuizError('The previous answer is still being graded');
+        }
+        if (current.id !== questionId) {
+            throw new AdaptiveQuizError('Answer the current question first');
+        }
+        state.current = null;
+
+        const answeredAt = Date.now();
+        const timing: QuestionTiming = { startedAt: state.askedAt, answeredAt, timeMs: answeredAt - state.askedAt, changes: 0, timedOut: false };
+        const grade = await this.grader.grade(current, answer, { llmConfig: state.llmConfig, ...options });
+        const item = state.items[current.id] ?? DEFAULT_ITEM;
+        const responses = [...session.responses.map(response => ({ item: response.item, credit: response.grade.credit })), { item, credit: grade.credit }];
+        const ability = estimateAbility(responses, { mean: session.priorAbility, sd: 1 });
+        session.responses.push({ questionId, answer, grade, timing, item, ability });
+        session.ability = ability;
+
+        await this.advance(state);
+        return { grade, ...(current.explanation ? { explanation: current.explanation } : {}), session };
+    }
+
+    /** Ask the next question, or end the session. */
+    private async advance(state: SessionState): Promise<void> {
+        const { session } = state;
+        const answered = session.responses.length;
+        if (answered >= session.maxQuestions) {
+            return this.complete(state, 'max-questions');
+        }
+        if (answered >= session.minQuestions && session.ability.standardError <= session.targetStandardError) {
+            return this.complete(state, 'converged');
+        }
+
+        let next = this.mostInformative(state);
+        if ((!next || next.information < MIN_INFORMATION) && state.generated.size === 0 && this.studyService) {
+            await this.generateQuestions(state);
+            next = this.mostInformative(state) ?? next;
+        }
+        if (!next) {
+            return this.complete(state, 'out-of-questions');
+        }
+
+        state.current = next.question;
+        state.askedAt = Date.now();
+        state.generated.delete(next.question.id);
+        session.question = {
+            id: next.question.id,
+            kind: next.question.kind ?? 'multiple-choice',
+            question: next.question.question,
+            options: [...next.question.options]
+        };
+    }
+
+    private mostInformative(state: SessionState): { question: QuizQuestion; information: number } | undefined {
+        const asked = new Set(state.session.responses.map(response => response.questionId));
+        let best: { question: QuizQuestion; information: number } | undefined;
+        state.questions.forEach((question, id) => {
+            if (asked.has(id)) return;
+            const information = itemInformation(state.session.ability.theta, state.items[id] ?? DEFAULT_ITEM);
+            if (!best || information > best.information) {
+                best = { question, information };
+            }
+        });
+        return best;
+    }
+
+    /**
+     * Generate harder questions for a learner above average and remedial ones
+     * (on what they got wrong) below it, and add them to the topic's questions.
+     */
+    private async generateQuestions(state: SessionState): Promise<void> {
+        const { session } = state;
+        const mode = session.ability.theta >= 0 ? 'harder' : 'remedial';
+        const missed = session.responses
+            .filter(response => !response.grade.correct)
+            .map(response => state.questions.get(response.questionId)?.question ?? '')
+            .filter(Boolean);
+
+        try {
+            const generated = await this.studyService!.generateAdvancedQuiz({
+                topic: session.topic,
+                wrongAnswers: missed.length ? missed : [session.topic],
+                score: session.responses.filter(response => response.grade.correct).length,
+                total: session.responses.length
+            }, mode, state.llmConfig);
+
+            const difficulty = mode === 'harder' ? 'hard' : 'easy';
+            const questions: Array<Omit<QuizQuestion, 'id'>> = (generated ?? [])
+                .map(question => normalizeQuizQuestion({ ...question, id: undefined }, ''))
+                .filter((question): question is GeneratedQuestion => question !== null)
+                .map(({ id: _id, ...question }) => ({ ...question, options: [...question.options], difficulty }));
+            if (!questions.length) return;
+
+            const quiz = this.quizStorage.createQuiz({ topic: session.topic, source: 'topic', questions });
+            for (const question of quiz.questions) {
+                state.questions.set(question.id, question);
+                state.items[question.id] = { ...DEFAULT_ITEM, difficulty: DIFFICULTY_PRIORS[difficulty] };
+                state.generated.add(question.id);
+            }
+            logger.info('Adaptive quiz generated questions', { sessionId: session.id, mode, count: questions.length });
+        } catch (error: unknown) {
+            logger.warn('Adaptive quiz could not generate questions', {
+                sessionId: session.id,
+                error: error instanceof Error ? error.message : String(error)
+            });
+        }
+    }
+
+    /** End the session and store it as a quiz with one attempt, so it joins the history and later calibrations. */
+    private complete(state: SessionState, endReason: AdaptiveEndReason): void {
+        const { session } = state;
+        session.status = 'completed';
+        session.completedAt = Date.now();
+        session.endReason = endReason;
+        session.question = null;
+        state.current = null;
+        logger.info('Adaptive quiz completed', {
+            sessionId: session.id,
+            endReason,
+            answered: session.responses.length,
+            theta: Number(session.ability.theta.toFixed(2)),
+            standardError: Number(session.ability.standardError.toFixed(2))
+        });
+        if (!session.responses.length) return;
+
+        // Questions keep their ids so answers to them count towards the same items
+        this.quizStorage.storeQuiz({
+            id: session.id,
+            topic: session.topic,
+            questions: session.responses.map(response => state.questions.get(response.questionId)!),
+            source: 'topic',
+            createdAt: session.startedAt,
+            metadata: { difficulty: 'adaptive' }
+        });
+        const grades = Object.fromEntries(session.responses.map(response => [response.questionId, response.grade]));
+        const credit = session.responses.reduce((sum, response) => sum + response.grade.credit, 0);
+        this.quizStorage.storeAttempt({
+            id: randomUUID(),
+            quizId: session.id,
+            ...(session.userId ? { userId: session.userId } : {}),
+            timestamp: session.completedAt,
+            answers: Object.fromEntries(session.responses.map(response => [response.questionId, response.answer])),
+            score: session.responses.filter(response => response.grade.correct).length,
+            total: session.responses.length,
+            credit: Math.round(credit * 100) / 100,
+            grades,
+            timings: Object.fromEntries(session.responses.map(response => [response.questionId, response.timing])),
+            completedAt: new Date(session.completedAt),
+            timeSpent: session.completedAt - session.startedAt
+        });
+    }
+
+    /**
+     * Every question on the topic outside exams, with parameters calibrated from every attempt
+     * at them, and those attempts' learner and credit per question.
+     */
+    private itemBank(topic: string): {
+        questions: Map<string, QuizQuestion>;
+        items: Record<string, ItemParameters>;
+        attempts: { userId?: string; credits: Record<string, number> }[];
+    } {
+        const questions = new Map<string, QuizQuestion>();
+        const attempts: { userId?: string; credits: Record<string, number> }[] = [];
+        for (const quiz of this.quizStorage.getQuizzesByTopic(topic.trim())) {
+            // An exam's pool is only seen through its attempts
+            if (quiz.exam) continue;
+            quiz.questions.forEach(question => {
+                if (!questions.has(question.id)) questions.set(question.id, question);
+            });
+            for (const attempt of this.quizStorage.getAttempts(quiz.id)) {
+                const grades = Object.entries(this.quizStorage.gradesOf(attempt));
+                if (grades.length) attempts.push({ userId: attempt.userId, credits: Object.fromEntries(grades.map(([id, grade]) => [id, grade.credit])) });
+            }
+        }
+
+        const priors: Record<string, ItemParameters> = {};
+        questions.forEach((question, id) => {
+            priors[id] = { ...DEFAULT_ITEM, difficulty: question.difficulty ? DIFFICULTY_PRIORS[question.difficulty] : 0 };
+        });
+        return { questions, items: calibrateItems(attempts.map(attempt => attempt.credits), priors), attempts };
+    }
+
+    private ownSession(sessionId: string, userId?: string): SessionState | undefined {
+        const state = this.sessions.get(sessionId);
+        return state && state.session.userId === userId ? state : undefined;
+    }
+
+    private pruneSessions(now: number): void {
+        this.sessions.forEach((state, id) => {
+            if (now - state.session.startedAt > SESSION_TTL_MS) this.sessions.delete(id);
+        });
+    }
+}
@@ -0,0 +1,339 @@
+import { createHash, randomUUID } from 'crypto';
+import JSZip from 'jszip';
+import { LoggerService } from './LoggerService.js';
+import type { Flashcard } from '../domain/models.js';
+import { getClozeIndices, hasCloze, revealCloze } from '../../utils/cloze.js';
+import { sanitizeHtml } from '../../utils/html.js';
+
+const logger = new LoggerService();
+
+// Anki separates note fields with the ASCII unit separator
+const FIELD_SEPARATOR = '\x1f';
+const MODEL_TYPE_CLOZE = 1;
+const DEFAULT_DECK_ID = 1;
+
+const MEDIA_MIME: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    svg: 'image/svg+xml',
+    mp3: 'audio/mpeg',
+    ogg: 'audio/ogg',
+    wav: 'audio/wav',
+    m4a: 'audio/mp4'
+};
+
+const COLLECTION_SCHEMA = `
+    CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+    CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+    CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+    CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+    CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+    CREATE INDEX ix_notes_usn on notes (usn);
+    CREATE INDEX ix_cards_usn on cards (usn);
+    CREATE INDEX ix_revlog_usn on revlog (usn);
+    CREATE INDEX ix_cards_nid on cards (nid);
+    CREATE INDEX ix_cards_sched on cards (did, queue, due);
+    CREATE INDEX ix_revlog_cid on revlog (cid);
+    CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n.cloze { font-weight: bold; color: blue; }';
+
+type AnkiModel = {
+    id: number | string;
+    name: string;
+    type: number;
+    flds: Array<{ name: string; ord: number }>;
+};
+
+type AnkiNoteRow = {
+    id: number;
+    mid: number;
+    tags: string;
+    flds: string;
+};
+
+type AnkiCardRow = {
+    nid: number;
+    did: number;
+};
+
+export interface AnkiDeck {
+    topic: string;
+    cards: Flashcard[];
+}
+
+/**
+ * Thrown for packages we cannot read (corrupt zip, newer collection format, missing SQLite driver).
+ * Routes map it to a 4xx/501 instead of a generic 500.
+ */
+export class AnkiPackageError extends Error {
+    constructor(message: string, public readonly status = 400) {
+        super(message);
+        this.name = 'AnkiPackageError';
+    }
+}
+
+/**
+ * Reads and writes Anki `.apkg` packages (a zip holding a SQLite collection plus media files).
+ * Media is carried inline as data URIs on our side, so cards stay self-contained.
+ */
+export class AnkiPackageService {
+    private async openDatabase(data?: Buffer): Promise<any> {
+        let sqlite: any;
+        try {
+            // Optional dependency, same as LocalDbService
+            // @ts-ignore - optional dependency not installed in all environments
+            sqlite = (await import('better-sqlite3')).default;
+        } catch {
+            throw new AnkiPackageError('Anki packages require the better-sqlite3 module on the server', 501);
+        }
+        return data ? new sqlite(data) : new sqlite(':memory:');
+    }
+
+    /**
+     * Parse an .apkg into decks, one per Anki deck that holds notes.
+     */
+    async importPackage(buffer: Buffer): Promise<AnkiDeck[]> {
+        let zip: JSZip;
+        try {
+            zip = await JSZip.loadAsync(buffer);
+        } catch {
+            throw new AnkiPackageError('File is not a valid .apkg archive');
+        }
+
+        // collection.anki21 is the same schema as collection.anki2; anki21b is zstd-compressed and unsupported
+        const collectionFile = zip.file('collection.anki21') || zip.file('collection.anki2');
+        if (!collectionFile) {
+            throw new AnkiPackageError('Package has no Anki collection. Export with "Support older Anki versions" enabled.');
+        }
+
+        const media = await this.readMedia(zip);
+        const db = await this.openDatabase(await collectionFile.async('nodebuffer'));
+
+        try {
+            const col = db.prepare('SELECT models, decks FROM col LIMIT 1').get() as { models: string; decks: string } | undefined;
+            if (!col) {
+                throw new AnkiPackageError('Anki collection is empty');
+            }
+            const models = JSON.parse(col.models) as Record<string, AnkiModel>;
+            const deckNames = JSON.parse(col.decks) as Record<string, { name: string }>;
+
+            const noteDeck = new Map<number, number>();
+            for (const card of db.prepare('SELECT nid, did FROM cards ORDER BY ord').all() as AnkiCardRow[]) {
+                if (!noteDeck.has(card.nid)) noteDeck.set(card.nid, card.did);
+            }
+
+            const decks = new Map<string, Flashcard[]>();
+            for (const note of db.prepare('SELECT id, mid, tags, flds FROM notes ORDER BY id').all() as AnkiNoteRow[]) {
+                const topic = deckNames[String(noteDeck.get(note.id) ?? DEFAULT_DECK_ID)]?.name || 'Default';
+                const card = this.noteToCard(note, models[String(note.mid)], topic, media);
+                if (!card) continue;
+
+                if (!decks.has(topic)) decks.set(topic, []);
+                decks.get(topic)!.push(card);
+            }
+
+            logger.info('Anki package imported', { decks: decks.size, media: media.size });
+            return Array.from(decks.entries()).map(([topic, cards]) => ({ topic, cards }));
+        } finally {
+            db.close();
+        }
+    }
+
+    /**
+     * Write a deck to an .apkg with Basic and Cloze note types, tags and media.
+     */
+    async exportPackage(deck: { topic: string; cards: readonly Flashcard[] }): Promise<Buffer> {
+        const now = Date.now();
+        const nowSec = Math.floor(now / 1000);
+        const deckId = now;
+        const basicModelId = now + 1;
+        const clozeModelId = now + 2;
+
+        const mediaFiles: Array<{ name: string; data: Buffer }> = [];
+
+        const db = await this.openDatabase();
+        try {
+            db.exec(COLLECTION_SCHEMA);
+
+            db.prepare(`INSERT INTO col VALUES (1, @crt, @mod, @mod, 11, 0, 0, 0, @conf, @models, @decks, @dconf, '{}')`).run({
+                crt: Math.floor(new Date(now).setHours(0, 0, 0, 0) / 1000),
+                mod: now,
+                conf: JSON.stringify({
+                    nextPos: deck.cards.length + 1, estTimes: true, activeDecks: [deckId], sortType: 'noteFld', timeLim: 0,
+                    sortBackwards: false, addToCur: true, curDeck: deckId, newSpread: 0, dueCounts: true,
+                    curModel: String(basicModelId), collapseTime: 1200
+                }),
+                models: JSON.stringify({
+                    [basicModelId]: this.buildModel(basicModelId, deckId, 'Basic (MindFlip)', 0, ['Front', 'Back'], [
+                        { name: 'Card 1', qfmt: '{{Front}}', afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}' }
+                    ]),
+                    [clozeModelId]: this.buildModel(clozeModelId, deckId, 'Cloze (MindFlip)', MODEL_TYPE_CLOZE, ['Text', 'Extra'], [
+                        { name: 'Cloze', qfmt: '{{cloze:Text}}', afmt: '{{cloze:Text}}<br>\n{{Extra}}' }
+                    ])
+                }),
+                decks: JSON.stringify({
+                    [DEFAULT_DECK_ID]: this.buildDeck(DEFAULT_DECK_ID, 'Default'),
+                    [deckId]: this.buildDeck(deckId, deck.topic)
+                }),
+                dconf: JSON.stringify({ [DEFAULT_DECK_ID]: this.buildDeckConfig() })
+            });
+
+            const insertNote = db.prepare('INSERT INTO notes VALUES (@id, @guid, @mid, @mod, -1, @tags, @flds, @sfld, @csum, 0, \'\')');
+            const insertCard = db.prepare('INSERT INTO cards VALUES (@id, @nid, @did, @ord, @mod, -1, 0, 0, @due, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+
+            let cardId = now;
+            deck.cards.forEach((card, index) => {
+                const noteId = now + index;
+                const isCloze = card.kind === 'cloze' && hasCloze(card.front);
+                const fields = isCloze
+                    ? [card.front, card.back && card.back !== revealCloze(card.front) ? card.back : '']
+                    : [card.front, card.back];
+                const html = fields.map(field => this.extractMedia(this.toHtml(field), mediaFiles));
+                const sortField = this.stripHtml(html[0] ?? '');
+
+                insertNote.run({
+                    id: noteId,
+                    guid: randomUUID().replace(/-/g, '').slice(0, 10),
+                    mid: isCloze ? clozeModelId : basicModelId,
+                    mod: nowSec,
+                    tags: card.tags?.length ? ` ${card.tags.map(t => t.replace(/\s+/g, '_')).join(' ')} ` : '',
+                    flds: html.join(FIELD_SEPARATOR),
+                    sfld: sortField,
+                    csum: parseInt(createHash('sha1').update(sortField).digest('hex').slice(0, 8), 16)
+                });
+
+                const ords = isCloze ? getClozeIndices(card.front).map(n => n - 1) : [0];
+                for (const ord of ords) {
+                    insertCard.run({ id: ++cardId, nid: noteId, did: deckId, ord, mod: nowSec, due: index + 1 });
+                }
+            });
+
+            const zip = new JSZip();
+            zip.file('collection.anki2', db.serialize() as Buffer);
+            zip.file('media', JSON.stringify(Object.fromEntries(mediaFiles.map((file, i) => [String(i), file.name]))));
+            mediaFiles.forEach((file, i) => zip.file(String(i), file.data));
+
+            logger.info('Anki package exported', { topic: deck.topic, cards: deck.cards.length, media: mediaFiles.length });
+            return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+        } finally {
+            db.close();
+        }
+    }
+
+    private noteToCard(note: AnkiNoteRow, model: AnkiModel | undefined, topic: string, media: Map<string, string>): Flashcard | null {
+        // Shared packages are untrusted and cards are rendered as HTML
+        const fields = note.flds.split(FIELD_SEPARATOR).map(f => sanitizeHtml(this.inlineMedia(f, media)));
+        const tags = note.tags.trim().split(/\s+/).filter(Boolean);
+        const base = { id: `anki-${note.id}`, topic, ...(tags.length ? { tags } : {}) };
+
+        if (model?.type === MODEL_TYPE_CLOZE) {
+            const text = fields[0] ?? '';
+            if (!hasCloze(text)) return null;
+            const extra = fields[1]?.trim();
+            return { ...base, kind: 'cloze', front: text, back: extra || revealCloze(text) };
+        }
+
+        // Use the model's field order; extra fields beyond Back are appended to the answer
+        const [front = '', back = '', ...rest] = fields;
+        if (!front.trim()) return null;
+        const answer = [back, ...rest.filter(f => f.trim())].filter(Boolean).join('<br>');
+        return { ...base, front, back: answer };
+    }
+
+    private async readMedia(zip: JSZip): Promise<Map<string, string>> {
+        const media = new Map<string, string>();
+        const manifest = zip.file('media');
+        if (!manifest) return media;
+
+        let entries: Record<string, string>;
+        try {
+            entries = JSON.parse(await manifest.async('string'));
+        } catch {
+            logger.warn('Anki package has an unreadable media manifest; skipping media');
+            return media;
+        }
+
+        for (const [key, filename] of Object.entries(entries)) {
+            const file = zip.file(key);
+            const mime = MEDIA_MIME[filename.split('.').pop()?.toLowerCase() || ''];
+            if (!file || !mime) continue;
+            media.set(filename, `data:${mime};base64,${await file.async('base64')}`);
+        }
+        return media;
+    }
+
+    private inlineMedia(html: string, media: Map<string, string>): string {
+        return html
+            .replace(/(<img[^>]*\ssrc=)(["']?)([^"'\s>]+)\2/gi, (match, prefix: string, quote: string, name: string) => {
+                const uri = media.get(name);
+                return uri ? `${prefix}${quote || '"'}${uri}${quote || '"'}` : match;
+            })
+            .replace(/\[sound:([^\]]+)\]/g, (match, name: string) => {
+                const uri = media.get(name);
+                return uri ? `<audio controls src="${uri}"></audio>` : match;
+            });
+    }
+
+    private extractMedia(html: string, files: Array<{ name: string; data: Buffer }>): string {
+        const store = (mime: string, data: string) => {
+            const ext = Object.keys(MEDIA_MIME).find(e => MEDIA_MIME[e] === mime) || 'bin';
+            const name = `mindflip-${files.length}.${ext}`;
+            files.push({ name, data: Buffer.from(data, 'base64') });
+            return name;
+        };
+        return html
+            .replace(/<audio[^>]*\ssrc="data:([^;]+);base64,([^"]+)"[^>]*><\/audio>/gi, (_m, mime: string, data: string) =>
+                `[sound:${store(mime, data)}]`)
+            .replace(/(<img[^>]*\ssrc=)"data:([^;]+);base64,([^"]+)"/gi, (_m, prefix: string, mime: string, data: string) =>
+                `${prefix}"${store(mime, data)}"`);
+    }
+
+    private toHtml(text: string): string {
+        // Imported cards already carry HTML; generated ones are plain text
+        if (/<\/?(?:br|div|p|span|img|audio|b|i|u|em|strong|sub|sup|ul|ol|li|hr|table)\b[^>]*>/i.test(text)) return sanitizeHtml(text);
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/\n/g, '<br>');
+    }
+
+    private stripHtml(html: string): string {
+        return html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+    }
+
+    private buildModel(id: number, deckId: number, name: string, type: number, fieldNames: string[], templates: Array<{ name: string; qfmt: string; afmt: string }>) {
+        return {
+            id, name, type,
+            mod: Math.floor(id / 1000), usn: -1, sortf: 0, did: deckId,
+            tmpls: templates.map((t, ord) => ({ ...t, ord, did: null, bqfmt: '', bafmt: '' })),
+            flds: fieldNames.map((fieldName, ord) => ({ name: fieldName, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+            css: CARD_CSS,
+            latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+            latexPost: '\\end{document}',
+            tags: [], vers: [],
+            req: type === MODEL_TYPE_CLOZE ? undefined : [[0, 'any', [0]]]
+        };
+    }
+
+    private buildDeck(id: number, name: string) {
+        return {
+            id, name, mod: Math.floor(Date.now() / 1000), usn: -1, desc: '', dyn: 0, conf: DEFAULT_DECK_ID, collapsed: false,
+            newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0], extendNew: 10, extendRev: 50
+        };
+    }
+
+    private buildDeckConfig() {
+        return {
+            id: DEFAULT_DECK_ID, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+            new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+            rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: true, hardFactor: 1.2 },
+            lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 }
+        };
+    }
+}
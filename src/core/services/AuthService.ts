@@ -52,4 +52,14 @@ export class AuthService {
             throw new Error('Invalid token');
         }
     }
+
+    /** Whether the token payload belongs to an operator listed in ADMIN_USERS (comma-separated ids or emails). */
+    isAdmin(user: { id?: string; sub?: string; email?: string } | undefined): boolean {
+        if (!user) return false;
+        const admins = (process.env.ADMIN_USERS || '')
+            .split(',')
+            .map(entry => entry.trim().toLowerCase())
+            .filter(Boolean);
+        return [user.id, user.sub, user.email].some(value => !!value && admins.includes(value.toLowerCase()));
+    }
 }
@@ -0,0 +1,142 @@
+import type { CardQuality, Flashcard } from '../domain/models.js';
+import { appProperties } from '../../config/properties.js';
+import { getClozeAnswers, getClozeIndices, isClozeCard, renderClozeFront } from '../../utils/cloze.js';
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'in', 'on', 'to', 'for', 'with', 'by', 'from', 'at', 'as', 'is', 'are', 'was', 'were', 'be', 'this', 'that', 'these', 'those', 'it', 'its', 'their', 'his', 'her', 'our', 'your', 'my', 'we', 'you', 'they', 'what', 'which', 'who', 'how', 'why', 'when', 'where', 'does', 'did']);
+
+const WEIGHTS = { atomicity: 0.2, answerLength: 0.15, ambiguity: 0.2, leakage: 0.25, grounding: 0.2 };
+
+// Criteria below this are reported in `issues`
+const ISSUE_BELOW = 0.5;
+const ISSUE_NAMES: Record<keyof typeof WEIGHTS, string> = {
+    atomicity: 'not-atomic',
+    answerLength: 'answer-too-long',
+    ambiguity: 'ambiguous',
+    leakage: 'answer-leaks',
+    grounding: 'ungrounded'
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function tokens(text: string): Set<string> {
+    return new Set(
+        text
+            .toLowerCase()
+            .replace(/[^a-z0-9\s]/g, ' ')
+            .split(/\s+/)
+            .filter(w => w.length > 2 && !STOP_WORDS.has(w))
+    );
+}
+
+function overlap(target: Set<string>, source: Set<string>): number {
+    if (target.size === 0) return 0;
+    let shared = 0;
+    target.forEach(t => { if (source.has(t)) shared++; });
+    return shared / target.size;
+}
+
+/**
+ * Scores generated cards so weak ones can be regenerated instead of shown.
+ * The checks are cheap heuristics; no model call is involved.
+ */
+export class CardQualityService {
+    constructor(private threshold: number = appProperties.CARD_QUALITY_THRESHOLD) {}
+
+    score(card: Pick<Flashcard, 'front' | 'back' | 'kind'>, context?: string): CardQuality {
+        // Cloze cards are judged as their review prompt (blank) and hidden answers
+        const cloze = isClozeCard(card);
+        const index = cloze ? getClozeIndices(card.front)[0] ?? 1 : 0;
+        const question = cloze ? renderClozeFront(card.front, index) : card.front;
+        const answer = cloze ? getClozeAnswers(card.front, index).join(' ') : card.back;
+
+        const criteria: Omit<CardQuality, 'score' | 'issues'> = {
+            atomicity: round(this.atomicity(question, answer)),
+            answerLength: round(this.answerLength(answer)),
+            ambiguity: round(this.ambiguity(question, cloze)),
+            leakage: round(this.leakage(question, answer)),
+            ...(context && context.trim() ? { grounding: round(this.grounding(question, answer, context)) } : {})
+        };
+
+        let weighted = 0;
+        let totalWeight = 0;
+        let worst = 1;
+        const issues: string[] = [];
+        (Object.keys(WEIGHTS) as (keyof typeof WEIGHTS)[]).forEach(name => {
+            const value = criteria[name];
+            if (value === undefined) return;
+            weighted += value * WEIGHTS[name];
+            totalWeight += WEIGHTS[name];
+            worst = Math.min(worst, value);
+            if (value < ISSUE_BELOW) issues.push(ISSUE_NAMES[name]);
+        });
+
+        // Weakest-link factor: one failing criterion (e.g. the question states the answer)
+        // sinks the card however good the rest is
+        const score = (weighted / totalWeight) * Math.sqrt(worst);
+        return { score: round(score), ...criteria, issues };
+    }
+
+    withQuality<T extends Flashcard>(card: T, context?: string): T {
+        return { ...card, quality: this.score(card, context) };
+    }
+
+    passes(card: Flashcard): boolean {
+        return (card.quality ?? this.score(card)).score >= this.threshold;
+    }
+
+    /** One fact per card: penalise multi-sentence or list answers and compound questions. */
+    private atomicity(question: string, answer: string): number {
+        let value = 1;
+        const sentences = answer.split(/(?<=[.!?])\s+/).filter(s => s.trim().length > 0).length;
+        value -= 0.2 * Math.max(0, sentences - 1);
+        const listItems = answer.split(/\n\s*(?:[-*•]|\d+[.)])\s+/).length - 1;
+        const separators = (answer.match(/[,;]/g) || []).length;
+        if (listItems >= 2 || separators >= 3) value -= 0.3;
+        const questionMarks = (question.match(/\?/g) || []).length;
+        if (questionMarks > 1 || /\band\s+(what|how|why|when|where|which|who)\b/i.test(question)) value -= 0.4;
+        return clamp(value);
+    }
+
+    /** Answers up to 20 words are ideal; longer ones lose credit until 70 words. */
+    private answerLength(answer: string): number {
+        const words = answer.trim().split(/\s+/).filter(Boolean).length;
+        if (words === 0) return 0;
+        return clamp(1 - Math.max(0, words - 20) / 50);
+    }
+
+    /** Vague references, template questions and fragments make a prompt ambiguous. */
+    private ambiguity(question: string, cloze: boolean): number {
+        let value = 1;
+        const text = question.trim();
+        if (/^(it|this|that|they|these|those|he|she)\b/i.test(text)) value -= 0.4;
+        if (/\bkey (idea|fact|concept)\b|\bimportant concept\b|\btell me about\b|\bsomething\b/i.test(text)) value -= 0.6;
+        if (/\b(etc|various|stuff|things?)\b/i.test(text)) value -= 0.2;
+        if (!cloze) {
+            const words = text.split(/\s+/).filter(Boolean).length;
+            if (words < 3) value -= 0.3;
+            if (!text.endsWith('?') && !/^(define|name|list|explain|describe|state|give|identify|compare)\b/i.test(text)) value -= 0.1;
+        }
+        return clamp(value);
+    }
+
+    /** Share of the answer's content words that already appear in the question. */
+    private leakage(question: string, answer: string): number {
+        const normalise = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+        const answerText = normalise(answer);
+        if (answerText && normalise(question).includes(answerText)) return 0;
+        const answerTokens = tokens(answer);
+        if (answerTokens.size === 0) return 1;
+        return clamp(1 - overlap(answerTokens, tokens(question)));
+    }
+
+    /** How much of the card, mostly the answer, is supported by the source text. */
+    private grounding(question: string, answer: string, context: string): number {
+        const contextTokens = tokens(context);
+        const answerTokens = tokens(answer);
+        const questionTokens = tokens(question);
+        const answerShare = answerTokens.size ? overlap(answerTokens, contextTokens) : 1;
+        const questionShare = questionTokens.size ? overlap(questionTokens, contextTokens) : 1;
+        return clamp(0.7 * answerShare + 0.3 * questionShare);
+    }
+}
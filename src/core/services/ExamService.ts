@@ -0,0 +1,525 @@
+import { randomUUID } from 'crypto';
+import { LoggerService } from './LoggerService.js';
+import { appProperties } from '../../config/properties.js';
+import type { AnswerGrade, QuizQuestion as GeneratedQuestion } from '../domain/models.js';
+import type { GradingOptions } from './GradingService.js';
+import type { LocalDbService } from './LocalDbService.js';
+import type { ExamSection, PresentedQuestion, Quiz, QuizQuestion, QuizStorageService } from './QuizStorageService.js';
+import { normalizeQuizQuestion } from '../../utils/quizQuestions.js';
+import type { QuizAnswer } from '../../utils/quizQuestions.js';
+
+const logger = new LoggerService();
+
+export interface ExamServiceConfig {
+    /** Seconds past a section's deadline in which answers still count, to allow for network delay. */
+    graceSeconds?: number;
+    /** Source of randomness for drawing and shuffling questions. */
+    random?: () => number;
+}
+
+export interface CreateExamSectionParams {
+    title?: string;
+    /** 0 or unset for no limit. */
+    timeLimitSeconds?: number;
+    /** Questions drawn from the pool per attempt; the whole pool when unset. */
+    pick?: number;
+    /** New questions for the pool, in the shape generated quizzes use... */
+    questions?: unknown[];
+    /** ...or an existing quiz whose questions form it. */
+    quizId?: string;
+}
+
+export interface CreateExamParams {
+    topic: string;
+    sections: CreateExamSectionParams[];
+    /** Both default to true. */
+    shuffleQuestions?: boolean;
+    shuffleOptions?: boolean;
+}
+
+export type ExamSectionStatus = 'pending' | 'open' | 'closed';
+
+export interface ExamSectionState {
+    sectionId: string;
+    title: string;
+    timeLimitSeconds: number;
+    status: ExamSectionStatus;
+    openedAt?: number;
+    /** When the section's time runs out; unset for untimed sections. */
+    deadline?: number;
+    closedAt?: number;
+    /** Questions drawn for this attempt, in the order shown. */
+    questions: PresentedQuestion[];
+}
+
+export interface ExamResult {
+    score: number;
+    total: number;
+    credit: number;
+    percentage: number;
+    /** Questions whose answers arrived after their section's deadline and were not counted. */
+    lateAnswers: string[];
+    grades: Record<string, AnswerGrade>;
+}
+
+export interface ExamAttempt {
+    id: string;
+    quizId: string;
+    /** Only this learner can see and answer the attempt; unset for anonymous attempts. */
+    userId?: string;
+    topic: string;
+    status: 'in-progress' | 'submitted';
+    startedAt: number;
+    submittedAt?: number;
+    sections: ExamSectionState[];
+    answers: Record<string, QuizAnswer>;
+    /** When the server received each answer, by question id. */
+    receivedAt: Record<string, number>;
+    result?: ExamResult;
+}
+
+/** A question as the learner sees it during an exam, without its answer. */
+export interface ExamQuestion {
+    id: string;
+    kind: QuizQuestion['kind'];
+    question: string;
+    options: string[];
+}
+
+/** A question of a submitted attempt as it was shown, with the learner's answer and its grade. */
+export interface ExamReviewItem extends ExamQuestion {
+    sectionId: string;
+    answer: QuizAnswer | null;
+    correctAnswer: string;
+    correctAnswers?: readonly string[];
+    explanation?: string;
+    grade: AnswerGrade | null;
+    late: boolean;
+}
+
+/**
+ * An attempt as the learner sees it: while in progress only the open section's
+ * questions and no grades; once submitted, the result and a review of every
+ * question asked.
+ */
+export interface ExamAttemptView {
+    id: string;
+    quizId: string;
+    topic: string;
+    status: ExamAttempt['status'];
+    startedAt: number;
+    submittedAt?: number;
+    sections: Array<Omit<ExamSectionState, 'sectionId' | 'questions'> & { id: string; questionCount: number }>;
+    /** Index of the open section; null once submitted. */
+    currentSection: number | null;
+    questions: ExamQuestion[];
+    /** Saved answers to the open section, to resume with; every answer once submitted. */
+    answers: Record<string, QuizAnswer>;
+    /** Seconds left in the open section; null when it is untimed or none is open. */
+    remainingSeconds: number | null;
+    result?: ExamResult;
+    review?: ExamReviewItem[];
+}
+
+export class ExamError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExamError';
+    }
+}
+
+/**
+ * A quiz as the quiz endpoints show it. An exam's question pool carries the
+ * answers, so it is only seen through attempts: exams are listed without questions.
+ */
+export function hideExamQuestions(quiz: Quiz): Quiz {
+    return quiz.exam ? { ...quiz, questions: [] } : quiz;
+}
+
+/**
+ * Exams: quizzes split into sections, each with its own time limit and a pool
+ * of questions to draw from. Every attempt draws and shuffles its own questions
+ * and options and keeps that order, so the review shows what the learner saw.
+ * Sections are taken in turn; a section locks once it is left or its time runs
+ * out. Deadlines are kept by the server, which drops answers that arrive late,
+ * and nothing is graded until the attempt is submitted.
+ */
+export class ExamService {
+    private attempts = new Map<string, ExamAttempt>();
+    /** Attempts being graded, so a second submission cannot grade them twice. */
+    private submitting = new Set<string>();
+    private config: Required<ExamServiceConfig>;
+
+    constructor(
+        private quizStorage: QuizStorageService,
+        private dbService?: LocalDbService,
+        config: ExamServiceConfig = {}
+    ) {
+        this.config = {
+            graceSeconds: config.graceSeconds ?? appProperties.EXAM_GRACE_SECONDS,
+            random: config.random ?? Math.random
+        };
+        if (this.dbService) {
+            this.loadFromDb();
+        }
+    }
+
+    private async loadFromDb() {
+        try {
+            const { data } = await this.dbService!.getExamAttempts();
+            data.forEach(row => {
+                if (row.attempt && !this.attempts.has(row.id)) this.attempts.set(row.id, row.attempt as ExamAttempt);
+            });
+            logger.info(`Loaded ${data.length} exam attempts from DB`);
+        } catch (e) {
+            logger.warn('Failed to load exam attempts from DB', e);
+        }
+    }
+
+    /** Store an exam built from its sections' question pools. */
+    createExam(params: CreateExamParams): Quiz {
+        if (!params.sections.length) {
+            throw new ExamError('An exam needs at least one section');
+        }
+        const id = randomUUID();
+        const questions = new Map<string, QuizQuestion>();
+        const sections = params.sections.map((section, index): ExamSection => {
+            const pool = this.poolOf(section, `${id}-s${index}`);
+            const questionIds = pool.filter(question => !questions.has(question.id)).map(question => question.id);
+            pool.forEach(question => questions.set(question.id, question));
+            if (!questionIds.length) {
+                throw new ExamError(`Section ${index + 1} has no questions`);
+            }
+            if (section.pick !== undefined && section.pick > questionIds.length) {
+                throw new ExamError(`Section ${index + 1} cannot draw ${section.pick} of its ${questionIds.length} questions`);
+            }
+            return {
+                id: `${id}-s${index}`,
+                title: section.title?.trim() || `Section ${index + 1}`,
+                timeLimitSeconds: section.timeLimitSeconds ?? 0,
+                questionIds,
+                ...(section.pick !== undefined ? { pick: section.pick } : {})
+            };
+        });
+
+        const quiz: Quiz = {
+            id,
+            topic: params.topic.trim(),
+            questions: [...questions.values()],
+            source: 'topic',
+            createdAt: Date.now(),
+            exam: {
+                sections,
+                shuffleQuestions: params.shuffleQuestions ?? true,
+                shuffleOptions: params.shuffleOptions ?? true
+            }
+        };
+        this.quizStorage.storeQuiz(quiz);
+        logger.info('Exam created', { id, topic: quiz.topic, sections: sections.length });
+        return quiz;
+    }
+
+    /** Start an attempt at an exam and open its first section. Returns null for an unknown quiz. */
+    startAttempt(quizId: string, userId?: string): ExamAttemptView | null {
+        const quiz = this.quizStorage.getQuiz(quizId);
+        if (!quiz) return null;
+        if (!quiz.exam) {
+            throw new ExamError('This quiz is not an exam');
+        }
+        const { exam } = quiz;
+        const byId = new Map(quiz.questions.map(question => [question.id, question]));
+        const now = Date.now();
+
+        const attempt: ExamAttempt = {
+            id: randomUUID(),
+            quizId,
+            ...(userId ? { userId } : {}),
+            topic: quiz.topic,
+            status: 'in-progress',
+            startedAt: now,
+            sections: exam.sections.map(section => {
+                const pool = section.questionIds.filter(id => byId.has(id));
+                const drawn = new Set(this.shuffle(pool).slice(0, section.pick ?? pool.length));
+                const order = exam.shuffleQuestions ? this.shuffle([...drawn]) : pool.filter(id => drawn.has(id));
+                return {
+                    sectionId: section.id,
+                    title: section.title,
+                    timeLimitSeconds: section.timeLimitSeconds,
+                    status: 'pending',
+                    questions: order.map(questionId => {
+                        const question = byId.get(questionId)!;
+                        // True/False reads best in a fixed order
+                        const shuffled = exam.shuffleOptions && question.kind !== 'true-false';
+                        return { questionId, sectionId: section.id, options: shuffled ? this.shuffle(question.options) : [...question.options] };
+                    })
+                };
+            }),
+            answers: {},
+            receivedAt: {}
+        };
+        this.openSection(attempt, 0, now);
+        this.attempts.set(attempt.id, attempt);
+        this.persist(attempt);
+        logger.info('Exam attempt started', { attemptId: attempt.id, quizId });
+        return this.view(attempt, now);
+    }
+
+    /**
+     * The attempt as the learner sees it, after closing any section whose time ran out.
+     * Here and below, an attempt another learner started counts as unknown.
+     */
+    async getAttempt(attemptId: string, userId?: string): Promise<ExamAttemptView | undefined> {
+        const attempt = this.ownAttempt(attemptId, userId);
+        if (!attempt) return undefined;
+        const now = Date.now();
+        await this.closeExpiredSections(attempt, now);
+        return this.view(attempt, now);
+    }
+
+    /**
+     * Save answers to the open section's questions; they are not graded until
+     * the attempt is submitted. Returns null for an unknown attempt.
+     */
+    async saveAnswers(attemptId: string, answers: { questionId: string; answer: QuizAnswer }[], userId?: string): Promise<ExamAttemptView | null> {
+        const attempt = this.ownAttempt(attemptId, userId);
+        if (!attempt) return null;
+        const now = Date.now();
+        await this.closeExpiredSections(attempt, now);
+        this.record(attempt, answers, now);
+        this.persist(attempt);
+        return this.view(attempt, now);
+    }
+
+    /** Save any last answers, lock the open section and open the next one, or submit after the last. */
+    async nextSection(attemptId: string, answers: { questionId: string; answer: QuizAnswer }[] = [], options?: GradingOptions, userId?: string): Promise<ExamAttemptView | null> {
+        const attempt = this.ownAttempt(attemptId, userId);
+        if (!attempt) return null;
+        const now = Date.now();
+        await this.closeExpiredSections(attempt, now);
+        this.record(attempt, answers, now);
+        await this.closeSection(attempt, now, options);
+        this.persist(attempt);
+        return this.view(attempt, now);
+    }
+
+    /** Save any last answers, lock every section and grade the attempt. */
+    async submit(attemptId: string, answers: { questionId: string; answer: QuizAnswer }[] = [], options?: GradingOptions, userId?: string): Promise<ExamAttemptView | null> {
+        const attempt = this.ownAttempt(attemptId, userId);
+        if (!attempt) return null;
+        const now = Date.now();
+        await this.closeExpiredSections(attempt, now);
+        this.record(attempt, answers, now);
+        await this.finish(attempt, now, options);
+        return this.view(attempt, now);
+    }
+
+    private ownAttempt(attemptId: string, userId?: string): ExamAttempt | undefined {
+        const attempt = this.attempts.get(attemptId);
+        return attempt && attempt.userId === userId ? attempt : undefined;
+    }
+
+    private poolOf(section: CreateExamSectionParams, idPrefix: string): QuizQuestion[] {
+        if (section.quizId !== undefined) {
+            const quiz = this.quizStorage.getQuiz(section.quizId);
+            if (!quiz) {
+                throw new ExamError(`Quiz ${section.quizId} not found`);
+            }
+            return quiz.questions;
+        }
+        return (section.questions ?? [])
+            .map((raw, index) => normalizeQuizQuestion({ ...(raw as object), id: undefined }, `${idPrefix}-q${index}`))
+            .filter((question): question is GeneratedQuestion => question !== null)
+            .map(question => ({
+                ...question,
+                options: [...question.options],
+                ...(question.correctAnswers ? { correctAnswers: [...question.correctAnswers] } : {}),
+                ...(question.acceptedAnswers ? { acceptedAnswers: [...question.acceptedAnswers] } : {})
+            }));
+    }
+
+    /** Keep answers for the open section's questions; any other question is locked. */
+    private record(attempt: ExamAttempt, answers: { questionId: string; answer: QuizAnswer }[], now: number): void {
+        if (!answers.length) return;
+        if (attempt.status !== 'in-progress') {
+            throw new ExamError('This exam has already been submitted');
+        }
+        const open = attempt.sections[this.openIndex(attempt)]!;
+        for (const { questionId } of answers) {
+            if (open.questions.some(question => question.questionId === questionId)) continue;
+            const section = attempt.sections.find(candidate => candidate.questions.some(question => question.questionId === questionId));
+            throw new ExamError(section
+                ? `${section.title} is ${section.status === 'closed' ? 'closed' : 'not open yet'}`
+                : `Question ${questionId} is not part of this attempt`);
+        }
+        for (const { questionId, answer } of answers) {
+            attempt.answers[questionId] = answer;
+            attempt.receivedAt[questionId] = now;
+        }
+    }
+
+    private openSection(attempt: ExamAttempt, index: number, now: number): void {
+        const section = attempt.sections[index]!;
+        section.status = 'open';
+        section.openedAt = now;
+        if (section.timeLimitSeconds > 0) {
+            section.deadline = now + section.timeLimitSeconds * 1000;
+        }
+    }
+
+    /** Index of the open section; every in-progress attempt has one. */
+    private openIndex(attempt: ExamAttempt): number {
+        const index = attempt.sections.findIndex(section => section.status === 'open');
+        if (index < 0) {
+            throw new ExamError('No section of this exam is open');
+        }
+        return index;
+    }
+
+    private lockSection(section: ExamSectionState, now: number): void {
+        section.status = 'closed';
+        section.closedAt = section.deadline !== undefined ? Math.min(now, section.deadline) : now;
+    }
+
+    private async closeSection(attempt: ExamAttempt, now: number, options?: GradingOptions): Promise<void> {
+        if (attempt.status !== 'in-progress') {
+            throw new ExamError('This exam has already been submitted');
+        }
+        const index = this.openIndex(attempt);
+        // The last section stays open until grading succeeds, so a failed submission can be retried
+        if (index + 1 === attempt.sections.length) {
+            return this.finish(attempt, now, options);
+        }
+        this.lockSection(attempt.sections[index]!, now);
+        this.openSection(attempt, index + 1, now);
+    }
+
+    /** Move past every section whose time (and grace period) is over, submitting after the last. */
+    private async closeExpiredSections(attempt: ExamAttempt, now: number): Promise<void> {
+        const grace = this.config.graceSeconds * 1000;
+        let open = attempt.sections.find(section => section.status === 'open');
+        while (attempt.status === 'in-progress' && open?.deadline !== undefined && now > open.deadline + grace) {
+            await this.closeSection(attempt, now);
+            open = attempt.sections.find(section => section.status === 'open');
+        }
+    }
+
+    private async finish(attempt: ExamAttempt, now: number, options?: GradingOptions): Promise<void> {
+        if (attempt.status !== 'in-progress') {
+            throw new ExamError('This exam has already been submitted');
+        }
+        if (this.submitting.has(attempt.id)) {
+            throw new ExamError('This exam is already being submitted');
+        }
+
+        const grace = this.config.graceSeconds * 1000;
+        const deadlines: Record<string, number> = {};
+        attempt.sections.forEach(section => {
+            if (section.deadline === undefined) return;
+            section.questions.forEach(question => {
+                deadlines[question.questionId] = section.deadline! + grace;
+            });
+        });
+
+        // Graded before the attempt is marked submitted, so a failure leaves it open to retry
+        this.submitting.add(attempt.id);
+        const result = await this.quizStorage.submitAnswers(
+            attempt.quizId,
+            Object.entries(attempt.answers).map(([questionId, answer]) => ({ questionId, answer })),
+            {
+                ...options,
+                ...(attempt.userId ? { userId: attempt.userId } : {}),
+                exam: {
+                    attemptId: attempt.id,
+                    presented: attempt.sections.flatMap(section => section.questions),
+                    deadlines,
+                    receivedAt: attempt.receivedAt
+                }
+            }
+        ).finally(() => this.submitting.delete(attempt.id));
+
+        attempt.status = 'submitted';
+        attempt.submittedAt = now;
+        attempt.sections.forEach(section => {
+            if (section.status === 'open') this.lockSection(section, now);
+            section.status = 'closed';
+        });
+        attempt.result = {
+            score: result.score,
+            total: result.total,
+            credit: result.credit,
+            percentage: result.total > 0 ? Math.round((result.score / result.total) * 100) : 0,
+            lateAnswers: result.lateAnswers ?? [],
+            grades: result.grades
+        };
+        this.persist(attempt);
+        logger.info('Exam attempt submitted', { attemptId: attempt.id, quizId: attempt.quizId, score: `${result.score}/${result.total}` });
+    }
+
+    private view(attempt: ExamAttempt, now: number): ExamAttemptView {
+        const byId = new Map((this.quizStorage.getQuiz(attempt.quizId)?.questions ?? []).map(question => [question.id, question]));
+        const shown = (presented: PresentedQuestion): ExamQuestion => {
+            const question = byId.get(presented.questionId);
+            return {
+                id: presented.questionId,
+                kind: question?.kind ?? 'multiple-choice',
+                question: question?.question ?? '',
+                options: presented.options
+            };
+        };
+        const currentSection = attempt.sections.findIndex(section => section.status === 'open');
+        const open = attempt.sections[currentSection];
+        const submitted = attempt.status === 'submitted';
+
+        return {
+            id: attempt.id,
+            quizId: attempt.quizId,
+            topic: attempt.topic,
+            status: attempt.status,
+            startedAt: attempt.startedAt,
+            ...(attempt.submittedAt !== undefined ? { submittedAt: attempt.submittedAt } : {}),
+            sections: attempt.sections.map(({ sectionId, questions, ...section }) => ({ id: sectionId, ...section, questionCount: questions.length })),
+            currentSection: open ? currentSection : null,
+            questions: open ? open.questions.map(shown) : [],
+            answers: submitted
+                ? { ...attempt.answers }
+                : Object.fromEntries(Object.entries(attempt.answers).filter(([id]) => open?.questions.some(question => question.questionId === id))),
+            remainingSeconds: open?.deadline !== undefined ? Math.max(0, Math.ceil((open.deadline - now) / 1000)) : null,
+            ...(attempt.result ? {
+                result: attempt.result,
+                review: attempt.sections.flatMap(section => section.questions).map((presented): ExamReviewItem => {
+                    const question = byId.get(presented.questionId);
+                    return {
+                        ...shown(presented),
+                        sectionId: presented.sectionId,
+                        answer: attempt.answers[presented.questionId] ?? null,
+                        correctAnswer: question?.correctAnswer ?? '',
+                        ...(question?.correctAnswers ? { correctAnswers: question.correctAnswers } : {}),
+                        ...(question?.explanation ? { explanation: question.explanation } : {}),
+                        grade: attempt.result!.grades[presented.questionId] ?? null,
+                        late: attempt.result!.lateAnswers.includes(presented.questionId)
+                    };
+                })
+            } : {})
+        };
+    }
+
+    private shuffle<T>(items: readonly T[]): T[] {
+        const shuffled = [...items];
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = Math.floor(this.config.random() * (i + 1));
+            [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+        }
+        return shuffled;
+    }
+
+    private persist(attempt: ExamAttempt): void {
+        this.dbService?.saveExamAttempt({
+            id: attempt.id,
+            quiz_id: attempt.quizId,
+            status: attempt.status,
+            attempt,
+            created_at: attempt.startedAt,
+            updated_at: Date.now()
+        }).catch(e => logger.warn('Failed to persist exam attempt', e));
+    }
+}
@@ -9,6 +9,14 @@ interface CacheEntry {
     expiresAt: number;
 }
 
+/**
+ * Identity of a generation request: requests with the same key produce the same
+ * cards, so they share cache entries and in-flight queue jobs.
+ */
+export function flashcardCacheKey(topic: string, count: number, mode?: string, knowledgeSource?: string): string {
+    return `flashcard:${topic}|${count}|${mode || 'standard'}|${knowledgeSource || 'ai-web'}`.toLowerCase();
+}
+
 export class FlashcardCacheService {
     private localCache: Map<string, CacheEntry>;
     private redis?: RedisService;
@@ -35,7 +43,7 @@ export class FlashcardCacheService {
      * Generate cache key from request parameters
      */
     private generateKey(topic: string, count: number, mode?: string, knowledgeSource?: string): string {
-        return `flashcard:${topic}|${count}|${mode || 'standard'}|${knowledgeSource || 'ai-web'}`.toLowerCase();
+        return flashcardCacheKey(topic, count, mode, knowledgeSource);
     }
 
     /**
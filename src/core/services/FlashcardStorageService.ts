@@ -1,5 +1,17 @@
+import { randomUUID } from 'crypto';
 import { LoggerService } from './LoggerService.js';
+import { LocalDbService } from './LocalDbService.js';
+import type { CardRevisionRow } from './LocalDbService.js';
+import { ANONYMOUS_USER_ID } from './SpacedRepetitionService.js';
+import type { SupabaseService } from './SupabaseService.js';
+import type { UpstashVectorService } from './UpstashVectorService.js';
+import type { InMemoryVectorService } from './InMemoryVectorService.js';
 import type { Flashcard } from '../domain/models.js';
+import type { CardKind } from '../domain/types.js';
+import { DECK_SEPARATOR, deckPathSegments, matchesCardQuery, normalizeDeckPath, parseCardQuery } from '../../utils/cardQuery.js';
+import type { CardQueryContext } from '../../utils/cardQuery.js';
+import { pageDecks } from '../../utils/pagination.js';
+import type { Connection, DeckListQuery } from '../../utils/pagination.js';
 
 const logger = new LoggerService();
 
@@ -8,50 +20,208 @@ export interface FlashcardIndex {
     topic: string;
     front: string;
     back: string;
+    kind: CardKind;
+    tags: string[];
+    source?: Flashcard['source'];
+    quality?: Flashcard['quality'];
+    /** User the card belongs to; cards without one (model output kept anonymously, older cards) are shared. */
+    ownerId?: string;
     usedInQuizzes: string[];
     createdAt: number;
 }
 
+/** Editor recorded for cards as the model produced them. */
+export const GENERATED_BY = 'ai';
+
+export type RevisionAction = 'created' | 'updated' | 'reverted' | 'deleted';
+
+/** The fields of a card besides its deck and content, as a revision saw them. */
+export type CardSnapshot = Pick<FlashcardIndex, 'kind' | 'tags' | 'source' | 'quality' | 'ownerId' | 'createdAt'>;
+
+/**
+ * One entry of a card's append-only history: the card's content after the change,
+ * who made it, and (for updates and reverts) the content it replaced.
+ */
+export interface CardRevision {
+    id: string;
+    cardId: string;
+    /** 1 for the first revision of a card, counting up. */
+    version: number;
+    action: RevisionAction;
+    /** User id, or `GENERATED_BY` for model output. */
+    editedBy: string;
+    topic: string;
+    front: string;
+    back: string;
+    previousFront?: string;
+    previousBack?: string;
+    /** For reverts, the revision whose content was restored. */
+    revertedTo?: string;
+    /** The rest of the card; absent on revisions recorded before it was kept. */
+    snapshot?: CardSnapshot;
+    createdAt: number;
+}
+
+/** A deck in the deck tree; decks nest through `::` in their topic (`Biology::Cell`). */
+export interface DeckNode {
+    id: string;
+    /** Last level of the path, e.g. `Cell`. */
+    name: string;
+    /** Full path, e.g. `Biology::Cell`. */
+    path: string;
+    /** Cards directly in this deck. */
+    cardCount: number;
+    /** Cards in this deck and all its subdecks. */
+    totalCardCount: number;
+    children: DeckNode[];
+}
+
+/** A named card query a user can run again. */
+export interface SavedSearch {
+    id: string;
+    userId: string;
+    name: string;
+    query: string;
+    createdAt: number;
+}
+
+/** Editable fields of a card; cards created without a kind or tags are basic and untagged. */
+export interface CardInput {
+    front: string;
+    back: string;
+    kind?: CardKind;
+    tags?: string[];
+}
+
+/** Deck to move or copy cards into: an existing deck by id, or a topic (created if new). */
+export interface DeckTarget {
+    deckId?: string;
+    topic?: string;
+}
+
 export class FlashcardStorageService {
     private flashcards: Map<string, FlashcardIndex>;
     private topicIndex: Map<string, Set<string>>;
+    private revisions: Map<string, CardRevision[]>;
+    private savedSearches: Map<string, SavedSearch>;
+    private dbService?: SupabaseService | LocalDbService;
+    private vectorService?: UpstashVectorService | InMemoryVectorService;
 
-    constructor() {
+    /**
+     * Card edits are written through to the database (a row per card in Supabase,
+     * a row per deck in the local database) and to the vector index when given.
+     */
+    constructor(dbService?: SupabaseService | LocalDbService | null, vectorService?: UpstashVectorService | InMemoryVectorService | null) {
         this.flashcards = new Map();
         this.topicIndex = new Map();
-        logger.info('FlashcardStorageService initialized');
+        this.revisions = new Map();
+        this.savedSearches = new Map();
+        this.dbService = dbService ?? undefined;
+        this.vectorService = vectorService ?? undefined;
+        logger.info('FlashcardStorageService initialized' + (dbService ? ' with persistence' : ''));
+
+        // Decks edited in a previous run
+        if (this.dbService instanceof LocalDbService) {
+            this.loadFromDb(this.dbService);
+        }
+    }
+
+    private async loadFromDb(db: LocalDbService) {
+        try {
+            const rows = await db.getFlashcards();
+            let loaded = 0;
+            for (const row of rows.data ?? []) {
+                const cards = row.cards;
+                if (!Array.isArray(cards)) continue;
+                // Cards stored since startup are newer than their saved copies
+                for (const card of cards as FlashcardIndex[]) {
+                    if (this.flashcards.has(card.id)) continue;
+                    this.index({ ...card, topic: normalizeDeckPath(card.topic || row.topic || '') || 'General' });
+                    loaded++;
+                }
+            }
+            logger.info(`Loaded ${loaded} flashcards from DB`);
+
+            const saved = new Map<string, CardRevision[]>();
+            for (const row of (await db.getCardRevisions()).data) {
+                saved.set(row.card_id, [...(saved.get(row.card_id) ?? []), toRevision(row)]);
+            }
+            for (const [cardId, history] of saved) {
+                if (!this.revisions.has(cardId)) this.revisions.set(cardId, history);
+            }
+
+            for (const row of (await db.getSavedSearches()).data) {
+                this.savedSearches.set(row.id, {
+                    id: row.id,
+                    userId: row.user_id,
+                    name: row.name,
+                    query: row.query,
+                    createdAt: row.created_at
+                });
+            }
+        } catch (e) {
+            logger.warn('Failed to load flashcards from DB', e);
+        }
     }
 
     /**
-     * Store a flashcard
+     * Store a flashcard, recording a revision when its content is new to the history.
+     * Cards stored without an editor are taken to be model output. A card stored
+     * again keeps its owner; a new one belongs to `ownerId`, or to a signed-in editor.
      */
-    storeFlashcard(flashcard: Flashcard): void {
+    storeFlashcard(flashcard: Flashcard, editedBy: string = GENERATED_BY, ownerId?: string): void {
+        const stored = this.flashcards.get(flashcard.id);
+        const owner = stored ? stored.ownerId : cardOwner(ownerId ?? editedBy);
         const indexed: FlashcardIndex = {
             id: flashcard.id,
-            topic: flashcard.topic || 'General',
+            topic: normalizeDeckPath(flashcard.topic || '') || 'General',
             front: flashcard.front,
             back: flashcard.back,
+            kind: flashcard.kind || 'basic',
+            tags: [...(flashcard.tags || [])],
+            ...(flashcard.source ? { source: flashcard.source } : {}),
+            ...(flashcard.quality ? { quality: flashcard.quality } : {}),
+            ...(owner ? { ownerId: owner } : {}),
             usedInQuizzes: [],
             createdAt: Date.now()
         };
 
-        this.flashcards.set(flashcard.id, indexed);
+        this.recordRevision(indexed, editedBy);
+        this.index(indexed);
+        logger.debug('Flashcard stored', { id: flashcard.id, topic: indexed.topic });
+    }
+
+    private index(card: FlashcardIndex): void {
+        const previous = this.flashcards.get(card.id);
+        if (previous && topicKey(previous.topic) !== topicKey(card.topic)) {
+            this.unindexTopic(previous);
+        }
+        this.flashcards.set(card.id, card);
 
         // Update topic index
-        const topic = indexed.topic.toLowerCase();
+        const topic = topicKey(card.topic);
         if (!this.topicIndex.has(topic)) {
             this.topicIndex.set(topic, new Set());
         }
-        this.topicIndex.get(topic)!.add(flashcard.id);
+        this.topicIndex.get(topic)!.add(card.id);
+    }
 
-        logger.debug('Flashcard stored', { id: flashcard.id, topic: indexed.topic });
+    private unindexTopic(card: FlashcardIndex): void {
+        const key = topicKey(card.topic);
+        const topicSet = this.topicIndex.get(key);
+        if (topicSet) {
+            topicSet.delete(card.id);
+            if (topicSet.size === 0) {
+                this.topicIndex.delete(key);
+            }
+        }
     }
 
     /**
      * Store multiple flashcards
      */
-    storeFlashcards(flashcards: Flashcard[]): void {
-        flashcards.forEach(fc => this.storeFlashcard(fc));
+    storeFlashcards(flashcards: Flashcard[], editedBy: string = GENERATED_BY, ownerId?: string): void {
+        flashcards.forEach(fc => this.storeFlashcard(fc, editedBy, ownerId));
         logger.info('Flashcards stored', { count: flashcards.length });
     }
 
@@ -78,12 +248,16 @@ export class FlashcardStorageService {
         return Array.from(this.flashcards.values());
     }
 
+    /** The cards a user studies: their own and the shared ones. */
+    getUserFlashcards(userId: string): FlashcardIndex[] {
+        return this.getAllFlashcards().filter(card => card.ownerId === undefined || card.ownerId === userId);
+    }
+
     /**
      * Get flashcards by topic
      */
     getFlashcardsByTopic(topic: string): FlashcardIndex[] {
-        const topicKey = topic.toLowerCase();
-        const ids = this.topicIndex.get(topicKey);
+        const ids = this.topicIndex.get(topicKey(topic));
 
         if (!ids) {
             return [];
@@ -138,16 +312,7 @@ export class FlashcardStorageService {
         const flashcard = this.flashcards.get(id);
         if (!flashcard) return false;
 
-        // Remove from topic index
-        const topicKey = flashcard.topic.toLowerCase();
-        const topicSet = this.topicIndex.get(topicKey);
-        if (topicSet) {
-            topicSet.delete(id);
-            if (topicSet.size === 0) {
-                this.topicIndex.delete(topicKey);
-            }
-        }
-
+        this.unindexTopic(flashcard);
         this.flashcards.delete(id);
         logger.debug('Flashcard deleted', { id });
         return true;
@@ -181,7 +346,7 @@ export class FlashcardStorageService {
      * Decks are implicitly defined by their topic in this implementation.
      */
 
-    private getDeckId(topic: string): string {
+    getDeckId(topic: string): string {
         return `deck-${topic.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
     }
 
@@ -202,6 +367,11 @@ export class FlashcardStorageService {
         });
     }
 
+    /** One page of topic decks, filtered and sorted (newest card first by default). */
+    async listDecks(query?: DeckListQuery): Promise<Connection<any>> {
+        return pageDecks(await this.getDecks(), query);
+    }
+
     async getDeck(id: string): Promise<any | null> {
         const topics = this.getAllTopics();
         const topic = topics.find(t => this.getDeckId(t) === id);
@@ -227,20 +397,24 @@ export class FlashcardStorageService {
         };
     }
 
-    async saveDeck(deckInput: any): Promise<void> {
+    async saveDeck(deckInput: any, editedBy: string = ANONYMOUS_USER_ID): Promise<void> {
         const cards = deckInput.cards.map((card: any, index: number) => ({
             id: card.id || `${Date.now()}-${index}`,
             front: card.front,
             back: card.back,
+            kind: card.kind === 'cloze' ? 'cloze' : 'basic',
+            tags: Array.isArray(card.tags) ? card.tags : [],
+            source: card.source,
+            quality: card.quality,
             topic: deckInput.topic,
             createdAt: Date.now()
         }));
 
-        this.storeFlashcards(cards);
+        this.storeFlashcards(cards, editedBy);
         logger.info('Deck saved via GraphQL', { topic: deckInput.topic, cardCount: cards.length });
     }
 
-    async deleteDeck(id: string): Promise<boolean> {
+    async deleteDeck(id: string, editedBy: string = ANONYMOUS_USER_ID): Promise<boolean> {
         const deck = await this.getDeck(id);
         if (!deck) return false;
 
@@ -248,7 +422,9 @@ export class FlashcardStorageService {
         let deletedCount = 0;
 
         for (const cardId of cardIds) {
-            if (this.deleteFlashcard(cardId)) {
+            const card = this.flashcards.get(cardId);
+            if (card && this.deleteFlashcard(cardId)) {
+                this.recordRevision(card, editedBy, 'deleted');
                 deletedCount++;
             }
         }
@@ -256,4 +432,449 @@ export class FlashcardStorageService {
         logger.info('Deck deleted via GraphQL', { id, topic: deck.topic, deletedCards: deletedCount });
         return true;
     }
+
+    /**
+     * Card CRUD within topic decks. Unlike the methods above, these write every
+     * change through to the database and vector index.
+     */
+
+    /** A card of the given deck, or null when the deck does not hold it. */
+    getDeckCard(deckId: string, cardId: string): FlashcardIndex | null {
+        const card = this.flashcards.get(cardId);
+        return card && this.getDeckId(card.topic) === deckId ? card : null;
+    }
+
+    /** Add a card to an existing deck; null when there is no such deck. */
+    async createCard(deckId: string, input: CardInput, editedBy: string = ANONYMOUS_USER_ID): Promise<FlashcardIndex | null> {
+        const topic = this.deckTopic(deckId);
+        if (!topic) return null;
+
+        const card = this.newCard(input, topic, editedBy);
+        this.index(card);
+        this.recordRevision(card, editedBy);
+        await this.sync([card], [], [topic]);
+        logger.info('Card created', { id: card.id, deckId });
+        return card;
+    }
+
+    /** Change some fields of a card; null when the deck does not hold it or it belongs to another user. */
+    async updateCard(deckId: string, cardId: string, changes: Partial<CardInput>, editedBy: string = ANONYMOUS_USER_ID): Promise<FlashcardIndex | null> {
+        const card = this.getDeckCard(deckId, cardId);
+        if (!card || !canEdit(card, editedBy)) return null;
+
+        if (changes.front !== undefined) card.front = changes.front;
+        if (changes.back !== undefined) card.back = changes.back;
+        if (changes.kind !== undefined) card.kind = changes.kind;
+        if (changes.tags !== undefined) card.tags = [...changes.tags];
+        this.recordRevision(card, editedBy);
+        await this.sync([card], [], [card.topic]);
+        logger.info('Card updated', { id: cardId, deckId });
+        return card;
+    }
+
+    /** Delete a card; false when the deck does not hold it or it belongs to another user. */
+    async removeCard(deckId: string, cardId: string, editedBy: string = ANONYMOUS_USER_ID): Promise<boolean> {
+        const card = this.getDeckCard(deckId, cardId);
+        if (!card || !canEdit(card, editedBy)) return false;
+
+        this.deleteFlashcard(cardId);
+        this.recordRevision(card, editedBy, 'deleted');
+        await this.sync([], [cardId], [card.topic]);
+        logger.info('Card deleted', { id: cardId, deckId });
+        return true;
+    }
+
+    /**
+     * Move cards into another deck, keeping their ids and history; each move is a
+     * revision by the editor. Unknown ids and other users' cards are skipped; null
+     * when the target deck does not exist and no topic was given.
+     */
+    async moveCards(cardIds: string[], target: DeckTarget, editedBy: string = ANONYMOUS_USER_ID): Promise<FlashcardIndex[] | null> {
+        const topic = this.targetTopic(target);
+        if (!topic) return null;
+
+        const cards = this.getFlashcardsByIds(cardIds).filter(card => canEdit(card, editedBy));
+        const sourceTopics = cards.map(card => card.topic);
+        for (const card of cards) {
+            this.index({ ...card, topic });
+        }
+        const moved = this.getFlashcardsByIds(cards.map(card => card.id));
+        moved.forEach(card => this.recordRevision(card, editedBy, 'updated'));
+        await this.sync(moved, [], [...sourceTopics, topic]);
+        logger.info('Cards moved', { count: moved.length, topic });
+        return moved;
+    }
+
+    /** Copy cards into another deck as new cards; see `moveCards`. */
+    async copyCards(cardIds: string[], target: DeckTarget, editedBy: string = ANONYMOUS_USER_ID): Promise<FlashcardIndex[] | null> {
+        const topic = this.targetTopic(target);
+        if (!topic) return null;
+
+        const copies = this.getFlashcardsByIds(cardIds).map(card => ({
+            ...this.newCard(card, topic, editedBy),
+            ...(card.source ? { source: card.source } : {}),
+            ...(card.quality ? { quality: card.quality } : {})
+        }));
+        copies.forEach(card => {
+            this.index(card);
+            this.recordRevision(card, editedBy);
+        });
+        await this.sync(copies, [], [topic]);
+        logger.info('Cards copied', { count: copies.length, topic });
+        return copies;
+    }
+
+    /**
+     * Library navigation: the deck tree, tags, card search and saved searches.
+     */
+
+    /**
+     * Decks as a tree. Parents of nested decks appear even when they hold no
+     * cards of their own; siblings are sorted by name.
+     */
+    getDeckTree(): DeckNode[] {
+        const roots: DeckNode[] = [];
+        const nodes = new Map<string, DeckNode>();
+
+        for (const ids of this.topicIndex.values()) {
+            const first = this.flashcards.get(ids.values().next().value ?? '');
+            if (!first) continue;
+            const segments = deckPathSegments(first.topic);
+            segments.forEach((name, depth) => {
+                const path = segments.slice(0, depth + 1).join(DECK_SEPARATOR);
+                let node = nodes.get(topicKey(path));
+                if (!node) {
+                    node = { id: this.getDeckId(path), name, path, cardCount: 0, totalCardCount: 0, children: [] };
+                    nodes.set(topicKey(path), node);
+                    const parent = depth === 0 ? null : nodes.get(topicKey(segments.slice(0, depth).join(DECK_SEPARATOR)));
+                    (parent ? parent.children : roots).push(node);
+                }
+                node.totalCardCount += ids.size;
+                if (depth === segments.length - 1) node.cardCount = ids.size;
+            });
+        }
+
+        const sort = (list: DeckNode[]) => {
+            list.sort((a, b) => a.name.localeCompare(b.name));
+            list.forEach(node => sort(node.children));
+            return list;
+        };
+        return sort(roots);
+    }
+
+    /** Every tag in use with the number of cards carrying it, most used first. */
+    getTags(): Array<{ tag: string; count: number }> {
+        const counts = new Map<string, number>();
+        for (const card of this.flashcards.values()) {
+            card.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+        }
+        return Array.from(counts, ([tag, count]) => ({ tag, count }))
+            .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+    }
+
+    /** Add and remove tags on several cards at once; returns the cards that exist and the editor may change. */
+    async tagCards(cardIds: string[], changes: { add?: string[]; remove?: string[] }, editedBy: string = ANONYMOUS_USER_ID): Promise<FlashcardIndex[]> {
+        const add = (changes.add ?? []).map(tag => tag.trim()).filter(Boolean);
+        const remove = new Set((changes.remove ?? []).map(tag => tag.trim().toLowerCase()));
+        const cards = this.getFlashcardsByIds(cardIds).filter(card => canEdit(card, editedBy));
+        for (const card of cards) {
+            const kept = card.tags.filter(tag => !remove.has(tag.toLowerCase()));
+            card.tags = [...kept, ...add.filter(tag => !kept.some(existing => existing.toLowerCase() === tag.toLowerCase()))];
+        }
+        await this.sync(cards, [], cards.map(card => card.topic));
+        logger.info('Cards tagged', { count: cards.length, added: add.length, removed: remove.size });
+        return cards;
+    }
+
+    /**
+     * Cards matching a query (see `parseCardQuery` for the syntax), in deck order.
+     * Throws `CardQueryError` for a malformed query.
+     */
+    searchCards(query: string, context: CardQueryContext = {}): FlashcardIndex[] {
+        const parsed = parseCardQuery(query);
+        return Array.from(this.flashcards.values())
+            .filter(card => matchesCardQuery(parsed, card, context))
+            .sort((a, b) => a.topic.localeCompare(b.topic) || a.createdAt - b.createdAt);
+    }
+
+    getSavedSearches(userId: string): SavedSearch[] {
+        return Array.from(this.savedSearches.values())
+            .filter(search => search.userId === userId)
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    getSavedSearch(userId: string, id: string): SavedSearch | null {
+        const search = this.savedSearches.get(id);
+        return search && search.userId === userId ? search : null;
+    }
+
+    /**
+     * Save a query under a name, replacing the user's search of the same name.
+     * Throws `CardQueryError` when the query does not parse.
+     */
+    saveSearch(userId: string, name: string, query: string): SavedSearch {
+        parseCardQuery(query);
+        const existing = this.getSavedSearches(userId).find(search => search.name.toLowerCase() === name.toLowerCase());
+        const search: SavedSearch = {
+            id: existing?.id ?? randomUUID(),
+            userId,
+            name,
+            query,
+            createdAt: existing?.createdAt ?? Date.now()
+        };
+        this.savedSearches.set(search.id, search);
+
+        if (this.dbService instanceof LocalDbService) {
+            this.dbService.upsertSavedSearch({
+                id: search.id,
+                user_id: search.userId,
+                name: search.name,
+                query: search.query,
+                created_at: search.createdAt
+            }).catch(e => logger.warn('Failed to persist saved search', e));
+        }
+        return search;
+    }
+
+    deleteSavedSearch(userId: string, id: string): boolean {
+        if (!this.getSavedSearch(userId, id)) return false;
+        this.savedSearches.delete(id);
+        if (this.dbService instanceof LocalDbService) {
+            this.dbService.deleteSavedSearch(id).catch(e => logger.warn('Failed to delete saved search', e));
+        }
+        return true;
+    }
+
+    /**
+     * Card history. Every save path records the content it stores; saves that leave
+     * front and back as they were add nothing.
+     */
+
+    /** Revisions of a card, oldest first; kept after the card is deleted. */
+    getRevisions(cardId: string): CardRevision[] {
+        return [...(this.revisions.get(cardId) ?? [])];
+    }
+
+    /**
+     * Record the content of stored cards saved again through another path (decks
+     * saved to history) in their history. Cards this store does not hold are skipped.
+     */
+    recordRevisions(cards: ReadonlyArray<Pick<Flashcard, 'id' | 'front' | 'back'>>, editedBy: string): CardRevision[] {
+        return cards
+            .filter(card => card.id && this.flashcards.has(card.id))
+            .map(card => this.recordRevision({ ...this.flashcards.get(card.id)!, front: card.front, back: card.back }, editedBy))
+            .filter((revision): revision is CardRevision => revision !== null);
+    }
+
+    /**
+     * Restore the front, back and kind of a revision. A deleted card comes back in the
+     * deck it was in, with the tags, source, quality and owner it had then; null when the
+     * card has no such revision or it belongs to another user.
+     */
+    async revertCard(cardId: string, revisionId: string, editedBy: string = ANONYMOUS_USER_ID): Promise<FlashcardIndex | null> {
+        const history = this.revisions.get(cardId) ?? [];
+        const target = history.find(revision => revision.id === revisionId);
+        if (!target) return null;
+
+        const { snapshot } = target;
+        let card = this.flashcards.get(cardId);
+        // A deleted card belongs to whoever owned it when it was deleted
+        if (!canEdit(card ?? history[history.length - 1]?.snapshot ?? {}, editedBy)) return null;
+        if (card) {
+            card.front = target.front;
+            card.back = target.back;
+            if (snapshot) card.kind = snapshot.kind;
+        } else {
+            card = {
+                ...this.newCard({ front: target.front, back: target.back, kind: snapshot?.kind, tags: snapshot?.tags }, target.topic),
+                ...(snapshot?.source ? { source: snapshot.source } : {}),
+                ...(snapshot?.quality ? { quality: snapshot.quality } : {}),
+                ...(snapshot?.ownerId ? { ownerId: snapshot.ownerId } : {}),
+                ...(snapshot ? { createdAt: snapshot.createdAt } : {}),
+                id: cardId
+            };
+            this.index(card);
+        }
+        this.recordRevision(card, editedBy, 'reverted', target.id);
+        await this.sync([card], [], [card.topic]);
+        logger.info('Card reverted', { id: cardId, revision: target.version });
+        return card;
+    }
+
+    private recordRevision(
+        card: FlashcardIndex,
+        editedBy: string,
+        action?: RevisionAction,
+        revertedTo?: string
+    ): CardRevision | null {
+        const history = this.revisions.get(card.id) ?? [];
+        const last = history[history.length - 1];
+        const unchanged = last && last.action !== 'deleted' && last.front === card.front && last.back === card.back;
+        if (!action && unchanged) return null;
+
+        const revision: CardRevision = {
+            id: randomUUID(),
+            cardId: card.id,
+            version: (last?.version ?? 0) + 1,
+            action: action ?? (!last || last.action === 'deleted' ? 'created' : 'updated'),
+            editedBy,
+            topic: card.topic || 'General',
+            front: card.front,
+            back: card.back,
+            ...(last && last.action !== 'deleted' && action !== 'deleted'
+                ? { previousFront: last.front, previousBack: last.back }
+                : {}),
+            ...(revertedTo ? { revertedTo } : {}),
+            snapshot: {
+                kind: card.kind,
+                tags: [...card.tags],
+                ...(card.source ? { source: card.source } : {}),
+                ...(card.quality ? { quality: card.quality } : {}),
+                ...(card.ownerId ? { ownerId: card.ownerId } : {}),
+                createdAt: card.createdAt
+            },
+            createdAt: Date.now()
+        };
+        history.push(revision);
+        this.revisions.set(card.id, history);
+
+        if (this.dbService instanceof LocalDbService) {
+            this.dbService.createCardRevision({
+                id: revision.id,
+                card_id: revision.cardId,
+                version: revision.version,
+                action: revision.action,
+                edited_by: revision.editedBy,
+                topic: revision.topic,
+                front: revision.front,
+                back: revision.back,
+                previous_front: revision.previousFront ?? null,
+                previous_back: revision.previousBack ?? null,
+                reverted_to: revision.revertedTo ?? null,
+                snapshot: revision.snapshot,
+                created_at: revision.createdAt
+            }).catch(e => logger.warn('Failed to persist card revision', e));
+        }
+        return revision;
+    }
+
+    private newCard(input: CardInput, topic: string, ownerId?: string): FlashcardIndex {
+        const owner = cardOwner(ownerId);
+        return {
+            id: randomUUID(),
+            topic: normalizeDeckPath(topic) || 'General',
+            front: input.front,
+            back: input.back,
+            kind: input.kind === 'cloze' ? 'cloze' : 'basic',
+            tags: [...(input.tags || [])],
+            ...(owner ? { ownerId: owner } : {}),
+            usedInQuizzes: [],
+            createdAt: Date.now()
+        };
+    }
+
+    /** The topic behind a deck id, in the casing its cards were stored with. */
+    private deckTopic(deckId: string): string | null {
+        for (const ids of this.topicIndex.values()) {
+            const first = ids.values().next().value;
+            const card = first ? this.flashcards.get(first) : undefined;
+            if (card && this.getDeckId(card.topic) === deckId) return card.topic;
+        }
+        return null;
+    }
+
+    private targetTopic(target: DeckTarget): string | null {
+        const topic = normalizeDeckPath(target.topic ?? '') || null;
+        return target.deckId ? this.deckTopic(target.deckId) ?? topic : topic;
+    }
+
+    /**
+     * Propagate changes to persistence: changed cards are upserted, removed ones
+     * deleted, and the local database rewrites the decks of the touched topics.
+     * Failures are logged; the in-memory store stays authoritative for this run.
+     */
+    private async sync(changed: FlashcardIndex[], removedIds: string[], topics: string[]): Promise<void> {
+        const writes: Promise<unknown>[] = [];
+
+        if (this.vectorService) {
+            for (const card of changed) {
+                writes.push(this.vectorService.upsertFlashcard(card.id, `${card.front}\n${card.back}`, {
+                    topic: card.topic,
+                    kind: card.kind,
+                    tags: card.tags
+                }));
+            }
+            removedIds.forEach(id => writes.push(this.vectorService!.deleteFlashcard(id)));
+        }
+
+        if (this.dbService instanceof LocalDbService) {
+            const db = this.dbService;
+            for (const topic of new Set(topics.map(topicKey))) {
+                const cards = this.getFlashcardsByTopic(topic);
+                const id = this.getDeckId(topic);
+                writes.push(cards.length > 0
+                    ? db.createFlashcard({ id, topic: cards[0]!.topic, cards: cards.map(card => ({ ...card })) })
+                    : db.deleteFlashcard(id));
+            }
+        } else if (this.dbService) {
+            const db = this.dbService;
+            if (changed.length > 0) {
+                writes.push(db.storeFlashcards(changed.map(card => ({
+                    id: card.id,
+                    front: card.front,
+                    back: card.back,
+                    topic: card.topic,
+                    kind: card.kind,
+                    sourceType: card.source?.type,
+                    sourceName: card.source?.filename ?? card.source?.url,
+                    quality: card.quality
+                }))));
+            }
+            removedIds.forEach(id => writes.push(db.deleteFlashcard(id)));
+        }
+
+        // supabase-js reports failures as `{ error }` instead of rejecting
+        const errors = (await Promise.allSettled(writes)).flatMap(result => {
+            if (result.status === 'rejected') return [result.reason];
+            const error = (result.value as { error?: unknown } | null | undefined)?.error;
+            return error ? [error] : [];
+        });
+        if (errors.length > 0) {
+            const reason = String((errors[0] as { message?: unknown } | null)?.message ?? errors[0]);
+            logger.warn('Failed to persist card changes', { failed: errors.length, reason });
+        }
+    }
+}
+
+/** The owner for cards saved by an editor: signed-in users own them, anonymous and model saves do not. */
+function cardOwner(editedBy?: string): string | undefined {
+    return editedBy && editedBy !== ANONYMOUS_USER_ID && editedBy !== GENERATED_BY ? editedBy : undefined;
+}
+
+/** Shared cards can be changed by anyone, owned ones only by their owner. */
+function canEdit(card: Pick<FlashcardIndex, 'ownerId'>, editedBy: string): boolean {
+    return card.ownerId === undefined || card.ownerId === editedBy;
+}
+
+/** Key of a deck in the topic index: its normalized path, lowercased. */
+function topicKey(topic: string): string {
+    return normalizeDeckPath(topic).toLowerCase();
+}
+
+function toRevision(row: CardRevisionRow): CardRevision {
+    return {
+        id: row.id,
+        cardId: row.card_id,
+        version: row.version,
+        action: row.action as RevisionAction,
+        editedBy: row.edited_by,
+        topic: row.topic,
+        front: row.front,
+        back: row.back,
+        ...(row.previous_front != null ? { previousFront: row.previous_front } : {}),
+        ...(row.previous_back != null ? { previousBack: row.previous_back } : {}),
+        ...(row.reverted_to ? { revertedTo: row.reverted_to } : {}),
+        ...(row.snapshot ? { snapshot: row.snapshot as CardSnapshot } : {}),
+        createdAt: row.created_at
+    };
 }
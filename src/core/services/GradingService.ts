@@ -0,0 +1,152 @@
+import type { AnswerGrade, QuizQuestion } from '../domain/models.js';
+import { appProperties } from '../../config/properties.js';
+import { DEFAULT_SYNONYMS, canonicalAnswer, editDistance, numbersIn } from '../../utils/answerMatching.js';
+import type { SynonymGroups } from '../../utils/answerMatching.js';
+import { gradeAnswer, questionKind } from '../../utils/quizQuestions.js';
+import type { GradableQuestion, QuizAnswer } from '../../utils/quizQuestions.js';
+import type { AdapterManager } from './AdapterManager.js';
+import { logger } from './LoggerService.js';
+
+export interface GradingOptions {
+    /** Ask a model to judge typed answers the local rules do not fully accept. */
+    judge?: boolean;
+    /** Adapter to try first when judging. */
+    preferredAdapter?: string;
+    llmConfig?: any;
+}
+
+export interface GradingConfig {
+    /** Spelling mistakes allowed per character of the expected answer. */
+    typoRatio?: number;
+    /** Partial credit below this counts as wrong. */
+    minPartialCredit?: number;
+    synonyms?: SynonymGroups;
+}
+
+export type GradedQuestion = GradableQuestion & Pick<QuizQuestion, 'question'>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const fullCredit = (method: AnswerGrade['method'], explanation: string): AnswerGrade =>
+    ({ correct: true, credit: 1, method, explanation });
+
+/**
+ * Grades quiz answers. Choice questions use the exact rules of `gradeAnswer`;
+ * typed answers are also accepted after normalising case, punctuation, accents,
+ * numbers and units, through synonyms and despite small spelling mistakes, and
+ * earn partial credit for sharing most of their words with the answer. With
+ * `judge`, a model decides on typed answers these rules do not fully accept.
+ */
+export class GradingService {
+    private typoRatio: number;
+    private minPartialCredit: number;
+    private synonyms: SynonymGroups;
+
+    constructor(private adapters?: AdapterManager, config: GradingConfig = {}) {
+        this.typoRatio = config.typoRatio ?? appProperties.GRADING_TYPO_RATIO;
+        this.minPartialCredit = config.minPartialCredit ?? appProperties.GRADING_MIN_PARTIAL_CREDIT;
+        this.synonyms = config.synonyms ?? DEFAULT_SYNONYMS;
+    }
+
+    async grade(question: GradedQuestion, answer: QuizAnswer | null | undefined, options: GradingOptions = {}): Promise<AnswerGrade> {
+        const local = this.gradeLocally(question, answer);
+        if (local.correct || !options.judge || !this.adapters || questionKind(question) !== 'short-answer' || typeof answer !== 'string' || !answer.trim()) {
+            return local;
+        }
+
+        try {
+            const judgement = await this.adapters.executeWithFallback(
+                adapter => adapter.judgeAnswer({
+                    question: question.question,
+                    expected: question.correctAnswer,
+                    acceptedAnswers: question.acceptedAnswers,
+                    answer
+                }, options.llmConfig),
+                options.preferredAdapter
+            );
+            // The model may be stricter than the local rules, but never takes away credit they gave
+            const credit = round(judgement.credit);
+            if (credit <= local.credit) return local;
+            return {
+                correct: credit >= 1,
+                credit,
+                method: 'llm',
+                explanation: judgement.rationale || (credit >= 1 ? 'Judged to mean the same as the answer' : 'Judged partly right')
+            };
+        } catch (error: unknown) {
+            logger.warn('Answer judging failed, keeping the local grade', { error: error instanceof Error ? error.message : String(error) });
+            return local;
+        }
+    }
+
+    /** Grade without a model. */
+    gradeLocally(question: GradedQuestion, answer: QuizAnswer | null | undefined): AnswerGrade {
+        if (answer === null || answer === undefined || answer.length === 0 || (typeof answer === 'string' && !answer.trim())) {
+            return { correct: false, credit: 0, method: 'none', explanation: 'No answer given' };
+        }
+        if (gradeAnswer(question, answer)) {
+            return fullCredit('exact', 'Matches the answer');
+        }
+        const wrong: AnswerGrade = { correct: false, credit: 0, method: 'none', explanation: `The answer is "${question.correctAnswer}"` };
+        if (questionKind(question) !== 'short-answer' || typeof answer !== 'string') {
+            return wrong;
+        }
+
+        const accepted = [question.correctAnswer, ...question.acceptedAnswers ?? []];
+        const given = canonicalAnswer(answer);
+        if (accepted.some(text => canonicalAnswer(text) === given)) {
+            return fullCredit('normalized', 'Matches the answer once case, punctuation, accents, numbers and units are normalised');
+        }
+
+        const givenWithSynonyms = canonicalAnswer(answer, this.synonyms);
+        const targets = accepted.map(text => ({ text, canonical: canonicalAnswer(text, this.synonyms) }));
+        const synonym = targets.find(target => target.canonical === givenWithSynonyms);
+        if (synonym) {
+            return fullCredit('synonym', `Matches "${synonym.text}" using a synonym`);
+        }
+
+        const misspelt = targets.find(target => this.closeEnough(givenWithSynonyms, target.canonical));
+        if (misspelt) {
+            return fullCredit('fuzzy', `Matches "${misspelt.text}" apart from spelling`);
+        }
+
+        let best = wrong;
+        for (const target of targets) {
+            const expectedWords = target.canonical.split(' ');
+            const matched = this.matchingWords(givenWithSynonyms.split(' '), expectedWords);
+            const credit = round(matched / Math.max(expectedWords.length, givenWithSynonyms.split(' ').length));
+            if (credit >= 1) {
+                return fullCredit('fuzzy', `Matches "${target.text}" apart from word order or spelling`);
+            }
+            if (credit >= this.minPartialCredit && credit > best.credit) {
+                best = {
+                    correct: false,
+                    credit,
+                    method: 'partial',
+                    explanation: `Partly matches "${target.text}" (${matched} of ${expectedWords.length} words)`
+                };
+            }
+        }
+        return best;
+    }
+
+    /** Within the allowed spelling mistakes, and with exactly the same numbers. */
+    private closeEnough(given: string, expected: string): boolean {
+        if (numbersIn(given).join(' ') !== numbersIn(expected).join(' ')) return false;
+        return editDistance(given, expected) <= Math.floor(expected.length * this.typoRatio);
+    }
+
+    /** Expected words found among the given ones, each given word used once. */
+    private matchingWords(given: string[], expected: string[]): number {
+        const unused = [...given];
+        let matched = 0;
+        for (const word of expected) {
+            const index = unused.findIndex(candidate => this.closeEnough(candidate, word));
+            if (index >= 0) {
+                unused.splice(index, 1);
+                matched++;
+            }
+        }
+        return matched;
+    }
+}
@@ -1,13 +1,16 @@
 import fs from 'fs';
 import path from 'path';
 import { logger } from './LoggerService.js';
+import { SchemaMigrator } from './SchemaMigrator.js';
+import type { Migration, MigrationState } from './SchemaMigrator.js';
 
+// JSON columns (`cards_json`, `questions_json`, `exam_json`, `result_json`, `attempt_json`, `snapshot_json`) are parsed on read
+// and serialised on write, so rows only carry the values
 type FlashcardRow = {
   id?: string;
   user_id?: string | null;
   topic?: string | null;
   cards?: unknown;
-  cards_json?: unknown;
   created_at?: number;
 };
 
@@ -16,7 +19,7 @@ type QuizRow = {
   user_id?: string | null;
   topic?: string | null;
   questions?: unknown;
-  questions_json?: unknown;
+  exam?: unknown;
   score?: number;
   created_at?: number;
 };
@@ -26,10 +29,97 @@ type QuizAttemptRow = {
   quiz_id: string;
   user_id?: string | null;
   result?: unknown;
-  result_json?: unknown;
   created_at?: number;
 };
 
+export type ExamAttemptRow = {
+  id: string;
+  quiz_id: string;
+  status: string;
+  attempt: unknown;
+  created_at: number;
+  updated_at: number;
+};
+
+type CardScheduleRow = {
+  user_id: string;
+  card_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: number;
+  last_reviewed_at?: number | null;
+};
+
+export type QueueJobStatus = 'waiting' | 'delayed' | 'active' | 'completed' | 'failed' | 'cancelled';
+
+export type QueueJobRow = {
+  id: string;
+  queue: string;
+  status: QueueJobStatus;
+  data: unknown;
+  priority: number;
+  attempts_made: number;
+  max_attempts: number;
+  backoff_ms: number;
+  run_at: number;
+  progress: number;
+  result?: unknown;
+  failed_reason?: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+type ReviewLogRow = {
+  id: string;
+  user_id: string;
+  card_id: string;
+  grade: string;
+  latency_ms: number;
+  reviewed_at: number;
+};
+
+export type CardRevisionRow = {
+  id: string;
+  card_id: string;
+  version: number;
+  action: string;
+  edited_by: string;
+  topic: string;
+  front: string;
+  back: string;
+  previous_front?: string | null;
+  previous_back?: string | null;
+  reverted_to?: string | null;
+  snapshot?: unknown;
+  created_at: number;
+};
+
+type SavedSearchRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  created_at: number;
+};
+
+export type QuizResultRow = {
+  id: string;
+  topic: string;
+  score: number;
+  total: number;
+  result: unknown;
+  created_at: number;
+};
+
+export type DeckHistoryRow = {
+  id: string;
+  topic: string;
+  deck: unknown;
+  created_at: number;
+};
+
 /**
  * Lightweight SQLite-backed (or in-memory) storage for local/dev mode.
  * If better-sqlite3 is unavailable, falls back to in-memory Maps.
@@ -40,52 +130,76 @@ export class LocalDbService {
   private flashcards: FlashcardRow[] = [];
   private quizzes: QuizRow[] = [];
   private quizAttempts: QuizAttemptRow[] = [];
+  private examAttempts = new Map<string, ExamAttemptRow>();
+  private cardSchedules: CardScheduleRow[] = [];
+  private reviewLogs: ReviewLogRow[] = [];
+  private cardRevisions: CardRevisionRow[] = [];
+  private savedSearches: SavedSearchRow[] = [];
+  private quizResults: QuizResultRow[] = [];
+  private deckHistory: DeckHistoryRow[] = [];
+  private queueJobs = new Map<string, QueueJobRow>();
+  private opening: Promise<void> | null = null;
 
-  constructor(private dbPath = path.join(process.cwd(), '.data', 'local.db')) {}
+  /**
+   * @param options.migrate - bring the schema to the latest version on open
+   *   (default); the migration CLI turns this off to move it explicitly
+   */
+  constructor(
+    private dbPath = path.join(process.cwd(), '.data', 'local.db'),
+    private options: { migrate?: boolean } = {}
+  ) {}
+
+  /** Open the database; safe to call from every consumer, it only opens once. */
+  initialize(): Promise<void> {
+    this.opening ??= this.open();
+    return this.opening;
+  }
 
-  async initialize(): Promise<void> {
+  private async open(): Promise<void> {
+    let Database: any;
     try {
       // Optional dependency; if missing we fall back to in-memory
       // Dynamic import keeps it optional for cloud builds
       // @ts-ignore - optional dependency not installed in all environments
-      const sqlite: any = (await import('better-sqlite3')).default;
-      fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
-      this.db = new sqlite.default(this.dbPath);
-      this.db.pragma('journal_mode = WAL');
-      this.bootstrap();
-      logger.info('🗄️  Local SQLite initialized at ' + this.dbPath);
+      Database = (await import('better-sqlite3')).default;
     } catch (err: any) {
       this.inMemory = true;
       logger.warn('SQLite not available, falling back to in-memory storage:', err?.message || err);
+      return;
     }
+
+    // Errors past this point (an unreadable file, a failed migration, a schema from a newer
+    // build) reject: falling back to memory would make the stored data look gone
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+    this.db = new Database(this.dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.bootstrap();
+    logger.info('🗄️  Local SQLite initialized at ' + this.dbPath);
   }
 
   private bootstrap() {
-    if (!this.db) return;
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS flashcards (
-        id TEXT PRIMARY KEY,
-        user_id TEXT,
-        topic TEXT,
-        cards_json TEXT,
-        created_at INTEGER
-      );
-      CREATE TABLE IF NOT EXISTS quizzes (
-        id TEXT PRIMARY KEY,
-        user_id TEXT,
-        topic TEXT,
-        questions_json TEXT,
-        score INTEGER,
-        created_at INTEGER
-      );
-      CREATE TABLE IF NOT EXISTS quiz_attempts (
-        id TEXT PRIMARY KEY,
-        quiz_id TEXT,
-        user_id TEXT,
-        result_json TEXT,
-        created_at INTEGER
-      );
-    `);
+    if (!this.db || this.options.migrate === false) return;
+    for (const migration of new SchemaMigrator(this.db).migrate()) {
+      logger.info(`🗄️  Local SQLite schema migrated to version ${migration.version} (${migration.name})`);
+    }
+  }
+
+  // ---- Schema ----
+  async getSchemaStatus(): Promise<{ data: MigrationState[]; error: string | null }> {
+    if (this.inMemory) return { data: [], error: NO_SCHEMA };
+    return { data: new SchemaMigrator(this.db).status(), error: null };
+  }
+
+  /** Apply pending migrations up to `target` (default: all). */
+  async migrateSchema(target?: number): Promise<{ data: Migration[]; error: string | null }> {
+    if (this.inMemory) return { data: [], error: NO_SCHEMA };
+    return { data: new SchemaMigrator(this.db).migrate(target), error: null };
+  }
+
+  /** Revert migrations down to `target` (default: the previous version). */
+  async rollbackSchema(target?: number): Promise<{ data: Migration[]; error: string | null }> {
+    if (this.inMemory) return { data: [], error: NO_SCHEMA };
+    return { data: new SchemaMigrator(this.db).rollback(target), error: null };
   }
 
   isAvailable() {
@@ -96,12 +210,14 @@ export class LocalDbService {
   async getFlashcards(): Promise<{ data: FlashcardRow[] | null; error: string | null }> {
     if (this.inMemory) return { data: this.flashcards, error: null };
     const stmt = this.db.prepare('SELECT * FROM flashcards');
-    return { data: stmt.all() as FlashcardRow[], error: null };
+    return { data: stmt.all().map(fromJsonColumn('cards')), error: null };
   }
 
   async createFlashcard(flashcard: FlashcardRow): Promise<{ data: FlashcardRow; error: string | null }> {
     const record: FlashcardRow = { ...flashcard, id: flashcard.id ?? `fc-${Date.now()}`, created_at: Date.now() };
     if (this.inMemory) {
+      // Same replace-by-id semantics as the SQLite statement
+      this.flashcards = this.flashcards.filter(f => f.id !== record.id);
       this.flashcards.push(record);
       return { data: record, error: null };
     }
@@ -110,7 +226,7 @@ export class LocalDbService {
       id: record.id,
       user_id: record.user_id || null,
       topic: record.topic || null,
-      cards_json: JSON.stringify(record.cards ?? record.cards_json ?? {}),
+      cards_json: JSON.stringify(record.cards ?? {}),
       created_at: record.created_at,
     });
     return { data: record, error: null };
@@ -122,13 +238,14 @@ export class LocalDbService {
       if (idx >= 0) this.flashcards[idx] = { ...this.flashcards[idx], ...updates };
       return { data: this.flashcards[idx] ?? null, error: null };
     }
-    const current = this.db.prepare('SELECT * FROM flashcards WHERE id = ?').get(id) as FlashcardRow | null;
-    if (!current) return { data: null, error: 'not found' };
+    const row = this.db.prepare('SELECT * FROM flashcards WHERE id = ?').get(id);
+    if (!row) return { data: null, error: 'not found' };
+    const current: FlashcardRow = fromJsonColumn('cards')(row);
     const merged = { ...current, ...updates, id: current.id ?? id } as FlashcardRow;
     this.db.prepare('UPDATE flashcards SET topic=@topic, cards_json=@cards_json WHERE id=@id').run({
       id,
       topic: merged.topic,
-      cards_json: JSON.stringify(merged.cards ?? merged.cards_json ?? {}),
+      cards_json: JSON.stringify(merged.cards ?? {}),
     });
     return { data: merged, error: null };
   }
@@ -146,7 +263,7 @@ export class LocalDbService {
   async getQuizzes(): Promise<{ data: QuizRow[] | null; error: string | null }> {
     if (this.inMemory) return { data: this.quizzes, error: null };
     const stmt = this.db.prepare('SELECT * FROM quizzes');
-    return { data: stmt.all() as QuizRow[], error: null };
+    return { data: stmt.all().map(fromJsonColumn('questions')).map(fromJsonColumn('exam')), error: null };
   }
 
   async createQuiz(quiz: QuizRow): Promise<{ data: QuizRow; error: string | null }> {
@@ -155,12 +272,13 @@ export class LocalDbService {
       this.quizzes.push(record);
       return { data: record, error: null };
     }
-    const stmt = this.db.prepare('INSERT OR REPLACE INTO quizzes (id, user_id, topic, questions_json, score, created_at) VALUES (@id, @user_id, @topic, @questions_json, @score, @created_at)');
+    const stmt = this.db.prepare('INSERT OR REPLACE INTO quizzes (id, user_id, topic, questions_json, exam_json, score, created_at) VALUES (@id, @user_id, @topic, @questions_json, @exam_json, @score, @created_at)');
     stmt.run({
       id: record.id,
       user_id: record.user_id || null,
       topic: record.topic || null,
-      questions_json: JSON.stringify(record.questions ?? record.questions_json ?? {}),
+      questions_json: JSON.stringify(record.questions ?? []),
+      exam_json: record.exam === undefined ? null : JSON.stringify(record.exam),
       score: record.score || 0,
       created_at: record.created_at,
     });
@@ -169,8 +287,8 @@ export class LocalDbService {
 
   async getQuiz(id: string): Promise<{ data: QuizRow | null; error: string | null }> {
     if (this.inMemory) return { data: this.quizzes.find(q => q.id === id) || null, error: null };
-    const row = this.db.prepare('SELECT * FROM quizzes WHERE id = ?').get(id) as QuizRow | undefined;
-    return { data: row || null, error: null };
+    const row = this.db.prepare('SELECT * FROM quizzes WHERE id = ?').get(id);
+    return { data: row ? fromJsonColumn('exam')(fromJsonColumn('questions')(row)) : null, error: null };
   }
 
   async createQuizAttempt(attempt: QuizAttemptRow): Promise<{ data: QuizAttemptRow; error: string | null }> {
@@ -183,15 +301,272 @@ export class LocalDbService {
       id: record.id,
       quiz_id: record.quiz_id,
       user_id: record.user_id || null,
-      result_json: JSON.stringify(record.result ?? record.result_json ?? {}),
+      result_json: JSON.stringify(record.result ?? {}),
       created_at: record.created_at,
     });
     return { data: record, error: null };
   }
 
-  async getQuizAttempts(quizId: string): Promise<{ data: QuizAttemptRow[]; error: string | null }> {
-    if (this.inMemory) return { data: this.quizAttempts.filter(q => q.quiz_id === quizId), error: null };
-    const rows = this.db.prepare('SELECT * FROM quiz_attempts WHERE quiz_id = ?').all(quizId) as QuizAttemptRow[];
-    return { data: rows, error: null };
+  /** Attempts at one quiz, or at every quiz when no id is given. */
+  async getQuizAttempts(quizId?: string): Promise<{ data: QuizAttemptRow[]; error: string | null }> {
+    if (this.inMemory) return { data: this.quizAttempts.filter(q => !quizId || q.quiz_id === quizId), error: null };
+    const rows = quizId
+      ? this.db.prepare('SELECT * FROM quiz_attempts WHERE quiz_id = ?').all(quizId)
+      : this.db.prepare('SELECT * FROM quiz_attempts ORDER BY created_at').all();
+    return { data: rows.map(fromJsonColumn('result')), error: null };
+  }
+
+  // ---- Exam attempts ----
+  async saveExamAttempt(row: ExamAttemptRow): Promise<{ data: ExamAttemptRow; error: string | null }> {
+    if (this.inMemory) {
+      this.examAttempts.set(row.id, { ...row });
+      return { data: row, error: null };
+    }
+    this.db.prepare('INSERT OR REPLACE INTO exam_attempts (id, quiz_id, status, attempt_json, created_at, updated_at) VALUES (@id, @quiz_id, @status, @attempt_json, @created_at, @updated_at)').run({
+      id: row.id,
+      quiz_id: row.quiz_id,
+      status: row.status,
+      attempt_json: JSON.stringify(row.attempt ?? null),
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    });
+    return { data: row, error: null };
+  }
+
+  async getExamAttempts(status?: string): Promise<{ data: ExamAttemptRow[]; error: string | null }> {
+    if (this.inMemory) {
+      const rows = Array.from(this.examAttempts.values()).filter(r => !status || r.status === status);
+      return { data: rows.map(r => ({ ...r })), error: null };
+    }
+    const rows = status
+      ? this.db.prepare('SELECT * FROM exam_attempts WHERE status = ?').all(status)
+      : this.db.prepare('SELECT * FROM exam_attempts').all();
+    return { data: rows.map(fromJsonColumn('attempt')), error: null };
+  }
+
+  // ---- Spaced repetition ----
+  async getCardSchedules(userId?: string): Promise<{ data: CardScheduleRow[]; error: string | null }> {
+    if (this.inMemory) {
+      return { data: this.cardSchedules.filter(r => !userId || r.user_id === userId), error: null };
+    }
+    const rows = userId
+      ? this.db.prepare('SELECT * FROM card_schedules WHERE user_id = ?').all(userId)
+      : this.db.prepare('SELECT * FROM card_schedules').all();
+    return { data: rows as CardScheduleRow[], error: null };
+  }
+
+  async upsertCardSchedule(row: CardScheduleRow): Promise<{ data: CardScheduleRow; error: string | null }> {
+    if (this.inMemory) {
+      const idx = this.cardSchedules.findIndex(r => r.user_id === row.user_id && r.card_id === row.card_id);
+      if (idx >= 0) this.cardSchedules[idx] = row;
+      else this.cardSchedules.push(row);
+      return { data: row, error: null };
+    }
+    this.db.prepare(`INSERT OR REPLACE INTO card_schedules
+      (user_id, card_id, ease_factor, interval_days, repetitions, lapses, due_at, last_reviewed_at)
+      VALUES (@user_id, @card_id, @ease_factor, @interval_days, @repetitions, @lapses, @due_at, @last_reviewed_at)`).run({
+      ...row,
+      last_reviewed_at: row.last_reviewed_at ?? null,
+    });
+    return { data: row, error: null };
+  }
+
+  async createReviewLog(row: ReviewLogRow): Promise<{ data: ReviewLogRow; error: string | null }> {
+    if (this.inMemory) {
+      this.reviewLogs.push(row);
+      return { data: row, error: null };
+    }
+    this.db.prepare('INSERT OR REPLACE INTO review_logs (id, user_id, card_id, grade, latency_ms, reviewed_at) VALUES (@id, @user_id, @card_id, @grade, @latency_ms, @reviewed_at)').run(row);
+    return { data: row, error: null };
+  }
+
+  async getReviewLogs(userId?: string): Promise<{ data: ReviewLogRow[]; error: string | null }> {
+    if (this.inMemory) {
+      return { data: this.reviewLogs.filter(r => !userId || r.user_id === userId), error: null };
+    }
+    const rows = userId
+      ? this.db.prepare('SELECT * FROM review_logs WHERE user_id = ? ORDER BY reviewed_at').all(userId)
+      : this.db.prepare('SELECT * FROM review_logs ORDER BY reviewed_at').all();
+    return { data: rows as ReviewLogRow[], error: null };
   }
+
+  // ---- Card revisions (append-only) ----
+  async createCardRevision(row: CardRevisionRow): Promise<{ data: CardRevisionRow; error: string | null }> {
+    if (this.inMemory) {
+      this.cardRevisions.push({ ...row });
+      return { data: row, error: null };
+    }
+    const { snapshot, ...columns } = row;
+    this.db.prepare(`INSERT INTO card_revisions (id, card_id, version, action, edited_by, topic, front, back, previous_front, previous_back, reverted_to, snapshot_json, created_at)
+      VALUES (@id, @card_id, @version, @action, @edited_by, @topic, @front, @back, @previous_front, @previous_back, @reverted_to, @snapshot_json, @created_at)`).run({
+      previous_front: null,
+      previous_back: null,
+      reverted_to: null,
+      ...columns,
+      snapshot_json: snapshot === undefined ? null : JSON.stringify(snapshot)
+    });
+    return { data: row, error: null };
+  }
+
+  async getCardRevisions(cardId?: string): Promise<{ data: CardRevisionRow[]; error: string | null }> {
+    if (this.inMemory) {
+      return { data: this.cardRevisions.filter(r => !cardId || r.card_id === cardId).map(r => ({ ...r })), error: null };
+    }
+    const rows = cardId
+      ? this.db.prepare('SELECT * FROM card_revisions WHERE card_id = ? ORDER BY version').all(cardId)
+      : this.db.prepare('SELECT * FROM card_revisions ORDER BY card_id, version').all();
+    return { data: rows.map(fromJsonColumn('snapshot')), error: null };
+  }
+
+  // ---- Saved searches ----
+  async upsertSavedSearch(row: SavedSearchRow): Promise<{ data: SavedSearchRow; error: string | null }> {
+    if (this.inMemory) {
+      this.savedSearches = [...this.savedSearches.filter(r => r.id !== row.id), { ...row }];
+      return { data: row, error: null };
+    }
+    this.db.prepare('INSERT OR REPLACE INTO saved_searches (id, user_id, name, query, created_at) VALUES (@id, @user_id, @name, @query, @created_at)').run(row);
+    return { data: row, error: null };
+  }
+
+  async getSavedSearches(userId?: string): Promise<{ data: SavedSearchRow[]; error: string | null }> {
+    if (this.inMemory) {
+      return { data: this.savedSearches.filter(r => !userId || r.user_id === userId), error: null };
+    }
+    const rows = userId
+      ? this.db.prepare('SELECT * FROM saved_searches WHERE user_id = ?').all(userId)
+      : this.db.prepare('SELECT * FROM saved_searches').all();
+    return { data: rows as SavedSearchRow[], error: null };
+  }
+
+  async deleteSavedSearch(id: string): Promise<{ data: null; error: string | null }> {
+    if (this.inMemory) {
+      this.savedSearches = this.savedSearches.filter(r => r.id !== id);
+      return { data: null, error: null };
+    }
+    this.db.prepare('DELETE FROM saved_searches WHERE id = ?').run(id);
+    return { data: null, error: null };
+  }
+
+  // ---- Study history (StoragePort) ----
+  async saveQuizResult(row: QuizResultRow): Promise<{ data: QuizResultRow; error: string | null }> {
+    if (this.inMemory) {
+      this.quizResults = [...this.quizResults.filter(r => r.id !== row.id), { ...row }];
+      return { data: row, error: null };
+    }
+    this.db.prepare('INSERT OR REPLACE INTO quiz_results (id, topic, score, total, result_json, created_at) VALUES (@id, @topic, @score, @total, @result_json, @created_at)').run({
+      id: row.id,
+      topic: row.topic,
+      score: row.score,
+      total: row.total,
+      result_json: JSON.stringify(row.result ?? null),
+      created_at: row.created_at,
+    });
+    return { data: row, error: null };
+  }
+
+  async getQuizResults(): Promise<{ data: QuizResultRow[]; error: string | null }> {
+    if (this.inMemory) {
+      return { data: [...this.quizResults].sort((a, b) => a.created_at - b.created_at), error: null };
+    }
+    const rows = this.db.prepare('SELECT * FROM quiz_results ORDER BY created_at').all();
+    return { data: rows.map(fromJsonColumn('result')), error: null };
+  }
+
+  async saveDeckHistory(row: DeckHistoryRow): Promise<{ data: DeckHistoryRow; error: string | null }> {
+    if (this.inMemory) {
+      this.deckHistory = [...this.deckHistory.filter(r => r.id !== row.id), { ...row }];
+      return { data: row, error: null };
+    }
+    this.db.prepare('INSERT OR REPLACE INTO deck_history (id, topic, deck_json, created_at) VALUES (@id, @topic, @deck_json, @created_at)').run({
+      id: row.id,
+      topic: row.topic,
+      deck_json: JSON.stringify(row.deck ?? null),
+      created_at: row.created_at,
+    });
+    return { data: row, error: null };
+  }
+
+  async getDeckHistory(id?: string): Promise<{ data: DeckHistoryRow[]; error: string | null }> {
+    if (this.inMemory) {
+      const rows = this.deckHistory.filter(r => !id || r.id === id);
+      return { data: rows.sort((a, b) => a.created_at - b.created_at), error: null };
+    }
+    const rows = id
+      ? this.db.prepare('SELECT * FROM deck_history WHERE id = ?').all(id)
+      : this.db.prepare('SELECT * FROM deck_history ORDER BY created_at').all();
+    return { data: rows.map(fromJsonColumn('deck')), error: null };
+  }
+
+  // ---- Job queue ----
+  async getQueueJobs(queue: string, statuses?: QueueJobStatus[]): Promise<{ data: QueueJobRow[]; error: string | null }> {
+    if (this.inMemory) {
+      const rows = Array.from(this.queueJobs.values())
+        .filter(r => r.queue === queue && (!statuses || statuses.includes(r.status)));
+      return { data: rows.map(r => ({ ...r })), error: null };
+    }
+    const rows = statuses
+      ? this.db.prepare(`SELECT * FROM queue_jobs WHERE queue = ? AND status IN (${statuses.map(() => '?').join(', ')})`).all(queue, ...statuses)
+      : this.db.prepare('SELECT * FROM queue_jobs WHERE queue = ?').all(queue);
+    return { data: rows.map((row: any) => this.toQueueJob(row)), error: null };
+  }
+
+  async getQueueJob(id: string): Promise<{ data: QueueJobRow | null; error: string | null }> {
+    if (this.inMemory) {
+      const row = this.queueJobs.get(id);
+      return { data: row ? { ...row } : null, error: null };
+    }
+    const row = this.db.prepare('SELECT * FROM queue_jobs WHERE id = ?').get(id);
+    return { data: row ? this.toQueueJob(row) : null, error: null };
+  }
+
+  async saveQueueJob(row: QueueJobRow): Promise<{ data: QueueJobRow; error: string | null }> {
+    if (this.inMemory) {
+      this.queueJobs.set(row.id, { ...row });
+      return { data: row, error: null };
+    }
+    this.db.prepare(`INSERT OR REPLACE INTO queue_jobs
+      (id, queue, status, data_json, priority, attempts_made, max_attempts, backoff_ms, run_at, progress, result_json, failed_reason, created_at, updated_at)
+      VALUES (@id, @queue, @status, @data_json, @priority, @attempts_made, @max_attempts, @backoff_ms, @run_at, @progress, @result_json, @failed_reason, @created_at, @updated_at)`).run({
+      id: row.id,
+      queue: row.queue,
+      status: row.status,
+      data_json: JSON.stringify(row.data ?? null),
+      priority: row.priority,
+      attempts_made: row.attempts_made,
+      max_attempts: row.max_attempts,
+      backoff_ms: row.backoff_ms,
+      run_at: row.run_at,
+      progress: row.progress,
+      result_json: row.result === undefined ? null : JSON.stringify(row.result),
+      failed_reason: row.failed_reason ?? null,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    });
+    return { data: row, error: null };
+  }
+
+  async deleteQueueJob(id: string): Promise<{ data: null; error: string | null }> {
+    if (this.inMemory) {
+      this.queueJobs.delete(id);
+      return { data: null, error: null };
+    }
+    this.db.prepare('DELETE FROM queue_jobs WHERE id = ?').run(id);
+    return { data: null, error: null };
+  }
+
+  private toQueueJob(row: any): QueueJobRow {
+    const { data_json, result_json, ...rest } = row;
+    return {
+      ...rest,
+      data: data_json ? JSON.parse(data_json) : null,
+      result: result_json ? JSON.parse(result_json) : undefined,
+    };
+  }
+}
+
+const NO_SCHEMA = 'SQLite is not available; the in-memory store has no schema to migrate';
+
+/** Replace the `<name>_json` column of a row with its parsed value under `<name>`. */
+function fromJsonColumn(name: string): (row: any) => any {
+  return ({ [`${name}_json`]: json, ...rest }: any) => ({ ...rest, [name]: typeof json === 'string' ? JSON.parse(json) : null });
 }
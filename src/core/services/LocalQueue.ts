@@ -0,0 +1,334 @@
+import { randomUUID } from 'crypto';
+import type { LocalDbService, QueueJobRow, QueueJobStatus } from './LocalDbService.js';
+import { LoggerService } from './LoggerService.js';
+
+const logger = new LoggerService();
+
+export const JOB_INTERRUPTED_REASON = 'Job interrupted by a restart';
+
+export interface LocalJobOptions {
+    /** Lower runs first, as in BullMQ. */
+    priority?: number;
+    /** Hold the job back for this long before it may run. */
+    delayMs?: number;
+    attempts?: number;
+    /** Delay before the first retry; doubles with every further attempt. */
+    backoffMs?: number;
+}
+
+export interface LocalQueueOptions {
+    /** Wait before dispatching a new job, giving callers time to subscribe to its updates. */
+    dispatchDelayMs?: number;
+    /** Completed jobs are kept for status lookups until they are older than this or beyond `keepCompletedCount`. */
+    keepCompletedMs?: number;
+    keepCompletedCount?: number;
+}
+
+export type LocalJobProcessor<T> = (job: LocalJob<T>, signal: AbortSignal) => Promise<unknown>;
+
+export interface LocalWorkerOptions<T> {
+    concurrency: number;
+    /** Whether `job` may start next to the running jobs; held-back jobs are reconsidered when a job finishes. */
+    canStart?: (job: LocalJob<T>, running: LocalJob<T>[]) => boolean;
+    onActive?: (job: LocalJob<T>) => Promise<void> | void;
+    onProgress?: (job: LocalJob<T>) => Promise<void> | void;
+    onCompleted?: (job: LocalJob<T>) => Promise<void> | void;
+    /** `willRetry` is false once the job has used all of its attempts. */
+    onFailed?: (job: LocalJob<T>, error: Error, willRetry: boolean) => Promise<void> | void;
+}
+
+/** A job of a LocalQueue, shaped like the parts of BullMQ's Job that processors use. */
+export class LocalJob<T = any> {
+    constructor(private row: QueueJobRow, private queue: LocalQueue<T>) {}
+
+    get id(): string { return this.row.id; }
+    get data(): T { return this.row.data as T; }
+    get status(): QueueJobStatus { return this.row.status; }
+    get progress(): number { return this.row.progress; }
+    get attemptsMade(): number { return this.row.attempts_made; }
+    get returnvalue(): unknown { return this.row.result; }
+    get failedReason(): string | null { return this.row.failed_reason ?? null; }
+    get timestamp(): number { return this.row.created_at; }
+    get opts() { return { attempts: this.row.max_attempts, priority: this.row.priority, backoff: this.row.backoff_ms }; }
+
+    updateProgress(progress: number): Promise<void> {
+        return this.queue.updateProgress(this.id, progress);
+    }
+}
+
+interface RunningJob<T> {
+    row: QueueJobRow;
+    job: LocalJob<T>;
+    controller: AbortController;
+}
+
+/**
+ * Durable single-machine job queue stored in LocalDbService's SQLite database
+ * (in memory when SQLite is unavailable). Jobs run by priority, then in the order
+ * they were added, and support delays, retries with exponential backoff and
+ * cancellation. Jobs a crash or restart left running count as a failed attempt
+ * and are retried when the worker starts again.
+ */
+export class LocalQueue<T = any> {
+    private ready: Promise<void>;
+    private processor: LocalJobProcessor<T> | null = null;
+    private worker: LocalWorkerOptions<T> = { concurrency: 1 };
+    private running = new Map<string, RunningJob<T>>();
+    private draining = false;
+    private drainRequested = false;
+    private wakeUp: NodeJS.Timeout | null = null;
+    private wakeUpAt = 0;
+    private lastStamp = 0;
+    private closed = false;
+    private options: Required<LocalQueueOptions>;
+
+    constructor(readonly name: string, private db: LocalDbService, options: LocalQueueOptions = {}) {
+        this.ready = db.initialize();
+        this.options = {
+            dispatchDelayMs: options.dispatchDelayMs ?? 100,
+            keepCompletedMs: options.keepCompletedMs ?? 3600_000,
+            keepCompletedCount: options.keepCompletedCount ?? 100
+        };
+    }
+
+    async add(data: T, options: LocalJobOptions = {}): Promise<LocalJob<T>> {
+        await this.ready;
+        const now = this.stamp();
+        const delayMs = Math.max(0, options.delayMs ?? 0);
+        const row: QueueJobRow = {
+            id: `local-${randomUUID()}`,
+            queue: this.name,
+            status: delayMs > 0 ? 'delayed' : 'waiting',
+            data,
+            priority: options.priority ?? 0,
+            attempts_made: 0,
+            max_attempts: Math.max(1, options.attempts ?? 1),
+            backoff_ms: Math.max(0, options.backoffMs ?? 0),
+            run_at: now + this.options.dispatchDelayMs + delayMs,
+            progress: 0,
+            failed_reason: null,
+            created_at: now,
+            updated_at: now
+        };
+        await this.db.saveQueueJob(row);
+        this.scheduleDrain(row.run_at - Date.now());
+        return new LocalJob(row, this);
+    }
+
+    async getJob(id: string): Promise<LocalJob<T> | null> {
+        const running = this.running.get(id);
+        if (running) return running.job;
+        await this.ready;
+        const { data } = await this.db.getQueueJob(id);
+        return data && data.queue === this.name ? new LocalJob(data, this) : null;
+    }
+
+    async getJobs(statuses?: QueueJobStatus[]): Promise<LocalJob<T>[]> {
+        await this.ready;
+        const { data } = await this.db.getQueueJobs(this.name, statuses);
+        return data.map(row => this.running.get(row.id)?.job ?? new LocalJob(row, this));
+    }
+
+    /** Replace the data and/or priority of a job, e.g. when another request joins it. */
+    async update(id: string, changes: { data?: T; priority?: number }): Promise<void> {
+        await this.ready;
+        const row = this.running.get(id)?.row ?? (await this.db.getQueueJob(id)).data;
+        if (!row || row.queue !== this.name) return;
+        if (changes.data !== undefined) row.data = changes.data;
+        if (changes.priority !== undefined) row.priority = changes.priority;
+        row.updated_at = Date.now();
+        await this.db.saveQueueJob(row);
+    }
+
+    async remove(id: string): Promise<void> {
+        await this.ready;
+        this.running.get(id)?.controller.abort(new Error('Job removed'));
+        await this.db.deleteQueueJob(id);
+    }
+
+    /**
+     * Mark a waiting, delayed or running job cancelled; a running job's signal is
+     * aborted and whatever its processor returns afterwards is ignored.
+     */
+    async cancel(id: string, reason: string): Promise<'cancelled' | 'not_found' | 'finished'> {
+        await this.ready;
+        const running = this.running.get(id);
+        const row = running?.row ?? (await this.db.getQueueJob(id)).data;
+        if (!row || row.queue !== this.name) return 'not_found';
+        if (row.status !== 'waiting' && row.status !== 'delayed' && row.status !== 'active') return 'finished';
+
+        // Abort before saving so a processor finishing meanwhile cannot complete the job
+        running?.controller.abort(new Error(reason));
+        row.status = 'cancelled';
+        row.failed_reason = reason;
+        row.updated_at = Date.now();
+        await this.db.saveQueueJob(row);
+        return 'cancelled';
+    }
+
+    /** Start processing: recover jobs interrupted by the last shutdown, then run whatever is due. */
+    async process(processor: LocalJobProcessor<T>, worker: LocalWorkerOptions<T>): Promise<void> {
+        this.processor = processor;
+        this.worker = worker;
+        await this.ready;
+        await this.recoverInterrupted();
+        await this.drain();
+    }
+
+    /** Used by LocalJob.updateProgress; progress of jobs that are no longer running is ignored. */
+    async updateProgress(id: string, progress: number): Promise<void> {
+        const running = this.running.get(id);
+        if (!running || running.controller.signal.aborted) return;
+        running.row.progress = progress;
+        running.row.updated_at = Date.now();
+        await this.db.saveQueueJob(running.row);
+        await this.notify(() => this.worker.onProgress?.(running.job));
+    }
+
+    /** Stop dispatching. Running jobs are left to finish; if the process exits first they are recovered on the next start. */
+    async close(): Promise<void> {
+        this.closed = true;
+        if (this.wakeUp) clearTimeout(this.wakeUp);
+        this.wakeUp = null;
+    }
+
+    private async recoverInterrupted(): Promise<void> {
+        const { data } = await this.db.getQueueJobs(this.name, ['active']);
+        for (const row of data) {
+            if (this.running.has(row.id)) continue;
+            logger.warn('Recovering interrupted job', { queue: this.name, jobId: row.id, attemptsMade: row.attempts_made });
+            await this.fail(row, new Error(JOB_INTERRUPTED_REASON));
+        }
+    }
+
+    private async drain(): Promise<void> {
+        if (!this.processor || this.closed) return;
+        // One pass at a time, so two passes cannot start the same job
+        if (this.draining) {
+            this.drainRequested = true;
+            return;
+        }
+        this.draining = true;
+        try {
+            do {
+                this.drainRequested = false;
+                await this.startDueJobs();
+            } while (this.drainRequested);
+        } catch (error: any) {
+            logger.error('Local queue dispatch failed', { queue: this.name, error: error?.message });
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    private async startDueJobs(): Promise<void> {
+        const now = Date.now();
+        const { data } = await this.db.getQueueJobs(this.name, ['waiting', 'delayed']);
+        const due = data
+            .filter(row => row.run_at <= now)
+            .sort((a, b) => a.priority - b.priority || a.created_at - b.created_at);
+
+        for (const row of due) {
+            if (this.running.size >= this.worker.concurrency) break;
+            const job = new LocalJob(row, this);
+            if (this.worker.canStart && !this.worker.canStart(job, this.runningJobs())) continue;
+            await this.start(row, job);
+        }
+
+        const nextRunAt = Math.min(...data.filter(row => row.run_at > now).map(row => row.run_at));
+        if (Number.isFinite(nextRunAt)) this.scheduleDrain(nextRunAt - now);
+    }
+
+    private async start(row: QueueJobRow, job: LocalJob<T>): Promise<void> {
+        const running: RunningJob<T> = { row, job, controller: new AbortController() };
+        this.running.set(row.id, running);
+        row.status = 'active';
+        row.updated_at = Date.now();
+        await this.db.saveQueueJob(row);
+        void this.run(running);
+    }
+
+    private async run({ row, job, controller }: RunningJob<T>): Promise<void> {
+        try {
+            await this.notify(() => this.worker.onActive?.(job));
+            const result = await this.processor!(job, controller.signal);
+            // Cancelled or removed meanwhile: that outcome is already recorded
+            if (controller.signal.aborted) return;
+
+            row.status = 'completed';
+            row.progress = 100;
+            row.result = result;
+            row.updated_at = Date.now();
+            await this.db.saveQueueJob(row);
+            await this.notify(() => this.worker.onCompleted?.(job));
+            await this.pruneCompleted();
+        } catch (error) {
+            if (controller.signal.aborted) return;
+            await this.fail(row, error instanceof Error ? error : new Error(String(error)));
+        } finally {
+            this.running.delete(row.id);
+            void this.drain();
+        }
+    }
+
+    private async fail(row: QueueJobRow, error: Error): Promise<void> {
+        row.attempts_made += 1;
+        row.failed_reason = error.message;
+        row.updated_at = Date.now();
+        const willRetry = row.attempts_made < row.max_attempts;
+        if (willRetry) {
+            const delay = row.backoff_ms * 2 ** (row.attempts_made - 1);
+            row.status = delay > 0 ? 'delayed' : 'waiting';
+            row.run_at = row.updated_at + delay;
+            this.scheduleDrain(delay);
+        } else {
+            row.status = 'failed';
+        }
+        await this.db.saveQueueJob(row);
+        await this.notify(() => this.worker.onFailed?.(new LocalJob(row, this), error, willRetry));
+    }
+
+    private async pruneCompleted(): Promise<void> {
+        const { data } = await this.db.getQueueJobs(this.name, ['completed']);
+        const cutoff = Date.now() - this.options.keepCompletedMs;
+        const stale = data
+            .sort((a, b) => b.updated_at - a.updated_at)
+            .filter((row, index) => index >= this.options.keepCompletedCount || row.updated_at < cutoff);
+        for (const row of stale) {
+            await this.db.deleteQueueJob(row.id);
+        }
+    }
+
+    private runningJobs(): LocalJob<T>[] {
+        return Array.from(this.running.values()).map(running => running.job);
+    }
+
+    private scheduleDrain(delayMs: number): void {
+        if (this.closed) return;
+        const at = Date.now() + delayMs;
+        if (this.wakeUp && this.wakeUpAt <= at) return;
+        if (this.wakeUp) clearTimeout(this.wakeUp);
+        this.wakeUpAt = at;
+        this.wakeUp = setTimeout(() => {
+            this.wakeUp = null;
+            void this.drain();
+        }, delayMs);
+        // A pending wake-up alone must not keep the process alive
+        this.wakeUp.unref?.();
+    }
+
+    // Event handlers must not break the queue
+    private async notify(handler: () => Promise<void> | void): Promise<void> {
+        try {
+            await handler();
+        } catch (error: any) {
+            logger.error('Local queue event handler failed', { queue: this.name, error: error?.message });
+        }
+    }
+
+    // Strictly increasing creation times keep jobs of equal priority in insertion order
+    private stamp(): number {
+        this.lastStamp = Math.max(Date.now(), this.lastStamp + 1);
+        return this.lastStamp;
+    }
+}
@@ -0,0 +1,120 @@
+import { randomUUID } from 'crypto';
+import { PubSub, PubSubEngine } from 'graphql-subscriptions';
+import { Redis } from 'ioredis';
+import { LoggerService } from './LoggerService.js';
+
+const logger = new LoggerService();
+
+export interface PubSubServiceOptions {
+    /** Redis connection for fan-out between server instances; omit for a single in-memory instance. */
+    redis?: { host: string; port: number } | null;
+    /** Prefix for the Redis channels (default `pubsub:`). */
+    channelPrefix?: string;
+}
+
+interface Envelope {
+    origin: string;
+    payload: unknown;
+}
+
+/**
+ * GraphQL pub-sub engine shared by every server instance. Events are always
+ * delivered to local subscribers straight away and, when Redis is configured,
+ * also published there so subscribers connected to other instances receive them.
+ * Messages coming back from Redis that this instance published are ignored, so
+ * local delivery keeps working while Redis is unreachable.
+ */
+export class PubSubService extends PubSubEngine {
+    private local = new PubSub();
+    private instanceId = randomUUID();
+    private channelPrefix: string;
+    private publisher: Redis | null = null;
+    private subscriber: Redis | null = null;
+
+    // subscription id -> trigger, and subscriber count per trigger
+    private triggers = new Map<number, string>();
+    private listeners = new Map<string, number>();
+
+    constructor(options: PubSubServiceOptions = {}) {
+        super();
+        this.channelPrefix = options.channelPrefix ?? 'pubsub:';
+
+        if (options.redis) {
+            const connection = { ...options.redis, lazyConnect: true };
+            this.publisher = new Redis(connection);
+            this.subscriber = new Redis(connection);
+
+            const onError = (err: Error) => logger.warn('PubSub Redis connection error', { error: err.message });
+            this.publisher.on('error', onError);
+            this.subscriber.on('error', onError);
+            this.subscriber.on('message', (channel: string, message: string) => this.onRedisMessage(channel, message));
+        }
+    }
+
+    async publish(triggerName: string, payload: unknown): Promise<void> {
+        await this.local.publish(triggerName, payload);
+
+        if (this.publisher) {
+            const envelope: Envelope = { origin: this.instanceId, payload };
+            try {
+                await this.publisher.publish(this.channelPrefix + triggerName, JSON.stringify(envelope));
+            } catch (error: any) {
+                logger.warn('PubSub Redis publish failed', { trigger: triggerName, error: error?.message });
+            }
+        }
+    }
+
+    async subscribe(triggerName: string, onMessage: (...args: any[]) => void): Promise<number> {
+        const subId = await this.local.subscribe(triggerName, onMessage);
+        this.triggers.set(subId, triggerName);
+
+        const count = this.listeners.get(triggerName) ?? 0;
+        this.listeners.set(triggerName, count + 1);
+        if (count === 0 && this.subscriber) {
+            // Not awaited: local events must not wait for a slow or unreachable Redis
+            this.subscriber.subscribe(this.channelPrefix + triggerName).catch((error: Error) => {
+                logger.warn('PubSub Redis subscribe failed, receiving local events only', { trigger: triggerName, error: error.message });
+            });
+        }
+        return subId;
+    }
+
+    unsubscribe(subId: number): void {
+        const triggerName = this.triggers.get(subId);
+        if (triggerName === undefined) return;
+        this.triggers.delete(subId);
+        this.local.unsubscribe(subId);
+
+        const count = (this.listeners.get(triggerName) ?? 1) - 1;
+        if (count > 0) {
+            this.listeners.set(triggerName, count);
+            return;
+        }
+        this.listeners.delete(triggerName);
+        this.subscriber?.unsubscribe(this.channelPrefix + triggerName).catch((error: Error) => {
+            logger.warn('PubSub Redis unsubscribe failed', { trigger: triggerName, error: error.message });
+        });
+    }
+
+    async close(): Promise<void> {
+        await Promise.all([this.publisher, this.subscriber].map(async (connection) => {
+            if (!connection) return;
+            try {
+                await connection.quit();
+            } catch {
+                connection.disconnect();
+            }
+        }));
+    }
+
+    private onRedisMessage(channel: string, message: string): void {
+        if (!channel.startsWith(this.channelPrefix)) return;
+        try {
+            const envelope = JSON.parse(message) as Envelope;
+            if (envelope.origin === this.instanceId) return;
+            void this.local.publish(channel.slice(this.channelPrefix.length), envelope.payload);
+        } catch (error: any) {
+            logger.warn('PubSub ignored malformed Redis message', { channel, error: error?.message });
+        }
+    }
+}
@@ -1,6 +1,14 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, Worker, Job, DelayedError, UnrecoverableError } from 'bullmq';
 import { Redis } from 'ioredis';
+import { randomUUID } from 'crypto';
+import type { PubSubEngine } from 'graphql-subscriptions';
 import { LoggerService } from './LoggerService.js';
+import { PubSubService } from './PubSubService.js';
+import { LocalDbService } from './LocalDbService.js';
+import { LocalQueue } from './LocalQueue.js';
+import type { LocalJob } from './LocalQueue.js';
+import { flashcardCacheKey } from './FlashcardCacheService.js';
+import { appProperties } from '../../config/properties.js';
 
 
 const logger = new LoggerService();
@@ -13,55 +21,113 @@ export interface GenerateJobData {
     runtime?: string;
     parentTopic?: string;
     userId?: string;
+    /** Interactive jobs (a user waiting on the result) run before background ones. Default interactive. */
+    priority?: JobPriority;
+    /** Users waiting on a job that identical requests were coalesced into; `userId` is the one it counts against. */
+    requesters?: string[];
 }
 
-// In-memory Mock Job for local testing
-class MockJob {
+export type JobPriority = 'interactive' | 'background';
+
+// BullMQ priorities: lower runs first
+const PRIORITY_LEVELS: Record<JobPriority, number> = { interactive: 1, background: 10 };
+
+/** Processes one job; `signal` aborts when the job is cancelled. */
+export type JobProcessor = (job: Job<GenerateJobData> | any, signal?: AbortSignal) => Promise<any>;
+
+/** `detached`: the job is shared with other users, so only the caller stopped waiting on it. */
+export type CancelJobOutcome = 'cancelled' | 'detached' | 'not_found' | 'finished';
+
+export const JOB_CANCELLED_REASON = 'Job cancelled';
+
+// Broadcast so whichever instance runs an active job can abort it
+const JOB_CANCEL_TRIGGER = 'JOB_CANCEL_REQUESTED';
+
+/** Payload of the GraphQL `jobUpdated` subscription. */
+export interface JobUpdate {
+    id: string;
+    status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+    progress: number;
+    result?: unknown;
+    error?: string | null;
+}
+
+const FINAL_STATUSES = new Set<JobUpdate['status']>(['COMPLETED', 'FAILED', 'CANCELLED']);
+
+/** A job that failed its final attempt, kept in the dead-letter queue until replayed or purged. */
+export interface DeadLetterEntry {
     id: string;
+    originalJobId: string;
     data: GenerateJobData;
-    progress: number = 0;
-    returnvalue: any = null;
-    failedReason: string | null = null;
-    status: 'waiting' | 'active' | 'completed' | 'failed' | 'delayed' = 'waiting';
-    attemptsMade: number = 0;
-    opts: any;
-
-    constructor(data: GenerateJobData) {
-        this.id = `local-job-${Date.now()}`;
-        this.data = data;
-        this.opts = { attempts: 3 };
-    }
+    failedReason: string;
+    attemptsMade: number;
+    failedAt: Date;
+}
 
-    async updateProgress(progress: number) {
-        this.progress = progress;
-        return Promise.resolve();
-    }
+/** Selects dead-letter entries; every given field must match. */
+export interface DeadLetterFilter {
+    topic?: string;
+    userId?: string;
+    /** Case-insensitive substring of the failure reason, e.g. `ECONNREFUSED`. */
+    reason?: string;
+    failedSince?: Date;
+}
 
-    async getState() {
-        return this.status;
-    }
+// What a dead-letter queue job stores
+interface DeadLetterPayload {
+    originalJobId: string;
+    data: GenerateJobData;
+    error: string;
+    attemptsMade: number;
+    timestamp: number;
+}
+
+function matchesDeadLetter(entry: DeadLetterEntry, filter: DeadLetterFilter): boolean {
+    if (filter.topic && entry.data.topic.toLowerCase() !== filter.topic.toLowerCase()) return false;
+    if (filter.userId && entry.data.userId !== filter.userId) return false;
+    if (filter.reason && !entry.failedReason.toLowerCase().includes(filter.reason.toLowerCase())) return false;
+    if (filter.failedSince && entry.failedAt < filter.failedSince) return false;
+    return true;
 }
 
+export const jobUpdatedTrigger = (jobId: string) => `JOB_UPDATED_${jobId}`;
+
 export class QueueService {
-    // Union types to support both BullMQ and Mock implementations
-    private generateQueue: Queue | any;
-    private deadLetterQueue: Queue | any;
+    private generateQueue!: Queue;
+    private deadLetterQueue!: Queue;
     private connection: Redis | null = null;
     private isLocal: boolean;
+    private pubsub: PubSubEngine;
+
+    private worker: Worker | null = null;
 
-    // In-memory storage for local mode
-    private localJobs: Map<string, MockJob> = new Map();
-    private localProcessor: ((job: any) => Promise<any>) | null = null;
+    // Local mode (USE_LOCAL_QUEUE): the same queues stored in SQLite
+    private localQueue!: LocalQueue<GenerateJobData>;
+    private localDeadLetters!: LocalQueue<DeadLetterPayload>;
+    private localAdds: Promise<unknown> = Promise.resolve();
 
-    constructor() {
+    /**
+     * @param pubsub Engine for `jobUpdated` events; defaults to one fanned out over
+     * the queue's Redis so subscribers on any server instance receive them.
+     * @param localDb Database of the local queue; defaults to the local database file.
+     */
+    constructor(pubsub?: PubSubEngine, localDb?: LocalDbService) {
         this.isLocal = process.env.USE_LOCAL_QUEUE === 'true';
+        this.pubsub = pubsub ?? new PubSubService({
+            redis: this.isLocal ? null : {
+                host: process.env.REDIS_HOST || 'localhost',
+                port: parseInt(process.env.REDIS_PORT || '6379')
+            }
+        });
 
         if (this.isLocal) {
-            logger.info('⚠️ Using IN-MEMORY queue (Redis disabled via USE_LOCAL_QUEUE)');
-            // Mock queues are just empty objects/maps in this simplified implementation
-            // Real logic is handled by the methods below which check this.isLocal
-            this.generateQueue = {};
-            this.deadLetterQueue = {};
+            logger.info('⚠️ Using LOCAL queue (Redis disabled via USE_LOCAL_QUEUE)');
+            const db = localDb ?? new LocalDbService();
+            this.localQueue = new LocalQueue('flashcard-generation', db, {
+                keepCompletedMs: 3600_000,
+                keepCompletedCount: 100
+            });
+            this.localDeadLetters = new LocalQueue('flashcard-generation-dlq', db);
         } else {
             this.connection = new Redis({
                 host: process.env.REDIS_HOST || 'localhost',
@@ -85,38 +151,30 @@ export class QueueService {
         logger.info('QueueService initialized');
     }
 
+    /**
+     * Queue a generation job. A request identical to a job that is still waiting or
+     * running (same topic, count, mode and knowledge source, the flashcard cache key)
+     * joins that job instead: it gets the same job id, and so the same result, and
+     * the job is promoted if the new request is more urgent.
+     */
     async addGenerateJob(data: GenerateJobData): Promise<string> {
         if (this.isLocal) {
-            const job = new MockJob(data);
-            this.localJobs.set(job.id, job);
-
-            // Process immediately (async) to simulate queue
-            setTimeout(async () => {
-                if (this.localProcessor) {
-                    try {
-                        job.status = 'active';
-                        const result = await this.localProcessor(job);
-                        job.returnvalue = result;
-                        job.status = 'completed';
-                        job.progress = 100;
-                        this.emitLocalEvent('completed', job);
-                    } catch (err: any) {
-                        job.status = 'failed';
-                        job.failedReason = err.message;
-                        this.emitLocalEvent('failed', job, err);
-                    }
-                }
-            }, 100);
-
-            logger.info('Job added to in-memory queue', { jobId: job.id, topic: data.topic });
-            return job.id;
+            // One add at a time, so identical requests arriving together find each other
+            const added = this.localAdds.then(() => this.addLocalGenerateJob(data));
+            this.localAdds = added.catch(() => undefined);
+            return added;
         }
 
+        const jobId = randomUUID();
         const job = await this.generateQueue.add('generate', data, {
-            attempts: 3,
+            jobId,
+            // Held by BullMQ until the job completes or finally fails
+            deduplication: { id: this.coalescingKey(data) },
+            priority: PRIORITY_LEVELS[data.priority ?? 'interactive'],
+            attempts: appProperties.QUEUE_JOB_ATTEMPTS,
             backoff: {
                 type: 'exponential',
-                delay: 2000
+                delay: appProperties.QUEUE_BACKOFF_MS
             },
             removeOnComplete: {
                 age: 3600,
@@ -125,13 +183,123 @@ export class QueueService {
             removeOnFail: false
         });
 
-        logger.info('Job added to queue', { jobId: job.id, topic: data.topic });
+        if (job.id !== jobId) {
+            const existing = await this.generateQueue.getJob(job.id!);
+            if (existing) {
+                await existing.updateData(this.joinRequest(existing.data, data));
+                if (this.isMoreUrgent(data, existing.data) && ['waiting', 'prioritized'].includes(await existing.getState())) {
+                    await existing.changePriority({ priority: PRIORITY_LEVELS[data.priority ?? 'interactive'] });
+                }
+            }
+            logger.info('Request joined in-flight job', { jobId: job.id, topic: data.topic, userId: data.userId });
+            return job.id!;
+        }
+
+        logger.info('Job added to queue', { jobId: job.id, topic: data.topic, priority: data.priority ?? 'interactive' });
         return job.id!;
     }
 
+    private async addLocalGenerateJob(data: GenerateJobData): Promise<string> {
+        const key = this.coalescingKey(data);
+        const inFlight = (await this.localQueue.getJobs(['waiting', 'delayed', 'active']))
+            .find(job => this.coalescingKey(job.data) === key);
+        if (inFlight) {
+            await this.localQueue.update(inFlight.id, {
+                data: this.joinRequest(inFlight.data, data),
+                ...(this.isMoreUrgent(data, inFlight.data) ? { priority: PRIORITY_LEVELS[data.priority ?? 'interactive'] } : {})
+            });
+            logger.info('Request joined in-flight job (local)', { jobId: inFlight.id, topic: data.topic, userId: data.userId });
+            return inFlight.id;
+        }
+
+        const job = await this.localQueue.add(data, {
+            priority: PRIORITY_LEVELS[data.priority ?? 'interactive'],
+            attempts: appProperties.QUEUE_JOB_ATTEMPTS,
+            backoffMs: appProperties.QUEUE_BACKOFF_MS
+        });
+        logger.info('Job added to local queue', { jobId: job.id, topic: data.topic, priority: data.priority ?? 'interactive' });
+        return job.id;
+    }
+
+    private coalescingKey(data: GenerateJobData): string {
+        return flashcardCacheKey(data.topic, data.count, data.mode, data.knowledgeSource);
+    }
+
+    /** Job data after another request joined: its user is added to the requesters, and it keeps the more urgent priority. */
+    private joinRequest(current: GenerateJobData, request: GenerateJobData): GenerateJobData {
+        const requesters = new Set(current.requesters ?? (current.userId ? [current.userId] : []));
+        if (request.userId) requesters.add(request.userId);
+        return {
+            ...current,
+            requesters: Array.from(requesters),
+            priority: this.isMoreUrgent(request, current) ? request.priority : current.priority
+        };
+    }
+
+    private isMoreUrgent(request: GenerateJobData, current: GenerateJobData): boolean {
+        return PRIORITY_LEVELS[request.priority ?? 'interactive'] < PRIORITY_LEVELS[current.priority ?? 'interactive'];
+    }
+
+    private atUserLimit(userId: string | undefined, runningUsers: (string | undefined)[]): boolean {
+        if (!userId) return false;
+        return runningUsers.filter(id => id === userId).length >= appProperties.QUEUE_MAX_JOBS_PER_USER;
+    }
+
+    /**
+     * Cancel a job. Waiting jobs are removed from the queue; running ones have their
+     * processor's signal aborted (on whichever instance runs them) and end as cancelled
+     * without retries. Jobs that already completed or failed are left alone.
+     *
+     * When `userId` is given and other users joined the job, only that user is
+     * detached and the job carries on for the rest.
+     */
+    async cancelJob(jobId: string, userId?: string): Promise<CancelJobOutcome> {
+        if (userId && await this.detachRequester(jobId, userId)) return 'detached';
+
+        if (this.isLocal) {
+            const outcome = await this.localQueue.cancel(jobId, JOB_CANCELLED_REASON);
+            if (outcome === 'cancelled') {
+                logger.info('Job cancelled (local)', { jobId });
+                const job = await this.localQueue.getJob(jobId);
+                await this.publishJobUpdate({ id: jobId, status: 'CANCELLED', error: JOB_CANCELLED_REASON, progress: job?.progress ?? 0 });
+            }
+            return outcome;
+        }
+
+        const job = await this.generateQueue.getJob(jobId);
+        if (!job) return 'not_found';
+
+        const state = await job.getState();
+        if (state === 'completed' || state === 'failed') return 'finished';
+
+        if (state === 'active') {
+            await this.pubsub.publish(JOB_CANCEL_TRIGGER, { jobId });
+        } else {
+            await job.remove();
+            await this.publishJobUpdate({ id: jobId, status: 'CANCELLED', error: JOB_CANCELLED_REASON, progress: 0 });
+        }
+        logger.info('Job cancelled', { jobId, state });
+        return 'cancelled';
+    }
+
+    private async detachRequester(jobId: string, userId: string): Promise<boolean> {
+        const job = this.isLocal ? await this.localQueue.getJob(jobId) : await this.generateQueue.getJob(jobId);
+        const current: GenerateJobData | undefined = job?.data;
+        const requesters = current?.requesters ?? [];
+        if (!job || !current || !requesters.includes(userId) || requesters.length < 2) return false;
+
+        const remaining = requesters.filter(id => id !== userId);
+        // The job now counts against a user still waiting on it
+        const data: GenerateJobData = { ...current, requesters: remaining, userId: current.userId === userId ? remaining[0] : current.userId };
+        if (this.isLocal) await this.localQueue.update(jobId, { data });
+        else await (job as Job<GenerateJobData>).updateData(data);
+        logger.info('User detached from shared job', { jobId, userId, remaining: remaining.length });
+        return true;
+    }
+
     async getJobStatus(jobId: string): Promise<any> {
         if (this.isLocal) {
-            const job = this.localJobs.get(jobId);
+            const job = await this.localQueue.getJob(jobId);
             if (!job) return { status: 'not_found' };
 
             return {
@@ -148,7 +316,8 @@ export class QueueService {
             return { status: 'not_found' };
         }
 
-        const state = await job.getState();
+        let state: string = await job.getState();
+        if (state === 'failed' && job.failedReason === JOB_CANCELLED_REASON) state = 'cancelled';
         const progress = job.progress;
         let returnValue = job.returnvalue;
 
@@ -171,126 +340,206 @@ export class QueueService {
         };
     }
 
-    // Helper to simulate worker events for local mode
-    private async emitLocalEvent(event: string, job: MockJob, err?: any) {
-        // We replicate the logic from initWorker handlers here for local mode
-        try {
-            const { pubsub } = await import('../../graphql/resolvers/job.resolvers.js');
-
-            if (event === 'completed') {
-                logger.info('Job completed (local)', { jobId: job.id, topic: job.data.topic });
-                await pubsub.publish(`JOB_UPDATED_${job.id}`, {
-                    jobUpdated: {
-                        id: job.id,
-                        status: 'COMPLETED',
-                        result: job.returnvalue,
-                        progress: 100
-                    }
-                });
-            } else if (event === 'failed') {
-                logger.error('Job failed (local)', { jobId: job.id, error: err?.message });
-                await pubsub.publish(`JOB_UPDATED_${job.id}`, {
-                    jobUpdated: {
-                        id: job.id,
-                        status: 'FAILED',
-                        error: err?.message,
-                        progress: job.progress
-                    }
-                });
+    /**
+     * Live updates for one job. The job's current state is delivered first, so a
+     * client that subscribes after the job finished still gets its outcome, and the
+     * stream ends once the job has completed or finally failed.
+     */
+    async watchJob(jobId: string): Promise<AsyncIterableIterator<{ jobUpdated: JobUpdate }>> {
+        const updates = this.pubsub.asyncIterableIterator<{ jobUpdated: JobUpdate }>(jobUpdatedTrigger(jobId));
+        // Start listening before reading the state so no update falls in between
+        let pending: Promise<IteratorResult<{ jobUpdated: JobUpdate }>> | null = updates.next();
+
+        const current = await this.getJobStatus(jobId);
+        let snapshot: JobUpdate | null = current.status === 'not_found' ? null : {
+            id: jobId,
+            status: this.toUpdateStatus(current.status),
+            progress: typeof current.progress === 'number' ? current.progress : 0,
+            result: current.result ?? null,
+            error: current.error ?? null
+        };
+        let finished = false;
+
+        const settle = async (update: JobUpdate) => {
+            if (FINAL_STATUSES.has(update.status)) {
+                finished = true;
+                await updates.return();
             }
+            return { value: { jobUpdated: update }, done: false as const };
+        };
+
+        const iterator: AsyncIterableIterator<{ jobUpdated: JobUpdate }> = {
+            next: async () => {
+                if (finished) return { value: undefined, done: true };
+                if (snapshot) {
+                    const update = snapshot;
+                    snapshot = null;
+                    return settle(update);
+                }
+                const result = await (pending ?? updates.next());
+                pending = null;
+                return result.done ? result : settle(result.value.jobUpdated);
+            },
+            return: async () => {
+                finished = true;
+                await updates.return();
+                return { value: undefined, done: true };
+            },
+            throw: async (error?: unknown) => {
+                finished = true;
+                await updates.return();
+                throw error;
+            },
+            [Symbol.asyncIterator]: () => iterator
+        };
+        return iterator;
+    }
+
+    private toUpdateStatus(state: string): JobUpdate['status'] {
+        switch (state) {
+            case 'completed': return 'COMPLETED';
+            case 'failed': return 'FAILED';
+            case 'cancelled': return 'CANCELLED';
+            case 'active': return 'PROCESSING';
+            default: return 'PENDING';
+        }
+    }
+
+    private async publishJobUpdate(update: JobUpdate): Promise<void> {
+        try {
+            await this.pubsub.publish(jobUpdatedTrigger(update.id), { jobUpdated: update });
         } catch (error) {
-            logger.error(`Failed to publish local job event ${event}`, { error });
+            logger.error('Failed to publish job update', { jobId: update.id, status: update.status, error });
         }
     }
 
-    initWorker(processor: (job: Job<GenerateJobData> | any) => Promise<any>) {
+    private async recordCompletion(job: { id?: string; data: GenerateJobData; returnvalue: unknown; timestamp: number; processedOn?: number; finishedOn?: number }) {
+        const processedOn = job.processedOn || job.timestamp;
+        const finishedOn = job.finishedOn || Date.now();
+        logger.info('Job completed', {
+            jobId: job.id,
+            topic: job.data.topic,
+            durationMs: finishedOn - processedOn,
+            waitMs: processedOn - job.timestamp
+        });
+        await this.publishJobUpdate({ id: job.id!, status: 'COMPLETED', result: job.returnvalue, progress: 100 });
+    }
+
+    /** Report a failed attempt; the final one also moves the job to the dead-letter queue. */
+    private async recordFailure(job: { id?: string; data: GenerateJobData; progress: unknown; attemptsMade: number }, error: Error, finalAttempt: boolean) {
+        logger.error('Job failed', { jobId: job.id, error: error.message, finalAttempt });
+        // A job that will be retried is waiting again, not failed
+        await this.publishJobUpdate({
+            id: job.id!,
+            status: finalAttempt ? 'FAILED' : 'PENDING',
+            error: error.message,
+            progress: typeof job.progress === 'number' ? job.progress : 0
+        });
+        if (!finalAttempt) return;
+
+        const payload: DeadLetterPayload = {
+            originalJobId: job.id!,
+            data: job.data,
+            error: error.message,
+            attemptsMade: job.attemptsMade,
+            timestamp: Date.now()
+        };
+        if (this.isLocal) await this.localDeadLetters.add(payload);
+        else await this.deadLetterQueue.add('failed-job', payload);
+        logger.warn('Job moved to Dead Letter Queue', { jobId: job.id });
+    }
+
+    initWorker(processor: JobProcessor) {
         if (this.isLocal) {
-            this.localProcessor = processor;
-            logger.info('Worker initialized for in-memory queue');
+            const publishProgress = (job: LocalJob<GenerateJobData>) =>
+                this.publishJobUpdate({ id: job.id, status: 'PROCESSING', progress: job.progress });
+            this.localQueue.process(processor, {
+                concurrency: appProperties.QUEUE_CONCURRENCY,
+                canStart: (job, running) => !this.atUserLimit(job.data.userId, running.map(other => other.data.userId)),
+                onActive: publishProgress,
+                onProgress: publishProgress,
+                onCompleted: job => this.recordCompletion(job),
+                onFailed: (job, error, willRetry) => this.recordFailure(job, error, !willRetry)
+            }).catch(error => logger.error('Local queue worker failed to start', { error: error?.message }));
+            logger.info('Worker initialized for local queue');
             return null; // No actual BullMQ worker
         }
 
-        const worker = new Worker('flashcard-generation', processor, { connection: this.connection! });
+        // Declaring BullMQ's third `signal` parameter opts in to Worker.cancelJob
+        const worker = new Worker(
+            'flashcard-generation',
+            (job: Job<GenerateJobData>, token?: string, signal?: AbortSignal) => this.processWithLimits(processor, job, token, signal),
+            { connection: this.connection!, concurrency: appProperties.QUEUE_CONCURRENCY }
+        );
+        this.worker = worker;
+
+        void this.pubsub.subscribe(JOB_CANCEL_TRIGGER, ({ jobId }: { jobId: string }) => {
+            if (worker.cancelJob(jobId, JOB_CANCELLED_REASON)) {
+                logger.info('Aborting cancelled job', { jobId });
+            }
+        }, {});
 
-        worker.on('completed', async (job) => {
-            const processedOn = job.processedOn || job.timestamp;
-            const finishedOn = job.finishedOn || Date.now();
-            const duration = finishedOn - processedOn;
-            const waitTime = processedOn - job.timestamp;
-            logger.info('Job completed', {
-                jobId: job.id,
-                topic: job.data.topic,
-                durationMs: duration,
-                waitMs: waitTime
-            });
+        worker.on('active', async (job) => {
+            await this.publishJobUpdate({ id: job.id!, status: 'PROCESSING', progress: typeof job.progress === 'number' ? job.progress : 0 });
+        });
 
-            try {
-                const { pubsub } = await import('../../graphql/resolvers/job.resolvers.js');
-                const jobStatus = {
-                    id: job.id,
-                    status: 'COMPLETED',
-                    result: job.returnvalue,
-                    progress: 100
-                };
-                await pubsub.publish(`JOB_UPDATED_${job.id}`, { jobUpdated: jobStatus });
-            } catch (error) {
-                logger.error('Failed to publish job completion', { error });
-            }
+        worker.on('completed', async (job) => {
+            await this.recordCompletion(job);
         });
 
         worker.on('failed', async (job, err) => {
-            logger.error('Job failed', { jobId: job?.id, error: err.message });
-
+            if (job && err.message === JOB_CANCELLED_REASON) {
+                logger.info('Job cancelled', { jobId: job.id });
+                await this.publishJobUpdate({ id: job.id!, status: 'CANCELLED', error: err.message, progress: typeof job.progress === 'number' ? job.progress : 0 });
+                return;
+            }
             if (job) {
-                try {
-                    const { pubsub } = await import('../../graphql/resolvers/job.resolvers.js');
-                    const jobStatus = {
-                        id: job.id,
-                        status: 'FAILED',
-                        error: err.message,
-                        progress: job.progress || 0
-                    };
-                    await pubsub.publish(`JOB_UPDATED_${job.id}`, { jobUpdated: jobStatus });
-                } catch (error) {
-                    logger.error('Failed to publish job failure', { error });
-                }
-
-                if (job.attemptsMade >= (job.opts.attempts || 1)) {
-                    await this.deadLetterQueue.add('failed-job', {
-                        originalJobId: job.id,
-                        data: job.data,
-                        error: err.message,
-                        timestamp: Date.now()
-                    });
-                    logger.warn('Job moved to Dead Letter Queue', { jobId: job.id });
-                }
+                await this.recordFailure(job, err, job.attemptsMade >= (job.opts.attempts || 1));
             }
         });
 
         worker.on('progress', async (job, progress) => {
             logger.debug('Job progress', { jobId: job.id, progress });
-
-            try {
-                const { pubsub } = await import('../../graphql/resolvers/job.resolvers.js');
-                const jobStatus = {
-                    id: job.id,
-                    status: 'PROCESSING',
-                    progress: typeof progress === 'number' ? progress : 0
-                };
-                await pubsub.publish(`JOB_UPDATED_${job.id}`, { jobUpdated: jobStatus });
-            } catch (error) {
-                logger.error('Failed to publish job progress', { error });
-            }
+            await this.publishJobUpdate({ id: job.id!, status: 'PROCESSING', progress: typeof progress === 'number' ? progress : 0 });
         });
 
         logger.info('Worker initialized for flashcard-generation queue');
         return worker;
     }
 
+    /**
+     * Run a BullMQ job unless its user already has the maximum number of jobs running,
+     * in which case it goes back to the queue for a moment. A cancelled job fails as
+     * unrecoverable so it is not retried, even if the processor ignored the signal.
+     */
+    private async processWithLimits(processor: JobProcessor, job: Job<GenerateJobData>, token?: string, signal?: AbortSignal) {
+        if (job.data.userId) {
+            const active: Job<GenerateJobData>[] = await this.generateQueue.getActive();
+            const runningUsers = active.filter(other => other.id !== job.id).map(other => other.data?.userId);
+            if (this.atUserLimit(job.data.userId, runningUsers)) {
+                // Jitter keeps jobs of the same user from retrying in lockstep
+                const delay = appProperties.QUEUE_USER_RETRY_DELAY_MS * (1 + Math.random() * 0.5);
+                await job.moveToDelayed(Date.now() + delay, token);
+                await this.publishJobUpdate({ id: job.id!, status: 'PENDING', progress: 0 });
+                throw new DelayedError();
+            }
+        }
+
+        try {
+            const result = await processor(job, signal);
+            if (signal?.aborted) throw new UnrecoverableError(JOB_CANCELLED_REASON);
+            return result;
+        } catch (err) {
+            if (signal?.aborted) throw new UnrecoverableError(JOB_CANCELLED_REASON);
+            throw err;
+        }
+    }
+
     async getQueueStats() {
         if (this.isLocal) {
-            // Simplified stats for local mode
-            return { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0 };
+            const jobs = await this.localQueue.getJobs();
+            const count = (status: LocalJob['status']) => jobs.filter(job => job.status === status).length;
+            return { waiting: count('waiting'), active: count('active'), completed: count('completed'), failed: count('failed'), delayed: count('delayed') };
         }
 
         const [waiting, active, completed, failed, delayed] = await Promise.all([
@@ -304,6 +553,83 @@ export class QueueService {
         return { waiting, active, completed, failed, delayed };
     }
 
+    /** Dead-letter entries matching `filter`, most recent failure first. */
+    async listDeadLetters(filter: DeadLetterFilter = {}, limit?: number): Promise<DeadLetterEntry[]> {
+        const entries = (await this.deadLetterEntries())
+            .filter(entry => matchesDeadLetter(entry, filter))
+            .sort((a, b) => b.failedAt.getTime() - a.failedAt.getTime());
+        return limit === undefined ? entries : entries.slice(0, limit);
+    }
+
+    async getDeadLetter(id: string): Promise<DeadLetterEntry | null> {
+        return (await this.deadLetterEntries()).find(entry => entry.id === id) ?? null;
+    }
+
+    /**
+     * Queue the original job data of a dead-letter entry again and drop the entry.
+     * Returns the new job id, or null when there is no such entry.
+     */
+    async replayDeadLetter(id: string): Promise<string | null> {
+        const entry = await this.getDeadLetter(id);
+        if (!entry) return null;
+        return this.replay(entry);
+    }
+
+    /** Replay every entry matching `filter`, oldest first; returns the new job ids. */
+    async replayDeadLetters(filter: DeadLetterFilter = {}): Promise<{ deadLetterId: string; jobId: string }[]> {
+        const entries = (await this.listDeadLetters(filter)).reverse();
+        const replayed: { deadLetterId: string; jobId: string }[] = [];
+        for (const entry of entries) {
+            replayed.push({ deadLetterId: entry.id, jobId: await this.replay(entry) });
+        }
+        return replayed;
+    }
+
+    async purgeDeadLetter(id: string): Promise<boolean> {
+        if (!(await this.getDeadLetter(id))) return false;
+        await this.removeDeadLetter(id);
+        logger.info('Dead-letter entry purged', { deadLetterId: id });
+        return true;
+    }
+
+    /** Remove every entry matching `filter`; returns how many were removed. */
+    async purgeDeadLetters(filter: DeadLetterFilter = {}): Promise<number> {
+        const entries = await this.listDeadLetters(filter);
+        for (const entry of entries) {
+            await this.removeDeadLetter(entry.id);
+        }
+        logger.info('Dead-letter entries purged', { count: entries.length, filter });
+        return entries.length;
+    }
+
+    private async replay(entry: DeadLetterEntry): Promise<string> {
+        const jobId = await this.addGenerateJob(entry.data);
+        await this.removeDeadLetter(entry.id);
+        logger.info('Dead-letter entry replayed', { deadLetterId: entry.id, originalJobId: entry.originalJobId, jobId });
+        return jobId;
+    }
+
+    private async deadLetterEntries(): Promise<DeadLetterEntry[]> {
+        // Nothing consumes the dead-letter queue, so entries stay waiting
+        const jobs: { id?: string; data: DeadLetterPayload; timestamp: number }[] = this.isLocal
+            ? await this.localDeadLetters.getJobs()
+            : await this.deadLetterQueue.getJobs(['waiting', 'delayed', 'paused']);
+        return jobs.filter(Boolean).map(job => ({
+            id: job.id!,
+            originalJobId: String(job.data.originalJobId ?? ''),
+            data: job.data.data,
+            failedReason: job.data.error ?? 'Unknown error',
+            // Entries written before attempts were recorded used up the default 3
+            attemptsMade: job.data.attemptsMade ?? 3,
+            failedAt: new Date(job.data.timestamp ?? job.timestamp)
+        }));
+    }
+
+    private async removeDeadLetter(id: string): Promise<void> {
+        if (this.isLocal) await this.localDeadLetters.remove(id);
+        else await this.deadLetterQueue.remove(id);
+    }
+
     /**
      * GraphQL placeholder methods
      */
@@ -314,4 +640,17 @@ export class QueueService {
     async getJob(id: string) {
         return this.getJobStatus(id);
     }
+
+    async close(): Promise<void> {
+        if (this.pubsub instanceof PubSubService) await this.pubsub.close();
+        if (this.isLocal) {
+            await this.localQueue.close();
+            await this.localDeadLetters.close();
+        } else {
+            await this.worker?.close();
+            await this.generateQueue.close();
+            await this.deadLetterQueue.close();
+            await this.connection?.quit();
+        }
+    }
 }
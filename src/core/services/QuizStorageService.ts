@@ -1,5 +1,13 @@
 import { LoggerService } from './LoggerService.js';
 import type { LocalDbService } from './LocalDbService.js';
+import { paginate, sortKeyOf } from '../../utils/pagination.js';
+import type { Connection, PageArgs, SortOrder, SortValue } from '../../utils/pagination.js';
+import { answersByQuestionId, questionKind } from '../../utils/quizQuestions.js';
+import type { QuizAnswer } from '../../utils/quizQuestions.js';
+import type { QuestionKind } from '../domain/types.js';
+import type { AnswerGrade, QuestionTiming } from '../domain/models.js';
+import { GradingService } from './GradingService.js';
+import type { GradingOptions } from './GradingService.js';
 
 const logger = new LoggerService();
 
@@ -14,13 +22,42 @@ export interface Quiz {
         difficulty?: string;
         estimatedTime?: number;
     };
+    /** Set for exams, which are only taken through exam attempts. */
+    exam?: ExamDefinition;
+}
+
+export interface ExamSection {
+    id: string;
+    title: string;
+    /** Seconds allowed once the section opens; 0 for no limit. */
+    timeLimitSeconds: number;
+    /** The section's pool of question ids. */
+    questionIds: string[];
+    /** Questions drawn from the pool for each attempt; the whole pool when unset. */
+    pick?: number;
+}
+
+export interface ExamDefinition {
+    sections: ExamSection[];
+    shuffleQuestions: boolean;
+    shuffleOptions: boolean;
+}
+
+/** A question as an exam attempt showed it: its section and its options in the order shown. */
+export interface PresentedQuestion {
+    questionId: string;
+    sectionId: string;
+    options: string[];
 }
 
 export interface QuizQuestion {
     id: string;
+    kind?: QuestionKind;
     question: string;
     options: string[];
     correctAnswer: string;
+    correctAnswers?: readonly string[];
+    acceptedAnswers?: readonly string[];
     explanation?: string;
     difficulty?: 'easy' | 'medium' | 'hard';
 }
@@ -28,23 +65,126 @@ export interface QuizQuestion {
 export interface QuizAttempt {
     id: string;
     quizId: string;
+    /** The signed-in learner who made the attempt; unset for anonymous attempts. */
+    userId?: string;
     timestamp: number;
-    answers: Record<string, string>;
+    answers: Record<string, QuizAnswer>;
+    /** Fully correct answers. */
     score: number;
     total: number;
+    /** Sum of the credit per answer, counting partial credit; `score` when not graded per answer. */
+    credit?: number;
+    /** How each answer was graded, by question id. */
+    grades?: Record<string, AnswerGrade>;
+    /** Time spent on each question, by question id, when the client recorded it. */
+    timings?: Record<string, QuestionTiming>;
     completedAt?: Date;
+    /** Milliseconds spent answering. */
     timeSpent?: number;
+    /** For exam attempts, the questions in the order they were shown. */
+    presented?: PresentedQuestion[];
+}
+
+/**
+ * An exam attempt's answers. Only the questions it presented count, and an
+ * answer received after its section's deadline is dropped whatever the client's
+ * timer said.
+ */
+export interface ExamSubmission {
+    attemptId: string;
+    presented: PresentedQuestion[];
+    /** Last moment an answer to each question is accepted, by question id; untimed questions have none. */
+    deadlines: Record<string, number>;
+    /** When the server received each answer, by question id; answers without one arrive now. */
+    receivedAt: Record<string, number>;
+}
+
+export interface SubmitAnswersOptions extends GradingOptions {
+    timings?: Record<string, QuestionTiming>;
+    userId?: string;
+    /** Required for exams. */
+    exam?: ExamSubmission;
+}
+
+export interface OptionAnalytics {
+    option: string;
+    correct: boolean;
+    /** Attempts that chose the option. */
+    selections: number;
+    /** Share of the attempts answering the question that chose it. */
+    rate: number;
+}
+
+export interface QuestionAnalytics {
+    questionId: string;
+    question: string;
+    kind: QuestionKind;
+    /** Attempts that showed the question: all of them, except for exams drawing from a pool. */
+    asked: number;
+    answered: number;
+    correct: number;
+    /** Correct answers per attempt that asked the question; unanswered counts as wrong. */
+    accuracy: number;
+    averageCredit: number;
+    /** Over the attempts that recorded timing; null when none did. */
+    averageTimeMs: number | null;
+    averageChanges: number | null;
+    timeouts: number;
+    /** How often each option was chosen; empty for ordering and short-answer questions. */
+    options: OptionAnalytics[];
+}
+
+export interface QuizAnalytics {
+    quizId: string;
+    topic: string;
+    attempts: number;
+    /** Mean fraction of questions answered correctly. */
+    averageScore: number;
+    averageTimeMs: number | null;
+    questions: QuestionAnalytics[];
+}
+
+export type QuizSortKey = 'created' | 'topic' | 'lastStudied' | 'score';
+export const QUIZ_SORT_KEYS: readonly QuizSortKey[] = ['created', 'topic', 'lastStudied', 'score'];
+
+export interface QuizListQuery extends PageArgs {
+    /** Defaults to `created`, newest first. `lastStudied` and `score` use the latest attempt. */
+    sortBy?: QuizSortKey;
+    order?: SortOrder;
+    /** Case-insensitive part of the topic. */
+    topic?: string;
+    source?: 'flashcards' | 'topic';
+    createdAfter?: number;
+    createdBefore?: number;
+    /** Only quizzes that have (true) or have not (false) been attempted. */
+    attempted?: boolean;
+}
+
+export type AttemptSortKey = 'created' | 'topic' | 'score';
+export const ATTEMPT_SORT_KEYS: readonly AttemptSortKey[] = ['created', 'topic', 'score'];
+
+export interface AttemptListQuery extends PageArgs {
+    /** Defaults to `created`, newest first; `score` is the fraction answered correctly. */
+    sortBy?: AttemptSortKey;
+    order?: SortOrder;
+    quizId?: string;
+    /** Case-insensitive part of the quiz topic. */
+    topic?: string;
+    /** Only this learner's attempts. */
+    userId?: string;
 }
 
 export class QuizStorageService {
     private quizzes: Map<string, Quiz>;
     private attempts: Map<string, QuizAttempt[]>;
     private dbService?: LocalDbService;
+    private grader: GradingService;
 
-    constructor(dbService?: LocalDbService) {
+    constructor(dbService?: LocalDbService, grader: GradingService = new GradingService()) {
         this.quizzes = new Map();
         this.attempts = new Map();
         this.dbService = dbService;
+        this.grader = grader;
         logger.info('QuizStorageService initialized' + (dbService ? ' with persistence' : ''));
 
         // Load initial data if DB is available
@@ -64,9 +204,10 @@ export class QuizStorageService {
                         const parsedQuiz: Quiz = {
                             id: q.id,
                             topic: q.topic || 'Unknown',
-                            questions: typeof q.questions_json === 'string' ? JSON.parse(q.questions_json) : (q.questions || []),
+                            questions: Array.isArray(q.questions) ? q.questions : [],
                             source: 'topic', // Default
-                            createdAt: q.created_at || Date.now()
+                            createdAt: q.created_at || Date.now(),
+                            ...(q.exam ? { exam: q.exam as ExamDefinition } : {})
                         };
                         this.quizzes.set(parsedQuiz.id, parsedQuiz);
                     } catch (e) {
@@ -76,7 +217,23 @@ export class QuizStorageService {
                 logger.info(`Loaded ${this.quizzes.size} quizzes from DB`);
             }
 
-            // Load attempts similarly if needed, but for now we focus on quizzes
+            // Attempts stored since startup are already in memory
+            const attempts = await this.dbService.getQuizAttempts();
+            const known = new Set([...this.attempts.values()].flat().map(attempt => attempt.id));
+            let loaded = 0;
+            for (const row of attempts.data) {
+                const attempt = row.result as QuizAttempt | null;
+                if (!attempt || typeof attempt !== 'object' || known.has(row.id)) continue;
+                const restored: QuizAttempt = {
+                    ...attempt,
+                    id: row.id,
+                    quizId: row.quiz_id,
+                    ...(attempt.completedAt ? { completedAt: new Date(attempt.completedAt) } : {})
+                };
+                this.attempts.set(restored.quizId, [...(this.attempts.get(restored.quizId) ?? []), restored]);
+                loaded++;
+            }
+            logger.info(`Loaded ${loaded} quiz attempts from DB`);
         } catch (e) {
             logger.warn('Failed to load initial data from DB', e);
         }
@@ -92,7 +249,8 @@ export class QuizStorageService {
             this.dbService.createQuiz({
                 id: quiz.id,
                 topic: quiz.topic,
-                questions_json: JSON.stringify(quiz.questions),
+                questions: quiz.questions,
+                exam: quiz.exam,
                 created_at: quiz.createdAt,
                 score: 0 // Default
             }).catch(e => logger.warn('Failed to persist quiz', e));
@@ -127,6 +285,69 @@ export class QuizStorageService {
         }));
     }
 
+    /**
+     * One page of quizzes, filtered and sorted
+     */
+    listQuizzes(query: QuizListQuery = {}): Connection<Quiz> {
+        const sortBy = sortKeyOf(query.sortBy, QUIZ_SORT_KEYS, 'created');
+        const topic = query.topic?.toLowerCase();
+        const latestAttempt = (quiz: Quiz) => this.attempts.get(quiz.id)?.reduce((latest, attempt) =>
+            attempt.timestamp > latest.timestamp ? attempt : latest);
+
+        const matching = Array.from(this.quizzes.values()).filter(quiz =>
+            (!topic || quiz.topic.toLowerCase().includes(topic)) &&
+            (!query.source || quiz.source === query.source) &&
+            (query.createdAfter === undefined || quiz.createdAt >= query.createdAfter) &&
+            (query.createdBefore === undefined || quiz.createdAt < query.createdBefore) &&
+            (query.attempted === undefined || query.attempted === Boolean(this.attempts.get(quiz.id)?.length)));
+
+        const keys: Record<QuizSortKey, (quiz: Quiz) => SortValue> = {
+            created: quiz => quiz.createdAt,
+            topic: quiz => quiz.topic.toLowerCase(),
+            lastStudied: quiz => latestAttempt(quiz)?.timestamp,
+            score: quiz => {
+                const attempt = latestAttempt(quiz);
+                return attempt ? scoreOf(attempt) : undefined;
+            }
+        };
+        const page = paginate(matching, {
+            key: keys[sortBy],
+            id: quiz => quiz.id,
+            order: query.order ?? (sortBy === 'topic' ? 'asc' : 'desc')
+        }, query);
+
+        // Same shape as getAllQuizzes
+        return {
+            ...page,
+            edges: page.edges.map(edge => ({ ...edge, node: { ...edge.node, createdAt: new Date(edge.node.createdAt) as any } }))
+        };
+    }
+
+    /**
+     * One page of attempts across all quizzes, filtered and sorted
+     */
+    listAttempts(query: AttemptListQuery = {}): Connection<QuizAttempt> {
+        const sortBy = sortKeyOf(query.sortBy, ATTEMPT_SORT_KEYS, 'created');
+        const topic = query.topic?.toLowerCase();
+        const topicOf = (attempt: QuizAttempt) => this.quizzes.get(attempt.quizId)?.topic.toLowerCase();
+
+        const matching = this.getAllAttempts().filter(attempt =>
+            (!query.quizId || attempt.quizId === query.quizId) &&
+            (query.userId === undefined || attempt.userId === query.userId) &&
+            (!topic || (topicOf(attempt) ?? '').includes(topic)));
+
+        const keys: Record<AttemptSortKey, (attempt: QuizAttempt) => SortValue> = {
+            created: attempt => attempt.timestamp,
+            topic: topicOf,
+            score: scoreOf
+        };
+        return paginate(matching, {
+            key: keys[sortBy],
+            id: attempt => attempt.id,
+            order: query.order ?? (sortBy === 'topic' ? 'asc' : 'desc')
+        }, query);
+    }
+
     /**
      * Get quizzes by topic
      */
@@ -167,7 +388,8 @@ export class QuizStorageService {
             this.dbService.createQuizAttempt({
                 id: attempt.id,
                 quiz_id: attempt.quizId,
-                result_json: JSON.stringify(attempt),
+                user_id: attempt.userId ?? null,
+                result: attempt,
                 created_at: attempt.timestamp
             }).catch(e => logger.warn('Failed to persist attempt', e));
         }
@@ -313,36 +535,86 @@ export class QuizStorageService {
             score: attempt.score,
             total: attempt.total,
             answers: attempt.answers,
+            credit: attempt.credit,
+            grades: attempt.grades,
+            timeSpent: attempt.timeSpent,
             timestamp: attempt.timestamp
         }));
     }
 
-    async submitAnswers(quizId: string, answers: { questionId: string; answer: string }[]): Promise<any> {
+    /**
+     * Grade answers to a quiz's questions. Answers to questions not in the quiz
+     * are ignored; `score` counts fully correct answers and `credit` adds up
+     * partial credit as well.
+     */
+    async gradeAnswers(quiz: Quiz, answers: { questionId: string; answer: QuizAnswer }[], options?: GradingOptions): Promise<{
+        score: number;
+        credit: number;
+        grades: Record<string, AnswerGrade>;
+    }> {
+        const grades: Record<string, AnswerGrade> = {};
+        for (const { questionId, answer } of answers) {
+            const question = quiz.questions.find(q => q.id === questionId);
+            if (question) {
+                grades[questionId] = await this.grader.grade(question, answer, options);
+            }
+        }
+        const graded = Object.values(grades);
+        return {
+            score: graded.filter(grade => grade.correct).length,
+            credit: Math.round(graded.reduce((sum, grade) => sum + grade.credit, 0) * 100) / 100,
+            grades
+        };
+    }
+
+    async submitAnswers(quizId: string, answers: { questionId: string; answer: QuizAnswer }[], options: SubmitAnswersOptions = {}): Promise<any> {
         const quiz = this.getQuiz(quizId);
         if (!quiz) {
             throw new Error('Quiz not found');
         }
 
-        let score = 0;
-        const answersRecord: Record<string, string> = {};
+        const { timings, exam, userId, ...gradingOptions } = options;
+        if (quiz.exam && !exam) {
+            throw new Error('Exam answers must be submitted through an exam attempt');
+        }
 
-        answers.forEach(a => {
-            answersRecord[a.questionId] = a.answer;
-            const question = quiz.questions.find(q => q.id === a.questionId);
-            if (question && question.correctAnswer === a.answer) {
-                score++;
+        // Exam answers only count for questions the attempt showed, and only when received in time
+        const now = Date.now();
+        const presented = exam ? new Set(exam.presented.map(question => question.questionId)) : undefined;
+        const late: string[] = [];
+        const accepted = answers.filter(({ questionId }) => {
+            if (!exam) return true;
+            if (!presented!.has(questionId)) return false;
+            const deadline = exam.deadlines[questionId];
+            if (deadline !== undefined && (exam.receivedAt[questionId] ?? now) > deadline) {
+                late.push(questionId);
+                return false;
             }
+            return true;
         });
 
+        const answersRecord: Record<string, QuizAnswer> = {};
+        accepted.forEach(a => {
+            answersRecord[a.questionId] = a.answer;
+        });
+        const { score, credit, grades } = await this.gradeAnswers(quiz, accepted, gradingOptions);
+        const timeSpent = timings ? Object.values(timings).reduce((sum, timing) => sum + timing.timeMs, 0) : undefined;
+        const total = exam ? exam.presented.length : quiz.questions.length;
+
         const attempt: QuizAttempt = {
-            id: Math.random().toString(36).substring(2, 15),
+            id: exam?.attemptId ?? Math.random().toString(36).substring(2, 15),
             quizId,
-            timestamp: Date.now(),
+            ...(userId ? { userId } : {}),
+            timestamp: now,
             answers: answersRecord,
             score,
-            total: quiz.questions.length,
-            completedAt: new Date(),
-            timeSpent: 0 // Placeholder
+            total,
+            credit,
+            grades,
+            timings,
+            completedAt: new Date(now),
+            timeSpent,
+            ...(exam ? { presented: exam.presented } : {})
         };
 
         this.storeAttempt(attempt);
@@ -350,9 +622,98 @@ export class QuizStorageService {
         return {
             quizId,
             score,
-            total: quiz.questions.length,
+            total,
             answers: answersRecord,
+            credit,
+            grades,
+            timeSpent,
+            ...(exam ? { lateAnswers: late } : {}),
             timestamp: attempt.timestamp
         };
     }
+
+    /**
+     * How each answered question of an attempt was graded. Attempts stored
+     * before grades were kept are graded again, without a model.
+     */
+    gradesOf(attempt: QuizAttempt): Record<string, AnswerGrade> {
+        if (attempt.grades) return attempt.grades;
+        const quiz = this.quizzes.get(attempt.quizId);
+        if (!quiz) return {};
+        const answers = answersByQuestionId(attempt.answers, quiz.questions);
+        return Object.fromEntries(quiz.questions
+            .filter(question => Object.hasOwn(answers, question.id))
+            .map(question => [question.id, this.grader.gradeLocally(question, answers[question.id])]));
+    }
+
+    /**
+     * Per-question accuracy, timing and option choices across every attempt at a
+     * quiz (or only one learner's), so weak questions and tempting distractors stand out.
+     */
+    getAnalytics(quizId: string, userId?: string): QuizAnalytics | undefined {
+        const quiz = this.quizzes.get(quizId);
+        if (!quiz) return undefined;
+        const attempts = (this.attempts.get(quizId) ?? []).filter(attempt => !userId || attempt.userId === userId).map(attempt => ({
+            attempt,
+            answers: answersByQuestionId(attempt.answers, quiz.questions),
+            grades: this.gradesOf(attempt)
+        }));
+        const count = attempts.length;
+        const average = (values: number[]) => values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+        const round = (value: number) => Math.round(value * 100) / 100;
+
+        const questions = quiz.questions.map((question): QuestionAnalytics => {
+            const kind = questionKind(question);
+            // Exams draw questions from pools, so only count the attempts that asked this one
+            const asked = attempts.filter(({ attempt }) => !attempt.presented || attempt.presented.some(shown => shown.questionId === question.id));
+            const answered = asked.filter(({ answers }) => Object.hasOwn(answers, question.id));
+            const grades = asked.map(({ grades }) => grades[question.id]);
+            const timings = asked.map(({ attempt }) => attempt.timings?.[question.id]).filter(timing => timing !== undefined);
+            const averageTime = average(timings.map(timing => timing.timeMs));
+            const averageChanges = average(timings.map(timing => timing.changes));
+            const correct = grades.filter(grade => grade?.correct).length;
+
+            const correctOptions = kind === 'multiple-select' ? question.correctAnswers ?? [] : [question.correctAnswer];
+            const chosen = (option: string, answer: QuizAnswer) => (typeof answer === 'string' ? [answer] : answer)
+                .some(item => item.trim().toLowerCase() === option.trim().toLowerCase());
+            const options = kind === 'ordering' || kind === 'short-answer' ? [] : question.options.map(option => {
+                const selections = answered.filter(({ answers }) => chosen(option, answers[question.id]!)).length;
+                return {
+                    option,
+                    correct: correctOptions.some(correctOption => correctOption.trim() === option.trim()),
+                    selections,
+                    rate: answered.length ? round(selections / answered.length) : 0
+                };
+            });
+
+            return {
+                questionId: question.id,
+                question: question.question,
+                kind,
+                asked: asked.length,
+                answered: answered.length,
+                correct,
+                accuracy: asked.length ? round(correct / asked.length) : 0,
+                averageCredit: asked.length ? round(grades.reduce((sum, grade) => sum + (grade?.credit ?? 0), 0) / asked.length) : 0,
+                averageTimeMs: averageTime === null ? null : Math.round(averageTime),
+                averageChanges: averageChanges === null ? null : round(averageChanges),
+                timeouts: timings.filter(timing => timing.timedOut).length,
+                options
+            };
+        });
+
+        const averageTime = average(attempts.map(({ attempt }) => attempt.timeSpent).filter((time): time is number => typeof time === 'number' && time > 0));
+        return {
+            quizId,
+            topic: quiz.topic,
+            attempts: count,
+            averageScore: count ? round(attempts.reduce((sum, { attempt }) => sum + scoreOf(attempt), 0) / count) : 0,
+            averageTimeMs: averageTime === null ? null : Math.round(averageTime),
+            questions
+        };
+    }
+}
+
+function scoreOf(attempt: QuizAttempt): number {
+    return attempt.total > 0 ? attempt.score / attempt.total : 0;
 }
@@ -0,0 +1,307 @@
+/**
+ * A numbered schema change with the SQL that applies it and the SQL that
+ * undoes it. Append new migrations; never edit one that has shipped.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationState {
+  version: number;
+  name: string;
+  /** When the migration ran on this database; null while it is pending. */
+  appliedAt: number | null;
+}
+
+/** The parts of a better-sqlite3 database the migrator uses. */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+  pragma(source: string, options?: { simple?: boolean }): unknown;
+  transaction<F extends (...args: any[]) => unknown>(fn: F): F;
+}
+
+export class SchemaMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaMigrationError';
+  }
+}
+
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 1,
+    name: 'initial',
+    // IF NOT EXISTS so databases created before versioning adopt it unchanged
+    up: `
+      CREATE TABLE IF NOT EXISTS flashcards (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        topic TEXT,
+        cards_json TEXT,
+        created_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS quizzes (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        topic TEXT,
+        questions_json TEXT,
+        score INTEGER,
+        created_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS quiz_attempts (
+        id TEXT PRIMARY KEY,
+        quiz_id TEXT,
+        user_id TEXT,
+        result_json TEXT,
+        created_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS card_schedules (
+        user_id TEXT NOT NULL,
+        card_id TEXT NOT NULL,
+        ease_factor REAL,
+        interval_days REAL,
+        repetitions INTEGER,
+        lapses INTEGER,
+        due_at INTEGER,
+        last_reviewed_at INTEGER,
+        PRIMARY KEY (user_id, card_id)
+      );
+      CREATE TABLE IF NOT EXISTS review_logs (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        card_id TEXT,
+        grade TEXT,
+        latency_ms INTEGER,
+        reviewed_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS card_revisions (
+        id TEXT PRIMARY KEY,
+        card_id TEXT NOT NULL,
+        version INTEGER,
+        action TEXT,
+        edited_by TEXT,
+        topic TEXT,
+        front TEXT,
+        back TEXT,
+        previous_front TEXT,
+        previous_back TEXT,
+        reverted_to TEXT,
+        created_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_card_revisions_card ON card_revisions (card_id, version);
+      CREATE TABLE IF NOT EXISTS saved_searches (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT,
+        query TEXT,
+        created_at INTEGER
+      );
+      CREATE TABLE IF NOT EXISTS queue_jobs (
+        id TEXT PRIMARY KEY,
+        queue TEXT NOT NULL,
+        status TEXT NOT NULL,
+        data_json TEXT,
+        priority INTEGER,
+        attempts_made INTEGER,
+        max_attempts INTEGER,
+        backoff_ms INTEGER,
+        run_at INTEGER,
+        progress INTEGER,
+        result_json TEXT,
+        failed_reason TEXT,
+        created_at INTEGER,
+        updated_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_queue_jobs_queue_status ON queue_jobs (queue, status);
+    `,
+    down: `
+      DROP TABLE queue_jobs;
+      DROP TABLE saved_searches;
+      DROP TABLE card_revisions;
+      DROP TABLE review_logs;
+      DROP TABLE card_schedules;
+      DROP TABLE quiz_attempts;
+      DROP TABLE quizzes;
+      DROP TABLE flashcards;
+    `
+  },
+  {
+    version: 2,
+    name: 'study_history',
+    up: `
+      CREATE TABLE quiz_results (
+        id TEXT PRIMARY KEY,
+        topic TEXT,
+        score INTEGER,
+        total INTEGER,
+        result_json TEXT,
+        created_at INTEGER
+      );
+      CREATE TABLE deck_history (
+        id TEXT PRIMARY KEY,
+        topic TEXT,
+        deck_json TEXT,
+        created_at INTEGER
+      );
+      CREATE INDEX idx_deck_history_created ON deck_history (created_at);
+    `,
+    down: `
+      DROP TABLE deck_history;
+      DROP TABLE quiz_results;
+    `
+  },
+  {
+    version: 3,
+    name: 'decode_quiz_json',
+    // Quizzes and attempts used to be stored as a JSON string holding the JSON,
+    // because callers passed already serialised questions and results
+    up: `
+      UPDATE quizzes SET questions_json = json_extract(questions_json, '$')
+        WHERE CASE WHEN json_valid(questions_json) THEN json_type(questions_json) = 'text' ELSE 0 END;
+      UPDATE quiz_attempts SET result_json = json_extract(result_json, '$')
+        WHERE CASE WHEN json_valid(result_json) THEN json_type(result_json) = 'text' ELSE 0 END;
+    `,
+    down: `
+      UPDATE quizzes SET questions_json = json_quote(questions_json)
+        WHERE CASE WHEN json_valid(questions_json) THEN json_type(questions_json) IN ('array', 'object') ELSE 0 END;
+      UPDATE quiz_attempts SET result_json = json_quote(result_json)
+        WHERE CASE WHEN json_valid(result_json) THEN json_type(result_json) IN ('array', 'object') ELSE 0 END;
+    `
+  },
+  {
+    version: 4,
+    name: 'exams',
+    up: `
+      ALTER TABLE quizzes ADD COLUMN exam_json TEXT;
+      CREATE TABLE exam_attempts (
+        id TEXT PRIMARY KEY,
+        quiz_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempt_json TEXT,
+        created_at INTEGER,
+        updated_at INTEGER
+      );
+      CREATE INDEX idx_exam_attempts_status ON exam_attempts (status);
+    `,
+    down: `
+      DROP TABLE exam_attempts;
+      ALTER TABLE quizzes DROP COLUMN exam_json;
+    `
+  },
+  {
+    version: 5,
+    name: 'card_revision_snapshots',
+    up: `
+      ALTER TABLE card_revisions ADD COLUMN snapshot_json TEXT;
+    `,
+    down: `
+      ALTER TABLE card_revisions DROP COLUMN snapshot_json;
+    `
+  }
+];
+
+/**
+ * Applies and reverts numbered migrations, recording each applied one in a
+ * `schema_version` table. Every step runs in its own transaction, so a failing
+ * script leaves the database at the last version that succeeded.
+ */
+export class SchemaMigrator {
+  constructor(private db: SqliteDatabase, private migrations: readonly Migration[] = MIGRATIONS) {
+    migrations.forEach((migration, index) => {
+      if (migration.version !== index + 1) {
+        throw new SchemaMigrationError(`Migrations must be numbered from 1 without gaps; found ${migration.version} at position ${index + 1}`);
+      }
+    });
+  }
+
+  get latestVersion(): number {
+    return this.migrations.length;
+  }
+
+  currentVersion(): number {
+    return Math.max(0, ...this.applied().keys());
+  }
+
+  /** Every known migration, with when it was applied. */
+  status(): MigrationState[] {
+    const applied = this.applied();
+    return this.migrations.map(({ version, name }) => ({ version, name, appliedAt: applied.get(version) ?? null }));
+  }
+
+  /** Apply pending migrations up to `target` (default: all); returns the ones that ran. */
+  migrate(target = this.latestVersion): Migration[] {
+    const current = this.checkedVersion(target);
+    if (target < current) {
+      throw new SchemaMigrationError(`Database is at version ${current}; roll back to reach version ${target}`);
+    }
+    const pending = this.migrations.slice(current, target);
+    for (const migration of pending) {
+      this.db.transaction(() => {
+        this.db.exec(migration.up);
+        this.db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)').run(migration.version, migration.name, Date.now());
+        this.db.pragma(`user_version = ${migration.version}`);
+      })();
+    }
+    return pending;
+  }
+
+  /** Revert applied migrations down to `target` (default: the previous version); returns them newest first. */
+  rollback(target = Math.max(0, this.currentVersion() - 1)): Migration[] {
+    const current = this.checkedVersion(target);
+    if (target > current) {
+      throw new SchemaMigrationError(`Database is at version ${current}; migrate to reach version ${target}`);
+    }
+    const reverted = this.migrations.slice(target, current).reverse();
+    for (const migration of reverted) {
+      this.db.transaction(() => {
+        this.db.exec(migration.down);
+        this.db.prepare('DELETE FROM schema_version WHERE version = ?').run(migration.version);
+        this.db.pragma(`user_version = ${migration.version - 1}`);
+      })();
+    }
+    return reverted;
+  }
+
+  private checkedVersion(target: number): number {
+    if (!Number.isInteger(target) || target < 0 || target > this.latestVersion) {
+      throw new SchemaMigrationError(`Target version must be from 0 to ${this.latestVersion}`);
+    }
+    const current = this.currentVersion();
+    if (current > this.latestVersion) {
+      throw new SchemaMigrationError(`Database is at version ${current}, newer than this build (${this.latestVersion}); use a newer build or roll back with it`);
+    }
+    return current;
+  }
+
+  /** Applied versions and when they ran; creates the table on first use. */
+  private applied(): Map<number, number> {
+    this.db.exec('CREATE TABLE IF NOT EXISTS schema_version (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at INTEGER NOT NULL)');
+    const select = () => this.db.prepare('SELECT version, applied_at FROM schema_version').all() as Array<{ version: number; applied_at: number }>;
+    let rows = select();
+    if (rows.length === 0 && this.adoptUserVersion()) rows = select();
+    return new Map(rows.map(row => [row.version, row.applied_at]));
+  }
+
+  /**
+   * Databases from before `schema_version` counted applied steps in
+   * `PRAGMA user_version`; record those steps without running them again.
+   */
+  private adoptUserVersion(): boolean {
+    const version = Math.min(Number(this.db.pragma('user_version', { simple: true })) || 0, this.latestVersion);
+    if (version === 0) return false;
+    const insert = this.db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)');
+    this.db.transaction(() => {
+      for (const migration of this.migrations.slice(0, version)) {
+        insert.run(migration.version, migration.name, Date.now());
+      }
+    })();
+    return true;
+  }
+}
@@ -0,0 +1,409 @@
+import { randomUUID } from 'crypto';
+import { LoggerService } from './LoggerService.js';
+import type { LocalDbService } from './LocalDbService.js';
+import type { CardSchedule, Flashcard, ReviewLog, ReviewQueue, ReviewQueueItem } from '../domain/models.js';
+import type { ReviewGrade } from '../domain/types.js';
+import { expandReviewItems } from '../../utils/cloze.js';
+import type { CardDueState, SearchableCard } from '../../utils/cardQuery.js';
+
+const logger = new LoggerService();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A lapsed card comes back within the same session instead of tomorrow
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+// SM-2 response quality (0-5) for each grade button
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+    again: 1,
+    hard: 3,
+    good: 4,
+    easy: 5
+};
+
+export function isReviewGrade(value: unknown): value is ReviewGrade {
+    return typeof value === 'string' && value in GRADE_QUALITY;
+}
+
+/**
+ * Map the study view's swipe gesture to a review grade.
+ * Left means "revise" (forgotten), right means "got it".
+ */
+export function gradeFromSwipe(direction: 'left' | 'right'): ReviewGrade {
+    return direction === 'left' ? 'again' : 'good';
+}
+
+/**
+ * Compute the next schedule for a card using the SM-2 algorithm.
+ * Pure function so it can be unit tested and reused by other schedulers.
+ */
+export function scheduleSm2(
+    previous: CardSchedule | null,
+    grade: ReviewGrade,
+    now: number,
+    ids: { userId: string; cardId: string }
+): CardSchedule {
+    const quality = GRADE_QUALITY[grade];
+    const prevEase = previous?.easeFactor ?? INITIAL_EASE;
+    const prevReps = previous?.repetitions ?? 0;
+    const prevInterval = previous?.intervalDays ?? 0;
+    const prevLapses = previous?.lapses ?? 0;
+
+    const easeFactor = Math.max(
+        MIN_EASE,
+        prevEase + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    if (quality < 3) {
+        return {
+            userId: ids.userId,
+            cardId: ids.cardId,
+            easeFactor,
+            intervalDays: 0,
+            repetitions: 0,
+            lapses: prevLapses + 1,
+            dueAt: now + RELEARN_DELAY_MS,
+            lastReviewedAt: now
+        };
+    }
+
+    let intervalDays: number;
+    if (prevReps === 0) {
+        intervalDays = 1;
+    } else if (prevReps === 1) {
+        intervalDays = 6;
+    } else {
+        intervalDays = Math.round(prevInterval * easeFactor);
+    }
+    if (grade === 'hard') {
+        intervalDays = Math.max(1, Math.round(intervalDays * 0.8));
+    } else if (grade === 'easy') {
+        intervalDays = Math.round(intervalDays * 1.3);
+    }
+
+    return {
+        userId: ids.userId,
+        cardId: ids.cardId,
+        easeFactor,
+        intervalDays,
+        repetitions: prevReps + 1,
+        lapses: prevLapses,
+        dueAt: now + intervalDays * DAY_MS,
+        lastReviewedAt: now
+    };
+}
+
+/**
+ * Round-robin items across topics so a session alternates between subjects
+ * instead of draining one deck at a time. Relative order within a topic is kept.
+ */
+export function interleaveByTopic<T extends { topic: string }>(items: T[]): T[] {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const key = item.topic.toLowerCase();
+        if (!groups.has(key)) {
+            groups.set(key, []);
+        }
+        groups.get(key)!.push(item);
+    }
+
+    const queues = Array.from(groups.values());
+    const result: T[] = [];
+    for (let round = 0; result.length < items.length; round++) {
+        for (const queue of queues) {
+            const item = queue[round];
+            if (item !== undefined) {
+                result.push(item);
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Records flashcard reviews and keeps per-user SM-2 scheduling state.
+ * State lives in memory and is mirrored to LocalDbService when available.
+ * Anonymous reviews are not kept, since anonymous learners cannot be told apart.
+ */
+export class SpacedRepetitionService {
+    private schedules: Map<string, CardSchedule>;
+    private reviewLogs: ReviewLog[];
+    private dbService?: LocalDbService;
+    /** Settles once the schedules saved in a previous run are loaded. */
+    readonly ready: Promise<void>;
+
+    constructor(dbService?: LocalDbService) {
+        this.schedules = new Map();
+        this.reviewLogs = [];
+        this.dbService = dbService;
+        logger.info('SpacedRepetitionService initialized' + (dbService ? ' with persistence' : ''));
+
+        this.ready = this.dbService ? this.loadFromDb() : Promise.resolve();
+    }
+
+    private key(userId: string, cardId: string): string {
+        return `${userId}:${cardId}`;
+    }
+
+    private async loadFromDb() {
+        if (!this.dbService) return;
+
+        try {
+            // Reviews recorded since startup are newer than their saved copies
+            const schedules = await this.dbService.getCardSchedules();
+            schedules.data.forEach(row => {
+                const key = this.key(row.user_id, row.card_id);
+                if (row.user_id === ANONYMOUS_USER_ID || this.schedules.has(key)) return;
+                this.schedules.set(key, {
+                    userId: row.user_id,
+                    cardId: row.card_id,
+                    easeFactor: Number(row.ease_factor),
+                    intervalDays: Number(row.interval_days),
+                    repetitions: Number(row.repetitions),
+                    lapses: Number(row.lapses),
+                    dueAt: Number(row.due_at),
+                    lastReviewedAt: row.last_reviewed_at ?? undefined
+                });
+            });
+
+            const logs = await this.dbService.getReviewLogs();
+            const recorded = new Set(this.reviewLogs.map(log => log.id));
+            logs.data.forEach(row => {
+                if (!isReviewGrade(row.grade) || row.user_id === ANONYMOUS_USER_ID || recorded.has(row.id)) return;
+                this.reviewLogs.push({
+                    id: row.id,
+                    userId: row.user_id,
+                    cardId: row.card_id,
+                    grade: row.grade,
+                    latencyMs: Number(row.latency_ms) || 0,
+                    reviewedAt: Number(row.reviewed_at)
+                });
+            });
+            logger.info(`Loaded ${this.schedules.size} card schedules from DB`);
+        } catch (e) {
+            logger.warn('Failed to load card schedules from DB', e);
+        }
+    }
+
+    /**
+     * Record a single review and return the card's updated schedule; null for
+     * anonymous reviews, which are not kept
+     */
+    recordReview(review: {
+        userId: string;
+        cardId: string;
+        grade: ReviewGrade;
+        latencyMs?: number;
+        reviewedAt?: number;
+    }): CardSchedule | null {
+        if (review.userId === ANONYMOUS_USER_ID) return null;
+        const reviewedAt = review.reviewedAt ?? Date.now();
+        const key = this.key(review.userId, review.cardId);
+        const next = scheduleSm2(this.schedules.get(key) ?? null, review.grade, reviewedAt, review);
+        this.schedules.set(key, next);
+
+        const log: ReviewLog = {
+            id: randomUUID(),
+            userId: review.userId,
+            cardId: review.cardId,
+            grade: review.grade,
+            latencyMs: Math.max(0, Math.round(review.latencyMs ?? 0)),
+            reviewedAt
+        };
+        this.reviewLogs.push(log);
+
+        if (this.dbService) {
+            this.dbService.upsertCardSchedule({
+                user_id: next.userId,
+                card_id: next.cardId,
+                ease_factor: next.easeFactor,
+                interval_days: next.intervalDays,
+                repetitions: next.repetitions,
+                lapses: next.lapses,
+                due_at: next.dueAt,
+                last_reviewed_at: next.lastReviewedAt ?? null
+            }).catch(e => logger.warn('Failed to persist card schedule', e));
+            this.dbService.createReviewLog({
+                id: log.id,
+                user_id: log.userId,
+                card_id: log.cardId,
+                grade: log.grade,
+                latency_ms: log.latencyMs,
+                reviewed_at: log.reviewedAt
+            }).catch(e => logger.warn('Failed to persist review log', e));
+        }
+
+        logger.debug('Review recorded', { userId: review.userId, cardId: review.cardId, grade: review.grade, dueAt: next.dueAt });
+        return next;
+    }
+
+    /**
+     * Get the schedule for a card, or null if the user has never reviewed it
+     */
+    getSchedule(userId: string, cardId: string): CardSchedule | null {
+        return this.schedules.get(this.key(userId, cardId)) || null;
+    }
+
+    /**
+     * Review state of a card for the card search: due when any of its review items
+     * (one per cloze deletion) is due, new when none has been reviewed yet.
+     */
+    getDueState(userId: string, card: SearchableCard, now = Date.now()): CardDueState {
+        const schedules = expandReviewItems(card as Flashcard)
+            .map(item => this.getSchedule(userId, item.id))
+            .filter((schedule): schedule is CardSchedule => schedule !== null);
+        if (schedules.length === 0) return 'new';
+        return schedules.some(schedule => schedule.dueAt <= now) ? 'due' : 'scheduled';
+    }
+
+    /**
+     * Get every schedule for a user
+     */
+    getSchedules(userId: string): CardSchedule[] {
+        return Array.from(this.schedules.values()).filter(s => s.userId === userId);
+    }
+
+    /**
+     * Get review logs for a user, optionally only those since a timestamp
+     */
+    getReviewLogs(userId: string, since = 0): ReviewLog[] {
+        return this.reviewLogs.filter(l => l.userId === userId && l.reviewedAt >= since);
+    }
+
+    /**
+     * When the user last reviewed each card, keyed by card id (reviews of cloze
+     * deletions count for their card).
+     */
+    getLastReviewTimes(userId: string): Map<string, number> {
+        const last = new Map<string, number>();
+        for (const log of this.getReviewLogs(userId)) {
+            const cardId = log.cardId.replace(/::c\d+$/, '');
+            if (log.reviewedAt > (last.get(cardId) ?? 0)) last.set(cardId, log.reviewedAt);
+        }
+        return last;
+    }
+
+    /**
+     * Order card ids for a study session: overdue cards first (most overdue leading),
+     * then cards never reviewed (original order), then cards not yet due (soonest first).
+     */
+    prioritize(userId: string, cardIds: string[], now = Date.now()): { cardIds: string[]; dueCount: number; newCount: number } {
+        const due: CardSchedule[] = [];
+        const fresh: string[] = [];
+        const later: CardSchedule[] = [];
+
+        for (const cardId of cardIds) {
+            const schedule = this.getSchedule(userId, cardId);
+            if (!schedule) {
+                fresh.push(cardId);
+            } else if (schedule.dueAt <= now) {
+                due.push(schedule);
+            } else {
+                later.push(schedule);
+            }
+        }
+
+        due.sort((a, b) => a.dueAt - b.dueAt);
+        later.sort((a, b) => a.dueAt - b.dueAt);
+
+        return {
+            cardIds: [...due.map(s => s.cardId), ...fresh, ...later.map(s => s.cardId)],
+            dueCount: due.length,
+            newCount: fresh.length
+        };
+    }
+
+    /**
+     * Build today's review queue for a user across every deck.
+     * Due cards come first, then new cards, each interleaved across topics and
+     * capped by what is left of the daily review and new-card limits.
+     */
+    buildQueue(
+        userId: string,
+        cards: Array<{ id: string; topic: string; createdAt?: number }>,
+        limits: { newPerDay: number; reviewsPerDay: number },
+        now = Date.now()
+    ): ReviewQueue {
+        const dayStart = new Date(now).setHours(0, 0, 0, 0);
+        const dayEnd = dayStart + DAY_MS;
+
+        // A card reviewed today counts against the new-card limit if today was its first review
+        const firstReviewedAt = new Map<string, number>();
+        for (const log of this.getReviewLogs(userId)) {
+            const first = firstReviewedAt.get(log.cardId);
+            if (first === undefined || log.reviewedAt < first) {
+                firstReviewedAt.set(log.cardId, log.reviewedAt);
+            }
+        }
+        const reviewedToday = new Set(this.getReviewLogs(userId, dayStart).map(l => l.cardId));
+        let newDoneToday = 0;
+        reviewedToday.forEach(cardId => {
+            if ((firstReviewedAt.get(cardId) ?? 0) >= dayStart) newDoneToday++;
+        });
+        const reviewsDoneToday = reviewedToday.size - newDoneToday;
+
+        const reviewsRemaining = Math.max(0, limits.reviewsPerDay - reviewsDoneToday);
+        const newRemaining = Math.max(0, limits.newPerDay - newDoneToday);
+
+        const due: ReviewQueueItem[] = [];
+        const fresh: Array<ReviewQueueItem & { createdAt: number }> = [];
+        for (const card of cards) {
+            const schedule = this.getSchedule(userId, card.id);
+            if (!schedule) {
+                fresh.push({ cardId: card.id, topic: card.topic, state: 'new', createdAt: card.createdAt ?? 0 });
+            } else if (schedule.dueAt < dayEnd) {
+                due.push({ cardId: card.id, topic: card.topic, state: 'due', dueAt: schedule.dueAt });
+            }
+        }
+
+        due.sort((a, b) => (a.dueAt ?? 0) - (b.dueAt ?? 0));
+        fresh.sort((a, b) => a.createdAt - b.createdAt);
+
+        const dueItems = interleaveByTopic(due).slice(0, reviewsRemaining);
+        const newItems = interleaveByTopic(fresh)
+            .slice(0, newRemaining)
+            .map(({ createdAt: _createdAt, ...item }) => item);
+
+        return {
+            items: [...dueItems, ...newItems],
+            dueCount: dueItems.length,
+            newCount: newItems.length,
+            reviewsRemaining,
+            newRemaining
+        };
+    }
+
+    /**
+     * Today's queue over a user's cards, each item with the card to show. Cloze
+     * cards are queued per deletion; schedules of cards that are not given (deleted,
+     * or another user's) are left out.
+     */
+    reviewQueue<T extends Flashcard & { createdAt?: number }>(
+        userId: string,
+        cards: T[],
+        limits: { newPerDay: number; reviewsPerDay: number },
+        now = Date.now()
+    ): Omit<ReviewQueue, 'items'> & { items: Array<ReviewQueueItem & { card: T }> } {
+        const reviewItems = new Map(cards.flatMap(expandReviewItems).map(item => [item.id, item]));
+        const queue = this.buildQueue(userId, Array.from(reviewItems.values()), limits, now);
+        return {
+            ...queue,
+            items: queue.items.flatMap(item => {
+                const card = reviewItems.get(item.cardId);
+                return card ? [{ ...item, card }] : [];
+            })
+        };
+    }
+
+    /**
+     * Clear all data
+     */
+    clear(): void {
+        this.schedules.clear();
+        this.reviewLogs = [];
+        logger.info('Spaced repetition storage cleared');
+    }
+}
@@ -1,11 +1,20 @@
-import type { StudyUseCase, AIServicePort, SearchServicePort, StoragePort } from '../ports/interfaces.js';
+import type { StudyUseCase, AIServicePort, SearchServicePort, StoragePort, GenerationOptions, QuizGenerationOptions } from '../ports/interfaces.js';
 import type { Flashcard, QuizQuestion, QuizResult, Deck } from '../domain/models.js';
 import type { KnowledgeSource, Runtime, QuizMode } from '../domain/types.js';
 import { MetricsService } from './MetricsService.js';
+import { CardQualityService } from './CardQualityService.js';
 import { appProperties } from '../../config/properties.js';
 import { CacheService } from './CacheService.js';
 import { FlashcardGenerationGraph } from '../workflows/FlashcardGenerationGraph.js';
+import type { GenerationRequest } from '../workflows/FlashcardGenerationGraph.js';
+import { MemorySaver } from '@langchain/langgraph';
 import { ensureSupportedFileType } from '../../utils/fileType.js';
+import { deckSerializers } from '../serializers/DeckSerializerRegistry.js';
+import { DeckSerializationError } from '../serializers/DeckSerializer.js';
+import { allocateCardCounts, attributePage, chunkSections, dedupeCards } from '../../utils/documentChunker.js';
+import type { DocumentChunk, DocumentSection } from '../../utils/documentChunker.js';
+import type { Connection, DeckListQuery } from '../../utils/pagination.js';
+import { emitGenerationEvent, generationSignal, withGenerationContext } from '../../utils/generationEvents.js';
 // @ts-ignore
 import pdfParse from 'pdf-parse';
 // @ts-ignore
@@ -30,12 +39,18 @@ export class StudyService implements StudyUseCase {
     // Basic type guard
     // ensureSupportedFileType throws if unsupported; no additional guard needed
 
+    // A structured CSV/TSV of front/back pairs is imported verbatim instead of re-generated
+    const structured = await this.importStructuredFile(file, filename, mimeType, topic);
+    if (structured) return structured;
+
     let text = '';
+    let sections: DocumentSection[] | null = null;
 
     try {
       if (mimeType === 'application/pdf') {
-        const data = await pdfParse(file);
-        text = data.text;
+        const pdf = await this.extractPdfPages(file);
+        text = pdf.text;
+        sections = pdf.pages;
       } else if (mimeType.startsWith('image/')) {
         const result = await Tesseract.recognize(file);
         text = result.data.text;
@@ -93,14 +108,9 @@ export class StudyService implements StudyUseCase {
 
       const sourceMeta: any = { sourceType: 'upload', sourceName: filename };
 
-      // Primary generation
-      try {
-        const cards = await this.getAdapter('ollama').generateFlashcardsFromText(text, topic, 10, { filename });
-        const grounded = this.filterGroundedCards(text, cards || []);
-        if (grounded.length > 0) return grounded.map((c: Flashcard) => ({ ...c, ...sourceMeta }));
-      } catch (genErr) {
-        console.warn('[StudyService] Primary generation from text failed, attempting fallback.', genErr);
-      }
+      // Primary generation, chunk by chunk so long documents are covered end to end
+      const chunked = await this.generateFromChunks(sections || [{ text }], topic, filename);
+      if (chunked.length > 0) return chunked.map((c: Flashcard) => ({ ...c, ...sourceMeta }));
 
       // Fallback: quick heuristic flashcards from the text itself
       const fallback = this.generateFallbackFlashcardsFromText(text, topic, 6, sourceMeta);
@@ -115,8 +125,112 @@ export class StudyService implements StudyUseCase {
     }
   }
 
-  // @ts-ignore - Will be used when graph is wired into generation flow
-  private flashcardGraph: FlashcardGenerationGraph;
+  /**
+   * Extract PDF text page by page. pdf-parse renders pages in order, so the custom
+   * renderer can number them as they arrive. Pages are empty when the parser
+   * does not call the renderer (e.g. mocked in tests); callers fall back to `text`.
+   */
+  private async extractPdfPages(file: Buffer): Promise<{ text: string; pages: DocumentSection[] | null }> {
+    const pages: DocumentSection[] = [];
+    const data = await pdfParse(file, {
+      pagerender: async (pageData: any) => {
+        const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+        let lastY: number | undefined;
+        let pageText = '';
+        for (const item of content.items) {
+          const y = item.transform?.[5];
+          pageText += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+          lastY = y;
+        }
+        pages.push({ page: pages.length + 1, text: pageText });
+        return pageText;
+      }
+    });
+    return { text: data.text, pages: pages.some(p => p.text.trim()) ? pages : null };
+  }
+
+  /**
+   * Generate cards for a whole document: split it into prompt-sized chunks, ask for
+   * a share of the cards proportional to each chunk's length, keep only cards grounded
+   * in their own chunk, and drop duplicates across chunks. Every card gets
+   * `source.filename` and, for paged documents, `source.page`.
+   */
+  private async generateFromChunks(sections: DocumentSection[], topic: string, filename: string): Promise<Flashcard[]> {
+    const chunkChars = Math.min(appProperties.DOC_CHUNK_CHARS, appProperties.MAX_EXTRACT_TEXT_CHARS);
+    const chunks = chunkSections(sections, chunkChars);
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+    const total = Math.min(appProperties.DOC_MAX_CARDS, Math.max(10, Math.round(totalChars / appProperties.DOC_CHARS_PER_CARD)));
+    const counts = allocateCardCounts(chunks, total);
+    const work = chunks
+      .map((chunk, index) => ({ chunk, index, count: counts[index] ?? 0 }))
+      .filter(item => item.count > 0);
+
+    console.log(`[StudyService] Generating ${total} cards from ${filename} across ${work.length}/${chunks.length} chunks`);
+
+    const results: Flashcard[][] = new Array(chunks.length).fill(null).map(() => []);
+    const concurrency = Math.max(1, appProperties.DOC_CHUNK_CONCURRENCY);
+    let next = 0;
+    const worker = async () => {
+      while (next < work.length) {
+        const item = work[next++];
+        if (!item) break;
+        results[item.index] = await this.generateForChunk(item.chunk, item.count, topic, filename);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, work.length) }, worker));
+
+    return dedupeCards(results.flat());
+  }
+
+  private async generateForChunk(chunk: DocumentChunk, count: number, topic: string, filename: string): Promise<Flashcard[]> {
+    const firstPage = chunk.pages[0]?.page;
+    try {
+      const pageInfo = firstPage !== undefined ? { filename, page: firstPage } : { filename };
+      const cards = await this.getAdapter('ollama').generateFlashcardsFromText(chunk.text, topic, count, pageInfo);
+      return this.filterGroundedCards(chunk.text, cards || []).map((card: Flashcard) => {
+        const page = attributePage(chunk, card);
+        return {
+          ...card,
+          source: { ...card.source, type: 'upload', filename, ...(page !== undefined ? { page } : {}) }
+        };
+      });
+    } catch (genErr) {
+      const where = firstPage !== undefined ? ` (from page ${firstPage})` : '';
+      console.warn(`[StudyService] Generation failed for a chunk of ${filename}${where}, skipping it.`, genErr);
+      return [];
+    }
+  }
+
+  /**
+   * Read delimited uploads as card tables. Returns null when the file has no
+   * front/back structure so it can go through LLM generation like any document.
+   */
+  private async importStructuredFile(file: Buffer, filename: string, mimeType: string, topic: string): Promise<Flashcard[] | null> {
+    const lowerName = filename.toLowerCase();
+    const format = mimeType === 'text/tab-separated-values' || lowerName.endsWith('.tsv')
+      ? 'tsv'
+      : mimeType === 'text/csv' || lowerName.endsWith('.csv') ? 'csv' : null;
+    const serializer = format ? deckSerializers.get(format) : undefined;
+    if (!serializer) return null;
+
+    try {
+      const [deck] = await serializer.deserialize(file, { topic });
+      if (!deck || deck.cards.length === 0) return null;
+      console.log(`[StudyService] Imported ${deck.cards.length} cards verbatim from ${filename}`);
+      return deck.cards.map(card => ({ ...card, sourceType: 'upload', sourceName: filename }));
+    } catch (error) {
+      if (error instanceof DeckSerializationError) {
+        console.log(`[StudyService] ${filename} is not a front/back table (${error.message}); generating from text`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // One pipeline per AI adapter; they share a checkpointer so a retried job resumes on any of them
+  private flashcardGraphs = new Map<AIServicePort, FlashcardGenerationGraph>();
+  private generationCheckpoints = new MemorySaver();
+  private cardQuality = new CardQualityService();
   private disableAsyncRecommendations: boolean;
   private inFlightControllers = new Set<AbortController>();
 
@@ -149,10 +263,86 @@ export class StudyService implements StudyUseCase {
     disableAsyncRecommendations: boolean = process.env.NODE_ENV === 'test'
   ) {
     this.disableAsyncRecommendations = disableAsyncRecommendations;
-    // Initialize FlashcardGenerationGraph with Ollama adapter for resilient generation
-    this.flashcardGraph = new FlashcardGenerationGraph(
-      this.getAdapter('ollama') as any // Cast as adapter type flexibility
-    );
+  }
+
+  /**
+   * The generation pipeline bound to an adapter. Validation and grounding reuse
+   * this service's helpers; scraping reuses its abort-aware scraper.
+   */
+  private graphFor(adapter: AIServicePort): FlashcardGenerationGraph {
+    let graph = this.flashcardGraphs.get(adapter);
+    if (!graph) {
+      graph = new FlashcardGenerationGraph({
+        adapter,
+        search: this.searchAdapter,
+        scrape: (urls) => this.scrapeMultipleSources(urls),
+        webContextCache: this.webContextCache,
+        repair: (cards, count, topic) => this.validateAndRepairFlashcards(cards, count, topic, adapter),
+        ground: (sourceText, cards) => this.filterGroundedCards(sourceText, cards),
+        checkpointer: this.generationCheckpoints,
+        retry: { attempts: appProperties.GRAPH_NODE_ATTEMPTS, backoffMs: appProperties.GRAPH_NODE_BACKOFF_MS }
+      });
+      this.flashcardGraphs.set(adapter, graph);
+    }
+    return graph;
+  }
+
+  private async runGraph(adapter: AIServicePort, request: GenerationRequest, options?: GenerationOptions): Promise<Flashcard[]> {
+    const result = await this.graphFor(adapter).generate(request, { threadId: options?.checkpointId });
+    const total = result.timings.reduce((sum, t) => sum + t.durationMs, 0);
+    console.log(`[StudyService] Pipeline for "${request.topic}" took ${total}ms: ${result.timings.map(t => `${t.node}=${t.durationMs}ms${t.attempts > 1 ? `x${t.attempts}` : ''}`).join(', ')}`);
+    return this.ensureCardQuality(result.cards, request, result.context, adapter);
+  }
+
+  /**
+   * Score every card and replace those below the quality threshold with freshly
+   * generated ones, for a bounded number of rounds. When replacements run out the
+   * best of the rejected cards fill the gap, so the count is kept and each card
+   * still carries its score.
+   */
+  private async ensureCardQuality(cards: Flashcard[], request: GenerationRequest, context: string, adapter: AIServicePort): Promise<Flashcard[]> {
+    emitGenerationEvent({ type: 'stage', stage: 'validating', step: 'quality' });
+    const scored = cards.map(card => this.cardQuality.withQuality(card, context));
+    const accepted = scored.filter(card => this.cardQuality.passes(card));
+    const rejected = scored.filter(card => !this.cardQuality.passes(card));
+    const wanted = Math.min(request.count, scored.length);
+
+    for (let round = 0; round < appProperties.CARD_QUALITY_MAX_ROUNDS && rejected.length > 0 && accepted.length < wanted; round++) {
+      const missing = wanted - accepted.length;
+      let fresh: Flashcard[] = [];
+      try {
+        fresh = context
+          ? await adapter.generateFlashcardsFromText(context, request.topic, missing, undefined, request.llmConfig)
+          : await adapter.generateFlashcards(request.topic, missing, request.llmConfig);
+      } catch (e) {
+        console.warn('[StudyService] Regenerating low-quality cards failed:', (e as Error)?.message);
+        break;
+      }
+
+      const freshCards = new Set(this.normalizeCards(fresh).filter(c => this.isCardValid(c)));
+      const candidates = dedupeCards([...accepted, ...rejected, ...freshCards])
+        .filter(card => freshCards.has(card))
+        .map(card => this.cardQuality.withQuality({ ...card, topic: card.topic || request.topic }, context));
+      if (candidates.length === 0) break;
+      for (const card of candidates) {
+        (this.cardQuality.passes(card) && accepted.length < wanted ? accepted : rejected).push(card);
+      }
+    }
+
+    if (rejected.length > 0) {
+      console.log(`[StudyService] Card quality for "${request.topic}": ${accepted.length} accepted, ${rejected.length} below threshold`);
+    }
+    const backfill = rejected
+      .sort((a, b) => (b.quality?.score ?? 0) - (a.quality?.score ?? 0))
+      .slice(0, Math.max(0, wanted - accepted.length));
+    return [...accepted, ...backfill];
+  }
+
+  /**
+   * Drop a job's pipeline checkpoint once it will not be retried.
+   */
+  async discardGenerationCheckpoint(checkpointId: string): Promise<void> {
+    await this.generationCheckpoints.deleteThread(checkpointId);
   }
 
   /**
@@ -166,8 +356,16 @@ export class StudyService implements StudyUseCase {
     knowledgeSource: KnowledgeSource = 'ai-web',
     runtime: Runtime = 'ollama',
     parentTopic?: string,
-    llmConfig?: any
+    llmConfig?: any,
+    options?: GenerationOptions
   ): Promise<{ cards: Flashcard[], recommendedTopics?: string[] }> {
+    if (options?.onEvent || options?.signal) {
+      const { onEvent, signal, ...rest } = options;
+      signal?.throwIfAborted();
+      return withGenerationContext({ listener: onEvent, signal }, () =>
+        this.generateFlashcards(topic, count, mode, knowledgeSource, runtime, parentTopic, llmConfig, rest));
+    }
+
     const desiredCount = Math.max(1, count || 1);
     const startTime = Date.now();
     const adapter = this.getAdapter(runtime);
@@ -176,9 +374,10 @@ export class StudyService implements StudyUseCase {
     }
 
     try {
-      const result = await this.doGenerateFlashcards(topic, desiredCount, mode, knowledgeSource, adapter, parentTopic, llmConfig);
-      const validated = await this.validateAndRepairFlashcards(result.cards, desiredCount, topic, adapter);
-      const adjustedCards = this.enforceCardCount(validated, desiredCount, topic);
+      const result = await this.doGenerateFlashcards(topic, desiredCount, mode, knowledgeSource, adapter, parentTopic, llmConfig, options);
+      // Steps that recover from errors (e.g. quality regeneration) must not turn a cancellation into a result
+      generationSignal()?.throwIfAborted();
+      const adjustedCards = this.scorePadding(this.enforceCardCount(result.cards, desiredCount, topic));
 
       // Record success metrics
       if (this.metricsService) {
@@ -209,12 +408,11 @@ export class StudyService implements StudyUseCase {
       // Fallback: if Ollama is unreachable (e.g., ENOTFOUND), retry once with WebLLM runtime
       const message = (error as Error)?.message || '';
       const isDns = /ENOTFOUND|EAI_AGAIN|getaddrinfo/i.test(message);
-      if (runtime === 'ollama' && isDns && this.getAdapter('webllm')) {
+      if (runtime === 'ollama' && isDns && this.getAdapter('webllm') && !generationSignal()?.aborted) {
         console.warn('⚠️ Ollama unreachable, falling back to WebLLM runtime');
         try {
           const webResult = await this.doGenerateFlashcards(topic, desiredCount, mode, knowledgeSource, this.getAdapter('webllm'), parentTopic);
-          const validated = await this.validateAndRepairFlashcards(webResult.cards, desiredCount, topic, this.getAdapter('webllm'));
-          const adjustedCards = this.enforceCardCount(validated, desiredCount, topic);
+          const adjustedCards = this.scorePadding(this.enforceCardCount(webResult.cards, desiredCount, topic));
           if (this.metricsService) {
             this.metricsService.recordGeneration({
               runtime: 'webllm',
@@ -255,90 +453,21 @@ export class StudyService implements StudyUseCase {
     count: number,
     mode: QuizMode,
     knowledgeSource: KnowledgeSource,
-    _aiAdapter: AIServicePort,
+    aiAdapter: AIServicePort,
     parentTopic?: string,
-    llmConfig?: any
+    llmConfig?: any,
+    options?: GenerationOptions
   ): Promise<{ cards: Flashcard[], recommendedTopics?: string[] }> {
     if (mode === 'deep-dive') {
-      return this.generateDeepDiveFlashcards(topic, count, llmConfig);
-    }
-
-    console.log(`\n=== Starting Knowledge Retrieval for: "${topic}" (Mode: ${knowledgeSource}) ===`);
-
-    // Parallel Execution for Mixed Mode
-    let aiSummary = '';
-    let scrapedContent = '';
-
-    if (knowledgeSource === 'ai-only') {
-      console.log('1. Generating flashcards from AI knowledge (ai-only mode)...');
-      try {
-        const adapter = _aiAdapter as any;
-        let cards = await adapter.generateFlashcards(topic, count, llmConfig);
-        cards = await this.validateAndRepairFlashcards(cards, count, topic, adapter);
-        cards = this.enforceCardCount(cards, count, topic);
-        return { cards };
-      } catch (e) {
-        throw new Error(`Failed to generate flashcards from AI knowledge: ${(e as Error).message}`);
-      }
-    } else if (knowledgeSource === 'web-only') {
-      console.log('1. Fetching web context (web-only mode)...');
-      scrapedContent = await this.getCachedOrFreshWebContext(topic, parentTopic);
-    } else {
-      // ai-web: Run in parallel
-      console.log('1. Fetching AI Summary & Web Context in parallel...');
-      const adapter = _aiAdapter as any;
-
-      const [summaryResult, webResult] = await Promise.all([
-        // Task A: AI Summary
-        (async () => {
-          try {
-            const s = await adapter.generateSummary(topic, llmConfig);
-            console.log('   AI Summary:', s.substring(0, 100) + '...');
-            return s;
-          } catch (e) {
-            console.warn('   Failed to get AI summary:', (e as Error).message);
-            return '';
-          }
-        })(),
-        // Task B: Web Context
-        this.getCachedOrFreshWebContext(topic, parentTopic)
-      ]);
-
-      aiSummary = summaryResult;
-      scrapedContent = webResult;
-    }
-
-    // Step 3: Synthesize & Generate
-    console.log('3. Synthesizing context and generating flashcards...');
-    let combinedContext = '';
-    if (aiSummary) {
-      combinedContext += `AI KNOWLEDGE SUMMARY:\n${aiSummary}\n\n`;
-    }
-    if (scrapedContent) {
-      combinedContext += `WEB CONTENT:\n${scrapedContent}\n\n`;
+      return this.generateDeepDiveFlashcards(topic, count, llmConfig, options);
     }
 
-    let cards: Flashcard[] = [];
-    if (combinedContext) {
-      // Use the text-based generation with our rich context
-      const adapter = _aiAdapter as any;
-      cards = await adapter.generateFlashcardsFromText(combinedContext, topic, count, undefined, llmConfig);
-    }
-
-    // Fallback or Initial Attempt if no context:
-    // If context generation failed OR yielded 0 cards, try basic generation
-    if (!cards || cards.length === 0) {
-      console.log('   Context-based generation returned empty/null, falling back to basic generation.');
-      const adapter = _aiAdapter as any;
-      cards = await adapter.generateFlashcards(topic, count, llmConfig);
-    }
-
-    cards = await this.validateAndRepairFlashcards(cards, count, topic, this.getAdapter('ollama'));
-    cards = this.enforceCardCount(cards, count, topic);
-    return { cards };
+    console.log(`\n=== Starting generation pipeline for: "${topic}" (Mode: ${knowledgeSource}) ===`);
+    const cards = await this.runGraph(aiAdapter, { topic, count, knowledgeSource, parentTopic, llmConfig }, options);
+    return { cards: this.enforceCardCount(cards, count, topic) };
   }
 
-  private async generateDeepDiveFlashcards(topic: string, count: number, llmConfig?: any): Promise<{ cards: Flashcard[], recommendedTopics?: string[] }> {
+  private async generateDeepDiveFlashcards(topic: string, count: number, llmConfig?: any, options?: GenerationOptions): Promise<{ cards: Flashcard[], recommendedTopics?: string[] }> {
     console.log(`\n=== Starting DEEP DIVE Knowledge Retrieval for: "${topic}" ===`);
 
     // 1. Generate Sub-topics
@@ -349,52 +478,26 @@ export class StudyService implements StudyUseCase {
       console.log(`   Identified ${subTopics.length} sub-topics:`, subTopics.join(', '));
     } catch (e) {
       console.warn('   Failed to generate sub-topics, falling back to standard mode.');
-      return this.generateFlashcards(topic, count, 'standard', undefined, undefined, undefined, llmConfig);
+      return this.generateFlashcards(topic, count, 'standard', undefined, undefined, undefined, llmConfig, options);
     }
 
     if (subTopics.length === 0) {
-      return this.generateFlashcards(topic, count, 'standard', undefined, undefined, undefined, llmConfig);
+      return this.generateFlashcards(topic, count, 'standard', undefined, undefined, undefined, llmConfig, options);
     }
 
     // 2. Select ONLY the first sub-topic for immediate processing
-    const currentSubTopic = subTopics[0];
+    const currentSubTopic = subTopics[0] ?? topic;
     const remainingTopics = subTopics.slice(1);
     console.log(`2. Processing PRIMARY sub-topic: "${currentSubTopic}"`);
     console.log(`   (Remaining ${remainingTopics.length} topics will be recommended)`);
 
-    // 3. Research the single sub-topic
-    let combinedContext = '';
-    try {
-      // Refine Query
-      const query = await this.getAdapter('ollama').generateSearchQuery(currentSubTopic, topic); // Pass parent topic context
-      console.log(`   Refined Query: "${query}"`);
-
-      // Search
-      const results = await this.searchAdapter.search(query);
-
-      // Take top 3 unique sources (increased from 2 since we only do 1 topic)
-      const uniqueDomains = new Set();
-      const topSources = results.filter(r => {
-        try {
-          const h = new URL(r.link).hostname;
-          if (uniqueDomains.has(h)) return false;
-          uniqueDomains.add(h);
-          return true;
-        } catch { return false; }
-      }).slice(0, 2); // Limit Deep Dive sources to 2 for speed
-
-      // Scrape
-      const urls = topSources.map(r => r.link);
-      const content = await this.scrapeMultipleSources(urls);
-
-      combinedContext = `DEEP DIVE TOPIC: ${currentSubTopic} (Parent: ${topic})\n${content}\n---\n`;
-    } catch (e) {
-      console.warn(`   x Failed to research sub-topic "${currentSubTopic}": ${(e as Error).message}`);
-    }
-
-    // 4. Generate Flashcards
-    console.log('3. Generating advanced flashcards from aggregated context...');
-    const cards = await this.getAdapter('ollama').generateFlashcardsFromText(combinedContext, currentSubTopic, count);
+    // 3. Research the sub-topic in the context of its parent and generate from it
+    // (limit Deep Dive sources to 2 for speed)
+    const cards = await this.runGraph(
+      this.getAdapter('ollama'),
+      { topic: currentSubTopic, count, knowledgeSource: 'web-only', parentTopic: topic, llmConfig, maxSources: 2 },
+      options
+    );
 
     return {
       cards,
@@ -409,9 +512,15 @@ export class StudyService implements StudyUseCase {
       httpsAgent: new https.Agent({ keepAlive: false }),
     });
 
+    // Cancelling the generation run aborts its scrapes as well as shutdown does
+    const runSignal = generationSignal();
+    runSignal?.throwIfAborted();
+
     const scrapePromises = urls.map(async (url) => {
       const controller = new AbortController();
       this.inFlightControllers.add(controller);
+      const abortScrape = () => controller.abort();
+      runSignal?.addEventListener('abort', abortScrape, { once: true });
       try {
         console.log(`   - Scraping: ${url}`);
         const res = await axiosInstance.get(url, {
@@ -430,11 +539,13 @@ export class StudyService implements StudyUseCase {
         console.warn(`   x Failed to scrape ${url}: ${(e as any).message}`);
         return '';
       } finally {
+        runSignal?.removeEventListener('abort', abortScrape);
         this.inFlightControllers.delete(controller);
       }
     });
 
     const results = await Promise.all(scrapePromises);
+    runSignal?.throwIfAborted();
     return results.join('\n');
   }
 
@@ -617,7 +728,8 @@ export class StudyService implements StudyUseCase {
     count: number,
     flashcards?: Flashcard[],
     preferredRuntime: 'ollama' | 'webllm' = 'ollama',
-    llmConfig?: any
+    llmConfig?: any,
+    options?: QuizGenerationOptions
   ): Promise<QuizQuestion[]> {
     const sanitizeQuestions = (qs: QuizQuestion[] | null): QuizQuestion[] | null => {
       if (!qs) return null;
@@ -688,14 +800,14 @@ export class StudyService implements StudyUseCase {
       console.log('Generating quiz from', flashcards.length, 'flashcards');
 
       // Try primary
-      const primaryResult = await tryAdapters((adapter) => adapter.generateQuizFromFlashcards(flashcards, count, llmConfig).then(qualityGate).then((qs: QuizQuestion[] | null) => sanitizeQuestions(qs)));
+      const primaryResult = await tryAdapters((adapter) => adapter.generateQuizFromFlashcards(flashcards, count, llmConfig, options).then(qualityGate).then((qs: QuizQuestion[] | null) => sanitizeQuestions(qs)));
       if (primaryResult === null || primaryResult?.length === 0) {
         console.warn('[StudyService] Primary quiz generation returned empty/null result');
       }
 
       // Quality failed or generation failed; try secondary for validation
       const secondaryResult = !primaryResult
-        ? await tryAdapters((adapter) => adapter.generateQuizFromFlashcards(flashcards, count, llmConfig).then(qualityGate).then((qs: QuizQuestion[] | null) => sanitizeQuestions(qs)))
+        ? await tryAdapters((adapter) => adapter.generateQuizFromFlashcards(flashcards, count, llmConfig, options).then(qualityGate).then((qs: QuizQuestion[] | null) => sanitizeQuestions(qs)))
         : null;
       if (secondaryResult && secondaryResult.length > 0) {
         console.log(`[StudyService] Secondary quiz generation succeeded: ${secondaryResult.length} questions`);
@@ -709,7 +821,7 @@ export class StudyService implements StudyUseCase {
 
     // 2) Topic-based quiz
     console.log(`[StudyService] Generating topic-based quiz for: ${topic}`);
-    const primaryResult = await tryAdapters((adapter) => adapter.generateAdvancedQuiz({ topic, wrongAnswers: [] }, 'harder', undefined, llmConfig).then(qualityGate).then((qs: QuizQuestion[] | null) => sanitizeQuestions(qs)));
+    const primaryResult = await tryAdapters((adapter) => adapter.generateAdvancedQuiz({ topic, wrongAnswers: [] }, 'harder', undefined, llmConfig, options).then(qualityGate).then((qs: QuizQuestion[] | null) => sanitizeQuestions(qs)));
     if (primaryResult === null || primaryResult?.length === 0) {
       console.warn('[StudyService] Primary topic quiz generation returned empty/null result');
     } else {
@@ -717,7 +829,7 @@ export class StudyService implements StudyUseCase {
     }
 
     const secondaryResult = !primaryResult
-      ? await tryAdapters((adapter) => adapter.generateAdvancedQuiz({ topic, wrongAnswers: [] }, 'harder', undefined, llmConfig).then(qualityGate).then((qs: QuizQuestion[] | null) => sanitizeQuestions(qs)))
+      ? await tryAdapters((adapter) => adapter.generateAdvancedQuiz({ topic, wrongAnswers: [] }, 'harder', undefined, llmConfig, options).then(qualityGate).then((qs: QuizQuestion[] | null) => sanitizeQuestions(qs)))
       : null;
     if (secondaryResult && secondaryResult.length > 0) {
       console.log(`[StudyService] Secondary topic quiz generation succeeded: ${secondaryResult.length} questions`);
@@ -784,6 +896,10 @@ export class StudyService implements StudyUseCase {
     return this.storageAdapter.getDeckHistory();
   }
 
+  async listDecks(query?: DeckListQuery): Promise<Connection<Deck>> {
+    return this.storageAdapter.listDecks(query);
+  }
+
   async getDeck(id: string): Promise<Deck | null> {
     return this.storageAdapter.getDeck(id);
   }
@@ -870,7 +986,8 @@ export class StudyService implements StudyUseCase {
       id: c.id || `card-${Date.now()}-${i}`,
       front: (c.front || c.question || '').trim(),
       back: (c.back || c.answer || '').trim(),
-      topic: (c as any).topic
+      topic: (c as any).topic,
+      ...(c.kind === 'cloze' ? { kind: 'cloze' as const } : {})
     }));
   }
 
@@ -893,6 +1010,11 @@ export class StudyService implements StudyUseCase {
     return normalized;
   }
 
+  /** Padding cards from enforceCardCount are scored too, so every returned card carries a quality. */
+  private scorePadding(cards: Flashcard[]): Flashcard[] {
+    return cards.map(card => (card.quality ? card : this.cardQuality.withQuality(card)));
+  }
+
   /** Ensure flashcard count matches user request, padding simple Q/A when too few are returned. */
   private enforceCardCount(cards: Flashcard[], count: number, topic: string): Flashcard[] {
     const desired = Math.max(1, count || 1);
@@ -977,14 +1099,7 @@ Respond in JSON format:
       this.inFlightControllers.delete(c);
     }
 
-    // If FlashcardGenerationGraph exposes a stop/close API, call it.
-    try {
-      if (this.flashcardGraph && typeof (this.flashcardGraph as any).shutdown === 'function') {
-        await (this.flashcardGraph as any).shutdown();
-      }
-    } catch (e) {
-      // swallow - shutdown best-effort
-    }
+    this.flashcardGraphs.clear();
   }
 
 }
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import { logger } from './LoggerService.js';
+import type { CardKind } from '../domain/types.js';
 
 /**
  * Supabase service for persistent storage
@@ -64,15 +65,17 @@ export class SupabaseService {
     /**
      * Store flashcards persistently.
      */
-    async storeFlashcards(cards: Array<{ id: string; front: string; back: string; topic?: string; sourceType?: string; sourceName?: string }>) {
+    async storeFlashcards(cards: Array<{ id: string; front: string; back: string; topic?: string; kind?: CardKind; sourceType?: string; sourceName?: string; quality?: { score: number } }>) {
         if (!this.client || !cards?.length) return { data: null, error: 'Supabase not initialized' };
         const payload = cards.map(c => ({
             id: c.id,
             topic: c.topic || 'General',
             front: c.front,
             back: c.back,
+            kind: c.kind || 'basic',
             source_type: c.sourceType || null,
             source_name: c.sourceName || null,
+            quality_score: c.quality?.score ?? null,
             created_at: new Date().toISOString()
         }));
 
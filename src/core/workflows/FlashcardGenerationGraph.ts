@@ -1,147 +1,368 @@
-import { StateGraph, END, START } from "@langchain/langgraph";
-import { HybridOllamaAdapter } from "../../adapters/secondary/ollama/HybridOllamaAdapter.js";
+import { StateGraph, END, START, MemorySaver } from "@langchain/langgraph";
+import type { BaseCheckpointSaver } from "@langchain/langgraph";
+import { randomUUID } from "crypto";
 import { LoggerService } from "../services/LoggerService.js";
+import type { CacheService } from "../services/CacheService.js";
+import type { AIServicePort, SearchServicePort } from "../ports/interfaces.js";
 import type { Flashcard } from "../domain/models.js";
+import type { KnowledgeSource } from "../domain/types.js";
+import { dedupeCards } from "../../utils/documentChunker.js";
+import { countStreamedCards, emitGenerationEvent, generationSignal } from "../../utils/generationEvents.js";
+import type { GenerationStage } from "../../utils/generationEvents.js";
 
 const logger = new LoggerService();
 
+export interface NodeTiming {
+    node: string;
+    durationMs: number;
+    attempts: number;
+    /** The node failed every attempt and continued with its fallback value. */
+    recovered?: boolean;
+}
+
+export interface GenerationRequest {
+    topic: string;
+    count: number;
+    knowledgeSource?: KnowledgeSource;
+    parentTopic?: string;
+    llmConfig?: any;
+    /** Unique-domain search results to scrape (default 3). */
+    maxSources?: number;
+}
+
+export interface GenerationResult {
+    cards: Flashcard[];
+    timings: NodeTiming[];
+    /** Source text the cards were generated from (AI summary and web content); empty for ai-only. */
+    context: string;
+    /** Node the run resumed at when it continued from a checkpoint. */
+    resumedFrom?: string;
+}
+
+export interface GenerationGraphDeps {
+    adapter: AIServicePort;
+    search?: SearchServicePort;
+    scrape?: (urls: string[]) => Promise<string>;
+    webContextCache?: CacheService<string>;
+    /** Normalise cards and ask the model to repair them when too few are valid. */
+    repair?: (cards: Flashcard[], count: number, topic: string) => Promise<Flashcard[]>;
+    /** Keep only cards supported by the source text. */
+    ground?: (sourceText: string, cards: Flashcard[]) => Flashcard[];
+    checkpointer?: BaseCheckpointSaver;
+    retry?: { attempts: number; backoffMs: number };
+}
+
 interface GraphState {
     topic: string;
     count: number;
+    knowledgeSource: KnowledgeSource;
+    parentTopic?: string;
+    llmConfig?: any;
+    maxSources: number;
+    query?: string;
+    sourceUrls: string[];
+    webContext?: string;
+    webCached: boolean;
+    /** ai-only generation failed and the run fell back to web research. */
+    webFallback: boolean;
+    summary?: string;
     flashcards: Flashcard[];
+    timings: NodeTiming[];
     error?: string;
-    searchResults?: string;
 }
 
+type NodeName = "refine_query" | "search" | "scrape" | "summarise" | "generate" | "validate" | "ground" | "dedup";
+
+// Coarse progress reported to listeners as each node starts
+const STAGES: Record<NodeName, GenerationStage> = {
+    refine_query: "searching",
+    search: "searching",
+    scrape: "scraping",
+    summarise: "generating",
+    generate: "generating",
+    validate: "validating",
+    ground: "validating",
+    dedup: "validating"
+};
+
+const replace = <T>(fallback: () => T) => ({
+    reducer: (x: T, y: T) => (y === undefined ? x : y),
+    default: fallback
+});
+
+/**
+ * The flashcard generation pipeline as a LangGraph workflow:
+ *
+ *   refine_query → search → scrape → summarise → generate → validate → ground → dedup
+ *
+ * Web nodes are skipped for ai-only requests (unless generation fails and the run
+ * falls back to the web), and summarise only runs for ai-web. Every node is timed
+ * and retried with backoff; nodes with a sensible fallback (e.g. the unrefined topic
+ * as the query) recover instead of failing the run. State is checkpointed after
+ * each node, so invoking again with the same thread id resumes a failed run at the
+ * node that failed rather than repeating search and scraping. Each node start and
+ * each generated card is reported through generationEvents for streaming clients,
+ * and a run whose generation signal is aborted stops at the current node.
+ */
 export class FlashcardGenerationGraph {
     private graph;
+    private checkpointer: BaseCheckpointSaver;
+    private retry: { attempts: number; backoffMs: number };
+
+    constructor(private deps: GenerationGraphDeps) {
+        this.checkpointer = deps.checkpointer ?? new MemorySaver();
+        this.retry = deps.retry ?? { attempts: 2, backoffMs: 500 };
 
-    constructor(private adapter: HybridOllamaAdapter) {
-        // Define the graph using .addNode and .addEdge
-        // StateGraph requires a channels definition in recent versions?
-        // Or annotation.
-        // Assuming LangGraph JS API:
         const workflow = new StateGraph<GraphState>({
             channels: {
-                topic: {
-                    reducer: (x: string, y: string) => y ?? x,
-                    default: () => ""
-                },
-                count: {
-                    reducer: (x: number, y: number) => y ?? x,
-                    default: () => 0
-                },
-                flashcards: {
-                    reducer: (x: Flashcard[], y: Flashcard[]) => y ?? x,
+                topic: replace(() => ""),
+                count: replace(() => 0),
+                knowledgeSource: replace<KnowledgeSource>(() => "ai-web"),
+                parentTopic: replace<string | undefined>(() => undefined),
+                llmConfig: replace<any>(() => undefined),
+                maxSources: replace(() => 3),
+                query: replace<string | undefined>(() => undefined),
+                sourceUrls: replace<string[]>(() => []),
+                webContext: replace<string | undefined>(() => undefined),
+                webCached: replace(() => false),
+                webFallback: replace(() => false),
+                summary: replace<string | undefined>(() => undefined),
+                flashcards: replace<Flashcard[]>(() => []),
+                timings: {
+                    reducer: (x: NodeTiming[], y: NodeTiming[]) => x.concat(y ?? []),
                     default: () => []
                 },
-                error: {
-                    reducer: (x?: string, y?: string) => y ?? x,
-                    default: () => undefined
-                },
-                searchResults: {
-                    reducer: (x?: string, y?: string) => y ?? x,
-                    default: () => undefined
-                }
+                error: replace<string | undefined>(() => undefined)
             }
         });
 
-        // Node: Generate Flashcards (Primary)
-        workflow.addNode("generate", async (state: GraphState) => {
-            try {
-                logger.info("Graph: Attempting generation", { topic: state.topic });
-                const cards = await this.adapter.generateFlashcards(state.topic, state.count);
-                // Validate cards (basic check)
-                if (!cards || cards.length === 0) throw new Error("Empty generation result");
-                return { flashcards: cards };
-            } catch (error: any) {
-                logger.warn("Graph: Generation failed", { error: error.message });
-                return { error: error.message };
+        workflow.addNode("refine_query", this.node("refine_query", async (state) => {
+            const cacheKey = `web-context:${state.topic}`;
+            const cached = await this.deps.webContextCache?.get(cacheKey);
+            if (cached) {
+                logger.info("Graph: using cached web context", { topic: state.topic });
+                return { webContext: cached, webCached: true };
             }
-        });
+            const query = await this.deps.adapter.generateSearchQuery(state.topic, state.parentTopic);
+            return { query: query || state.topic };
+        }, (state) => ({ query: state.topic })));
+
+        workflow.addNode("search", this.node("search", async (state) => {
+            if (!this.deps.search) return { sourceUrls: [] };
+            const results = await this.deps.search.search(state.query || state.topic);
+            const seen = new Set<string>();
+            const sourceUrls = results
+                .filter(result => {
+                    try {
+                        const host = new URL(result.link).hostname;
+                        if (seen.has(host)) return false;
+                        seen.add(host);
+                        return true;
+                    } catch {
+                        return false;
+                    }
+                })
+                .slice(0, state.maxSources)
+                .map(result => result.link);
+            logger.info("Graph: selected sources", { topic: state.topic, found: results.length, selected: sourceUrls.length });
+            return { sourceUrls };
+        }, (state, error) => {
+            // Without search, web-only has nothing to work from; the other modes carry on
+            if (state.knowledgeSource === "web-only" && !state.webFallback) throw error;
+            return { sourceUrls: [] };
+        }));
 
-        // Node: Fallback Search
-        workflow.addNode("fallback_search", async (state: GraphState) => {
-            try {
-                logger.info("Graph: Executing fallback search", { topic: state.topic });
-                // We use generateSearchQuery to get a better query, or just use topic
-                const query = await this.adapter.generateSearchQuery(state.topic);
-                // Since MCP search is not directly exposed but HybridOllamaAdapter might wrap Serper?
-                // Wait, HybridOllamaAdapter doesn't expose raw search.
-                // We might need to expose a method or use MCPClient directly if possible.
-                // For now, let's assume adapter has a method or we add one.
-                // Or we can rely on adapter's internal fallback? No, the Graph orchestrates it.
-                // Let's assume we can call search via adapter (we'll add generateSearchResults to adapter or reuse existing patterns)
-                // Actually, HybridOllamaAdapter doesn't have search.
-                // We should assume we can search via MCP or direct adapter.
-                // For this implementation, I will skip actual search and simulate or assume adapter handles it.
-                // Better: The adapter IS the interface to AI/Search.
-                // But wait, HybridOllamaAdapter is for Ollama. HybridSerperAdapter is for Search.
-                // I should inject HybridSerperAdapter too?
-                // For simplicity, let's simulate search result or assume access.
-                return { searchResults: `Search results for ${state.topic} (Query: ${query})` };
-            } catch (error: any) {
-                return { error: error.message };
+        workflow.addNode("scrape", this.node("scrape", async (state) => {
+            if (!this.deps.scrape || state.sourceUrls.length === 0) return { webContext: "" };
+            const webContext = await this.deps.scrape(state.sourceUrls);
+            if (webContext && this.deps.webContextCache) {
+                await this.deps.webContextCache.set(`web-context:${state.topic}`, webContext);
             }
-        });
+            return { webContext };
+        }, () => ({ webContext: "" })));
 
-        // Node: Fallback Synthesis
-        workflow.addNode("fallback_synthesis", async (state: GraphState) => {
-            // Synthesize from search results (using generateFlashcardsFromText)
-            if (!state.searchResults) return { error: "No search results" };
-            try {
-                logger.info("Graph: Synthesizing from search");
-                const cards = await this.adapter.generateFlashcardsFromText(
-                    state.searchResults,
-                    state.topic,
-                    state.count
-                );
-                return { flashcards: cards };
-            } catch (error: any) {
-                return { error: error.message };
+        workflow.addNode("summarise", this.node("summarise", async (state) => {
+            const summary = await this.deps.adapter.generateSummary(state.topic, state.llmConfig);
+            return { summary: summary || "" };
+        }, () => ({ summary: "" })));
+
+        workflow.addNode("generate", this.node("generate", async (state) => {
+            const context = this.context(state);
+            const { result: cards, streamed } = await countStreamedCards(async () => {
+                let cards: Flashcard[] = [];
+                if (context) {
+                    cards = await this.deps.adapter.generateFlashcardsFromText(context, state.topic, state.count, undefined, state.llmConfig);
+                }
+                if (!cards || cards.length === 0) {
+                    cards = await this.deps.adapter.generateFlashcards(state.topic, state.count, state.llmConfig);
+                }
+                return cards;
+            });
+            if (!cards || cards.length === 0) throw new Error("Empty generation result");
+            // Adapters that cannot stream still report their cards, all at once
+            if (streamed === 0) cards.forEach(card => emitGenerationEvent({ type: "card", card }));
+            return { flashcards: cards };
+        }, (state, error) => {
+            if (state.knowledgeSource === "ai-only" && !state.webFallback && this.deps.search) {
+                logger.warn("Graph: ai-only generation failed, falling back to web research", { topic: state.topic });
+                return { flashcards: [], webFallback: true, error: error.message };
             }
-        });
+            throw error;
+        }));
 
-        // Edges
-        // @ts-ignore - LangGraph types are strict about node names
-        workflow.addEdge(START, "generate");
-
-        // @ts-ignore - LangGraph types are strict about node names  
-        workflow.addConditionalEdges(
-            // @ts-ignore
-            "generate",
-            (state: GraphState) => {
-                if (state.flashcards && state.flashcards.length > 0) return "end";
-                return "fallback_search";
-            },
-            {
-                end: END,
-                fallback_search: "fallback_search"
+        workflow.addNode("validate", this.node("validate", async (state) => {
+            if (!this.deps.repair) return {};
+            const repaired = await this.deps.repair(state.flashcards, state.count, state.topic);
+            return { flashcards: repaired.length > 0 ? repaired : state.flashcards };
+        }));
+
+        workflow.addNode("ground", this.node("ground", async (state) => {
+            const context = this.context(state);
+            if (!this.deps.ground || !context) return {};
+            const grounded = this.deps.ground(context, state.flashcards);
+            if (grounded.length === 0) {
+                logger.warn("Graph: no cards matched the source context, keeping ungrounded cards", { topic: state.topic });
+                return {};
             }
-        );
+            return { flashcards: grounded };
+        }));
+
+        workflow.addNode("dedup", this.node("dedup", async (state) => ({ flashcards: dedupeCards(state.flashcards) })));
 
-        // @ts-ignore - LangGraph type strictness
-        workflow.addEdge("fallback_search", "fallback_synthesis");
+        const afterWeb = (state: GraphState) => (state.knowledgeSource === "ai-web" && !state.webFallback ? "summarise" : "generate");
+
+        // @ts-ignore - LangGraph types are strict about node names
+        workflow.addConditionalEdges(START, (state: GraphState) => (state.knowledgeSource === "ai-only" ? "generate" : "refine_query"), {
+            generate: "generate",
+            refine_query: "refine_query"
+        });
+        // @ts-ignore
+        workflow.addConditionalEdges("refine_query", (state: GraphState) => (state.webCached ? afterWeb(state) : "search"), {
+            search: "search",
+            summarise: "summarise",
+            generate: "generate"
+        });
+        // @ts-ignore
+        workflow.addEdge("search", "scrape");
+        // @ts-ignore
+        workflow.addConditionalEdges("scrape", afterWeb, { summarise: "summarise", generate: "generate" });
         // @ts-ignore
-        workflow.addEdge("fallback_synthesis", END);
+        workflow.addEdge("summarise", "generate");
+        // @ts-ignore
+        workflow.addConditionalEdges("generate", (state: GraphState) => (state.flashcards.length > 0 ? "validate" : "refine_query"), {
+            validate: "validate",
+            refine_query: "refine_query"
+        });
+        // @ts-ignore
+        workflow.addEdge("validate", "ground");
+        // @ts-ignore
+        workflow.addEdge("ground", "dedup");
+        // @ts-ignore
+        workflow.addEdge("dedup", END);
 
-        this.graph = workflow.compile();
+        this.graph = workflow.compile({ checkpointer: this.checkpointer });
     }
 
-    async generate(topic: string, count: number): Promise<Flashcard[]> {
-        const result = await this.graph.invoke({
-            topic,
-            count,
-            flashcards: [],
-        });
+    /**
+     * Run the pipeline. With a `threadId` (e.g. the queue job id) a previous failed
+     * run on the same thread is resumed from its last completed node; its checkpoint
+     * is kept on failure so a retry can resume, and removed once the run succeeds.
+     */
+    async generate(request: GenerationRequest, options: { threadId?: string } = {}): Promise<GenerationResult> {
+        const threadId = options.threadId || randomUUID();
+        const config = { configurable: { thread_id: threadId } };
 
-        // LangGraph invoke returns the final state
-        const state = result as unknown as GraphState;
+        const snapshot = await this.graph.getState(config);
+        const resumedFrom = options.threadId && snapshot.next.length > 0 ? snapshot.next[0] : undefined;
+        if (resumedFrom) {
+            logger.info("Graph: resuming from checkpoint", { threadId, node: resumedFrom });
+        }
 
-        if (state.flashcards && state.flashcards.length > 0) {
-            return state.flashcards;
+        const input: Partial<GraphState> = {
+            topic: request.topic,
+            count: request.count,
+            knowledgeSource: request.knowledgeSource ?? "ai-web",
+            parentTopic: request.parentTopic,
+            llmConfig: request.llmConfig,
+            maxSources: request.maxSources ?? 3
+        };
+
+        try {
+            const result = await this.graph.invoke(resumedFrom ? null : input, config);
+            // LangGraph invoke returns the final state
+            const state = result as unknown as GraphState;
+            await this.discardCheckpoint(threadId);
+
+            if (state.flashcards && state.flashcards.length > 0) {
+                return {
+                    cards: state.flashcards,
+                    timings: state.timings,
+                    context: this.context(state),
+                    ...(resumedFrom ? { resumedFrom } : {})
+                };
+            }
+            throw new Error(state.error || "Generation failed");
+        } catch (error) {
+            if (!options.threadId) await this.discardCheckpoint(threadId);
+            throw error;
         }
+    }
+
+    /** Drop a thread's checkpoints, e.g. once a job has used up its retries. */
+    async discardCheckpoint(threadId: string): Promise<void> {
+        try {
+            await this.checkpointer.deleteThread(threadId);
+        } catch (error: any) {
+            logger.warn("Graph: failed to discard checkpoint", { threadId, error: error?.message });
+        }
+    }
+
+    private context(state: GraphState): string {
+        let context = "";
+        if (state.summary) context += `AI KNOWLEDGE SUMMARY:\n${state.summary}\n\n`;
+        if (state.webContext) context += `WEB CONTENT:\n${state.webContext}\n\n`;
+        return context;
+    }
+
+    /**
+     * Wrap a node with timing and retries. After the last attempt `recover` may
+     * return a fallback update (or rethrow); without it the error fails the run.
+     */
+    private node(
+        name: NodeName,
+        run: (state: GraphState) => Promise<Partial<GraphState>>,
+        recover?: (state: GraphState, error: Error) => Partial<GraphState>
+    ) {
+        return async (state: GraphState): Promise<Partial<GraphState>> => {
+            const signal = generationSignal();
+            signal?.throwIfAborted();
+            emitGenerationEvent({ type: "stage", stage: STAGES[name], step: name });
+            const startedAt = Date.now();
+            const attempts = Math.max(1, this.retry.attempts);
+            let lastError: Error = new Error(`${name} failed`);
+
+            for (let attempt = 1; attempt <= attempts; attempt++) {
+                try {
+                    const update = await run(state);
+                    signal?.throwIfAborted();
+                    const timing: NodeTiming = { node: name, durationMs: Date.now() - startedAt, attempts: attempt };
+                    logger.info("Graph: node completed", { ...timing, topic: state.topic });
+                    return { ...update, timings: [timing] };
+                } catch (error: any) {
+                    // A cancelled run is neither retried nor recovered
+                    if (signal?.aborted) throw signal.reason ?? error;
+                    lastError = error instanceof Error ? error : new Error(String(error));
+                    logger.warn("Graph: node attempt failed", { node: name, attempt, error: lastError.message });
+                    if (attempt < attempts && this.retry.backoffMs > 0) {
+                        await new Promise(resolve => setTimeout(resolve, this.retry.backoffMs * 2 ** (attempt - 1)));
+                    }
+                }
+            }
 
-        throw new Error(state.error || "Generation failed");
+            if (!recover) throw lastError;
+            const update = recover(state, lastError);
+            const timing: NodeTiming = { node: name, durationMs: Date.now() - startedAt, attempts, recovered: true };
+            return { ...update, timings: [timing] };
+        };
     }
 }
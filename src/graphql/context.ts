@@ -5,6 +5,7 @@ import type { QuizStorageService } from '../core/services/QuizStorageService.js'
 import type { FlashcardStorageService } from '../core/services/FlashcardStorageService.js';
 import type { QueueService } from '../core/services/QueueService.js';
 import type { WebLLMService } from '../core/services/WebLLMService.js';
+import type { SpacedRepetitionService } from '../core/services/SpacedRepetitionService.js';
 
 export interface GraphQLContext {
     authService: AuthService;
@@ -13,6 +14,7 @@ export interface GraphQLContext {
     flashcardStorage: FlashcardStorageService;
     queueService: QueueService | null;
     webllmService: WebLLMService;
+    spacedRepetition: SpacedRepetitionService | null;
     user?: {
         id: string;
         email: string;
@@ -30,6 +32,7 @@ export async function createContext(
         flashcardStorage: FlashcardStorageService;
         queueService: QueueService | null;
         webllmService: WebLLMService;
+        spacedRepetition: SpacedRepetitionService | null;
     }
 ): Promise<GraphQLContext> {
     // Extract token from Authorization header
@@ -66,3 +69,12 @@ export function requireAuth(context: GraphQLContext) {
     }
     return context.user;
 }
+
+// Helper to check if user is an operator (ADMIN_USERS)
+export function requireAdmin(context: GraphQLContext) {
+    const user = requireAuth(context);
+    if (!context.authService.isAdmin(user)) {
+        throw new Error('Admin access required');
+    }
+    return user;
+}
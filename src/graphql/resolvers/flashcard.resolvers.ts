@@ -1,11 +1,55 @@
 import type { GraphQLContext } from '../context.js';
+import { requireAuth } from '../context.js';
+import type { Flashcard } from '../../core/domain/models.js';
+import type { CardInput, DeckTarget } from '../../core/services/FlashcardStorageService.js';
+import { expandReviewItems } from '../../utils/cloze.js';
+import { ANONYMOUS_USER_ID } from '../../core/services/SpacedRepetitionService.js';
+import { deckLastStudied } from '../../utils/pagination.js';
+import type { DeckListQuery, DeckSortKey, PageArgs, SortOrder } from '../../utils/pagination.js';
+
+type DeckListArgs = PageArgs & {
+    sortBy?: DeckSortKey;
+    order?: SortOrder;
+    filter?: { topic?: string | null; createdAfter?: number | null; createdBefore?: number | null } | null;
+};
 
 export const flashcardResolvers = {
+    CardKind: {
+        BASIC: 'basic',
+        CLOZE: 'cloze'
+    },
+
+    SortOrder: {
+        ASC: 'asc',
+        DESC: 'desc'
+    },
+
+    DeckSort: {
+        CREATED: 'created',
+        TOPIC: 'topic',
+        LAST_STUDIED: 'lastStudied'
+    },
+
+    Flashcard: {
+        kind: (card: Partial<Flashcard>) => card.kind || 'basic',
+        tags: (card: Partial<Flashcard>) => card.tags || [],
+        reviewItems: (card: Flashcard) => expandReviewItems(card),
+    },
+
     Query: {
-        decks: async (_: unknown, __: unknown, context: GraphQLContext) => {
-            // Get decks from storage
-            const decks = await context.flashcardStorage.getDecks();
-            return decks;
+        decks: async (_: unknown, { first, after, sortBy, order, filter }: DeckListArgs, context: GraphQLContext) => {
+            const userId = context.user?.id ?? ANONYMOUS_USER_ID;
+            const query: DeckListQuery = {
+                first: first ?? undefined,
+                after: after ?? undefined,
+                sortBy: sortBy ?? undefined,
+                order: order ?? undefined,
+                topic: filter?.topic ?? undefined,
+                createdAfter: filter?.createdAfter ?? undefined,
+                createdBefore: filter?.createdBefore ?? undefined,
+                lastStudied: deckLastStudied(() => context.spacedRepetition?.getLastReviewTimes(userId) ?? new Map())
+            };
+            return context.flashcardStorage.listDecks(query);
         },
 
         deck: async (_: unknown, { id }: { id: string }, context: GraphQLContext) => {
@@ -25,6 +69,30 @@ export const flashcardResolvers = {
             const decks = await context.flashcardStorage.getDecks();
             return decks.flatMap(d => d.cards);
         },
+
+        card: (_: unknown, { deckId, id }: { deckId: string; id: string }, context: GraphQLContext) =>
+            context.flashcardStorage.getDeckCard(deckId, id),
+
+        cardRevisions: (_: unknown, { cardId }: { cardId: string }, context: GraphQLContext) =>
+            context.flashcardStorage.getRevisions(cardId),
+
+        deckTree: (_: unknown, __: unknown, context: GraphQLContext) =>
+            context.flashcardStorage.getDeckTree(),
+
+        tags: (_: unknown, __: unknown, context: GraphQLContext) =>
+            context.flashcardStorage.getTags(),
+
+        searchCards: (_: unknown, { query }: { query: string }, context: GraphQLContext) => {
+            const userId = context.user?.id ?? ANONYMOUS_USER_ID;
+            return context.flashcardStorage.searchCards(query, {
+                dueState: card => context.spacedRepetition?.getDueState(userId, card) ?? 'new'
+            });
+        },
+
+        savedSearches: (_: unknown, __: unknown, context: GraphQLContext) => {
+            const user = requireAuth(context);
+            return context.flashcardStorage.getSavedSearches(user.id);
+        },
     },
 
     Mutation: {
@@ -85,7 +153,7 @@ export const flashcardResolvers = {
 
         createDeck: async (
             _: unknown,
-            { input }: { input: { topic: string; cards: Array<{ front: string; back: string; topic?: string }> } },
+            { input }: { input: { topic: string; cards: Array<{ front: string; back: string; topic?: string; kind?: 'basic' | 'cloze' }> } },
             context: GraphQLContext
         ) => {
             const deck = {
@@ -96,7 +164,7 @@ export const flashcardResolvers = {
                 userId: context.user?.id
             };
 
-            await context.flashcardStorage.saveDeck(deck);
+            await context.flashcardStorage.saveDeck(deck, context.user?.id);
             return deck;
         },
 
@@ -105,8 +173,117 @@ export const flashcardResolvers = {
             { id }: { id: string },
             context: GraphQLContext
         ) => {
-            const deleted = await context.flashcardStorage.deleteDeck(id);
+            const deleted = await context.flashcardStorage.deleteDeck(id, context.user?.id);
             return deleted;
         },
+
+        addCard: async (
+            _: unknown,
+            { deckId, input }: { deckId: string; input: CardInput },
+            context: GraphQLContext
+        ) => {
+            const user = requireAuth(context);
+            const card = await context.flashcardStorage.createCard(deckId, input, user.id);
+            if (!card) {
+                throw new Error(`Deck with id ${deckId} not found`);
+            }
+            return card;
+        },
+
+        updateCard: async (
+            _: unknown,
+            { deckId, id, input }: { deckId: string; id: string; input: Partial<CardInput> },
+            context: GraphQLContext
+        ) => {
+            const user = requireAuth(context);
+            // Explicit nulls mean "not provided"
+            const changes = Object.fromEntries(Object.entries(input).filter(([, value]) => value != null)) as Partial<CardInput>;
+            const card = await context.flashcardStorage.updateCard(deckId, id, changes, user.id);
+            if (!card) {
+                throw new Error(`Card with id ${id} not found in deck ${deckId}`);
+            }
+            return card;
+        },
+
+        deleteCard: async (
+            _: unknown,
+            { deckId, id }: { deckId: string; id: string },
+            context: GraphQLContext
+        ) => {
+            const user = requireAuth(context);
+            return context.flashcardStorage.removeCard(deckId, id, user.id);
+        },
+
+        moveCards: async (
+            _: unknown,
+            { ids, toDeckId, toTopic }: { ids: string[]; toDeckId?: string; toTopic?: string },
+            context: GraphQLContext
+        ) => {
+            const user = requireAuth(context);
+            const cards = await context.flashcardStorage.moveCards(ids, deckTarget(toDeckId, toTopic), user.id);
+            if (!cards) {
+                throw new Error('Target deck not found');
+            }
+            return cards;
+        },
+
+        copyCards: async (
+            _: unknown,
+            { ids, toDeckId, toTopic }: { ids: string[]; toDeckId?: string; toTopic?: string },
+            context: GraphQLContext
+        ) => {
+            const user = requireAuth(context);
+            const cards = await context.flashcardStorage.copyCards(ids, deckTarget(toDeckId, toTopic), user.id);
+            if (!cards) {
+                throw new Error('Target deck not found');
+            }
+            return cards;
+        },
+
+        revertCard: async (
+            _: unknown,
+            { cardId, revisionId }: { cardId: string; revisionId: string },
+            context: GraphQLContext
+        ) => {
+            const user = requireAuth(context);
+            const card = await context.flashcardStorage.revertCard(cardId, revisionId, user.id);
+            if (!card) {
+                throw new Error(`Revision ${revisionId} of card ${cardId} not found`);
+            }
+            return card;
+        },
+
+        tagCards: async (
+            _: unknown,
+            { ids, add, remove }: { ids: string[]; add?: string[] | null; remove?: string[] | null },
+            context: GraphQLContext
+        ) => {
+            const user = requireAuth(context);
+            return context.flashcardStorage.tagCards(ids, { add: add ?? [], remove: remove ?? [] }, user.id);
+        },
+
+        saveSearch: (
+            _: unknown,
+            { name, query }: { name: string; query: string },
+            context: GraphQLContext
+        ) => {
+            const user = requireAuth(context);
+            if (!name.trim()) {
+                throw new Error('A saved search needs a name');
+            }
+            return context.flashcardStorage.saveSearch(user.id, name.trim(), query);
+        },
+
+        deleteSavedSearch: (_: unknown, { id }: { id: string }, context: GraphQLContext) => {
+            const user = requireAuth(context);
+            return context.flashcardStorage.deleteSavedSearch(user.id, id);
+        },
     },
 };
+
+function deckTarget(toDeckId?: string, toTopic?: string): DeckTarget {
+    if (!toDeckId && !toTopic) {
+        throw new Error('Provide toDeckId or toTopic');
+    }
+    return { deckId: toDeckId ?? undefined, topic: toTopic ?? undefined };
+}
@@ -1,6 +1,7 @@
 import { flashcardResolvers } from './flashcard.resolvers.js';
 import { quizResolvers } from './quiz.resolvers.js';
 import { jobResolvers } from './job.resolvers.js';
+import { reviewResolvers } from './review.resolvers.js';
 import { GraphQLScalarType, Kind } from 'graphql';
 
 // Custom scalar for JSON
@@ -46,11 +47,27 @@ const DateTimeScalar = new GraphQLScalarType({
 export const resolvers = {
     JSON: JSONScalar,
     DateTime: DateTimeScalar,
+    CardKind: flashcardResolvers.CardKind,
+    SortOrder: flashcardResolvers.SortOrder,
+    DeckSort: flashcardResolvers.DeckSort,
+    QuizSort: quizResolvers.QuizSort,
+    QuizResultSort: quizResolvers.QuizResultSort,
+    QuestionKind: quizResolvers.QuestionKind,
+    QuizQuestion: quizResolvers.QuizQuestion,
+    MultipleChoiceQuestion: quizResolvers.MultipleChoiceQuestion,
+    MultipleSelectQuestion: quizResolvers.MultipleSelectQuestion,
+    TrueFalseQuestion: quizResolvers.TrueFalseQuestion,
+    OrderingQuestion: quizResolvers.OrderingQuestion,
+    ShortAnswerQuestion: quizResolvers.ShortAnswerQuestion,
+    GradingMethod: quizResolvers.GradingMethod,
+    QuizResult: quizResolvers.QuizResult,
+    Flashcard: flashcardResolvers.Flashcard,
 
     Query: {
         ...flashcardResolvers.Query,
         ...quizResolvers.Query,
         ...jobResolvers.Query,
+        ...reviewResolvers.Query,
 
         // Health check
         health: () => ({
@@ -63,6 +80,7 @@ export const resolvers = {
     Mutation: {
         ...flashcardResolvers.Mutation,
         ...quizResolvers.Mutation,
+        ...jobResolvers.Mutation,
     },
 
     Subscription: {
@@ -1,5 +1,6 @@
-import { PubSub } from 'graphql-subscriptions';
 import type { GraphQLContext } from '../context.js';
+import { requireAdmin } from '../context.js';
+import type { DeadLetterEntry, DeadLetterFilter } from '../../core/services/QueueService.js';
 
 type QueueJobStatus = {
     id?: string;
@@ -9,7 +10,19 @@ type QueueJobStatus = {
     error?: string | null;
 };
 
-const pubsub = new PubSub();
+const toDeadLetterJob = (entry: DeadLetterEntry) => ({
+    ...entry,
+    topic: entry.data.topic,
+    userId: entry.data.userId ?? null
+});
+
+function adminQueue(context: GraphQLContext) {
+    requireAdmin(context);
+    if (!context.queueService) {
+        throw new Error('Queue service not available');
+    }
+    return context.queueService;
+}
 
 export const jobResolvers = {
     Query: {
@@ -38,18 +51,56 @@ export const jobResolvers = {
                 error: (job as QueueJobStatus).error ?? null,
                 progress: (job as QueueJobStatus).progress ?? 0
             };
+        },
+
+        deadLetterJobs: async (
+            _: unknown,
+            { filter, limit }: { filter?: DeadLetterFilter; limit?: number },
+            context: GraphQLContext
+        ) => {
+            const entries = await adminQueue(context).listDeadLetters(filter ?? {}, limit ?? undefined);
+            return entries.map(toDeadLetterJob);
+        }
+    },
+
+    Mutation: {
+        replayDeadLetterJob: async (_: unknown, { id }: { id: string }, context: GraphQLContext) => {
+            const jobId = await adminQueue(context).replayDeadLetter(id);
+            return jobId ? { deadLetterId: id, jobId } : null;
+        },
+
+        replayDeadLetterJobs: async (_: unknown, { filter }: { filter?: DeadLetterFilter }, context: GraphQLContext) =>
+            adminQueue(context).replayDeadLetters(filter ?? {}),
+
+        purgeDeadLetterJob: async (_: unknown, { id }: { id: string }, context: GraphQLContext) =>
+            adminQueue(context).purgeDeadLetter(id),
+
+        purgeDeadLetterJobs: async (
+            _: unknown,
+            { filter, all }: { filter?: DeadLetterFilter; all?: boolean },
+            context: GraphQLContext
+        ) => {
+            const queueService = adminQueue(context);
+            // Same guard as the REST endpoint: emptying the whole queue must be explicit
+            if (!all && Object.values(filter ?? {}).every(value => value === undefined || value === null)) {
+                throw new Error('Specify a filter or all: true');
+            }
+            return queueService.purgeDeadLetters(filter ?? {});
         }
     },
 
     Subscription: {
         jobUpdated: {
-            subscribe: (_: unknown, { jobId }: { jobId: string }) => {
+            // Updates are published by QueueService (local or BullMQ worker) and fanned out
+            // over Redis, so the job may run on a different instance than the subscriber
+            subscribe: async (_: unknown, { jobId }: { jobId: string }, context: GraphQLContext) => {
+                const { queueService } = context;
+                if (!queueService) {
+                    throw new Error('Queue service not available');
+                }
                 console.log('[GraphQL Subscription] Client subscribed to job:', jobId);
-                return (pubsub as unknown as { asyncIterator: (trigger: string) => AsyncIterator<unknown> }).asyncIterator(`JOB_UPDATED_${jobId}`);
+                return queueService.watchJob(jobId);
             }
         }
     }
 };
-
-// Export pubsub instance for use in QueueService
-export { pubsub };
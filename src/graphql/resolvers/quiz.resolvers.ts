@@ -1,11 +1,17 @@
 import type { GraphQLContext } from '../context.js';
 import { requireAuth } from '../context.js';
-import type { QuizQuestion, Flashcard } from '../../core/domain/models.js';
-import type { Quiz as StoredQuiz, QuizQuestion as StoredQuizQuestion } from '../../core/services/QuizStorageService.js';
+import type { QuizQuestion, Flashcard, QuestionTiming } from '../../core/domain/models.js';
+import type { QuestionKind } from '../../core/domain/types.js';
+import type { AttemptListQuery, Quiz as StoredQuiz, QuizAttempt, QuizListQuery, QuizQuestion as StoredQuizQuestion } from '../../core/services/QuizStorageService.js';
+import { hideExamQuestions } from '../../core/services/ExamService.js';
+import type { PageArgs, SortOrder } from '../../utils/pagination.js';
+import { normalizeQuestionTiming, questionKind } from '../../utils/quizQuestions.js';
+import type { QuizAnswer } from '../../utils/quizQuestions.js';
 
 type CreateQuizInput = {
     topic?: string;
     count?: number;
+    kinds?: QuestionKind[] | null;
     cards?: Array<{
         id: string;
         front: string;
@@ -16,20 +22,106 @@ type CreateQuizInput = {
 
 type SubmitAnswersArgs = {
     quizId: string;
-    answers: string[];
+    answers: Array<string | { questionId: string; answer?: string | null; choices?: string[] | null; timing?: object | null }>;
+    judge?: boolean | null;
 };
 
+type ListArgs<TSort, TFilter> = PageArgs & { sortBy?: TSort; order?: SortOrder; filter?: TFilter | null };
+
 type QuizWithMode = StoredQuiz & { mode: string };
 
+/** GraphQL passes omitted optional arguments as null; the stores expect them left out. */
+const listQuery = <T extends object>({ filter, ...args }: PageArgs & { filter?: object | null }): T =>
+    Object.fromEntries(Object.entries({ ...args, ...filter }).filter(([, value]) => value != null)) as T;
+
+const QUESTION_TYPES: Record<QuestionKind, string> = {
+    'multiple-choice': 'MultipleChoiceQuestion',
+    'multiple-select': 'MultipleSelectQuestion',
+    'true-false': 'TrueFalseQuestion',
+    'ordering': 'OrderingQuestion',
+    'short-answer': 'ShortAnswerQuestion'
+};
+
+/** Questions stored before kinds existed have none; they are multiple choice. */
+const questionFields = {
+    kind: (question: StoredQuizQuestion) => questionKind(question)
+};
+
+/** Exams list no questions: their answers are only given out through submitted attempts. */
 const withMode = (quiz: StoredQuiz | null): QuizWithMode | null => {
     if (!quiz) return null;
     return {
-        ...quiz,
-        mode: (quiz as unknown as { mode?: string }).mode ?? 'standard'
+        ...hideExamQuestions(quiz),
+        mode: quiz.exam ? 'exam' : (quiz as unknown as { mode?: string }).mode ?? 'standard'
     };
 };
 
 export const quizResolvers = {
+    QuizSort: {
+        CREATED: 'created',
+        TOPIC: 'topic',
+        LAST_STUDIED: 'lastStudied',
+        SCORE: 'score'
+    },
+
+    QuizResultSort: {
+        CREATED: 'created',
+        TOPIC: 'topic',
+        SCORE: 'score'
+    },
+
+    QuestionKind: {
+        MULTIPLE_CHOICE: 'multiple-choice',
+        MULTIPLE_SELECT: 'multiple-select',
+        TRUE_FALSE: 'true-false',
+        ORDERING: 'ordering',
+        SHORT_ANSWER: 'short-answer'
+    },
+
+    QuizQuestion: {
+        __resolveType: (question: StoredQuizQuestion) => QUESTION_TYPES[questionKind(question)],
+    },
+
+    MultipleChoiceQuestion: questionFields,
+
+    MultipleSelectQuestion: {
+        ...questionFields,
+        correctAnswers: (question: StoredQuizQuestion) => question.correctAnswers ?? [],
+    },
+
+    TrueFalseQuestion: {
+        ...questionFields,
+        isTrue: (question: StoredQuizQuestion) => question.correctAnswer.trim().toLowerCase() === 'true',
+    },
+
+    OrderingQuestion: {
+        ...questionFields,
+        items: (question: StoredQuizQuestion) => question.options,
+        correctOrder: (question: StoredQuizQuestion) => question.correctAnswers ?? [],
+    },
+
+    ShortAnswerQuestion: {
+        ...questionFields,
+        acceptedAnswers: (question: StoredQuizQuestion) => question.acceptedAnswers ?? [],
+    },
+
+    GradingMethod: {
+        EXACT: 'exact',
+        NORMALIZED: 'normalized',
+        SYNONYM: 'synonym',
+        FUZZY: 'fuzzy',
+        PARTIAL: 'partial',
+        LLM: 'llm',
+        NONE: 'none'
+    },
+
+    /** Attempts stored before partial credit existed have only a score. */
+    QuizResult: {
+        credit: (result: QuizAttempt) => result.credit ?? result.score,
+        grades: (result: QuizAttempt) =>
+            Object.entries(result.grades ?? {}).map(([questionId, grade]) => ({ questionId, ...grade })),
+    },
+
     Query: {
         quiz: async (_: unknown, { id }: { id: string }, context: GraphQLContext) => {
             const quiz = await context.quizStorage.getQuiz(id);
@@ -39,14 +131,24 @@ export const quizResolvers = {
             return withMode(quiz);
         },
 
-        quizHistory: async (_: unknown, __: unknown, context: GraphQLContext) => {
-            const history = await context.quizStorage.getHistory();
-            return history || [];
+        // Learners see their own attempts; operators see everyone's
+        quizHistory: (
+            _: unknown,
+            args: ListArgs<AttemptListQuery['sortBy'], Pick<AttemptListQuery, 'quizId' | 'topic'>>,
+            context: GraphQLContext
+        ) => {
+            const user = requireAuth(context);
+            const query = listQuery<AttemptListQuery>(args);
+            return context.quizStorage.listAttempts(context.authService.isAdmin(user) ? query : { ...query, userId: user.id });
         },
 
-        allQuizzes: async (_: unknown, __: unknown, context: GraphQLContext) => {
-            const quizzes = await context.quizStorage.getAllQuizzes();
-            return (quizzes || []).map(withMode);
+        allQuizzes: (
+            _: unknown,
+            args: ListArgs<QuizListQuery['sortBy'], Pick<QuizListQuery, 'topic' | 'source' | 'attempted' | 'createdAfter' | 'createdBefore'>>,
+            context: GraphQLContext
+        ) => {
+            const page = context.quizStorage.listQuizzes(listQuery<QuizListQuery>(args));
+            return { ...page, edges: page.edges.map(edge => ({ ...edge, node: withMode(edge.node) })) };
         },
 
         queueStats: async (_: unknown, __: unknown, context: GraphQLContext) => {
@@ -90,6 +192,7 @@ export const quizResolvers = {
                 const hasCards = Array.isArray(cards) && cards.length > 0;
                 const topic = input.topic ?? (hasCards ? cards[0]?.topic : undefined) ?? 'General Quiz';
                 const desiredCount = input.count ?? (hasCards ? Math.min(cards.length, 10) : 5);
+                const options = input.kinds?.length ? { kinds: input.kinds } : undefined;
 
                 if (hasCards) {
                     const normalized: Flashcard[] = cards.map((card) => ({
@@ -98,9 +201,9 @@ export const quizResolvers = {
                         back: card.back,
                         topic: card.topic ?? topic,
                     }));
-                    questions = await context.studyService.generateQuiz(topic, desiredCount, normalized);
+                    questions = await context.studyService.generateQuiz(topic, desiredCount, normalized, undefined, undefined, options);
                 } else {
-                    questions = await context.studyService.generateQuiz(topic, desiredCount);
+                    questions = await context.studyService.generateQuiz(topic, desiredCount, undefined, undefined, undefined, options);
                 }
             } catch (error: unknown) {
                 const message = error instanceof Error ? error.message : 'Unknown error';
@@ -109,9 +212,12 @@ export const quizResolvers = {
             }
 
             const storageQuestions: Array<Omit<StoredQuizQuestion, 'id'>> = questions.map((q) => ({
+                kind: q.kind,
                 question: q.question,
                 options: [...q.options],
                 correctAnswer: q.correctAnswer,
+                correctAnswers: q.correctAnswers,
+                acceptedAnswers: q.acceptedAnswers,
                 explanation: q.explanation
             }));
 
@@ -126,16 +232,32 @@ export const quizResolvers = {
 
         submitQuizAnswer: async (
             _: unknown,
-            { quizId, answers }: SubmitAnswersArgs,
+            { quizId, answers, judge }: SubmitAnswersArgs,
             context: GraphQLContext
         ): Promise<ReturnType<GraphQLContext['quizStorage']['submitAnswers']>> => {
-            const normalizedAnswers = (answers || []).map((answer, idx) => (
+            // Judged grading calls the model once per short answer
+            if (judge) requireAuth(context);
+
+            const normalizedAnswers: Array<{ questionId: string; answer: QuizAnswer }> = (answers || []).map((answer, idx) => (
                 typeof answer === 'string'
                     ? { questionId: String(idx), answer }
-                    : answer
+                    : { questionId: answer.questionId, answer: answer.choices ?? answer.answer ?? '' }
             ));
 
-            const result = await context.quizStorage.submitAnswers(quizId, normalizedAnswers as { questionId: string; answer: string }[]);
+            // No answer took longer than the quiz has existed
+            const createdAt = context.quizStorage.getQuiz(quizId)?.createdAt;
+            const servedForMs = createdAt === undefined ? undefined : Date.now() - new Date(createdAt).getTime();
+            const timings: Record<string, QuestionTiming> = {};
+            for (const answer of answers || []) {
+                const timing = typeof answer === 'string' ? undefined : normalizeQuestionTiming(answer.timing, servedForMs);
+                if (timing && typeof answer !== 'string') timings[answer.questionId] = timing;
+            }
+
+            const result = await context.quizStorage.submitAnswers(quizId, normalizedAnswers, {
+                judge: judge ?? false,
+                ...(context.user?.id ? { userId: context.user.id } : {}),
+                ...(Object.keys(timings).length ? { timings } : {})
+            });
             return result;
         },
     },
@@ -0,0 +1,39 @@
+import type { GraphQLContext } from '../context.js';
+import { requireAuth } from '../context.js';
+import { appProperties } from '../../config/properties.js';
+
+type ReviewQueueArgs = {
+    newLimit?: number | null;
+    reviewLimit?: number | null;
+};
+
+export const reviewResolvers = {
+    Query: {
+        reviewQueue: async (_: unknown, { newLimit, reviewLimit }: ReviewQueueArgs, context: GraphQLContext) => {
+            const user = requireAuth(context);
+
+            const limits = {
+                newPerDay: newLimit ?? appProperties.REVIEW_NEW_CARDS_PER_DAY,
+                reviewsPerDay: reviewLimit ?? appProperties.REVIEW_MAX_REVIEWS_PER_DAY
+            };
+            if (limits.newPerDay < 0 || limits.reviewsPerDay < 0) {
+                throw new Error('newLimit and reviewLimit must be non-negative');
+            }
+
+            if (!context.spacedRepetition) {
+                return { items: [], dueCount: 0, newCount: 0, reviewsRemaining: 0, newRemaining: 0 };
+            }
+
+            const queue = context.spacedRepetition.reviewQueue(user.id, context.flashcardStorage.getUserFlashcards(user.id), limits);
+
+            return {
+                ...queue,
+                items: queue.items.map(item => ({
+                    ...item,
+                    state: item.state.toUpperCase(),
+                    deckId: context.flashcardStorage.getDeckId(item.topic)
+                }))
+            };
+        },
+    },
+};
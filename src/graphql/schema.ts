@@ -3,13 +3,75 @@ export const typeDefs = `#graphql
   scalar JSON
   scalar DateTime
 
+  # Pagination (Relay connections): pass endCursor as "after" to get the next page
+  type PageInfo {
+    hasNextPage: Boolean!
+    hasPreviousPage: Boolean!
+    startCursor: String
+    endCursor: String
+  }
+
+  enum SortOrder {
+    ASC
+    DESC
+  }
+
   # Flashcard types
+  enum CardKind {
+    BASIC
+    CLOZE
+  }
+
   type Flashcard {
     id: ID!
     front: String!
     back: String!
     topic: String!
+    kind: CardKind!
+    tags: [String!]!
     createdAt: DateTime
+    """Heuristic quality score assigned at generation time"""
+    quality: CardQuality
+    """Items scheduled for review: the card itself, or one per deletion for cloze cards"""
+    reviewItems: [ReviewItem!]!
+  }
+
+  """Card quality criteria, each from 0 (bad) to 1 (good)"""
+  type CardQuality {
+    score: Float!
+    atomicity: Float!
+    answerLength: Float!
+    ambiguity: Float!
+    leakage: Float!
+    """Only set when the card was scored against source text"""
+    grounding: Float
+    issues: [String!]!
+  }
+
+  type ReviewItem {
+    id: ID!
+    front: String!
+    back: String!
+    clozeIndex: Int
+  }
+
+  """A saved version of a card; previousFront/previousBack hold the content it replaced"""
+  type CardRevision {
+    id: ID!
+    cardId: ID!
+    version: Int!
+    """created, updated, reverted or deleted"""
+    action: String!
+    """User id, or "ai" for generated content"""
+    editedBy: String!
+    topic: String!
+    front: String!
+    back: String!
+    previousFront: String
+    previousBack: String
+    """For reverts, the revision that was restored"""
+    revertedTo: ID
+    createdAt: Float!
   }
 
   type Deck {
@@ -20,31 +82,234 @@ export const typeDefs = `#graphql
     userId: String
   }
 
+  """LAST_STUDIED is the current user's latest review of a card in the deck"""
+  enum DeckSort {
+    CREATED
+    TOPIC
+    LAST_STUDIED
+  }
+
+  input DeckFilter {
+    """Case-insensitive part of the topic"""
+    topic: String
+    createdAfter: Float
+    createdBefore: Float
+  }
+
+  type DeckEdge {
+    node: Deck!
+    cursor: String!
+  }
+
+  type DeckConnection {
+    edges: [DeckEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  """A level of the deck hierarchy; nested decks use "::" in their topic, e.g. Biology::Cell"""
+  type DeckNode {
+    id: ID!
+    """Last level of the path, e.g. Cell"""
+    name: String!
+    path: String!
+    """Cards directly in this deck"""
+    cardCount: Int!
+    """Cards in this deck and all its subdecks"""
+    totalCardCount: Int!
+    children: [DeckNode!]!
+  }
+
+  type TagCount {
+    tag: String!
+    count: Int!
+  }
+
+  """A named card query the current user can run again"""
+  type SavedSearch {
+    id: ID!
+    name: String!
+    query: String!
+    createdAt: Float!
+  }
+
+  # Spaced repetition types
+  enum ReviewState {
+    DUE
+    NEW
+  }
+
+  type ReviewQueueItem {
+    card: Flashcard!
+    deckId: ID!
+    topic: String!
+    state: ReviewState!
+    dueAt: Float
+  }
+
+  type ReviewQueue {
+    items: [ReviewQueueItem!]!
+    dueCount: Int!
+    newCount: Int!
+    reviewsRemaining: Int!
+    newRemaining: Int!
+  }
+
   # Quiz types
-  type QuizQuestion {
+  enum QuestionKind {
+    MULTIPLE_CHOICE
+    MULTIPLE_SELECT
+    TRUE_FALSE
+    ORDERING
+    SHORT_ANSWER
+  }
+
+  """Pick the one correct option"""
+  type MultipleChoiceQuestion {
     id: ID!
+    kind: QuestionKind!
     question: String!
     options: [String!]!
     correctAnswer: String!
     explanation: String
   }
 
+  """Pick every correct option"""
+  type MultipleSelectQuestion {
+    id: ID!
+    kind: QuestionKind!
+    question: String!
+    options: [String!]!
+    correctAnswers: [String!]!
+    explanation: String
+  }
+
+  """Judge whether the statement in question is true"""
+  type TrueFalseQuestion {
+    id: ID!
+    kind: QuestionKind!
+    question: String!
+    isTrue: Boolean!
+    explanation: String
+  }
+
+  """Put the items, listed shuffled, into the correct order"""
+  type OrderingQuestion {
+    id: ID!
+    kind: QuestionKind!
+    question: String!
+    items: [String!]!
+    correctOrder: [String!]!
+    explanation: String
+  }
+
+  """Type the answer; case, accents and punctuation are ignored when grading"""
+  type ShortAnswerQuestion {
+    id: ID!
+    kind: QuestionKind!
+    question: String!
+    correctAnswer: String!
+    acceptedAnswers: [String!]!
+    explanation: String
+  }
+
+  union QuizQuestion = MultipleChoiceQuestion | MultipleSelectQuestion | TrueFalseQuestion | OrderingQuestion | ShortAnswerQuestion
+
   type Quiz {
     id: ID!
     topic: String!
+    """Empty for exams: their questions are only shown through an exam attempt"""
     questions: [QuizQuestion!]!
+    """standard, or exam for exams, which are taken through the REST exam attempt endpoints"""
     mode: String!
     createdAt: DateTime!
   }
 
+  """How an answer was accepted, or NONE when it was not"""
+  enum GradingMethod {
+    EXACT
+    NORMALIZED
+    SYNONYM
+    FUZZY
+    PARTIAL
+    LLM
+    NONE
+  }
+
+  type AnswerGrade {
+    questionId: ID!
+    correct: Boolean!
+    """0 to 1; typed answers can earn partial credit"""
+    credit: Float!
+    method: GradingMethod!
+    explanation: String!
+  }
+
   type QuizResult {
     quizId: ID!
+    """Fully correct answers"""
     score: Int!
     total: Int!
+    """Sum of the credit per answer, including partial credit"""
+    credit: Float!
     answers: JSON!
+    grades: [AnswerGrade!]!
+    """Milliseconds spent answering, when timings were sent"""
+    timeSpent: Float
     timestamp: Float!
   }
 
+  """LAST_STUDIED and SCORE use the latest attempt"""
+  enum QuizSort {
+    CREATED
+    TOPIC
+    LAST_STUDIED
+    SCORE
+  }
+
+  input QuizFilter {
+    topic: String
+    """flashcards or topic"""
+    source: String
+    attempted: Boolean
+    createdAfter: Float
+    createdBefore: Float
+  }
+
+  type QuizEdge {
+    node: Quiz!
+    cursor: String!
+  }
+
+  type QuizConnection {
+    edges: [QuizEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
+  """SCORE is the fraction answered correctly"""
+  enum QuizResultSort {
+    CREATED
+    TOPIC
+    SCORE
+  }
+
+  input QuizResultFilter {
+    quizId: ID
+    topic: String
+  }
+
+  type QuizResultEdge {
+    node: QuizResult!
+    cursor: String!
+  }
+
+  type QuizResultConnection {
+    edges: [QuizResultEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
   # Job types for async operations
   type Job {
     id: ID!
@@ -54,11 +319,36 @@ export const typeDefs = `#graphql
     progress: Int
   }
 
+  # A job that failed every attempt (admin only)
+  type DeadLetterJob {
+    id: ID!
+    originalJobId: ID!
+    topic: String!
+    userId: String
+    data: JSON!
+    failedReason: String!
+    attemptsMade: Int!
+    failedAt: DateTime!
+  }
+
+  type ReplayedJob {
+    deadLetterId: ID!
+    jobId: ID!
+  }
+
+  input DeadLetterFilter {
+    topic: String
+    userId: String
+    reason: String
+    failedSince: DateTime
+  }
+
   enum JobStatus {
     PENDING
     PROCESSING
     COMPLETED
     FAILED
+    CANCELLED
   }
 
   # Generation types
@@ -86,34 +376,78 @@ export const typeDefs = `#graphql
     front: String!
     back: String!
     topic: String!
+    kind: CardKind = BASIC
+  }
+
+  input CardInput {
+    front: String!
+    back: String!
+    kind: CardKind = BASIC
+    tags: [String!]
+  }
+
+  """Fields to change; omitted fields keep their value"""
+  input CardUpdateInput {
+    front: String
+    back: String
+    kind: CardKind
+    tags: [String!]
   }
 
   input QuizInput {
     cards: [FlashcardInput!]
     topic: String
     count: Int = 5
+    """Question kinds to generate; multiple choice only when omitted"""
+    kinds: [QuestionKind!]
   }
 
+  """Give answer for one option or typed text, choices for multiple-select and ordering"""
   input QuizAnswerInput {
     questionId: ID!
-    answer: String!
+    answer: String
+    choices: [String!]
+    timing: QuestionTimingInput
+  }
+
+  """Time spent on one question; timestamps and timeMs in milliseconds"""
+  input QuestionTimingInput {
+    startedAt: Float
+    answeredAt: Float
+    """Total time on screen, over every visit"""
+    timeMs: Float!
+    """Times a given answer was replaced by a different one"""
+    changes: Int
+    timedOut: Boolean
   }
 
   # Root Query type
   type Query {
     # Flashcards & Decks
-    decks: [Deck!]!
+    decks(first: Int, after: String, sortBy: DeckSort, order: SortOrder, filter: DeckFilter): DeckConnection!
     deck(id: ID!): Deck
     flashcards(topic: String): [Flashcard!]!
+    card(deckId: ID!, id: ID!): Flashcard
+    cardRevisions(cardId: ID!): [CardRevision!]!
+    deckTree: [DeckNode!]!
+    tags: [TagCount!]!
+
+    # Card search, e.g. "deck:Biology tag:enzymes is:due quality>=0.8" (see the API docs for the syntax)
+    searchCards(query: String!): [Flashcard!]!
+    savedSearches: [SavedSearch!]!
+
+    # Spaced repetition: due and new cards across every deck for the current user
+    reviewQueue(newLimit: Int, reviewLimit: Int): ReviewQueue!
     
     # Quizzes
     quiz(id: ID!): Quiz
-    quizHistory: [QuizResult!]!
-    allQuizzes: [Quiz!]!
+    quizHistory(first: Int, after: String, sortBy: QuizResultSort, order: SortOrder, filter: QuizResultFilter): QuizResultConnection!
+    allQuizzes(first: Int, after: String, sortBy: QuizSort, order: SortOrder, filter: QuizFilter): QuizConnection!
     
     # Jobs
     job(id: ID!): Job
     queueStats: JSON
+    deadLetterJobs(filter: DeadLetterFilter, limit: Int): [DeadLetterJob!]!
     
     # Health
     health: JSON!
@@ -125,10 +459,30 @@ export const typeDefs = `#graphql
     generateFlashcards(input: GenerateInput!): GenerateResult!
     createDeck(input: DeckInput!): Deck!
     deleteDeck(id: ID!): Boolean!
+
+    # Single cards (authentication required); move and copy target an existing deck or a topic
+    addCard(deckId: ID!, input: CardInput!): Flashcard!
+    updateCard(deckId: ID!, id: ID!, input: CardUpdateInput!): Flashcard!
+    deleteCard(deckId: ID!, id: ID!): Boolean!
+    moveCards(ids: [ID!]!, toDeckId: ID, toTopic: String): [Flashcard!]!
+    copyCards(ids: [ID!]!, toDeckId: ID, toTopic: String): [Flashcard!]!
+    revertCard(cardId: ID!, revisionId: ID!): Flashcard!
+    tagCards(ids: [ID!]!, add: [String!], remove: [String!]): [Flashcard!]!
+
+    # Saved searches (authentication required); saving under an existing name replaces its query
+    saveSearch(name: String!, query: String!): SavedSearch!
+    deleteSavedSearch(id: ID!): Boolean!
     
     # Quiz operations
     createQuiz(input: QuizInput!): Quiz!
-    submitQuizAnswer(quizId: ID!, answers: [QuizAnswerInput!]!): QuizResult!
+    """With judge, a model decides on typed answers the local grading rules do not fully accept"""
+    submitQuizAnswer(quizId: ID!, answers: [QuizAnswerInput!]!, judge: Boolean = false): QuizResult!
+
+    # Dead-letter queue (admin only)
+    replayDeadLetterJob(id: ID!): ReplayedJob
+    replayDeadLetterJobs(filter: DeadLetterFilter): [ReplayedJob!]!
+    purgeDeadLetterJob(id: ID!): Boolean!
+    purgeDeadLetterJobs(filter: DeadLetterFilter, all: Boolean): Int!
   }
 
   # Subscriptions for real-time updates
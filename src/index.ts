@@ -8,7 +8,12 @@ import { QueueService } from './core/services/QueueService.js';
 import { FlashcardCacheService } from './core/services/FlashcardCacheService.js';
 import { WebLLMService } from './core/services/WebLLMService.js';
 import { QuizStorageService } from './core/services/QuizStorageService.js';
+import { GradingService } from './core/services/GradingService.js';
+import { AdaptiveQuizService } from './core/services/AdaptiveQuizService.js';
+import { ExamService } from './core/services/ExamService.js';
+import { AdapterManager } from './core/services/AdapterManager.js';
 import { FlashcardStorageService } from './core/services/FlashcardStorageService.js';
+import { SpacedRepetitionService } from './core/services/SpacedRepetitionService.js';
 import { RedisService } from './core/services/RedisService.js'; // Import RedisService
 import { SupabaseService } from './core/services/SupabaseService.js';
 import { LocalDbService } from './core/services/LocalDbService.js';
@@ -18,9 +23,16 @@ import { BlobStorageService } from './core/services/BlobStorageService.js';
 import { CacheService } from './core/services/CacheService.js';
 import { WebLLMAdapter } from './adapters/secondary/webllm/index.js';
 import { FileSystemAdapter } from './adapters/secondary/fs/index.js';
+import { JsonDirectoryAdapter } from './adapters/secondary/fs/JsonDirectoryAdapter.js';
+import { LocalDbStorageAdapter } from './adapters/secondary/localdb/index.js';
+import type { StoragePort } from './core/ports/interfaces.js';
+import path from 'path';
 import { MetricsService } from './core/services/MetricsService.js';
 import { MCPClientWrapper } from './adapters/secondary/mcp/MCPClientWrapper.js';
 import { HybridOllamaAdapter } from './adapters/secondary/ollama/HybridOllamaAdapter.js';
+import { AnthropicAdapter } from './adapters/secondary/anthropic/index.js';
+import { GoogleAdapter } from './adapters/secondary/google/index.js';
+import { CustomLLMAdapter } from './adapters/secondary/custom-llm/index.js';
 import { HybridSerperAdapter } from './adapters/secondary/serper/HybridSerperAdapter.js';
 
 dotenv.config();
@@ -72,7 +84,6 @@ logger.info('🗂️  Cache initialized:', {
     redis: !!redisService
 });
 
-const queueService = new QueueService();
 const flashcardCache = new FlashcardCacheService(3600, redisService); // 1 hour TTL
 
 logger.info('🛡️  Resilience services initialized');
@@ -119,8 +130,11 @@ if (isVercelDeployment && !useLocalDb && !useLocalVector) {
 
 // Initialize Domain Services with Persistence
 const localDb = (supabaseService instanceof LocalDbService) ? supabaseService : undefined;
-const quizStorage = new QuizStorageService(localDb);
-const flashcardStorage = new FlashcardStorageService();
+const queueService = new QueueService(undefined, localDb);
+const flashcardStorage = new FlashcardStorageService(supabaseService, vectorService);
+const spacedRepetition = new SpacedRepetitionService(localDb);
+// Serve reviews only once earlier schedules are loaded, so none are overwritten
+await spacedRepetition.ready;
 
 logger.info('💾 Storage services initialized');
 async function initializeMCP(): Promise<MCPClientWrapper | null> {
@@ -169,9 +183,32 @@ const aiAdapters = {
 
 logger.info(`🤖 AI adapters initialized (MCP: ${useMCP ? 'enabled' : 'disabled'}): ${Object.keys(aiAdapters).join(', ')}`);
 
+// Typed quiz answers the local rules reject can be judged by the first available
+// provider in LLM_PRIORITY
+const gradingAdapters = new AdapterManager({
+    ollama: directOllamaAdapter,
+    anthropic: new AnthropicAdapter(),
+    google: new GoogleAdapter(),
+    custom: new CustomLLMAdapter()
+});
+const gradingService = new GradingService(gradingAdapters);
+const quizStorage = new QuizStorageService(localDb, gradingService);
+
 const directSerperAdapter = new SerperAdapter(serperCache);
 const serperAdapter = new HybridSerperAdapter(mcpClient, directSerperAdapter, useMCP);
-const fsAdapter = new FileSystemAdapter();
+
+// Quiz results and deck history: SQLite when the local database is in use, or a
+// JSON directory; STORAGE_BACKEND=memory keeps them in memory (serverless)
+const storageBackend = process.env.STORAGE_BACKEND || (localDb ? 'sqlite' : 'memory');
+let storageAdapter: StoragePort;
+if (storageBackend === 'sqlite' && localDb) {
+    storageAdapter = new LocalDbStorageAdapter(localDb);
+} else if (storageBackend === 'json') {
+    storageAdapter = new JsonDirectoryAdapter(process.env.STORAGE_DIR || path.join(process.cwd(), '.data', 'storage'));
+} else {
+    storageAdapter = new FileSystemAdapter();
+}
+logger.info(`💾 Study history storage: ${storageAdapter.constructor.name}`);
 
 // Create web context cache (24hr TTL for web scraping results)
 const webContextCache = new CacheService<string>({
@@ -181,11 +218,17 @@ const webContextCache = new CacheService<string>({
 });
 logger.info('🌐 Web context cache initialized (24hr TTL)');
 
-const studyService = new StudyService(aiAdapters, serperAdapter, fsAdapter, metricsService, webContextCache);
+const studyService = new StudyService(aiAdapters, serperAdapter, storageAdapter, metricsService, webContextCache);
 logger.info('🎓 Study service initialized with cache-first web search');
 
+// Adaptive quizzes pick questions from stored quizzes and generate more when needed
+const adaptiveQuiz = new AdaptiveQuizService(quizStorage, gradingService, studyService);
+
+// Exams: timed sections drawn from question pools, with attempts kept across restarts
+const exams = new ExamService(quizStorage, localDb);
+
 // Initialize Queue Worker
-queueService.initWorker(async (job) => {
+queueService.initWorker(async (job, signal) => {
     logger.info('Processing job', { jobId: job.id, topic: job.data.topic });
 
     try {
@@ -197,7 +240,11 @@ queueService.initWorker(async (job) => {
             (job.data.mode as 'standard' | 'deep-dive') || 'standard',
             (job.data.knowledgeSource as 'ai-only' | 'web-only' | 'ai-web') || 'ai-web',
             (job.data.runtime as 'ollama' | 'webllm') || 'ollama',
-            job.data.parentTopic
+            job.data.parentTopic,
+            undefined,
+            // Checkpoint pipeline progress under the job id so a retry resumes where this attempt failed;
+            // the signal aborts model and scrape calls when the job is cancelled
+            { checkpointId: String(job.id), signal }
         );
 
         await job.updateProgress(70);
@@ -222,7 +269,9 @@ queueService.initWorker(async (job) => {
                         mode: 'standard',
                         knowledgeSource: job.data.knowledgeSource,
                         runtime: job.data.runtime,
-                        parentTopic: job.data.topic
+                        parentTopic: job.data.topic,
+                        userId: job.data.userId,
+                        priority: 'background'
                     });
                 } catch (err: unknown) {
                     logger.warn('Failed to queue recommended topic', { topic: recommendedTopic });
@@ -234,6 +283,10 @@ queueService.initWorker(async (job) => {
         return result;
     } catch (err) {
         try { await job.updateProgress(0); } catch (_) { /* ignore */ }
+        // A cancelled job is not retried either
+        if (signal?.aborted || (job.attemptsMade ?? 0) + 1 >= (job.opts?.attempts || 1)) {
+            await studyService.discardGenerationCheckpoint(String(job.id)).catch(() => undefined);
+        }
         throw err;
     }
 });
@@ -252,7 +305,8 @@ const server = new ExpressServer(
     supabaseService,
     vectorService,
     blobService,
-    directOllamaAdapter // Pass adapter for warmup functionality
+    directOllamaAdapter, // Pass adapter for warmup functionality
+    { spacedRepetition, adaptiveQuiz, exams }
 );
 
 const PORT = parseInt(process.env.PORT || '3000', 10);
@@ -0,0 +1,178 @@
+import type { AnswerJudgement, AnswerJudgementRequest } from '../core/ports/interfaces.js';
+
+/** Groups of interchangeable phrases; the first of each group is the canonical form. */
+export type SynonymGroups = readonly (readonly string[])[];
+
+export const DEFAULT_SYNONYMS: SynonymGroups = [
+  ['united states', 'usa', 'u s a', 'united states of america'],
+  ['united kingdom', 'uk', 'u k'],
+  ['world war 2', 'world war ii', 'ww2', 'wwii', 'second world war'],
+  ['world war 1', 'world war i', 'ww1', 'wwi', 'first world war'],
+  ['dna', 'deoxyribonucleic acid'],
+  ['rna', 'ribonucleic acid'],
+  ['atp', 'adenosine triphosphate'],
+  ['co2', 'carbon dioxide'],
+  ['h2o', 'water']
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+const SCALE_WORDS: Record<string, number> = { hundred: 100, thousand: 1000, million: 1000000, billion: 1000000000 };
+
+// Unit spellings, canonicalised only right after a number ("5 seconds", not "second world war")
+const UNIT_ALIASES: Record<string, string> = {
+  kilometer: 'km', kilometers: 'km', kilometre: 'km', kilometres: 'km', kms: 'km',
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+  centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm',
+  millimeter: 'mm', millimeters: 'mm', millimetre: 'mm', millimetres: 'mm',
+  mile: 'mi', miles: 'mi',
+  kilogram: 'kg', kilograms: 'kg', kilo: 'kg', kilos: 'kg', kgs: 'kg',
+  gram: 'g', grams: 'g', gramme: 'g', grammes: 'g',
+  milligram: 'mg', milligrams: 'mg',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  second: 's', seconds: 's', sec: 's', secs: 's',
+  minute: 'min', minutes: 'min', mins: 'min',
+  hour: 'h', hours: 'h', hr: 'h', hrs: 'h',
+  year: 'yr', years: 'yr', yrs: 'yr',
+  percent: '%', percentage: '%', pct: '%',
+  degree: 'deg', degrees: 'deg',
+  celsius: 'c', centigrade: 'c', fahrenheit: 'f', kelvin: 'k'
+};
+
+/**
+ * Reduce an answer to a canonical form: case, accents and punctuation are
+ * dropped, number words become digits ("twenty-one" → 21, "1,000" → 1000),
+ * units after a number get one spelling ("5 kilometres" → "5 km") and, with
+ * `synonyms`, every listed phrase becomes its group's first entry.
+ */
+export function canonicalAnswer(text: string, synonyms?: SynonymGroups): string {
+  const cleaned = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/%/g, ' percent ')
+    .replace(/°/g, ' degrees ')
+    .replace(/(\d),(?=\d{3}(?!\d))/g, '$1')
+    // Keep decimal points, drop every other mark
+    .replace(/[^\p{L}\p{N}\s.]/gu, ' ')
+    .replace(/(?<!\d)\.|\.(?!\d)/g, ' ')
+    .replace(/\b(\d+(?:\.\d+)?)(\p{L}+)/gu, '$1 $2');
+
+  const tokens = unitsAfterNumbers(numberWordsToDigits(cleaned.split(/\s+/).filter(Boolean)));
+  if (tokens[0] === 'a' || tokens[0] === 'an' || tokens[0] === 'the') tokens.shift();
+  let canonical = tokens.join(' ');
+
+  if (synonyms) {
+    const replacements = synonyms
+      .flatMap(group => group.slice(1).map(alias => [canonicalAnswer(alias), canonicalAnswer(group[0] ?? '')] as const))
+      .filter(([alias]) => alias !== '')
+      // Longest first, so "united states of america" is not read as "united states" + "of america"
+      .sort((a, b) => b[0].length - a[0].length);
+    for (const [alias, head] of replacements) {
+      canonical = ` ${canonical} `.split(` ${alias} `).join(` ${head} `).trim();
+    }
+  }
+  return canonical;
+}
+
+/** Number of single-character insertions, deletions and substitutions between two strings. */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/** The numbers in a canonical answer; answers that differ in a number never match loosely. */
+export function numbersIn(canonical: string): string[] {
+  return canonical.split(' ').filter(token => /^\d/.test(token));
+}
+
+/** Prompt asking a model to judge an answer, in the JSON `parseAnswerJudgement` reads. */
+export function answerJudgementPrompt(request: AnswerJudgementRequest): string {
+  const accepted = request.acceptedAnswers?.length ? `\nAlso accepted: ${request.acceptedAnswers.map(a => JSON.stringify(a)).join(', ')}` : '';
+  return `You are grading a student's typed answer to a quiz question.
+
+Question: ${request.question}
+Expected answer: ${JSON.stringify(request.expected)}${accepted}
+Student answer: ${JSON.stringify(request.answer)}
+
+Decide whether the student's answer means the same as the expected answer. Ignore spelling, grammar and wording; judge the meaning only.
+- credit 1: equivalent
+- credit 0.5: partly right (e.g. incomplete, or right idea but imprecise)
+- credit 0: wrong, unrelated or contradictory
+
+Return ONLY JSON: {"credit": 0 | 0.5 | 1, "rationale": "one sentence explaining the grade to the student"}`;
+}
+
+/** Read a model's judgement; throws when the reply holds no usable JSON. */
+export function parseAnswerJudgement(text: string): AnswerJudgement {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) throw new Error('No JSON object in the answer judgement');
+  const parsed = JSON.parse(match[0]);
+  const credit = Number(parsed.credit);
+  if (!Number.isFinite(credit)) throw new Error('Answer judgement has no numeric credit');
+  return {
+    credit: Math.min(1, Math.max(0, credit)),
+    rationale: typeof parsed.rationale === 'string' ? parsed.rationale.trim() : ''
+  };
+}
+
+function numberWordsToDigits(tokens: string[]): string[] {
+  const result: string[] = [];
+  let total = 0;
+  let current = 0;
+  let inNumber = false;
+  const flush = () => {
+    if (inNumber) result.push(String(total + current));
+    total = 0;
+    current = 0;
+    inNumber = false;
+  };
+
+  tokens.forEach((token, index) => {
+    if (Object.hasOwn(NUMBER_WORDS, token)) {
+      current += NUMBER_WORDS[token]!;
+      inNumber = true;
+    } else if (Object.hasOwn(SCALE_WORDS, token) && inNumber) {
+      const scale = SCALE_WORDS[token]!;
+      if (scale === 100) {
+        current *= scale;
+      } else {
+        total += current * scale;
+        current = 0;
+      }
+    } else if (token === 'and' && inNumber && Object.hasOwn(NUMBER_WORDS, tokens[index + 1] ?? '')) {
+      // "one hundred and five"
+    } else {
+      flush();
+      // 10.0 and 10 are the same number
+      result.push(/^\d+(\.\d+)?$/.test(token) ? String(Number(token)) : token);
+    }
+  });
+  flush();
+  return result;
+}
+
+function unitsAfterNumbers(tokens: string[]): string[] {
+  return tokens.map((token, index) => {
+    const previous = tokens[index - 1];
+    const unit = Object.hasOwn(UNIT_ALIASES, token) ? UNIT_ALIASES[token] : undefined;
+    return unit && previous !== undefined && (/^\d/.test(previous) || previous === 'degrees' || previous === 'deg') ? unit : token;
+  });
+}
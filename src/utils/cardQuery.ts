@@ -0,0 +1,269 @@
+import type { Flashcard } from '../core/domain/models.js';
+
+/** Separates the levels of a nested deck name, e.g. `Biology::Cell::Mitosis`. */
+export const DECK_SEPARATOR = '::';
+
+/** Trim every level of a deck path and drop empty ones: ` Biology :: Cell ` becomes `Biology::Cell`. */
+export function normalizeDeckPath(path: string): string {
+  return path.split(DECK_SEPARATOR).map(part => part.trim()).filter(Boolean).join(DECK_SEPARATOR);
+}
+
+export function deckPathSegments(path: string): string[] {
+  return normalizeDeckPath(path).split(DECK_SEPARATOR).filter(Boolean);
+}
+
+/** Review state of a card for the searching user. */
+export type CardDueState = 'new' | 'due' | 'scheduled';
+
+export type CardQueryComparison = '=' | '<' | '<=' | '>' | '>=';
+
+export type CardQueryNode =
+  | { type: 'and'; nodes: CardQueryNode[] }
+  | { type: 'or'; nodes: CardQueryNode[] }
+  | { type: 'not'; node: CardQueryNode }
+  | { type: 'term'; field: CardQueryField | null; op: CardQueryComparison | ':'; value: string };
+
+export type CardQueryField = 'tag' | 'deck' | 'is' | 'kind' | 'quality' | 'source' | 'front' | 'back';
+
+/** Card fields a query can look at. */
+export type SearchableCard = Pick<Flashcard, 'id' | 'front' | 'back' | 'topic' | 'kind' | 'tags' | 'source' | 'quality'>;
+
+export interface CardQueryContext {
+  /** Review state of a card; without it `is:due`, `is:new` and `is:scheduled` match nothing. */
+  dueState?: (card: SearchableCard) => CardDueState;
+}
+
+export class CardQueryError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'CardQueryError';
+  }
+}
+
+const FIELDS: readonly CardQueryField[] = ['tag', 'deck', 'is', 'kind', 'quality', 'source', 'front', 'back'];
+const IS_VALUES = ['due', 'new', 'scheduled', 'basic', 'cloze'];
+const TERM_PATTERN = /^([a-z]+)(>=|<=|:|>|<|=)(.*)$/is;
+
+type Token = { kind: 'open' | 'close' | 'or' | 'word'; text: string; negated: boolean; position: number };
+
+/**
+ * Parse a card search, Anki style:
+ *
+ * - bare words match the front or back: `mitochondria "cell wall"`
+ * - `tag:enzymes` (also matches child tags such as `enzymes::kinases`), `tag:none`
+ * - `deck:Biology::Cell` (includes subdecks), `source:*.pdf`, `front:…`, `back:…`; `*` is a wildcard
+ * - `is:due`, `is:new`, `is:scheduled`, `is:cloze`, `kind:basic`
+ * - `quality>=0.8` (also `<`, `<=`, `>`, `=`)
+ *
+ * Terms are combined with AND; `OR`, `-term` (negation) and parentheses group them.
+ * An empty query matches every card.
+ */
+export function parseCardQuery(query: string): CardQueryNode {
+  const tokens = tokenize(query);
+  let index = 0;
+
+  const parseOr = (): CardQueryNode => {
+    const nodes = [parseAnd()];
+    while (tokens[index]?.kind === 'or') {
+      index++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0]! : { type: 'or', nodes };
+  };
+
+  const parseAnd = (): CardQueryNode => {
+    const nodes: CardQueryNode[] = [];
+    for (let token = tokens[index]; token && token.kind !== 'or' && token.kind !== 'close'; token = tokens[index]) {
+      nodes.push(parseUnary());
+    }
+    if (nodes.length === 0) {
+      const token = tokens[index];
+      throw new CardQueryError(token ? `Unexpected "${token.text}"` : 'Query ends where a search term was expected', token?.position ?? query.length);
+    }
+    return nodes.length === 1 ? nodes[0]! : { type: 'and', nodes };
+  };
+
+  const parseUnary = (): CardQueryNode => {
+    const token = tokens[index++]!;
+    let node: CardQueryNode;
+    if (token.kind === 'open') {
+      node = parseOr();
+      if (tokens[index]?.kind !== 'close') {
+        throw new CardQueryError('Missing ")"', tokens[index]?.position ?? query.length);
+      }
+      index++;
+    } else {
+      node = parseTerm(token);
+    }
+    return token.negated ? { type: 'not', node } : node;
+  };
+
+  if (tokens.length === 0) return { type: 'and', nodes: [] };
+  const root = parseOr();
+  if (index < tokens.length) {
+    throw new CardQueryError(`Unexpected "${tokens[index]!.text}"`, tokens[index]!.position);
+  }
+  return root;
+}
+
+export function matchesCardQuery(node: CardQueryNode, card: SearchableCard, context: CardQueryContext = {}): boolean {
+  switch (node.type) {
+    case 'and': return node.nodes.every(child => matchesCardQuery(child, card, context));
+    case 'or': return node.nodes.some(child => matchesCardQuery(child, card, context));
+    case 'not': return !matchesCardQuery(node.node, card, context);
+    case 'term': return matchesTerm(node, card, context);
+  }
+}
+
+function matchesTerm(term: Extract<CardQueryNode, { type: 'term' }>, card: SearchableCard, context: CardQueryContext): boolean {
+  const value = term.value;
+  switch (term.field) {
+    case null: return contains(card.front, value) || contains(card.back, value);
+    case 'front': return contains(card.front, value);
+    case 'back': return contains(card.back, value);
+    case 'tag': {
+      const tags = card.tags ?? [];
+      if (value.toLowerCase() === 'none') return tags.length === 0;
+      return tags.some(tag => matchesGlob(value, tag) || matchesGlob(value + DECK_SEPARATOR + '*', tag));
+    }
+    case 'deck': {
+      const topic = normalizeDeckPath(card.topic || '');
+      const path = normalizeDeckPath(value);
+      return matchesGlob(path, topic) || matchesGlob(path + DECK_SEPARATOR + '*', topic);
+    }
+    case 'kind': return (card.kind || 'basic') === value.toLowerCase();
+    case 'is': {
+      const wanted = value.toLowerCase();
+      if (wanted === 'basic' || wanted === 'cloze') return (card.kind || 'basic') === wanted;
+      return context.dueState?.(card) === wanted;
+    }
+    case 'source': {
+      const filename = card.source?.filename;
+      return filename !== undefined && matchesGlob(value, filename);
+    }
+    case 'quality': {
+      const score = card.quality?.score;
+      if (score === undefined) return false;
+      const threshold = Number(value);
+      switch (term.op) {
+        case '<': return score < threshold;
+        case '<=': return score <= threshold;
+        case '>': return score > threshold;
+        case '>=': return score >= threshold;
+        default: return score === threshold;
+      }
+    }
+  }
+}
+
+function parseTerm(token: Token): CardQueryNode {
+  const match = TERM_PATTERN.exec(token.text);
+  const field = match?.[1]?.toLowerCase() as CardQueryField | undefined;
+  if (!match || !field || !FIELDS.includes(field)) {
+    if (match && match[2] === ':') {
+      throw new CardQueryError(`Unknown field "${match[1]}"; use one of ${FIELDS.join(', ')}`, token.position);
+    }
+    return { type: 'term', field: null, op: ':', value: unquote(token.text) };
+  }
+
+  const op = match[2] as CardQueryComparison | ':';
+  const value = unquote(match[3] ?? '');
+  if (!value) {
+    throw new CardQueryError(`"${field}" needs a value`, token.position);
+  }
+  if (field === 'quality') {
+    const number = Number(value);
+    if (!Number.isFinite(number)) {
+      throw new CardQueryError('quality needs a number, e.g. quality>=0.8', token.position);
+    }
+    return { type: 'term', field, op: op === ':' ? '=' : op, value };
+  }
+  if (op !== ':') {
+    throw new CardQueryError(`"${field}" cannot be compared with ${op}; use ${field}:value`, token.position);
+  }
+  if (field === 'is' && !IS_VALUES.includes(value.toLowerCase())) {
+    throw new CardQueryError(`is: takes one of ${IS_VALUES.join(', ')}`, token.position);
+  }
+  if (field === 'kind' && !['basic', 'cloze'].includes(value.toLowerCase())) {
+    throw new CardQueryError('kind: takes basic or cloze', token.position);
+  }
+  return { type: 'term', field, op, value };
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i]!;
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const position = i;
+    let negated = false;
+    if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]!)) {
+      negated = true;
+      i++;
+    }
+    if (query[i] === '(') {
+      tokens.push({ kind: 'open', text: '(', negated, position });
+      i++;
+      continue;
+    }
+    if (query[i] === ')' && !negated) {
+      tokens.push({ kind: 'close', text: ')', negated, position });
+      i++;
+      continue;
+    }
+
+    // A word runs to whitespace or a parenthesis; quoted parts may contain both
+    let text = '';
+    while (i < query.length && !/[\s()]/.test(query[i]!)) {
+      if (query[i] === '"') {
+        const end = query.indexOf('"', i + 1);
+        if (end < 0) throw new CardQueryError('Missing closing quote', i);
+        text += query.slice(i, end + 1);
+        i = end + 1;
+      } else {
+        text += query[i++];
+      }
+    }
+    if (!text) {
+      throw new CardQueryError(`Unexpected "${query[i] ?? '-'}"`, i);
+    }
+    tokens.push({ kind: text === 'OR' && !negated ? 'or' : 'word', text, negated, position });
+  }
+  return tokens;
+}
+
+function unquote(text: string): string {
+  return text.replace(/"/g, '');
+}
+
+function contains(text: string, value: string): boolean {
+  return matchesGlob(`*${value}*`, text);
+}
+
+/**
+ * Case-insensitive whole-string match where `*` matches anything. Each literal part is
+ * found leftmost-first, so any number of wildcards stays linear (no regex backtracking).
+ */
+function matchesGlob(pattern: string, text: string): boolean {
+  const parts = pattern.toLowerCase().split('*');
+  const subject = text.toLowerCase();
+  if (parts.length === 1) return subject === parts[0];
+
+  const first = parts[0]!;
+  const last = parts[parts.length - 1]!;
+  const end = subject.length - last.length;
+  if (end < first.length || !subject.startsWith(first) || !subject.endsWith(last)) return false;
+
+  let position = first.length;
+  for (const part of parts.slice(1, -1)) {
+    const found = subject.indexOf(part, position);
+    if (found < 0 || found + part.length > end) return false;
+    position = found + part.length;
+  }
+  return true;
+}
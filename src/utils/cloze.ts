@@ -0,0 +1,69 @@
+import type { Flashcard } from '../core/domain/models.js';
+
+// {{c1::answer}} or {{c1::answer::hint}}
+const CLOZE_PATTERN = /\{\{c(\d+)::(.*?)(?:::(.*?))?\}\}/g;
+
+export const CLOZE_BLANK = '[...]';
+
+/**
+ * Distinct cloze numbers used in the text, in ascending order.
+ */
+export function getClozeIndices(text: string): number[] {
+  const indices = new Set<number>();
+  for (const match of (text || '').matchAll(CLOZE_PATTERN)) {
+    indices.add(Number(match[1]));
+  }
+  return Array.from(indices).sort((a, b) => a - b);
+}
+
+export function hasCloze(text: string): boolean {
+  return getClozeIndices(text).length > 0;
+}
+
+export function isClozeCard(card: Pick<Flashcard, 'front' | 'kind'>): boolean {
+  return card.kind === 'cloze' && hasCloze(card.front);
+}
+
+/**
+ * Render the prompt side for one deletion: the target is blanked (or shows its hint),
+ * every other deletion is revealed so the sentence stays readable.
+ */
+export function renderClozeFront(text: string, index: number): string {
+  return text.replace(CLOZE_PATTERN, (_m, n: string, answer: string, hint?: string) =>
+    Number(n) === index ? (hint ? `[${hint}]` : CLOZE_BLANK) : answer
+  );
+}
+
+/**
+ * The hidden answers for one deletion number (a number may be used more than once).
+ */
+export function getClozeAnswers(text: string, index: number): string[] {
+  return Array.from((text || '').matchAll(CLOZE_PATTERN))
+    .filter(match => Number(match[1]) === index)
+    .map(match => match[2] ?? '');
+}
+
+/**
+ * Render the text with every deletion revealed.
+ */
+export function revealCloze(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_m, _n: string, answer: string) => answer);
+}
+
+/**
+ * Expand a card into the items that get reviewed. A basic card is its own review item;
+ * a cloze card yields one item per deletion number with ids like `<cardId>::c2`.
+ */
+export function expandReviewItems<T extends Flashcard>(card: T): T[] {
+  if (!isClozeCard(card)) return [card];
+
+  const revealed = revealCloze(card.front);
+  const extra = card.back && card.back !== revealed ? `\n\n${card.back}` : '';
+  return getClozeIndices(card.front).map(index => ({
+    ...card,
+    id: `${card.id}::c${index}`,
+    front: renderClozeFront(card.front, index),
+    back: revealed + extra,
+    clozeIndex: index
+  }));
+}
@@ -0,0 +1,151 @@
+import type { Flashcard } from '../core/domain/models.js';
+
+/**
+ * A unit of extracted text with the page it came from (PDFs) or without one
+ * (Word, plain text, spreadsheets).
+ */
+export interface DocumentSection {
+  text: string;
+  page?: number;
+}
+
+export interface DocumentChunk {
+  text: string;
+  /** Pages contained in the chunk, with the character offset where each starts. */
+  pages: { page: number; offset: number }[];
+}
+
+const STOP_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'of', 'in', 'on', 'to', 'for', 'with', 'by', 'from', 'at', 'as', 'is', 'are', 'was', 'were', 'be', 'this', 'that', 'these', 'those', 'it', 'its', 'their', 'what', 'which', 'how', 'why', 'who', 'does', 'do']);
+
+function tokens(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(w => w.length > 2 && !STOP_WORDS.has(w))
+  );
+}
+
+/**
+ * Split text at paragraph, then sentence boundaries so no piece exceeds maxChars.
+ */
+function splitText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) return [text];
+
+  const pieces: string[] = [];
+  let current = '';
+  const units = text.split(/\n\s*\n/).flatMap(paragraph =>
+    paragraph.length <= maxChars ? [paragraph] : paragraph.split(/(?<=[.!?])\s+/));
+
+  for (const unit of units) {
+    // A single sentence longer than the budget is hard-wrapped
+    const parts = unit.length <= maxChars
+      ? [unit]
+      : Array.from({ length: Math.ceil(unit.length / maxChars) }, (_, i) => unit.slice(i * maxChars, (i + 1) * maxChars));
+    for (const part of parts) {
+      if (current && current.length + part.length + 2 > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${part}` : part;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Pack consecutive sections into chunks of at most maxChars, remembering which
+ * pages each chunk covers. Oversized sections are split and keep their page.
+ */
+export function chunkSections(sections: readonly DocumentSection[], maxChars: number): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let current: DocumentChunk = { text: '', pages: [] };
+
+  const flush = () => {
+    if (current.text.trim()) chunks.push(current);
+    current = { text: '', pages: [] };
+  };
+
+  for (const section of sections) {
+    for (const piece of splitText(section.text.trim(), maxChars)) {
+      if (!piece.trim()) continue;
+      if (current.text && current.text.length + piece.length + 2 > maxChars) flush();
+
+      const offset = current.text ? current.text.length + 2 : 0;
+      current.text = current.text ? `${current.text}\n\n${piece}` : piece;
+      if (section.page !== undefined && current.pages[current.pages.length - 1]?.page !== section.page) {
+        current.pages.push({ page: section.page, offset });
+      }
+    }
+  }
+  flush();
+  return chunks;
+}
+
+/**
+ * Spread `total` cards over chunks in proportion to their length. Counts follow the
+ * cumulative share of the document, so when there are more chunks than cards the
+ * cards are spaced evenly through it instead of piling onto the first chunks.
+ */
+export function allocateCardCounts(chunks: readonly DocumentChunk[], total: number): number[] {
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  if (totalChars === 0 || total <= 0) return chunks.map(() => 0);
+
+  let cumulative = 0;
+  return chunks.map(chunk => {
+    const before = Math.round((cumulative / totalChars) * total);
+    cumulative += chunk.text.length;
+    const after = Math.round((cumulative / totalChars) * total);
+    return after - before;
+  });
+}
+
+/**
+ * The page within a chunk that best matches the card's wording, or the chunk's
+ * first page when nothing overlaps. Undefined for chunks without page numbers.
+ */
+export function attributePage(chunk: DocumentChunk, card: Pick<Flashcard, 'front' | 'back'>): number | undefined {
+  const first = chunk.pages[0];
+  if (!first) return undefined;
+  if (chunk.pages.length === 1) return first.page;
+
+  const cardTokens = tokens(`${card.front} ${card.back}`);
+  let best = first.page;
+  let bestScore = 0;
+  chunk.pages.forEach((entry, i) => {
+    const end = chunk.pages[i + 1]?.offset ?? chunk.text.length;
+    const pageTokens = tokens(chunk.text.slice(entry.offset, end));
+    let score = 0;
+    cardTokens.forEach(t => { if (pageTokens.has(t)) score++; });
+    if (score > bestScore) {
+      best = entry.page;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Drop cards whose question repeats an earlier one, exactly or with mostly the
+ * same words (Jaccard similarity at or above `threshold`). The first card wins.
+ */
+export function dedupeCards<T extends Pick<Flashcard, 'front'>>(cards: readonly T[], threshold = 0.8): T[] {
+  const kept: { card: T; key: string; tokens: Set<string> }[] = [];
+
+  for (const card of cards) {
+    const key = card.front.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    const cardTokens = tokens(card.front);
+    const duplicate = kept.some(existing => {
+      if (existing.key === key) return true;
+      if (cardTokens.size === 0 || existing.tokens.size === 0) return false;
+      let shared = 0;
+      cardTokens.forEach(t => { if (existing.tokens.has(t)) shared++; });
+      return shared / (cardTokens.size + existing.tokens.size - shared) >= threshold;
+    });
+    if (!duplicate) kept.push({ card, key, tokens: cardTokens });
+  }
+
+  return kept.map(entry => entry.card);
+}
@@ -0,0 +1,132 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Flashcard } from '../core/domain/models.js';
+
+export type GenerationStage = 'searching' | 'scraping' | 'generating' | 'validating';
+
+/**
+ * Progress of a single generation run. `card` events are drafts as the model
+ * produces them; validation, grounding and quality checks may still drop or
+ * replace them, so the final result is authoritative.
+ */
+export type GenerationEvent =
+  | { type: 'stage'; stage: GenerationStage; step: string }
+  | { type: 'card'; card: Flashcard };
+
+export type GenerationListener = (event: GenerationEvent) => void;
+
+/** What a generation run carries through the async context. */
+export interface GenerationContext {
+  listener?: GenerationListener;
+  /** Aborts the run, e.g. when its queue job is cancelled. */
+  signal?: AbortSignal;
+}
+
+// The context travels with the async call chain, so adapters deep in the pipeline
+// can report progress and honour cancellation without every port method growing
+// callback and signal parameters
+const contexts = new AsyncLocalStorage<GenerationContext>();
+
+/** Run `work` with the given listener and/or signal, keeping the rest of the outer context. */
+export function withGenerationContext<T>(context: GenerationContext, work: () => Promise<T>): Promise<T> {
+  const outer = contexts.getStore();
+  return contexts.run({ ...outer, ...stripUndefined(context) }, work);
+}
+
+/** Run `work` with `listener` receiving the events emitted anywhere inside it. */
+export function withGenerationEvents<T>(listener: GenerationListener, work: () => Promise<T>): Promise<T> {
+  return withGenerationContext({ listener }, work);
+}
+
+/** Whether the current run has a listener, i.e. whether streaming is worth the effort. */
+export function isObservingGeneration(): boolean {
+  return contexts.getStore()?.listener !== undefined;
+}
+
+/** The abort signal of the current run, if it can be cancelled. */
+export function generationSignal(): AbortSignal | undefined {
+  return contexts.getStore()?.signal;
+}
+
+export function emitGenerationEvent(event: GenerationEvent): void {
+  const listener = contexts.getStore()?.listener;
+  if (!listener) return;
+  try {
+    listener(event);
+  } catch {
+    // A failing listener (e.g. a closed connection) must not fail the generation
+  }
+}
+
+/**
+ * Run `work` and report how many card events it emitted, so callers can emit
+ * the result themselves when the adapter does not stream.
+ */
+export async function countStreamedCards<T>(work: () => Promise<T>): Promise<{ result: T; streamed: number }> {
+  const outer = contexts.getStore()?.listener;
+  if (!outer) return { result: await work(), streamed: 0 };
+
+  let streamed = 0;
+  const result = await withGenerationEvents(event => {
+    if (event.type === 'card') streamed++;
+    outer(event);
+  }, work);
+  return { result, streamed };
+}
+
+function stripUndefined(context: GenerationContext): GenerationContext {
+  const result: GenerationContext = {};
+  if (context.listener) result.listener = context.listener;
+  if (context.signal) result.signal = context.signal;
+  return result;
+}
+
+/**
+ * Incrementally pulls complete JSON objects out of a streamed JSON document.
+ * Only objects that are elements of an array are returned, which covers both
+ * `[{...}, {...}]` and wrappers such as `{"flashcards": [{...}]}`.
+ */
+export class JsonArrayItemStream {
+  private buffer = '';
+  private position = 0;
+  private stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+  private itemStart = -1;
+  private itemDepth = -1;
+
+  push(chunk: string): unknown[] {
+    this.buffer += chunk;
+    const items: unknown[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (char === '{' && this.itemStart < 0 && this.stack[this.stack.length - 1] === '[') {
+          this.itemStart = this.position;
+          this.itemDepth = this.stack.length;
+        }
+        this.stack.push(char);
+      } else if (char === '}' || char === ']') {
+        this.stack.pop();
+        if (char === '}' && this.itemStart >= 0 && this.stack.length === this.itemDepth) {
+          try {
+            items.push(JSON.parse(this.buffer.slice(this.itemStart, this.position + 1)));
+          } catch {
+            // Malformed item; the parse of the full response decides what to do with it
+          }
+          this.itemStart = -1;
+        }
+      }
+    }
+    return items;
+  }
+}
@@ -0,0 +1,110 @@
+// Allowlist sanitizer for card HTML that comes from outside (shared Anki packages).
+// Cards are rendered with innerHTML, so anything not listed here is dropped.
+
+const ALLOWED_TAGS = new Set([
+  'a', 'audio', 'b', 'blockquote', 'br', 'code', 'div', 'em', 'font', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr',
+  'i', 'img', 'li', 'ol', 'p', 'pre', 'rp', 'rt', 'ruby', 's', 'small', 'span', 'strong', 'sub', 'sup',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+]);
+
+// Dropped together with everything inside them
+const DROPPED_WITH_CONTENT = new Set(['script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript', 'svg', 'math', 'textarea', 'title']);
+
+const ALLOWED_ATTRIBUTES: Record<string, readonly string[]> = {
+  '*': ['class', 'title', 'dir', 'lang'],
+  a: ['href'],
+  audio: ['src', 'controls'],
+  font: ['color'],
+  img: ['src', 'alt', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan']
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+// Comments, tags (quoted values may not contain '<', which keeps matching linear) and stray '<'
+const TOKEN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][\w-]*)((?:"[^"<]*"|'[^'<]*'|[^'"<>])*)>|</g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', colon: ':', tab: '\t', newline: '\n' };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(?:#x([0-9a-f]+)|#(\d+)|([a-z]+));?/gi, (match, hex?: string, dec?: string, name?: string) => {
+    if (name) return NAMED_ENTITIES[name.toLowerCase()] ?? match;
+    const code = hex ? parseInt(hex, 16) : Number(dec);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+  });
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Relative URLs, http(s) and inline images or audio; never javascript: or other schemes.
+ */
+function isSafeUrl(value: string): boolean {
+  // Browsers ignore whitespace and control characters inside the scheme
+  const compact = value.replace(/[\u0000- ]/g, '');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(compact)?.[1]?.toLowerCase();
+  if (!scheme) return true;
+  if (scheme === 'http' || scheme === 'https') return true;
+  return scheme === 'data' && /^data:(?:image\/(?:png|jpe?g|gif|webp|bmp|svg\+xml)|audio\/[a-z0-9.+-]+);/i.test(compact);
+}
+
+function sanitizeAttributes(tag: string, source: string): string {
+  const allowed = [...ALLOWED_ATTRIBUTES['*']!, ...(ALLOWED_ATTRIBUTES[tag] ?? [])];
+  let attributes = '';
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1]!.toLowerCase();
+    if (!allowed.includes(name)) continue;
+    const raw = match[2] ?? match[3] ?? match[4];
+    if (raw === undefined) {
+      attributes += ` ${name}`;
+      continue;
+    }
+    const value = decodeEntities(raw);
+    if (URL_ATTRIBUTES.has(name) && !isSafeUrl(value)) continue;
+    attributes += ` ${name}="${escapeAttribute(value)}"`;
+  }
+  return attributes;
+}
+
+/**
+ * Keep formatting, images and audio from untrusted HTML; drop scripts, event handlers,
+ * styles and unsafe URLs. Text is kept as is.
+ */
+export function sanitizeHtml(html: string): string {
+  const source = html || '';
+  let output = '';
+  let last = 0;
+  let skipping: string | null = null;
+
+  for (const match of source.matchAll(TOKEN)) {
+    const [token, closing, rawName, rawAttributes] = match;
+    const index = match.index!;
+    if (!skipping) output += source.slice(last, index);
+    last = index + token.length;
+
+    if (token === '<') {
+      if (!skipping) output += '&lt;';
+      continue;
+    }
+    if (!rawName) continue; // comment
+
+    const tag = rawName.toLowerCase();
+    if (skipping) {
+      if (closing && tag === skipping) skipping = null;
+      continue;
+    }
+    if (DROPPED_WITH_CONTENT.has(tag)) {
+      if (!closing && !/\/\s*$/.test(rawAttributes ?? '')) skipping = tag;
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) continue;
+    output += closing ? `</${tag}>` : `<${tag}${sanitizeAttributes(tag, rawAttributes ?? '')}>`;
+  }
+
+  if (!skipping) output += source.slice(last);
+  return output;
+}
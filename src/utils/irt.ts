@@ -0,0 +1,142 @@
+/**
+ * Item response theory with the two-parameter logistic (2PL) model: a learner of
+ * ability θ answers an item correctly with probability 1 / (1 + e^(-a(θ - b))),
+ * where b is the item's difficulty and a its discrimination. Abilities and
+ * difficulties share one logit scale, clamped to ±4.
+ */
+
+export interface ItemParameters {
+  /** Ability with an even chance of answering correctly. */
+  difficulty: number;
+  /** How sharply the item separates learners just below its difficulty from those just above. */
+  discrimination: number;
+}
+
+/** One answer: the item and the credit it earned, from 0 (wrong) to 1 (correct). */
+export interface ItemResponse {
+  item: ItemParameters;
+  credit: number;
+}
+
+export interface AbilityEstimate {
+  theta: number;
+  /** Posterior standard deviation of `theta`; it shrinks as answers add information. */
+  standardError: number;
+}
+
+export const DEFAULT_ITEM: ItemParameters = { difficulty: 0, discrimination: 1 };
+
+const MAX_LOGIT = 4;
+const MIN_DISCRIMINATION = 0.2;
+const MAX_DISCRIMINATION = 3;
+// Priors that keep items answered only a few times near their starting parameters
+const DIFFICULTY_PRIOR_SD = 1;
+const LOG_DISCRIMINATION_PRIOR_SD = 0.5;
+
+// Quadrature points for the ability posterior
+const THETA_GRID = Array.from({ length: 81 }, (_, index) => -MAX_LOGIT + index * 0.1);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export function probabilityCorrect(theta: number, item: ItemParameters): number {
+  return 1 / (1 + Math.exp(-item.discrimination * (theta - item.difficulty)));
+}
+
+/** Fisher information an item gives about a learner of ability `theta`. */
+export function itemInformation(theta: number, item: ItemParameters): number {
+  const p = probabilityCorrect(theta, item);
+  return item.discrimination ** 2 * p * (1 - p);
+}
+
+/**
+ * Expected a posteriori ability from `responses` and a normal prior. Partial
+ * credit counts as that fraction of a correct answer. Unlike a maximum
+ * likelihood estimate it stays finite when every answer is right (or wrong).
+ */
+export function estimateAbility(
+  responses: readonly ItemResponse[],
+  prior: { mean: number; sd: number } = { mean: 0, sd: 1 }
+): AbilityEstimate {
+  const mean = clamp(prior.mean, -MAX_LOGIT, MAX_LOGIT);
+  const logPosterior = THETA_GRID.map(theta => responses.reduce((sum, { item, credit }) => {
+    const p = probabilityCorrect(theta, item);
+    return sum + credit * Math.log(p) + (1 - credit) * Math.log(1 - p);
+  }, -((theta - mean) ** 2) / (2 * prior.sd ** 2)));
+
+  const peak = Math.max(...logPosterior);
+  const weights = logPosterior.map(value => Math.exp(value - peak));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const theta = THETA_GRID.reduce((sum, point, index) => sum + point * weights[index]!, 0) / total;
+  const variance = THETA_GRID.reduce((sum, point, index) => sum + (point - theta) ** 2 * weights[index]!, 0) / total;
+  return { theta, standardError: Math.sqrt(variance) };
+}
+
+/**
+ * Fit one item to answers from learners of known ability, by Fisher scoring on
+ * the posterior; `prior` is where an item with few answers stays.
+ */
+export function calibrateItem(
+  responses: readonly { theta: number; credit: number }[],
+  prior: ItemParameters = DEFAULT_ITEM
+): ItemParameters {
+  let a = prior.discrimination;
+  let b = prior.difficulty;
+  for (let iteration = 0; iteration < 25; iteration++) {
+    let gradientA = -Math.log(a / prior.discrimination) / (a * LOG_DISCRIMINATION_PRIOR_SD ** 2);
+    let gradientB = -(b - prior.difficulty) / DIFFICULTY_PRIOR_SD ** 2;
+    let infoAA = 1 / (a * LOG_DISCRIMINATION_PRIOR_SD) ** 2;
+    let infoBB = 1 / DIFFICULTY_PRIOR_SD ** 2;
+    let infoAB = 0;
+    for (const { theta, credit } of responses) {
+      const p = probabilityCorrect(theta, { difficulty: b, discrimination: a });
+      const pq = p * (1 - p);
+      gradientA += (credit - p) * (theta - b);
+      gradientB -= (credit - p) * a;
+      infoAA += (theta - b) ** 2 * pq;
+      infoBB += a ** 2 * pq;
+      infoAB -= a * (theta - b) * pq;
+    }
+
+    const determinant = infoAA * infoBB - infoAB ** 2;
+    if (determinant <= 0) break;
+    const stepA = (infoBB * gradientA - infoAB * gradientB) / determinant;
+    const stepB = (infoAA * gradientB - infoAB * gradientA) / determinant;
+    a = clamp(a + stepA, MIN_DISCRIMINATION, MAX_DISCRIMINATION);
+    b = clamp(b + stepB, -MAX_LOGIT, MAX_LOGIT);
+    if (Math.abs(stepA) < 1e-4 && Math.abs(stepB) < 1e-4) break;
+  }
+  return { difficulty: b, discrimination: a };
+}
+
+/**
+ * Calibrate every item from many sets of answers (one per quiz attempt, credit
+ * by item id), alternating between estimating each attempt's ability and
+ * fitting each item to those abilities. Items without answers keep their prior.
+ */
+export function calibrateItems(
+  attempts: readonly Readonly<Record<string, number>>[],
+  priors: Readonly<Record<string, ItemParameters>>,
+  rounds = 5
+): Record<string, ItemParameters> {
+  let items: Record<string, ItemParameters> = { ...priors };
+  const itemOf = (id: string) => items[id] ?? DEFAULT_ITEM;
+
+  for (let round = 0; round < rounds; round++) {
+    const abilities = attempts.map(credits =>
+      estimateAbility(Object.entries(credits).map(([id, credit]) => ({ item: itemOf(id), credit }))).theta);
+
+    const answers = new Map<string, { theta: number; credit: number }[]>();
+    attempts.forEach((credits, index) => {
+      for (const [id, credit] of Object.entries(credits)) {
+        answers.set(id, [...answers.get(id) ?? [], { theta: abilities[index]!, credit }]);
+      }
+    });
+
+    const next: Record<string, ItemParameters> = { ...priors };
+    answers.forEach((responses, id) => {
+      next[id] = calibrateItem(responses, priors[id] ?? DEFAULT_ITEM);
+    });
+    items = next;
+  }
+  return items;
+}
@@ -0,0 +1,161 @@
+import type { Deck } from '../core/domain/models.js';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export type SortOrder = 'asc' | 'desc';
+
+/** Relay-style page request: up to `first` items after the item the `after` cursor points at. */
+export interface PageArgs {
+  first?: number;
+  after?: string;
+}
+
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor: string | null;
+  endCursor: string | null;
+}
+
+export interface Connection<T> {
+  edges: Array<{ node: T; cursor: string }>;
+  pageInfo: PageInfo;
+  /** Items matching the filters, across all pages. */
+  totalCount: number;
+}
+
+export type SortValue = string | number | undefined;
+
+/** How a list is ordered: by `key` (missing values last), ties broken by `id`. */
+export interface SortSpec<T> {
+  key: (item: T) => SortValue;
+  id: (item: T) => string;
+  order: SortOrder;
+}
+
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+/**
+ * Sort `items` and return the page after `args.after`.
+ *
+ * Cursors hold the sort value and id of an item rather than its position, so a
+ * page boundary stays put when items before it are added or removed. A cursor
+ * is only meaningful with the sort it was issued for.
+ */
+export function paginate<T>(items: T[], sort: SortSpec<T>, args: PageArgs = {}): Connection<T> {
+  const first = args.first ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(first) || first < 0 || first > MAX_PAGE_SIZE) {
+    throw new PaginationError(`first must be an integer from 0 to ${MAX_PAGE_SIZE}`);
+  }
+
+  const position = (item: T): Position => [sort.key(item), sort.id(item)];
+  const sorted = [...items].sort((a, b) => comparePositions(position(a), position(b), sort.order));
+  const after = args.after ? decodeCursor(args.after) : null;
+  const start = after ? sorted.findIndex(item => comparePositions(position(item), after, sort.order) > 0) : 0;
+  const from = start < 0 ? sorted.length : start;
+  const edges = sorted.slice(from, from + first).map(node => ({ node, cursor: encodeCursor(position(node)) }));
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: from + first < sorted.length,
+      hasPreviousPage: from > 0,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges.at(-1)?.cursor ?? null
+    },
+    totalCount: sorted.length
+  };
+}
+
+/** Validate a requested sort key against the ones a list supports. */
+export function sortKeyOf<K extends string>(value: string | undefined, keys: readonly K[], fallback: K): K {
+  if (value === undefined) return fallback;
+  if (!(keys as readonly string[]).includes(value)) {
+    throw new PaginationError(`sortBy must be one of ${keys.join(', ')}`);
+  }
+  return value as K;
+}
+
+export type DeckSortKey = 'created' | 'topic' | 'lastStudied';
+export const DECK_SORT_KEYS: readonly DeckSortKey[] = ['created', 'topic', 'lastStudied'];
+
+export interface DeckListQuery extends PageArgs {
+  /** Defaults to `created`, newest first. */
+  sortBy?: DeckSortKey;
+  order?: SortOrder;
+  /** Case-insensitive part of the topic. */
+  topic?: string;
+  createdAfter?: number;
+  createdBefore?: number;
+  /** When the requesting user last reviewed a card of the deck; decks without one sort last. */
+  lastStudied?: (deck: Deck) => number | undefined;
+}
+
+/** Filter, sort and page decks; shared by the deck stores. */
+export function pageDecks<T extends Deck>(decks: T[], query: DeckListQuery = {}): Connection<T> {
+  const sortBy = sortKeyOf(query.sortBy, DECK_SORT_KEYS, 'created');
+  const topic = query.topic?.toLowerCase();
+  const matching = decks.filter(deck =>
+    (!topic || deck.topic.toLowerCase().includes(topic)) &&
+    (query.createdAfter === undefined || deck.timestamp >= query.createdAfter) &&
+    (query.createdBefore === undefined || deck.timestamp < query.createdBefore));
+
+  const keys: Record<DeckSortKey, (deck: T) => SortValue> = {
+    created: deck => deck.timestamp,
+    topic: deck => deck.topic.toLowerCase(),
+    lastStudied: deck => query.lastStudied?.(deck)
+  };
+  return paginate(matching, {
+    key: keys[sortBy],
+    id: deck => deck.id,
+    order: query.order ?? (sortBy === 'topic' ? 'asc' : 'desc')
+  }, query);
+}
+
+/**
+ * `DeckListQuery.lastStudied` from per-card review times, which are only
+ * looked up once a deck is actually sorted by them.
+ */
+export function deckLastStudied(reviewTimes: () => Map<string, number>): (deck: Deck) => number | undefined {
+  let times: Map<string, number> | undefined;
+  return deck => {
+    times ??= reviewTimes();
+    const last = Math.max(0, ...deck.cards.map(card => times!.get(card.id) ?? 0));
+    return last || undefined;
+  };
+}
+
+type Position = [SortValue, string];
+
+function comparePositions([aKey, aId]: Position, [bKey, bId]: Position, order: SortOrder): number {
+  if (aKey !== bKey) {
+    if (aKey === undefined) return 1;
+    if (bKey === undefined) return -1;
+    const byKey = aKey < bKey ? -1 : 1;
+    return order === 'asc' ? byKey : -byKey;
+  }
+  return aId < bId ? -1 : aId > bId ? 1 : 0;
+}
+
+function encodeCursor(position: Position): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): Position {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(position) && position.length === 2 && typeof position[1] === 'string' &&
+      (position[0] === null || typeof position[0] === 'string' || typeof position[0] === 'number')) {
+      return [position[0] ?? undefined, position[1]];
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new PaginationError('Invalid cursor');
+}
@@ -0,0 +1,222 @@
+import type { QuestionTiming, QuizQuestion } from '../core/domain/models.js';
+import type { QuestionKind } from '../core/domain/types.js';
+
+export const QUESTION_KINDS: readonly QuestionKind[] = ['multiple-choice', 'multiple-select', 'true-false', 'ordering', 'short-answer'];
+
+/** One option or typed text, or several options (multiple-select) or every item in order (ordering). */
+export type QuizAnswer = string | readonly string[];
+
+/** Question fields the grading rules look at. */
+export type GradableQuestion = Pick<QuizQuestion, 'kind' | 'correctAnswer' | 'correctAnswers' | 'acceptedAnswers'>;
+
+const KIND_ALIASES: Record<string, QuestionKind> = {
+  'multiple-choice': 'multiple-choice',
+  'mcq': 'multiple-choice',
+  'single-choice': 'multiple-choice',
+  'multiple-select': 'multiple-select',
+  'multi-select': 'multiple-select',
+  'multiple-answer': 'multiple-select',
+  'true-false': 'true-false',
+  'true/false': 'true-false',
+  'boolean': 'true-false',
+  'ordering': 'ordering',
+  'order': 'ordering',
+  'sequence': 'ordering',
+  'short-answer': 'short-answer',
+  'free-text': 'short-answer',
+  'open': 'short-answer'
+};
+
+export function questionKind(question: Pick<QuizQuestion, 'kind'>): QuestionKind {
+  return question.kind ?? 'multiple-choice';
+}
+
+/**
+ * Whether `answer` is correct:
+ *
+ * - multiple-choice: the exact option
+ * - true-false: true/false, t/f or yes/no in any case
+ * - multiple-select: exactly the correct options, in any order
+ * - ordering: every item, in the correct order
+ * - short-answer: the answer or an accepted alternative, ignoring case, accents,
+ *   punctuation, extra spaces and a leading "a", "an" or "the"
+ */
+export function gradeAnswer(question: GradableQuestion, answer: QuizAnswer | null | undefined): boolean {
+  if (answer === null || answer === undefined) return false;
+  switch (questionKind(question)) {
+    case 'multiple-choice':
+      return typeof answer === 'string' && answer.trim() === question.correctAnswer.trim();
+    case 'true-false': {
+      const given = typeof answer === 'string' ? parseTruth(answer) : undefined;
+      return given !== undefined && given === parseTruth(question.correctAnswer);
+    }
+    case 'multiple-select': {
+      const given = new Set(answerList(answer));
+      const expected = new Set((question.correctAnswers ?? []).map(item => item.trim()));
+      return given.size === expected.size && [...given].every(item => expected.has(item));
+    }
+    case 'ordering': {
+      const given = answerList(answer);
+      const expected = question.correctAnswers ?? [];
+      return given.length === expected.length && given.every((item, index) => item === expected[index]!.trim());
+    }
+    case 'short-answer': {
+      const given = typeof answer === 'string' ? normalizeText(answer) : '';
+      return given !== '' && [question.correctAnswer, ...question.acceptedAnswers ?? []].some(accepted => normalizeText(accepted) === given);
+    }
+  }
+}
+
+/** A submitted answer as text, for results and history. */
+export function formatAnswer(question: Pick<QuizQuestion, 'kind'>, answer: QuizAnswer | null | undefined): string {
+  if (answer === null || answer === undefined) return '';
+  if (typeof answer === 'string') return answer;
+  return answer.join(questionKind(question) === 'ordering' ? ' → ' : ', ');
+}
+
+/**
+ * Answers by question id. Older attempts stored them as an array in question
+ * order, some giving the chosen option's index; null marks a skipped question.
+ */
+export function answersByQuestionId(
+  answers: unknown,
+  questions: readonly Pick<QuizQuestion, 'id' | 'options'>[]
+): Record<string, QuizAnswer> {
+  const byId: Record<string, QuizAnswer> = {};
+  questions.forEach((question, index) => {
+    const given: unknown = Array.isArray(answers) ? answers[index] : (answers as Record<string, unknown> | null | undefined)?.[question.id];
+    const answer = typeof given === 'number' ? question.options[given] : given;
+    if (typeof answer === 'string' || (Array.isArray(answer) && answer.every(item => typeof item === 'string'))) {
+      byId[question.id] = answer;
+    }
+  });
+  return byId;
+}
+
+/** Longest time an answer is credited with, whatever the client's timer said. */
+export const MAX_QUESTION_TIME_MS = 60 * 60 * 1000;
+
+/**
+ * A client's timing for one question, or undefined when it is unusable. `timeMs`
+ * is capped at `maxMs`, such as the time since the quiz was served.
+ */
+export function normalizeQuestionTiming(raw: unknown, maxMs = MAX_QUESTION_TIME_MS): QuestionTiming | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { startedAt, answeredAt, timeMs, changes, timedOut } = raw as Record<string, unknown>;
+  const count = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  if (!count(timeMs)) return undefined;
+  return {
+    ...(count(startedAt) ? { startedAt: startedAt as number } : {}),
+    ...(count(answeredAt) ? { answeredAt: answeredAt as number } : {}),
+    timeMs: Math.round(Math.max(0, Math.min(timeMs as number, maxMs, MAX_QUESTION_TIME_MS))),
+    changes: count(changes) ? Math.floor(changes as number) : 0,
+    timedOut: timedOut === true
+  };
+}
+
+/**
+ * Turn a question as a model wrote it into a `QuizQuestion`, or null when it is
+ * unusable. Accepts `kind` or `type`, correct options given as text or index,
+ * true-false answers as booleans, and ordering items listed in the correct order.
+ */
+export function normalizeQuizQuestion(raw: any, id: string): QuizQuestion | null {
+  const question = typeof raw?.question === 'string' ? raw.question.trim() : '';
+  if (!question) return null;
+  const kind = KIND_ALIASES[String(raw.kind ?? raw.type ?? 'multiple-choice').toLowerCase().replace(/[_\s]+/g, '-')] ?? 'multiple-choice';
+  const base = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : id,
+    kind,
+    question,
+    ...(typeof raw.explanation === 'string' && raw.explanation ? { explanation: raw.explanation } : {})
+  };
+  const options = stringList(raw.options);
+  const pick = (value: unknown): string | undefined =>
+    typeof value === 'number' ? options[value] : typeof value === 'string' ? options.find(option => option === value.trim()) : undefined;
+
+  switch (kind) {
+    case 'multiple-choice': {
+      // A correct answer missing from the options is added to them
+      const correctAnswer = pick(raw.correctAnswer) ?? (typeof raw.correctAnswer === 'string' ? raw.correctAnswer.trim() : '');
+      const choices = options.includes(correctAnswer) ? options : [...options, correctAnswer];
+      return correctAnswer && choices.length >= 2 ? { ...base, options: choices, correctAnswer } : null;
+    }
+    case 'true-false': {
+      const truth = typeof raw.correctAnswer === 'boolean' ? raw.correctAnswer : parseTruth(String(raw.correctAnswer ?? raw.answer ?? ''));
+      return truth === undefined ? null : { ...base, options: ['True', 'False'], correctAnswer: truth ? 'True' : 'False' };
+    }
+    case 'multiple-select': {
+      const given: unknown[] = Array.isArray(raw.correctAnswers) ? raw.correctAnswers : Array.isArray(raw.correctAnswer) ? raw.correctAnswer : [];
+      const correctAnswers = [...new Set(given.map(pick))];
+      if (options.length < 2 || correctAnswers.length === 0 || correctAnswers.some(answer => answer === undefined)) return null;
+      return { ...base, options, correctAnswers: correctAnswers as string[], correctAnswer: correctAnswers.join(', ') };
+    }
+    case 'ordering': {
+      const correctAnswers = stringList(raw.items ?? raw.correctOrder ?? raw.correctAnswers);
+      if (correctAnswers.length < 2 || new Set(correctAnswers).size !== correctAnswers.length) return null;
+      return { ...base, options: shuffledOrder(correctAnswers), correctAnswers, correctAnswer: correctAnswers.join(' → ') };
+    }
+    case 'short-answer': {
+      const correctAnswer = typeof raw.correctAnswer === 'string' ? raw.correctAnswer.trim() : '';
+      const acceptedAnswers = stringList(raw.acceptedAnswers);
+      if (!correctAnswer) return null;
+      return { ...base, options: [], correctAnswer, ...(acceptedAnswers.length ? { acceptedAnswers } : {}) };
+    }
+  }
+}
+
+/** Prompt lines asking a model for the given question kinds in the JSON `normalizeQuizQuestion` reads. */
+export function questionKindsPrompt(kinds: readonly QuestionKind[]): string {
+  const formats: Record<QuestionKind, string> = {
+    'multiple-choice': '{"kind": "multiple-choice", "question": "...", "options": ["4 options"], "correctAnswer": "the correct option"}',
+    'multiple-select': '{"kind": "multiple-select", "question": "... (select all that apply)", "options": ["4 to 6 options"], "correctAnswers": ["every correct option, at least one"]}',
+    'true-false': '{"kind": "true-false", "question": "a statement to judge", "correctAnswer": true}',
+    'ordering': '{"kind": "ordering", "question": "Put these in order: ...", "items": ["3 to 6 items in the CORRECT order"]}',
+    'short-answer': '{"kind": "short-answer", "question": "...", "correctAnswer": "a short answer of 1-4 words", "acceptedAnswers": ["other correct spellings or synonyms"]}'
+  };
+  return [
+    `QUESTION TYPES: use ${kinds.length > 1 ? `a mix of ${kinds.join(', ')}` : `only ${kinds[0]}`} questions.`,
+    'Give every question a "kind" and use the matching JSON shape (add "explanation" to any of them):',
+    ...kinds.map(kind => `- ${formats[kind]}`)
+  ].join('\n');
+}
+
+/** Collapse text for short-answer comparison. */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(a|an|the) /, '');
+}
+
+function parseTruth(text: string): boolean | undefined {
+  const value = text.trim().toLowerCase();
+  if (['true', 't', 'yes'].includes(value)) return true;
+  if (['false', 'f', 'no'].includes(value)) return false;
+  return undefined;
+}
+
+function answerList(answer: QuizAnswer): string[] {
+  return (typeof answer === 'string' ? [answer] : [...answer]).map(item => item.trim());
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+    : [];
+}
+
+/** The items in random order, never the correct one. */
+function shuffledOrder(items: string[]): string[] {
+  const shuffled = [...items];
+  do {
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+    }
+  } while (shuffled.every((item, index) => item === items[index]));
+  return shuffled;
+}
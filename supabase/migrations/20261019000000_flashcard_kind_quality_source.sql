@@ -0,0 +1,7 @@
+-- Columns SupabaseService.storeFlashcards writes besides id, topic, front, back and created_at:
+-- the card kind (basic or cloze), its quality score and the document it was generated from.
+alter table public.flashcards
+    add column if not exists kind text not null default 'basic',
+    add column if not exists quality_score real,
+    add column if not exists source_type text,
+    add column if not exists source_name text;
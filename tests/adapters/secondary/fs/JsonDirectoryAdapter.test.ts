@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { JSON_STORAGE_VERSION, JsonDirectoryAdapter } from '../../../../src/adapters/secondary/fs/JsonDirectoryAdapter.js';
+
+const deck = (id: string, topic: string, timestamp: number) => ({ id, topic, timestamp, cards: [{ id: `${id}-1`, front: 'Q', back: 'A', topic }] });
+const result = (id: string, score: number) => ({ id, topic: 'Biology', score, total: 5, timestamp: 1000, results: [] });
+
+describe('JsonDirectoryAdapter', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'json-storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps quiz results and decks across restarts, replacing by id', async () => {
+    const storage = new JsonDirectoryAdapter(directory);
+    await Promise.all([storage.saveDeck(deck('d1', 'Biology', 100)), storage.saveDeck(deck('d2', 'Chemistry', 200))]);
+    await storage.saveDeck({ ...deck('d1', 'Biology', 100), topic: 'Cell biology' });
+    await storage.saveQuizResult(result('r1', 4));
+
+    const restarted = new JsonDirectoryAdapter(directory);
+    expect((await restarted.getDeckHistory()).map(d => d.topic)).toEqual(['Cell biology', 'Chemistry']);
+    expect(await restarted.getDeck('d2')).toEqual(expect.objectContaining({ topic: 'Chemistry' }));
+    expect((await restarted.listDecks({ first: 1 })).edges.map(edge => edge.node.id)).toEqual(['d2']);
+    expect(await restarted.getQuizHistory()).toEqual([result('r1', 4)]);
+    await expect(fs.readdir(directory)).resolves.toEqual(['deck-history.json', 'quiz-history.json']);
+  });
+
+  it('upgrades a bare array and refuses files from a newer version', async () => {
+    await fs.writeFile(path.join(directory, 'deck-history.json'), JSON.stringify([deck('d1', 'Biology', 100)]));
+    await fs.writeFile(path.join(directory, 'quiz-history.json'), JSON.stringify({ version: JSON_STORAGE_VERSION + 1, items: [] }));
+    const storage = new JsonDirectoryAdapter(directory);
+
+    await storage.saveDeck(deck('d2', 'Chemistry', 200));
+    const written = JSON.parse(await fs.readFile(path.join(directory, 'deck-history.json'), 'utf8'));
+
+    expect(written).toEqual({ version: JSON_STORAGE_VERSION, items: [deck('d1', 'Biology', 100), deck('d2', 'Chemistry', 200)] });
+    await expect(storage.getQuizHistory()).rejects.toThrow('written by a newer version');
+  });
+
+  it('reads a file again after a failed read', async () => {
+    const file = path.join(directory, 'quiz-history.json');
+    await fs.writeFile(file, '{ "version": 1, "items": [');
+    const storage = new JsonDirectoryAdapter(directory);
+    await expect(storage.getQuizHistory()).rejects.toThrow();
+
+    await fs.writeFile(file, JSON.stringify({ version: JSON_STORAGE_VERSION, items: [result('r1', 4)] }));
+
+    expect(await storage.getQuizHistory()).toEqual([result('r1', 4)]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from '@jest/globals';
+import { LocalDbStorageAdapter } from '../../../../src/adapters/secondary/localdb/index.js';
+import { LocalDbService } from '../../../../src/core/services/LocalDbService.js';
+
+const deck = (id: string, topic: string, timestamp: number) => ({ id, topic, timestamp, cards: [] });
+
+describe('LocalDbStorageAdapter', () => {
+  it('keeps quiz results and deck history for an adapter created later on the same database', async () => {
+    // In memory when SQLite is unavailable; either way shared by both adapters
+    const db = new LocalDbService(':memory:');
+    const storage = new LocalDbStorageAdapter(db);
+    await storage.saveDeck(deck('d2', 'Chemistry', 200));
+    await storage.saveDeck(deck('d1', 'Biology', 100));
+    await storage.saveQuizResult({ id: 'r1', topic: 'Biology', score: 3, total: 4, timestamp: 300, results: [] });
+
+    const restarted = new LocalDbStorageAdapter(db);
+
+    expect((await restarted.getDeckHistory()).map(d => d.id)).toEqual(['d1', 'd2']);
+    expect(await restarted.getDeck('d1')).toEqual(deck('d1', 'Biology', 100));
+    expect(await restarted.getDeck('missing')).toBeNull();
+    expect((await restarted.listDecks({ sortBy: 'topic' })).edges.map(edge => edge.node.topic)).toEqual(['Biology', 'Chemistry']);
+    expect(await restarted.getQuizHistory()).toEqual([expect.objectContaining({ id: 'r1', score: 3 })]);
+  });
+});
@@ -1,6 +1,8 @@
 import {beforeEach, describe, expect, it, jest} from '@jest/globals';
 import axios from 'axios';
 import {OllamaAdapter} from '../../../../src/adapters/secondary/ollama/index.js';
+import {withGenerationEvents} from '../../../../src/utils/generationEvents.js';
+import type {GenerationEvent} from '../../../../src/utils/generationEvents.js';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -49,6 +51,65 @@ describe('OllamaAdapter', () => {
     });
   });
   
+  describe('generateFlashcardsFromText', () => {
+    it('should map cloze items to cloze cards', async () => {
+      axiosPostSpy.mockResolvedValue({
+        data: {
+          response: JSON.stringify([
+            {question: 'Q1?', answer: 'A1'},
+            {cloze: 'The {{c1::mitochondria}} produce {{c2::ATP}}.'}
+          ])
+        }
+      });
+
+      const result = await adapter.generateFlashcardsFromText('source', 'biology', 2);
+
+      expect(result[0]).toEqual(expect.objectContaining({front: 'Q1?', back: 'A1'}));
+      expect(result[1]).toEqual(expect.objectContaining({
+        kind: 'cloze',
+        front: 'The {{c1::mitochondria}} produce {{c2::ATP}}.',
+        back: 'The mitochondria produce ATP.'
+      }));
+    });
+
+    it('should stream each card as soon as its object is complete when observed', async () => {
+      const text = JSON.stringify([{question: 'Q1?', answer: 'A1'}, {question: 'Q2?', answer: 'A2 {with} "braces"'}]);
+      // Ollama's NDJSON chunks, split mid-object and mid-line
+      const lines = [text.slice(0, 20), text.slice(20, 40), text.slice(40)]
+        .map(response => JSON.stringify({response, done: false}) + '\n')
+        .join('') + JSON.stringify({response: '', done: true});
+      const events: GenerationEvent[] = [];
+      const seen: number[] = [];
+      axiosPostSpy.mockResolvedValue({
+        data: (async function* () {
+          for (let i = 0; i < lines.length; i += 25) {
+            yield Buffer.from(lines.slice(i, i + 25));
+            seen.push(events.length);
+          }
+        })()
+      });
+
+      const result = await withGenerationEvents(event => events.push(event), () =>
+        adapter.generateFlashcardsFromText('source', 'biology', 2));
+
+      expect(axiosPostSpy.mock.calls[0][1]).toEqual(expect.objectContaining({stream: true}));
+      expect(axiosPostSpy.mock.calls[0][2]).toEqual(expect.objectContaining({responseType: 'stream'}));
+      expect(events.map(e => e.type === 'card' && e.card.front)).toEqual(['Q1?', 'Q2?']);
+      // The first card was reported before the response finished
+      expect(seen.some(count => count === 1)).toBe(true);
+      expect(result.map(card => card.id)).toEqual(events.map(e => e.type === 'card' && e.card.id));
+      expect(result[1]?.back).toBe('A2 {with} "braces"');
+    });
+
+    it('should not stream when nobody is observing', async () => {
+      axiosPostSpy.mockResolvedValue({data: {response: JSON.stringify([{question: 'Q1?', answer: 'A1'}])}});
+
+      await adapter.generateFlashcardsFromText('source', 'biology', 1);
+
+      expect(axiosPostSpy.mock.calls[0][1]).toEqual(expect.objectContaining({stream: false}));
+    });
+  });
+  
   describe('generateQuizFromFlashcards', () => {
     it('should construct prompt with flashcards', async () => {
       const flashcards = [{id: '1', front: 'Front', back: 'Back', topic: 'Test'}];
@@ -218,13 +218,25 @@ const SKIP_SANDBOX = process.env.SANDBOX !== 'false';
             const response = await request(app)
                 .post(`/api/quiz/${quizId}/submit`)
                 .send({
-                    answers: [0, 0] // Likely wrong
+                    answers: ['wrong', 'wrong']
                 });
 
             expect(response.status).toBe(200);
             expect(response.body.score).toBeGreaterThanOrEqual(0);
         });
 
+        it('should reject answers that are not text or lists of options', async () => {
+            const createResponse = await request(app)
+                .post('/api/quiz')
+                .send({ topic: 'Test', numQuestions: 2 });
+
+            const response = await request(app)
+                .post(`/api/quiz/${createResponse.body.quizId}/submit`)
+                .send({ answers: [0, { option: 'A' }] });
+
+            expect(response.status).toBe(400);
+        });
+
         it('should return 404 for non-existent quiz', async () => {
             const response = await request(app)
                 .post('/api/quiz/non-existent/submit')
@@ -203,4 +203,53 @@ describe('QuizStorageService', () => {
             expect(allQuizzes.find(q => q.id === quiz.id)).toEqual(quiz);
         });
     });
+
+    describe('listQuizzes and listAttempts', () => {
+        const store = (id: string, topic: string, createdAt: number, source: 'flashcards' | 'topic' = 'topic') =>
+            service.storeQuiz({ id, topic, source, createdAt, questions: [] });
+        const attempt = (id: string, quizId: string, score: number, timestamp: number) =>
+            service.storeAttempt({ id, quizId, score, total: 4, timestamp, answers: {} });
+
+        beforeEach(() => {
+            store('q1', 'Biology', 1000);
+            store('q2', 'Algebra', 2000, 'flashcards');
+            store('q3', 'Chemistry', 3000);
+            attempt('a1', 'q1', 1, 5000);
+            attempt('a2', 'q1', 4, 6000);
+            attempt('a3', 'q3', 2, 5500);
+        });
+
+        const ids = (page: { edges: Array<{ node: { id: string } }> }) => page.edges.map(edge => edge.node.id);
+
+        it('lists newest first and pages with cursors', () => {
+            const first = service.listQuizzes({ first: 2 });
+            expect(ids(first)).toEqual(['q3', 'q2']);
+            expect(first.pageInfo.hasNextPage).toBe(true);
+            expect(first.totalCount).toBe(3);
+
+            const second = service.listQuizzes({ first: 2, after: first.pageInfo.endCursor! });
+            expect(ids(second)).toEqual(['q1']);
+            expect(second.pageInfo).toEqual(expect.objectContaining({ hasNextPage: false, hasPreviousPage: true }));
+            expect(second.edges[0]!.node.createdAt).toBeInstanceOf(Date);
+        });
+
+        it('sorts by the latest attempt, leaving unattempted quizzes last, and filters', () => {
+            expect(ids(service.listQuizzes({ sortBy: 'score' }))).toEqual(['q1', 'q3', 'q2']);
+            expect(ids(service.listQuizzes({ sortBy: 'lastStudied', order: 'asc' }))).toEqual(['q3', 'q1', 'q2']);
+            expect(ids(service.listQuizzes({ sortBy: 'topic' }))).toEqual(['q2', 'q1', 'q3']);
+            expect(ids(service.listQuizzes({ attempted: false }))).toEqual(['q2']);
+            expect(ids(service.listQuizzes({ source: 'topic', topic: 'bio' }))).toEqual(['q1']);
+        });
+
+        it('lists attempts across quizzes', () => {
+            expect(ids(service.listAttempts())).toEqual(['a2', 'a3', 'a1']);
+            expect(ids(service.listAttempts({ sortBy: 'score', order: 'asc' }))).toEqual(['a1', 'a3', 'a2']);
+            expect(ids(service.listAttempts({ topic: 'chem' }))).toEqual(['a3']);
+        });
+
+        it('rejects unknown sort keys and malformed cursors', () => {
+            expect(() => service.listQuizzes({ sortBy: 'popularity' as never })).toThrow('sortBy must be one of');
+            expect(() => service.listAttempts({ after: 'not-a-cursor' })).toThrow('Invalid cursor');
+        });
+    });
 });
@@ -12,7 +12,8 @@ const mockAiAdapter: jest.Mocked<AIServicePort> = {
   generateQuizFromFlashcards: jest.fn(),
   generateSummary: jest.fn(),
   generateSearchQuery: jest.fn(),
-  generateSubTopics: jest.fn()
+  generateSubTopics: jest.fn(),
+  judgeAnswer: jest.fn()
 };
 const mockSearchAdapter: jest.Mocked<SearchServicePort> = {
   search: jest.fn()
@@ -23,6 +24,7 @@ const mockStorageAdapter: jest.Mocked<StoragePort> = {
   getQuizHistory: jest.fn(),
   saveDeck: jest.fn(),
   getDeckHistory: jest.fn(),
+  listDecks: jest.fn(),
   getDeck: jest.fn()
 };
 
@@ -70,6 +72,42 @@ describe('StudyService', () => {
       expect(mockAiAdapter.generateFlashcards).toHaveBeenCalledWith('test topic', 5, undefined);
       expect(result.cards).toHaveLength(5); // enforceCardCount pads to requested count
     });
+
+    it('scores cards and regenerates the ones below the quality threshold', async () => {
+      mockAiAdapter.generateFlashcards
+        .mockResolvedValueOnce([
+          { id: 'good', front: 'What gas do plants release during photosynthesis?', back: 'Oxygen', topic: 'plants' },
+          { id: 'leaky', front: 'Is chlorophyll the green pigment in chlorophyll-rich leaves?', back: 'Chlorophyll', topic: 'plants' }
+        ])
+        .mockResolvedValueOnce([
+          { id: 'fresh', front: 'Which organelle performs photosynthesis?', back: 'The chloroplast', topic: 'plants' }
+        ]);
+
+      const result = await studyService.generateFlashcards('plants', 2, 'standard', 'ai-only');
+
+      expect(mockAiAdapter.generateFlashcards).toHaveBeenCalledTimes(2);
+      expect(mockAiAdapter.generateFlashcards).toHaveBeenLastCalledWith('plants', 1, undefined);
+      expect(result.cards.map(c => c.front)).toEqual([
+        'What gas do plants release during photosynthesis?',
+        'Which organelle performs photosynthesis?'
+      ]);
+      expect(result.cards.every(c => (c.quality?.score ?? 0) >= 0.6)).toBe(true);
+    });
+
+    it('reports stages and draft cards to an onEvent listener', async () => {
+      mockAiAdapter.generateFlashcards.mockResolvedValue([
+        { id: 'c1', front: 'What gas do plants release during photosynthesis?', back: 'Oxygen', topic: 'plants' }
+      ]);
+      const events: any[] = [];
+
+      await studyService.generateFlashcards('plants', 1, 'standard', 'ai-only', 'ollama', undefined, undefined, {
+        onEvent: event => events.push(event)
+      });
+
+      expect(events.map(e => e.type === 'stage' ? e.step : `card:${e.card.id}`)).toEqual(
+        ['generate', 'card:c1', 'validate', 'ground', 'dedup', 'quality']
+      );
+    });
   });
 
   describe('generateQuiz', () => {
@@ -91,7 +129,7 @@ describe('StudyService', () => {
 
       await studyService.generateQuiz('test', 5);
 
-      expect(mockAiAdapter.generateAdvancedQuiz).toHaveBeenCalledWith({ topic: 'test', wrongAnswers: [] }, 'harder', undefined, undefined);
+      expect(mockAiAdapter.generateAdvancedQuiz).toHaveBeenCalledWith({ topic: 'test', wrongAnswers: [] }, 'harder', undefined, undefined, undefined);
     });
   });
 
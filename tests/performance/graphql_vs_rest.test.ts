@@ -135,7 +135,7 @@ const SKIP_SANDBOX = process.env.SANDBOX !== 'false';
                         .post('/graphql')
                         .set('Authorization', `Bearer ${validToken}`)
                         .send({
-                            query: '{ decks { id topic } }'
+                            query: '{ decks { edges { node { id topic } } } }'
                         });
                 },
                 50,
@@ -209,7 +209,7 @@ const SKIP_SANDBOX = process.env.SANDBOX !== 'false';
                             query: `
                 {
                   health
-                  decks { id topic }
+                  decks { edges { node { id topic } } }
                   job(id: "perf-job-123") { id status }
                 }
               `
@@ -60,4 +60,44 @@ describe('DeckModel', () => {
       expect(eventBus.emit).toHaveBeenCalledWith('card:changed', expect.objectContaining({id: '2'}));
     });
   });
+  
+  describe('setCards', () => {
+    it('expands cloze cards into one card per deletion', () => {
+      deckModel.setCards([
+        {id: '1', front: 'F1', back: 'B1'},
+        {id: '2', front: '{{c1::Paris}} is the capital of {{c2::France}}', back: 'Paris is the capital of France', kind: 'cloze'}
+      ]);
+
+      expect(deckModel.cards.map(c => c.id)).toEqual(['1', '2::c1', '2::c2']);
+      expect(deckModel.cards[2]).toEqual(expect.objectContaining({kind: 'cloze', clozeIndex: 2}));
+    });
+  });
+
+  describe('prioritizeDueCards', () => {
+    it('reorders cards using the server schedule', async () => {
+      apiPostSpy.mockResolvedValue({cardIds: ['2', '1']});
+      deckModel.setCards([
+        {id: '1', front: 'Front 1', back: 'Back 1'},
+        {id: '2', front: 'Front 2', back: 'Back 2'}
+      ]);
+      
+      await deckModel.prioritizeDueCards();
+      
+      expect(apiPostSpy).toHaveBeenCalledWith('/reviews/prioritize', {cardIds: ['1', '2']});
+      expect(deckModel.cards.map((c: any) => c.id)).toEqual(['2', '1']);
+      expect(eventBus.emit).toHaveBeenCalledWith('card:changed', expect.objectContaining({id: '2'}));
+    });
+    
+    it('keeps the original order when the response does not match the deck', async () => {
+      apiPostSpy.mockResolvedValue({cardIds: ['2']});
+      deckModel.setCards([
+        {id: '1', front: 'Front 1', back: 'Back 1'},
+        {id: '2', front: 'Front 2', back: 'Back 2'}
+      ]);
+      
+      await deckModel.prioritizeDueCards();
+      
+      expect(deckModel.cards.map((c: any) => c.id)).toEqual(['1', '2']);
+    });
+  });
 });
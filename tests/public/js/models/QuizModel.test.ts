@@ -37,4 +37,108 @@ describe('QuizModel', () => {
       expect(result.results[1].correct).toBe(false);
     });
   });
+
+  describe('question kinds and timing', () => {
+    it('grades every kind and sends the time spent on each question with the quiz id', async () => {
+      jest.useFakeTimers({now: 1000});
+      const submitQuiz = jest.spyOn(apiService, 'submitQuiz').mockResolvedValue({id: 'attempt-1'});
+      quizModel.startQuiz([
+        {id: 'ms', kind: 'multiple-select', question: 'Primes?', options: ['2', '3', '4'], correctAnswer: '2', correctAnswers: ['2', '3']},
+        {id: 'sa', kind: 'short-answer', question: 'Powerhouse?', correctAnswer: 'Mitochondria'}
+      ], 'standard', 'Biology', 0, 'quiz-1');
+
+      quizModel.answerQuestion('ms', ['3', '2']);
+      jest.advanceTimersByTime(4000);
+      quizModel.nextQuestion();
+      quizModel.answerQuestion('sa', ' mitochondria ');
+      jest.advanceTimersByTime(2000);
+      const result = await quizModel.submitQuiz();
+      jest.useRealTimers();
+
+      expect(result.score).toBe(2);
+      expect(result.results[0].userAnswer).toBe('3, 2');
+      expect(result.timeSpent).toBe(6000);
+      expect(submitQuiz).toHaveBeenCalledWith('quiz-1', expect.objectContaining({
+        results: [
+          expect.objectContaining({timing: expect.objectContaining({timeMs: 4000, changes: 0})}),
+          expect.objectContaining({timing: expect.objectContaining({timeMs: 2000})})
+        ]
+      }));
+    });
+  });
+
+  describe('exam mode', () => {
+    const attempt = (overrides: Record<string, unknown> = {}): any => ({
+      id: 'attempt-1',
+      quizId: 'exam-1',
+      topic: 'Biology',
+      status: 'in-progress',
+      sections: [{id: 's0', title: 'Cells', status: 'open'}, {id: 's1', title: 'Genes', status: 'pending'}],
+      currentSection: 0,
+      questions: [{id: 'q1', question: 'A?', options: ['a', 'b']}],
+      answers: {q1: 'a'},
+      remainingSeconds: 60,
+      ...overrides
+    });
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('resumes saved answers, moves section by section and grades only after the last one', async () => {
+      jest.spyOn(apiService, 'startExam').mockResolvedValue(attempt());
+      const nextSection = jest.spyOn(apiService, 'nextExamSection').mockResolvedValue(attempt({
+        currentSection: 1,
+        questions: [{id: 'q2', question: 'B?', options: ['c', 'd']}],
+        answers: {},
+        remainingSeconds: null
+      }));
+      const submitExam = jest.spyOn(apiService, 'submitExam').mockResolvedValue(attempt({
+        status: 'submitted',
+        currentSection: null,
+        questions: [],
+        result: {score: 1, total: 2},
+        review: [
+          {id: 'q1', question: 'A?', options: ['a', 'b'], answer: 'a', correctAnswer: 'a', grade: {correct: true}},
+          {id: 'q2', question: 'B?', options: ['c', 'd'], answer: 'd', correctAnswer: 'c', grade: {correct: false}}
+        ]
+      }));
+
+      await quizModel.startExam('exam-1');
+      expect(localStorage.getItem('examAttemptId')).toBe('attempt-1');
+      expect(quizModel.answers).toEqual({q1: 'a'});
+      expect(quizModel.timeLimit).toBe(60);
+
+      expect(await quizModel.submitQuiz()).toBeNull();
+      expect(nextSection).toHaveBeenCalledWith('attempt-1', [{questionId: 'q1', answer: 'a'}]);
+      expect(quizModel.questions[0].id).toBe('q2');
+      expect(quizModel.timerInterval).toBeNull();
+
+      quizModel.answerQuestion('q2', 'd');
+      const result = await quizModel.submitQuiz();
+      expect(submitExam).toHaveBeenCalledWith('attempt-1', [{questionId: 'q2', answer: 'd'}]);
+      expect(result.score).toBe(1);
+      expect(result.results.map((r: any) => r.correct)).toEqual([true, false]);
+      expect(quizModel.exam).toBeNull();
+      expect(localStorage.getItem('examAttemptId')).toBeNull();
+    });
+
+    it('resumes only an attempt that is still in progress', async () => {
+      const getAttempt = jest.spyOn(apiService, 'getExamAttempt');
+      expect(await quizModel.resumeExam()).toBe(false);
+      expect(getAttempt).not.toHaveBeenCalled();
+
+      localStorage.setItem('examAttemptId', 'attempt-1');
+      getAttempt.mockResolvedValue(attempt({status: 'submitted'}));
+      expect(await quizModel.resumeExam()).toBe(false);
+      expect(localStorage.getItem('examAttemptId')).toBeNull();
+
+      localStorage.setItem('examAttemptId', 'attempt-1');
+      getAttempt.mockResolvedValue(attempt());
+      expect(await quizModel.resumeExam()).toBe(true);
+      expect(quizModel.mode).toBe('exam');
+      quizModel.stopTimer();
+    });
+  });
 });
+
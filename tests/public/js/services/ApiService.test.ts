@@ -207,3 +207,22 @@ describe('ApiService', () => {
     });
   });
 });
+
+describe('ApiService list paging', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('follows the page cursor until the last page', async () => {
+    const apiService = new ApiService();
+    const getSpy = jest.spyOn(apiService, 'get')
+      .mockResolvedValueOnce({ history: [{ id: 'a' }, { id: 'b' }], pageInfo: { hasNextPage: true, endCursor: 'cursor-b' }, totalCount: 3 })
+      .mockResolvedValueOnce({ history: [{ id: 'c' }], pageInfo: { hasNextPage: false, endCursor: 'cursor-c' }, totalCount: 3 });
+
+    const result = await apiService.getAllPages('/decks', 'history');
+
+    expect(getSpy).toHaveBeenNthCalledWith(1, '/decks?first=100');
+    expect(getSpy).toHaveBeenNthCalledWith(2, '/decks?first=100&after=cursor-b');
+    expect(result).toEqual(expect.objectContaining({ history: [{ id: 'a' }, { id: 'b' }, { id: 'c' }], totalCount: 3 }));
+  });
+});
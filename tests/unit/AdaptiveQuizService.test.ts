@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { AdaptiveQuizError, AdaptiveQuizService } from '../../src/core/services/AdaptiveQuizService.js';
+import { QuizStorageService } from '../../src/core/services/QuizStorageService.js';
+import type { QuizQuestion } from '../../src/core/services/QuizStorageService.js';
+
+const question = (id: string, difficulty: 'easy' | 'medium' | 'hard'): QuizQuestion =>
+  ({ id, question: `${difficulty} ${id}?`, options: ['right', 'wrong'], correctAnswer: 'right', difficulty });
+
+const bank = [
+  question('e1', 'easy'), question('e2', 'easy'), question('e3', 'easy'),
+  question('m1', 'medium'), question('m2', 'medium'), question('m3', 'medium'),
+  question('h1', 'hard'), question('h2', 'hard'), question('h3', 'hard')
+];
+
+describe('AdaptiveQuizService', () => {
+  let storage: QuizStorageService;
+
+  beforeEach(() => {
+    storage = new QuizStorageService();
+    storage.storeQuiz({ id: 'bio', topic: 'Biology', questions: bank, source: 'topic', createdAt: 1 });
+  });
+
+  it('starts at the question most informative for the learner\'s history', async () => {
+    const service = new AdaptiveQuizService(storage, undefined, undefined, { maxQuestions: 5 });
+    const session = await service.startSession({ topic: 'biology' });
+
+    expect(session.status).toBe('active');
+    expect(session.priorAbility).toBeCloseTo(0);
+    expect(session.question?.id).toMatch(/^m/);
+    expect(session.question).not.toHaveProperty('correctAnswer');
+  });
+
+  it('moves to harder questions after right answers and easier ones after wrong answers', async () => {
+    const service = new AdaptiveQuizService(storage, undefined, undefined, { maxQuestions: 9 });
+    const strong = await service.startSession({ topic: 'Biology' });
+    for (let i = 0; i < 2; i++) {
+      await service.answer(strong.id, strong.question!.id, 'right');
+    }
+    expect(strong.ability.theta).toBeGreaterThan(0);
+    expect(strong.question?.id).toMatch(/^h/);
+
+    const weak = await service.startSession({ topic: 'Biology' });
+    for (let i = 0; i < 2; i++) {
+      await service.answer(weak.id, weak.question!.id, 'wrong');
+    }
+    expect(weak.ability.theta).toBeLessThan(0);
+    expect(weak.question?.id).toMatch(/^e/);
+  });
+
+  it('ends once the estimate converges and stores the session as an attempt', async () => {
+    const service = new AdaptiveQuizService(storage, undefined, undefined, { targetStandardError: 0.9, minQuestions: 2, maxQuestions: 9 });
+    const session = await service.startSession({ topic: 'Biology' });
+    let answered = 0;
+    while (session.status === 'active') {
+      const result = await service.answer(session.id, session.question!.id, answered % 2 ? 'wrong' : 'right');
+      expect(result?.grade.credit).toBe(answered % 2 ? 0 : 1);
+      answered++;
+    }
+
+    expect(session.endReason).toBe('converged');
+    expect(session.ability.standardError).toBeLessThanOrEqual(0.9);
+    expect(session.responses).toHaveLength(answered);
+    const [attempt] = storage.getAttempts(session.id);
+    expect(attempt).toEqual(expect.objectContaining({ total: answered, score: Math.ceil(answered / 2) }));
+    expect(Object.keys(attempt!.grades!)).toEqual(session.responses.map(response => response.questionId));
+  });
+
+  it('starts later sessions from the ability shown in the learner\'s own earlier attempts', async () => {
+    storage.storeAttempt({
+      id: 'a1', quizId: 'bio', userId: 'ada', timestamp: 1, score: 9, total: 9,
+      answers: Object.fromEntries(bank.map(q => [q.id, 'right']))
+    });
+    const service = new AdaptiveQuizService(storage);
+    const session = await service.startSession({ topic: 'Biology', userId: 'ada' });
+    expect(session.priorAbility).toBeGreaterThan(0.5);
+    expect(session.question?.id).toMatch(/^h/);
+
+    expect((await service.startSession({ topic: 'Biology', userId: 'bob' })).priorAbility).toBe(0);
+    expect((await service.startSession({ topic: 'Biology' })).priorAbility).toBe(0);
+  });
+
+  it('keeps a learner\'s session and its attempt to that learner', async () => {
+    const service = new AdaptiveQuizService(storage, undefined, undefined, { maxQuestions: 1 });
+    const session = await service.startSession({ topic: 'Biology', userId: 'ada' });
+
+    expect(service.getSession(session.id)).toBeUndefined();
+    expect(service.getSession(session.id, 'bob')).toBeUndefined();
+    expect(await service.answer(session.id, session.question!.id, 'right', undefined, 'bob')).toBeNull();
+
+    await service.answer(session.id, session.question!.id, 'right', undefined, 'ada');
+    expect(service.getSession(session.id, 'ada')?.status).toBe('completed');
+    expect(storage.getAttempts(session.id)[0]?.userId).toBe('ada');
+  });
+
+  it('never asks questions from an exam\'s pool', async () => {
+    storage.storeQuiz({
+      id: 'exam', topic: 'Geology', questions: [question('x1', 'medium')], source: 'topic', createdAt: 1,
+      exam: { sections: [{ id: 's1', title: 'Rocks', timeLimitSeconds: 0, questionIds: ['x1'] }], shuffleQuestions: false, shuffleOptions: false }
+    });
+    const service = new AdaptiveQuizService(storage);
+    const session = await service.startSession({ topic: 'Geology' });
+
+    expect(session).toEqual(expect.objectContaining({ status: 'completed', endReason: 'out-of-questions', question: null }));
+  });
+
+  it('generates questions when none left are informative', async () => {
+    const generateAdvancedQuiz = jest.fn(async (..._args: unknown[]) => [
+      { id: 'x', question: 'New question?', options: ['a', 'b'], correctAnswer: 'a' }
+    ]);
+    const service = new AdaptiveQuizService(storage, undefined, { generateAdvancedQuiz }, { maxQuestions: 2 });
+    const session = await service.startSession({ topic: 'Chemistry' });
+
+    expect(generateAdvancedQuiz).toHaveBeenCalledWith(expect.objectContaining({ topic: 'Chemistry' }), 'harder', undefined);
+    expect(session.question?.question).toBe('New question?');
+    expect(storage.getQuizzesByTopic('Chemistry')).toHaveLength(1);
+  });
+
+  it('ends without questions and rejects answers out of turn', async () => {
+    const service = new AdaptiveQuizService(storage);
+    const empty = await service.startSession({ topic: 'Chemistry' });
+    expect(empty).toEqual(expect.objectContaining({ status: 'completed', endReason: 'out-of-questions', question: null }));
+    await expect(service.answer(empty.id, 'e1', 'right')).rejects.toThrow(AdaptiveQuizError);
+
+    const session = await service.startSession({ topic: 'Biology' });
+    await expect(service.answer(session.id, 'not-current', 'right')).rejects.toThrow('Answer the current question first');
+    expect(await service.answer('missing', 'e1', 'right')).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import JSZip from 'jszip';
+import { AnkiPackageService, AnkiPackageError } from '../../src/core/services/AnkiPackageService.js';
+
+// better-sqlite3 is an optional dependency; round-trip tests need it
+// @ts-ignore - optional dependency not installed in all environments
+const HAS_SQLITE = await import('better-sqlite3').then(() => true, () => false);
+
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+
+describe('AnkiPackageService', () => {
+  const service = new AnkiPackageService();
+
+  it('rejects files that are not zip archives', async () => {
+    await expect(service.importPackage(Buffer.from('not a zip'))).rejects.toBeInstanceOf(AnkiPackageError);
+  });
+
+  it('rejects packages without a legacy collection', async () => {
+    const zip = new JSZip();
+    zip.file('collection.anki21b', 'zstd data');
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    await expect(service.importPackage(buffer)).rejects.toThrow(/Support older Anki versions/);
+  });
+
+  (HAS_SQLITE ? describe : describe.skip)('round trip', () => {
+    it('keeps basic and cloze cards, tags and media', async () => {
+      const buffer = await service.exportPackage({
+        topic: 'Biology::Cells',
+        cards: [
+          { id: '1', front: 'What makes ATP?', back: 'Mitochondria', topic: 'Biology', tags: ['cells'] },
+          { id: '2', front: 'The {{c1::nucleus}} stores {{c2::DNA}}.', back: 'The nucleus stores DNA.', topic: 'Biology', kind: 'cloze' },
+          { id: '3', front: `<div><img src="data:image/png;base64,${PIXEL_PNG}"></div>`, back: 'A pixel', topic: 'Biology' }
+        ]
+      });
+
+      const zip = await JSZip.loadAsync(buffer);
+      expect(JSON.parse(await zip.file('media')!.async('string'))).toEqual({ '0': 'mindflip-0.png' });
+
+      const [deck] = await service.importPackage(buffer);
+      expect(deck?.topic).toBe('Biology::Cells');
+      expect(deck?.cards).toHaveLength(3);
+      expect(deck?.cards[0]).toEqual(expect.objectContaining({ front: 'What makes ATP?', back: 'Mitochondria', tags: ['cells'] }));
+      expect(deck?.cards[1]).toEqual(expect.objectContaining({ kind: 'cloze', front: 'The {{c1::nucleus}} stores {{c2::DNA}}.' }));
+      expect(deck?.cards[2]?.front).toContain(`data:image/png;base64,${PIXEL_PNG}`);
+    });
+
+    it('drops scripts and event handlers from shared cards', async () => {
+      const zip = await JSZip.loadAsync(await service.exportPackage({
+        topic: 'Shared',
+        cards: [{ id: '1', front: 'Question', back: 'Answer', topic: 'Shared' }]
+      }));
+      // @ts-ignore - optional dependency not installed in all environments
+      const Database = (await import('better-sqlite3')).default;
+      const db = new Database(await zip.file('collection.anki2')!.async('nodebuffer'));
+      db.prepare('UPDATE notes SET flds = ?').run('<div><img src="x" onerror="alert(1)"><script>alert(2)</script>Question</div>\x1f<a href="javascript:alert(3)">Answer</a>');
+      zip.file('collection.anki2', db.serialize());
+      db.close();
+
+      const [deck] = await service.importPackage(await zip.generateAsync({ type: 'nodebuffer' }));
+      expect(deck?.cards[0]).toEqual(expect.objectContaining({ front: '<div><img src="x">Question</div>', back: '<a>Answer</a>' }));
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import { CardQualityService } from '../../src/core/services/CardQualityService.js';
+
+const service = new CardQualityService(0.6);
+const card = (front: string, back: string, kind?: 'basic' | 'cloze') => ({ id: 'c', topic: 'T', front, back, ...(kind ? { kind } : {}) });
+
+describe('CardQualityService', () => {
+  it('scores a short, specific, grounded card highly', () => {
+    const quality = service.score(card('What gas do plants release during photosynthesis?', 'Oxygen'), 'During photosynthesis plants release oxygen gas.');
+    expect(quality.score).toBeGreaterThan(0.9);
+    expect(quality.grounding).toBe(1);
+    expect(quality.issues).toEqual([]);
+  });
+
+  it('penalises multi-fact answers and compound questions', () => {
+    const quality = service.score(card(
+      'What is mitosis and why does it matter?',
+      'Mitosis is cell division. It produces two identical cells. It is used for growth. It also repairs tissue.'
+    ));
+    expect(quality.atomicity).toBeLessThan(0.5);
+    expect(quality.issues).toContain('not-atomic');
+  });
+
+  it('penalises long answers', () => {
+    const longAnswer = Array.from({ length: 80 }, (_, i) => `word${i}`).join(' ');
+    expect(service.score(card('Describe the Krebs cycle?', longAnswer)).answerLength).toBe(0);
+  });
+
+  it('flags vague template questions', () => {
+    const quality = service.score(card('What is a key idea related to "Biology"?', 'Cells are the unit of life.'));
+    expect(quality.issues).toContain('ambiguous');
+    expect(service.passes({ ...card('It?', 'Yes'), quality: service.score(card('It?', 'Yes')) })).toBe(false);
+  });
+
+  it('detects answers leaked by the question', () => {
+    const quality = service.score(card('Is the capital of France Paris?', 'Paris'));
+    expect(quality.leakage).toBe(0);
+    expect(quality.issues).toContain('answer-leaks');
+  });
+
+  it('scores cloze cards on the blanked prompt and hidden answer', () => {
+    const clean = service.score(card('The {{c1::mitochondria}} produce ATP.', 'The mitochondria produce ATP.', 'cloze'));
+    const leaky = service.score(card('The {{c1::mitochondria}} (mitochondria) produce ATP.', '', 'cloze'));
+    expect(clean.leakage).toBe(1);
+    expect(leaky.leakage).toBe(0);
+  });
+
+  it('marks ungrounded cards only when context is given', () => {
+    const quality = service.score(card('Who painted the Mona Lisa?', 'Leonardo da Vinci'), 'Photosynthesis happens in chloroplasts.');
+    expect(quality.grounding).toBe(0);
+    expect(quality.issues).toContain('ungrounded');
+    expect(service.score(card('Who painted the Mona Lisa?', 'Leonardo da Vinci')).grounding).toBeUndefined();
+  });
+});
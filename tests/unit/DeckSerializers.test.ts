@@ -0,0 +1,103 @@
+import { describe, it, expect } from '@jest/globals';
+import type { Flashcard } from '../../src/core/domain/models.js';
+import { parseDelimited } from '../../src/core/serializers/CsvDeckSerializer.js';
+import { DeckSerializationError } from '../../src/core/serializers/DeckSerializer.js';
+import { createDeckSerializerRegistry } from '../../src/core/serializers/DeckSerializerRegistry.js';
+
+const registry = createDeckSerializerRegistry();
+
+const cards: Flashcard[] = [
+  { id: 'c1', front: 'What is "H2O", chemically?', back: 'Water\nTwo hydrogens, one oxygen', topic: 'Chemistry', tags: ['chem', 'basics'] },
+  { id: 'c2', front: '{{c1::Mitochondria}} is the powerhouse of the cell', back: 'Mitochondria is the powerhouse of the cell', topic: 'Chemistry', kind: 'cloze' }
+];
+
+const serializer = (format: string) => {
+  const found = registry.get(format);
+  if (!found) throw new Error(`missing ${format}`);
+  return found;
+};
+
+describe('parseDelimited', () => {
+  it('handles quoted delimiters, escaped quotes and embedded newlines', () => {
+    const rows = parseDelimited('a,"b,c","say ""hi"""\r\n"multi\nline",x,\r\n\r\n', ',');
+    expect(rows).toEqual([
+      ['a', 'b,c', 'say "hi"'],
+      ['multi\nline', 'x', '']
+    ]);
+  });
+});
+
+describe('CSV / TSV serializers', () => {
+  it('round-trips front, back, kind and tags through CSV', async () => {
+    const csv = serializer('csv');
+    const [deck] = await csv.deserialize(await csv.serialize({ topic: 'Chemistry', cards }), { topic: 'Chemistry' });
+    expect(deck?.cards.map(({ front, back, kind, tags }) => ({ front, back, kind, tags }))).toEqual([
+      { front: cards[0]!.front, back: cards[0]!.back, kind: undefined, tags: ['chem', 'basics'] },
+      { front: cards[1]!.front, back: cards[1]!.back, kind: 'cloze', tags: undefined }
+    ]);
+  });
+
+  it('accepts header aliases and header-less two-column files', async () => {
+    const csv = serializer('csv');
+    const [withAliases] = await csv.deserialize(Buffer.from('Question,Answer\nQ1,A1\n'), { topic: 'T' });
+    expect(withAliases?.cards[0]).toEqual(expect.objectContaining({ front: 'Q1', back: 'A1', topic: 'T' }));
+
+    const [pairs] = await csv.deserialize(Buffer.from('Q1,A1\nQ2,A2\n'), { topic: 'T' });
+    expect(pairs?.cards.map(c => c.front)).toEqual(['Q1', 'Q2']);
+  });
+
+  it('rejects tables that are not front/back pairs', async () => {
+    await expect(serializer('csv').deserialize(Buffer.from('year,pop,growth\n2020,7.8,1.1\n'), { topic: 'T' }))
+      .rejects.toBeInstanceOf(DeckSerializationError);
+  });
+
+  it('reads tab-separated files', async () => {
+    const [deck] = await serializer('tsv').deserialize(Buffer.from('front\tback\nQ, with comma\tA\n'), { topic: 'T' });
+    expect(deck?.cards[0]).toEqual(expect.objectContaining({ front: 'Q, with comma', back: 'A' }));
+  });
+});
+
+describe('Quizlet and Markdown serializers', () => {
+  it('round-trips Quizlet term/definition lines, flattening line breaks', async () => {
+    const quizlet = serializer('quizlet');
+    const [deck] = await quizlet.deserialize(await quizlet.serialize({ topic: 'Chemistry', cards }), { topic: 'Chemistry' });
+    expect(deck?.cards[0]).toEqual(expect.objectContaining({ front: cards[0]!.front, back: 'Water Two hydrogens, one oxygen' }));
+    expect(deck?.cards).toHaveLength(2);
+  });
+
+  it('round-trips Markdown, taking the topic from the title and inferring cloze cards', async () => {
+    const markdown = serializer('markdown');
+    const [deck] = await markdown.deserialize(await markdown.serialize({ topic: 'Chemistry', cards }), { topic: 'Fallback' });
+    expect(deck?.topic).toBe('Chemistry');
+    expect(deck?.cards[0]).toEqual(expect.objectContaining({ front: cards[0]!.front, back: cards[0]!.back }));
+    expect(deck?.cards[1]?.kind).toBe('cloze');
+  });
+});
+
+describe('JSON serializer', () => {
+  it('round-trips every Flashcard field including source', async () => {
+    const json = serializer('json');
+    const withSource: Flashcard[] = [
+      { ...cards[0]!, source: { filename: 'notes.pdf', page: 3, type: 'upload' } },
+      { ...cards[1]!, clozeIndex: 1, source: { url: 'https://example.com', type: 'web' } }
+    ];
+    const [deck] = await json.deserialize(await json.serialize({ topic: 'Chemistry', cards: withSource }), { topic: 'Other' });
+    expect(deck?.topic).toBe('Chemistry');
+    expect(deck?.cards).toEqual(withSource);
+  });
+
+  it('rejects documents from a newer schema version', async () => {
+    const newer = Buffer.from(JSON.stringify({ schema: 'mindflip.deck', version: 99, topic: 'T', cards: [] }));
+    await expect(serializer('json').deserialize(newer, { topic: 'T' })).rejects.toThrow(/newer than supported/);
+  });
+});
+
+describe('DeckSerializerRegistry', () => {
+  it('resolves serializers by extension and lists formats', () => {
+    expect(registry.forFilename('deck.TSV')?.format).toBe('tsv');
+    expect(registry.forFilename('notes.md')?.format).toBe('markdown');
+    expect(registry.forFilename('export.txt')?.format).toBe('quizlet');
+    expect(registry.forFilename('noext')).toBeUndefined();
+    expect(registry.formats()).toEqual(['csv', 'tsv', 'quizlet', 'markdown', 'json', 'apkg']);
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { ExamError, ExamService, hideExamQuestions } from '../../src/core/services/ExamService.js';
+import { QuizStorageService } from '../../src/core/services/QuizStorageService.js';
+import { LocalDbService } from '../../src/core/services/LocalDbService.js';
+
+const question = (text: string, answer: string, options = [answer, 'wrong', 'other']) =>
+  ({ question: text, options, correctAnswer: answer });
+
+describe('ExamService', () => {
+  let storage: QuizStorageService;
+  let exams: ExamService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    storage = new QuizStorageService();
+    exams = new ExamService(storage, undefined, { graceSeconds: 5 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createExam = () => exams.createExam({
+    topic: 'Biology',
+    sections: [
+      { title: 'Cells', timeLimitSeconds: 60, pick: 2, questions: [question('A?', 'a'), question('B?', 'b'), question('C?', 'c')] },
+      { title: 'Genes', questions: [question('D?', 'd')] }
+    ]
+  });
+
+  it('draws each attempt\'s questions from the section pools and hides answers until submitted', () => {
+    const quiz = createExam();
+    expect(quiz.exam?.sections.map(section => section.questionIds.length)).toEqual([3, 1]);
+
+    const attempt = exams.startAttempt(quiz.id)!;
+    expect(attempt.sections.map(section => [section.status, section.questionCount])).toEqual([['open', 2], ['pending', 1]]);
+    expect(attempt.remainingSeconds).toBe(60);
+    expect(attempt.questions).toHaveLength(2);
+    expect(attempt.questions[0]).not.toHaveProperty('correctAnswer');
+    expect(attempt.result).toBeUndefined();
+    expect(exams.startAttempt('missing')).toBeNull();
+  });
+
+  it('locks a section once it is left and grades only on submission', async () => {
+    const attempt = exams.startAttempt(createExam().id)!;
+    const [first] = attempt.questions;
+
+    const saved = await exams.saveAnswers(attempt.id, [{ questionId: first!.id, answer: first!.question.charAt(0).toLowerCase() }]);
+    expect(saved?.answers).toEqual({ [first!.id]: first!.question.charAt(0).toLowerCase() });
+    expect(saved?.result).toBeUndefined();
+
+    const second = await exams.nextSection(attempt.id);
+    expect(second?.currentSection).toBe(1);
+    expect(second?.remainingSeconds).toBeNull();
+    await expect(exams.saveAnswers(attempt.id, [{ questionId: first!.id, answer: 'wrong' }])).rejects.toThrow('Cells is closed');
+
+    const submitted = await exams.submit(attempt.id, [{ questionId: second!.questions[0]!.id, answer: 'd' }]);
+    expect(submitted?.status).toBe('submitted');
+    expect(submitted?.result).toEqual(expect.objectContaining({ score: 2, total: 3, lateAnswers: [] }));
+    expect(submitted?.review?.map(item => item.correctAnswer)).toHaveLength(3);
+    await expect(exams.submit(attempt.id)).rejects.toThrow(ExamError);
+  });
+
+  it('leaves the attempt open to retry when grading fails', async () => {
+    const attempt = exams.startAttempt(createExam().id)!;
+    jest.spyOn(storage, 'submitAnswers').mockRejectedValueOnce(new Error('Quiz not found'));
+
+    await expect(exams.submit(attempt.id)).rejects.toThrow('Quiz not found');
+    expect((await exams.getAttempt(attempt.id))?.status).toBe('in-progress');
+
+    const submitted = await exams.submit(attempt.id);
+    expect(submitted?.status).toBe('submitted');
+    expect(submitted?.result?.total).toBe(3);
+  });
+
+  it('keeps the last section open when grading it fails on leaving, so it can be retried', async () => {
+    const attempt = exams.startAttempt(createExam().id)!;
+    await exams.nextSection(attempt.id);
+    jest.spyOn(storage, 'submitAnswers').mockRejectedValueOnce(new Error('Quiz not found'));
+
+    await expect(exams.nextSection(attempt.id)).rejects.toThrow('Quiz not found');
+    const view = await exams.getAttempt(attempt.id);
+    expect(view?.status).toBe('in-progress');
+    expect(view?.currentSection).toBe(1);
+
+    const saved = await exams.saveAnswers(attempt.id, [{ questionId: view!.questions[0]!.id, answer: 'd' }]);
+    expect(saved?.answers).toEqual({ [view!.questions[0]!.id]: 'd' });
+    const submitted = await exams.nextSection(attempt.id);
+    expect(submitted?.status).toBe('submitted');
+    expect(submitted?.sections.map(section => section.status)).toEqual(['closed', 'closed']);
+  });
+
+  it('keeps a learner\'s attempt to that learner', async () => {
+    const attempt = exams.startAttempt(createExam().id, 'ada')!;
+    const answer = [{ questionId: attempt.questions[0]!.id, answer: 'a' }];
+
+    expect(await exams.getAttempt(attempt.id)).toBeUndefined();
+    expect(await exams.getAttempt(attempt.id, 'bob')).toBeUndefined();
+    expect(await exams.saveAnswers(attempt.id, answer, 'bob')).toBeNull();
+    expect(await exams.nextSection(attempt.id, [], undefined, 'bob')).toBeNull();
+    expect(await exams.submit(attempt.id, [], undefined, 'bob')).toBeNull();
+
+    expect((await exams.submit(attempt.id, answer, undefined, 'ada'))?.status).toBe('submitted');
+    expect(storage.getAttempts(attempt.quizId)[0]?.userId).toBe('ada');
+  });
+
+  it('keeps the order the learner saw with the stored attempt', async () => {
+    const attempt = exams.startAttempt(createExam().id)!;
+    const submitted = await exams.submit(attempt.id);
+
+    const [stored] = storage.getAttempts(attempt.quizId);
+    expect(stored?.id).toBe(attempt.id);
+    expect(stored?.total).toBe(3);
+    expect(stored?.presented?.slice(0, 2).map(shown => shown.questionId)).toEqual(attempt.questions.map(shown => shown.id));
+    expect(submitted?.review?.slice(0, 2).map(item => item.options)).toEqual(attempt.questions.map(shown => shown.options));
+  });
+
+  it('closes a section when its time runs out, whatever the client does', async () => {
+    const attempt = exams.startAttempt(createExam().id)!;
+    const [first] = attempt.questions;
+
+    jest.advanceTimersByTime(64_000);
+    expect((await exams.getAttempt(attempt.id))?.currentSection).toBe(0);
+
+    jest.advanceTimersByTime(2_000);
+    await expect(exams.saveAnswers(attempt.id, [{ questionId: first!.id, answer: 'a' }])).rejects.toThrow('Cells is closed');
+    const view = await exams.getAttempt(attempt.id);
+    expect(view?.currentSection).toBe(1);
+    expect(view?.sections[0]).toEqual(expect.objectContaining({ status: 'closed', closedAt: 1_060_000 }));
+  });
+
+  it('refuses answers to an exam outside an attempt', async () => {
+    const quiz = createExam();
+    await expect(storage.submitAnswers(quiz.id, [])).rejects.toThrow('exam attempt');
+    expect(() => exams.startAttempt(storage.createQuiz({ topic: 'Biology', source: 'topic', questions: [question('A?', 'a')] }).id))
+      .toThrow('This quiz is not an exam');
+    expect(() => exams.createExam({ topic: 'Biology', sections: [{ pick: 5, questions: [question('A?', 'a')] }] })).toThrow(ExamError);
+  });
+
+  it('shows exams through the quiz endpoints without their question pool', () => {
+    const exam = storage.getQuiz(createExam().id)!;
+    const quiz = storage.createQuiz({ topic: 'Biology', source: 'topic', questions: [question('A?', 'a')] });
+
+    expect(hideExamQuestions(exam)).toEqual(expect.objectContaining({ id: exam.id, questions: [], exam: exam.exam }));
+    expect(hideExamQuestions(quiz)).toBe(quiz);
+  });
+
+  it('resumes attempts saved before a restart', async () => {
+    const db = new LocalDbService(':memory:');
+    await db.initialize();
+    const before = new ExamService(storage, db);
+    const attempt = before.startAttempt(createExam().id)!;
+    await before.saveAnswers(attempt.id, [{ questionId: attempt.questions[0]!.id, answer: 'a' }]);
+    await Promise.resolve();
+
+    const after = new ExamService(storage, db);
+    await jest.advanceTimersByTimeAsync(0);
+    const resumed = await after.getAttempt(attempt.id);
+    expect(resumed?.questions).toEqual(attempt.questions);
+    expect(resumed?.answers).toEqual({ [attempt.questions[0]!.id]: 'a' });
+  });
+});
@@ -1,148 +1,220 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { FlashcardGenerationGraph } from '../../src/core/workflows/FlashcardGenerationGraph.js';
 import type { Flashcard } from '../../src/core/domain/models.js';
+import { withGenerationContext, withGenerationEvents } from '../../src/utils/generationEvents.js';
+import type { GenerationEvent } from '../../src/utils/generationEvents.js';
+
+const card = (id: string, front: string, back: string, topic = 'Test'): Flashcard => ({ id, front, back, topic });
+
+function makeAdapter() {
+    return {
+        generateFlashcards: jest.fn(async (topic: string, _count: number) => [
+            card('1', `What is ${topic}?`, `${topic} is a test concept`, topic),
+            card('2', `Why learn ${topic}?`, `${topic} is important`, topic)
+        ]),
+        generateSearchQuery: jest.fn(async (topic: string) => `${topic} advanced concepts`),
+        generateSummary: jest.fn(async (topic: string) => `${topic} summary`),
+        generateFlashcardsFromText: jest.fn(async (_text: string, topic: string) => [
+            card('ctx-1', 'What does photosynthesis produce?', 'Glucose and oxygen from sunlight', topic),
+            card('ctx-2', 'What does photosynthesis produce', 'Glucose and oxygen', topic)
+        ])
+    };
+}
 
-// Mock HybridOllamaAdapter
-class MockAdapter {
-    async generateFlashcards(topic: string, count: number): Promise<Flashcard[]> {
-        return [
-            { id: '1', front: `What is ${topic}?`, back: `${topic} is a test concept`, topic },
-            { id: '2', front: `Why learn ${topic}?`, back: `${topic} is important`, topic }
-        ];
-    }
-
-    async generateSearchQuery(topic: string): Promise<string> {
-        return `${topic} advanced concepts`;
-    }
-
-    async generateFlashcardsFromText(text: string, topic: string, count: number): Promise<Flashcard[]> {
-        return [
-            { id: 'fallback-1', front: `Fallback: ${topic}?`, back: text.substring(0, 50), topic }
-        ];
-    }
+function makeSearch() {
+    return {
+        search: jest.fn(async () => [
+            { title: 'A', link: 'https://a.example.com/1' },
+            { title: 'A2', link: 'https://a.example.com/2' },
+            { title: 'B', link: 'https://b.example.com/1' }
+        ])
+    };
 }
 
+const noRetry = { attempts: 1, backoffMs: 0 };
+
 describe('FlashcardGenerationGraph', () => {
-    let graph: FlashcardGenerationGraph;
-    let mockAdapter: MockAdapter;
+    let adapter: ReturnType<typeof makeAdapter>;
+    let search: ReturnType<typeof makeSearch>;
+    let scrape: jest.Mock<(urls: string[]) => Promise<string>>;
 
     beforeEach(() => {
-        mockAdapter = new MockAdapter();
-        graph = new FlashcardGenerationGraph(mockAdapter as any);
+        adapter = makeAdapter();
+        search = makeSearch();
+        scrape = jest.fn(async () => 'Photosynthesis uses sunlight to produce glucose and oxygen.');
     });
 
     describe('generate', () => {
-        it('should generate flashcards successfully on primary path', async () => {
-            const cards = await graph.generate('TypeScript', 5);
+        it('generates from model knowledge for ai-only requests without touching the web', async () => {
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, search, scrape, retry: noRetry });
+            const result = await graph.generate({ topic: 'TypeScript', count: 5, knowledgeSource: 'ai-only' });
+
+            expect(adapter.generateFlashcards).toHaveBeenCalledWith('TypeScript', 5, undefined);
+            expect(search.search).not.toHaveBeenCalled();
+            expect(result.cards).toHaveLength(2);
+            expect(result.cards[0]?.topic).toBe('TypeScript');
+            expect(result.timings.map(t => t.node)).toEqual(['generate', 'validate', 'ground', 'dedup']);
+        });
+
+        it('runs refine → search → scrape → summarise → generate → validate → ground → dedup for ai-web', async () => {
+            const repair = jest.fn(async (cards: Flashcard[]) => cards);
+            const ground = jest.fn((_text: string, cards: Flashcard[]) => cards);
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, search, scrape, repair, ground, retry: noRetry });
+
+            const result = await graph.generate({ topic: 'Photosynthesis', count: 2, knowledgeSource: 'ai-web', parentTopic: 'Biology' });
+
+            expect(adapter.generateSearchQuery).toHaveBeenCalledWith('Photosynthesis', 'Biology');
+            expect(search.search).toHaveBeenCalledWith('Photosynthesis advanced concepts');
+            // One source per domain
+            expect(scrape).toHaveBeenCalledWith(['https://a.example.com/1', 'https://b.example.com/1']);
+            const context = adapter.generateFlashcardsFromText.mock.calls[0]?.[0];
+            expect(context).toContain('AI KNOWLEDGE SUMMARY:\nPhotosynthesis summary');
+            expect(context).toContain('WEB CONTENT:\nPhotosynthesis uses sunlight');
+            expect(ground).toHaveBeenCalledWith(context, expect.any(Array));
+            // Near-duplicate questions are dropped
+            expect(result.cards.map(c => c.id)).toEqual(['ctx-1']);
+            expect(result.timings.map(t => t.node)).toEqual(
+                ['refine_query', 'search', 'scrape', 'summarise', 'generate', 'validate', 'ground', 'dedup']
+            );
+        });
+
+        it('skips the summary for web-only and falls back to topic generation when the web has nothing', async () => {
+            search.search.mockResolvedValue([]);
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, search, scrape, retry: noRetry });
+
+            const result = await graph.generate({ topic: 'Test', count: 3, knowledgeSource: 'web-only' });
 
-            expect(cards).toHaveLength(2);
-            expect(cards[0].front).toContain('TypeScript');
-            expect(cards[0].topic).toBe('TypeScript');
+            expect(adapter.generateSummary).not.toHaveBeenCalled();
+            expect(adapter.generateFlashcardsFromText).not.toHaveBeenCalled();
+            expect(adapter.generateFlashcards).toHaveBeenCalledWith('Test', 3, undefined);
+            expect(result.cards).toHaveLength(2);
         });
 
-        it('should handle fallback path when primary generation fails', async () => {
-            // Mock generateFlashcards to fail
-            const failingAdapter = {
-                ...mockAdapter,
-                generateFlashcards: jest.fn().mockRejectedValue(new Error('Primary failed')),
-                generateSearchQuery: jest.fn().mockResolvedValue('search query'),
-                generateFlashcardsFromText: jest.fn().mockResolvedValue([
-                    { id: 'fb-1', front: 'Fallback Q', back: 'Fallback A', topic: 'Test' }
-                ])
-            };
-
-            const failGraph = new FlashcardGenerationGraph(failingAdapter as any);
-            const cards = await failGraph.generate('Test', 3);
-
-            expect(failingAdapter.generateFlashcards).toHaveBeenCalledWith('Test', 3);
-            expect(failingAdapter.generateSearchQuery).toHaveBeenCalledWith('Test');
-            expect(failingAdapter.generateFlashcardsFromText).toHaveBeenCalled();
-            expect(cards).toHaveLength(1);
-            expect(cards[0].front).toBe('Fallback Q');
+        it('uses the topic as the query when refinement fails', async () => {
+            adapter.generateSearchQuery.mockRejectedValue(new Error('model down'));
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, search, scrape, retry: noRetry });
+
+            const result = await graph.generate({ topic: 'Test', count: 2, knowledgeSource: 'web-only' });
+
+            expect(search.search).toHaveBeenCalledWith('Test');
+            expect(result.timings.find(t => t.node === 'refine_query')).toEqual(expect.objectContaining({ recovered: true }));
         });
 
-        it('should throw error when all paths fail', async () => {
-            const completeFailAdapter = {
-                generateFlashcards: jest.fn().mockRejectedValue(new Error('Primary failed')),
-                generateSearchQuery: jest.fn().mockRejectedValue(new Error('Search failed')),
-                generateFlashcardsFromText: jest.fn().mockRejectedValue(new Error('Synthesis failed'))
-            };
+        it('reuses cached web context instead of searching', async () => {
+            const cache = { get: jest.fn(async () => 'cached page text'), set: jest.fn(async () => undefined) };
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, search, scrape, webContextCache: cache as any, retry: noRetry });
 
-            const failGraph = new FlashcardGenerationGraph(completeFailAdapter as any);
+            await graph.generate({ topic: 'Test', count: 2, knowledgeSource: 'web-only' });
 
-            await expect(failGraph.generate('Test', 3)).rejects.toThrow();
+            expect(cache.get).toHaveBeenCalledWith('web-context:Test');
+            expect(search.search).not.toHaveBeenCalled();
+            expect(adapter.generateFlashcardsFromText.mock.calls[0]?.[0]).toContain('cached page text');
         });
 
-        it('should pass correct parameters to adapter', async () => {
-            const spyAdapter = {
-                ...mockAdapter,
-                generateFlashcards: jest.fn().mockResolvedValue([
-                    { id: '1', front: 'Q', back: 'A', topic: 'Math' }
-                ])
-            };
+        it('falls back to web research when ai-only generation fails', async () => {
+            adapter.generateFlashcards.mockRejectedValue(new Error('Primary failed'));
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, search, scrape, retry: noRetry });
 
-            const spyGraph = new FlashcardGenerationGraph(spyAdapter as any);
-            await spyGraph.generate('Mathematics', 10);
+            const result = await graph.generate({ topic: 'Test', count: 3, knowledgeSource: 'ai-only' });
 
-            expect(spyAdapter.generateFlashcards).toHaveBeenCalledWith('Mathematics', 10);
+            expect(adapter.generateSearchQuery).toHaveBeenCalledWith('Test', undefined);
+            expect(scrape).toHaveBeenCalled();
+            expect(adapter.generateSummary).not.toHaveBeenCalled();
+            expect(result.cards[0]?.id).toBe('ctx-1');
         });
 
-        it('should handle empty results from primary generation', async () => {
-            const emptyAdapter = {
-                ...mockAdapter,
-                generateFlashcards: jest.fn().mockResolvedValue([]),
-                generateSearchQuery: jest.fn().mockResolvedValue('fallback query'),
-                generateFlashcardsFromText: jest.fn().mockResolvedValue([
-                    { id: 'fb', front: 'Fallback', back: 'From search', topic: 'Test' }
-                ])
-            };
-
-            const emptyGraph = new FlashcardGenerationGraph(emptyAdapter as any);
-            const cards = await emptyGraph.generate('Test', 5);
-
-            // Should trigger fallback path
-            expect(emptyAdapter.generateSearchQuery).toHaveBeenCalled();
-            expect(cards).toHaveLength(1);
+        it('throws when every path fails', async () => {
+            adapter.generateFlashcards.mockRejectedValue(new Error('Primary failed'));
+            adapter.generateFlashcardsFromText.mockRejectedValue(new Error('Synthesis failed'));
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, search, scrape, retry: noRetry });
+
+            await expect(graph.generate({ topic: 'Test', count: 3, knowledgeSource: 'ai-only' })).rejects.toThrow('Synthesis failed');
         });
     });
 
-    describe('graph workflow', () => {
-        it('should follow correct edge flow on success', async () => {
-            // Primary succeeds → END (no fallback)
-            const successAdapter = {
-                ...mockAdapter,
-                generateFlashcards: jest.fn().mockResolvedValue([
-                    { id: '1', front: 'Q1', back: 'A1', topic: 'Test' },
-                    { id: '2', front: 'Q2', back: 'A2', topic: 'Test' }
-                ]),
-                generateSearchQuery: jest.fn(),
-                generateFlashcardsFromText: jest.fn()
-            };
-
-            const successGraph = new FlashcardGenerationGraph(successAdapter as any);
-            await successGraph.generate('Test', 2);
-
-            // Fallback methods should NOT be called
-            expect(successAdapter.generateSearchQuery).not.toHaveBeenCalled();
-            expect(successAdapter.generateFlashcardsFromText).not.toHaveBeenCalled();
+    describe('progress events', () => {
+        it('reports each stage as its node starts and the cards of adapters that do not stream', async () => {
+            const events: GenerationEvent[] = [];
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, search, scrape, retry: noRetry });
+
+            await withGenerationEvents(event => events.push(event), () =>
+                graph.generate({ topic: 'Photosynthesis', count: 2, knowledgeSource: 'web-only' }));
+
+            const stages = events.filter(e => e.type === 'stage').map(e => e.type === 'stage' && `${e.stage}:${e.step}`);
+            expect(stages).toEqual([
+                'searching:refine_query', 'searching:search', 'scraping:scrape', 'generating:generate',
+                'validating:validate', 'validating:ground', 'validating:dedup'
+            ]);
+            const cards = events.filter(e => e.type === 'card').map(e => e.type === 'card' && e.card.id);
+            expect(cards).toEqual(['ctx-1', 'ctx-2']);
+            // Cards come after generation starts and before validation
+            expect(events.findIndex(e => e.type === 'card')).toBe(4);
+        });
+
+        it('does not repeat cards the adapter already streamed', async () => {
+            const events: GenerationEvent[] = [];
+            const streamed = card('s-1', 'What is streaming?', 'Sending data as it is produced');
+            adapter.generateFlashcards.mockImplementation(async () => {
+                const { emitGenerationEvent } = await import('../../src/utils/generationEvents.js');
+                emitGenerationEvent({ type: 'card', card: streamed });
+                return [streamed];
+            });
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, retry: noRetry });
+
+            await withGenerationEvents(event => events.push(event), () =>
+                graph.generate({ topic: 'Streaming', count: 1, knowledgeSource: 'ai-only' }));
+
+            expect(events.filter(e => e.type === 'card')).toHaveLength(1);
         });
+    });
+
+    describe('retries and checkpoints', () => {
+        it('retries a failing node and records the attempts', async () => {
+            adapter.generateFlashcards
+                .mockRejectedValueOnce(new Error('timeout'))
+                .mockResolvedValueOnce([card('1', 'Q1', 'A1')]);
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, retry: { attempts: 2, backoffMs: 0 } });
+
+            const result = await graph.generate({ topic: 'Test', count: 1, knowledgeSource: 'ai-only' });
+
+            expect(adapter.generateFlashcards).toHaveBeenCalledTimes(2);
+            expect(result.timings[0]).toEqual(expect.objectContaining({ node: 'generate', attempts: 2 }));
+        });
+
+        it('resumes a failed run from the failed node without repeating search and scraping', async () => {
+            adapter.generateFlashcardsFromText.mockRejectedValueOnce(new Error('model crashed'));
+            adapter.generateFlashcards.mockRejectedValueOnce(new Error('model crashed'));
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, search, scrape, retry: noRetry });
+            const request = { topic: 'Photosynthesis', count: 2, knowledgeSource: 'web-only' as const };
+
+            await expect(graph.generate(request, { threadId: 'job-1' })).rejects.toThrow('model crashed');
+            expect(search.search).toHaveBeenCalledTimes(1);
+
+            const result = await graph.generate(request, { threadId: 'job-1' });
+
+            expect(result.resumedFrom).toBe('generate');
+            expect(search.search).toHaveBeenCalledTimes(1);
+            expect(scrape).toHaveBeenCalledTimes(1);
+            expect(result.cards[0]?.id).toBe('ctx-1');
+
+            // A finished thread starts over on the next run
+            await graph.generate(request, { threadId: 'job-1' });
+            expect(search.search).toHaveBeenCalledTimes(2);
+        });
+
+        it('stops without retrying or falling back once the run is aborted', async () => {
+            const controller = new AbortController();
+            adapter.generateFlashcards.mockImplementation(async () => {
+                controller.abort(new Error('Job cancelled'));
+                throw new Error('request aborted');
+            });
+            const graph = new FlashcardGenerationGraph({ adapter: adapter as any, search, scrape, retry: { attempts: 3, backoffMs: 0 } });
+
+            await expect(withGenerationContext({ signal: controller.signal }, () =>
+                graph.generate({ topic: 'Test', count: 1, knowledgeSource: 'ai-only' }))).rejects.toThrow('Job cancelled');
 
-        it('should follow fallback edge flow on failure', async () => {
-            const fallbackAdapter = {
-                generateFlashcards: jest.fn().mockRejectedValue(new Error('Fail')),
-                generateSearchQuery: jest.fn().mockResolvedValue('query'),
-                generateFlashcardsFromText: jest.fn().mockResolvedValue([
-                    { id: '1', front: 'Q', back: 'A', topic: 'Test' }
-                ])
-            };
-
-            const fallbackGraph = new FlashcardGenerationGraph(fallbackAdapter as any);
-            await fallbackGraph.generate('Test', 3);
-
-            // All nodes in fallback path should be called in order
-            expect(fallbackAdapter.generateFlashcards).toHaveBeenCalled();
-            expect(fallbackAdapter.generateSearchQuery).toHaveBeenCalled();
-            expect(fallbackAdapter.generateFlashcardsFromText).toHaveBeenCalled();
+            expect(adapter.generateFlashcards).toHaveBeenCalledTimes(1);
+            expect(search.search).not.toHaveBeenCalled();
         });
     });
 });
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { FlashcardStorageService, GENERATED_BY } from '../../src/core/services/FlashcardStorageService.js';
+import { LocalDbService } from '../../src/core/services/LocalDbService.js';
+import { InMemoryVectorService } from '../../src/core/services/InMemoryVectorService.js';
+import { LoggerService } from '../../src/core/services/LoggerService.js';
+import type { SupabaseService } from '../../src/core/services/SupabaseService.js';
+
+const card = (id: string, topic: string, front = `${id} front`) => ({ id, topic, front, back: `${id} back` });
+
+describe('FlashcardStorageService card CRUD', () => {
+    let db: LocalDbService;
+    let vectors: InMemoryVectorService;
+    let storage: FlashcardStorageService;
+    let biology: string;
+
+    beforeEach(async () => {
+        // In memory when SQLite is unavailable
+        db = new LocalDbService(':memory:');
+        await db.initialize();
+        vectors = new InMemoryVectorService();
+        storage = new FlashcardStorageService(db, vectors);
+        storage.storeFlashcards([card('b1', 'Biology'), card('b2', 'Biology'), card('c1', 'Chemistry')]);
+        biology = storage.getDeckId('Biology');
+    });
+
+    const storedDecks = async () => Object.fromEntries(((await db.getFlashcards()).data ?? [])
+        .map(row => [row.id, (row.cards as { id: string }[]).map(c => c.id).sort()]));
+
+    it('reads a card only through the deck that holds it', () => {
+        expect(storage.getDeckCard(biology, 'b1')).toEqual(expect.objectContaining({ front: 'b1 front' }));
+        expect(storage.getDeckCard(biology, 'c1')).toBeNull();
+    });
+
+    it('creates, edits and deletes cards, writing each change through', async () => {
+        const created = await storage.createCard(biology, { front: 'Cell powerhouse?', back: 'Mitochondria', tags: ['cells'] });
+        expect(created).toEqual(expect.objectContaining({ topic: 'Biology', kind: 'basic', tags: ['cells'] }));
+        expect((await vectors.searchSimilar('powerhouse', 1))[0]?.id).toBe(created!.id);
+
+        const updated = await storage.updateCard(biology, created!.id, { back: 'The mitochondria', kind: 'basic' });
+        expect(updated).toEqual(expect.objectContaining({ front: 'Cell powerhouse?', back: 'The mitochondria' }));
+
+        await expect(storage.removeCard(biology, 'b1')).resolves.toBe(true);
+        await expect(storage.removeCard(biology, 'b1')).resolves.toBe(false);
+        expect(await storedDecks()).toEqual({ [biology]: ['b2', created!.id].sort() });
+        await expect(storage.createCard('deck-missing', { front: 'Q', back: 'A' })).resolves.toBeNull();
+    });
+
+    it('moves cards keeping their ids, and copies them as new cards', async () => {
+        const chemistry = storage.getDeckId('Chemistry');
+
+        const moved = await storage.moveCards(['b1', 'missing'], { deckId: chemistry });
+        expect(moved?.map(c => [c.id, c.topic])).toEqual([['b1', 'Chemistry']]);
+        expect(storage.getDeckCard(chemistry, 'b1')).not.toBeNull();
+        expect(storage.getDeckCard(biology, 'b1')).toBeNull();
+
+        const copies = await storage.copyCards(['b2'], { topic: 'Genetics' });
+        expect(copies).toHaveLength(1);
+        expect(copies![0]).toEqual(expect.objectContaining({ topic: 'Genetics', front: 'b2 front' }));
+        expect(copies![0]!.id).not.toBe('b2');
+        expect(storage.getFlashcard('b2')?.topic).toBe('Biology');
+
+        expect(await storedDecks()).toEqual({
+            [biology]: ['b2'],
+            [chemistry]: ['b1', 'c1'],
+            [storage.getDeckId('Genetics')]: [copies![0]!.id]
+        });
+        await expect(storage.moveCards(['b2'], { deckId: 'deck-missing' })).resolves.toBeNull();
+    });
+
+    it('lets only the owner change a card, and records who moved it', async () => {
+        const owned = await storage.createCard(biology, { front: 'Q', back: 'A' }, 'alice');
+        const chemistry = storage.getDeckId('Chemistry');
+        expect(owned?.ownerId).toBe('alice');
+        expect(storage.getUserFlashcards('alice').map(c => c.id)).toContain(owned!.id);
+        expect(storage.getUserFlashcards('bob').map(c => c.id)).toEqual(['b1', 'b2', 'c1']);
+
+        await expect(storage.updateCard(biology, owned!.id, { back: 'B' }, 'bob')).resolves.toBeNull();
+        await expect(storage.tagCards([owned!.id], { add: ['mine'] }, 'bob')).resolves.toEqual([]);
+        await expect(storage.moveCards([owned!.id, 'b1'], { deckId: chemistry }, 'bob')).resolves.toEqual([
+            expect.objectContaining({ id: 'b1', topic: 'Chemistry' })
+        ]);
+        await expect(storage.removeCard(biology, owned!.id, 'bob')).resolves.toBe(false);
+
+        await storage.moveCards([owned!.id], { deckId: chemistry }, 'alice');
+        expect(storage.getRevisions(owned!.id).at(-1)).toEqual(expect.objectContaining({ editedBy: 'alice', topic: 'Chemistry' }));
+
+        await storage.removeCard(chemistry, owned!.id, 'alice');
+        const [created] = storage.getRevisions(owned!.id);
+        await expect(storage.revertCard(owned!.id, created!.id, 'bob')).resolves.toBeNull();
+        await expect(storage.revertCard(owned!.id, created!.id, 'alice')).resolves.toEqual(expect.objectContaining({ ownerId: 'alice' }));
+    });
+
+    it('empties a deck when its last card moves out and reloads edited decks on restart', async () => {
+        await storage.moveCards(['c1'], { deckId: biology });
+        expect(storage.getAllTopics()).toEqual(['biology']);
+
+        const restarted = new FlashcardStorageService(db);
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(restarted.getFlashcardsByTopic('Biology').map(c => c.id).sort()).toEqual(['b1', 'b2', 'c1']);
+        expect(await storedDecks()).toEqual({ [biology]: ['b1', 'b2', 'c1'] });
+    });
+});
+
+describe('FlashcardStorageService card history', () => {
+    let db: LocalDbService;
+    let storage: FlashcardStorageService;
+    let biology: string;
+
+    beforeEach(async () => {
+        db = new LocalDbService(':memory:');
+        await db.initialize();
+        storage = new FlashcardStorageService(db);
+        storage.storeFlashcards([card('b1', 'Biology', 'Powerhouse of the cell?')]);
+        biology = storage.getDeckId('Biology');
+    });
+
+    const summary = (cardId: string) => storage.getRevisions(cardId)
+        .map(r => [r.version, r.action, r.editedBy, r.front, r.previousFront ?? null]);
+
+    it('records the generated original and each human correction with what it replaced', async () => {
+        await storage.updateCard(biology, 'b1', { front: 'What is the powerhouse of the cell?' }, 'alice');
+        await storage.updateCard(biology, 'b1', { tags: ['cells'] }, 'bob');
+        storage.recordRevisions([{ id: 'b1', front: 'Which organelle makes ATP?', back: 'b1 back' }], 'carol');
+
+        expect(summary('b1')).toEqual([
+            [1, 'created', GENERATED_BY, 'Powerhouse of the cell?', null],
+            [2, 'updated', 'alice', 'What is the powerhouse of the cell?', 'Powerhouse of the cell?'],
+            [3, 'updated', 'carol', 'Which organelle makes ATP?', 'What is the powerhouse of the cell?']
+        ]);
+    });
+
+    it('records revisions only for cards it holds', () => {
+        expect(storage.recordRevisions([{ id: 'unsaved', front: 'Q', back: 'A' }], 'carol')).toEqual([]);
+        expect(storage.getRevisions('unsaved')).toEqual([]);
+    });
+
+    it('reverts to an earlier revision as a new revision', async () => {
+        await storage.updateCard(biology, 'b1', { back: 'Wrong answer' }, 'alice');
+        const [original] = storage.getRevisions('b1');
+
+        const reverted = await storage.revertCard('b1', original!.id, 'bob');
+
+        expect(reverted).toEqual(expect.objectContaining({ front: 'Powerhouse of the cell?', back: 'b1 back' }));
+        expect(storage.getRevisions('b1').at(-1)).toEqual(expect.objectContaining({
+            version: 3, action: 'reverted', editedBy: 'bob', revertedTo: original!.id, previousBack: 'Wrong answer'
+        }));
+        await expect(storage.revertCard('b1', 'missing')).resolves.toBeNull();
+    });
+
+    it('keeps the history of deleted cards and restores them into their deck', async () => {
+        await storage.removeCard(biology, 'b1', 'alice');
+        const [original] = storage.getRevisions('b1');
+
+        await storage.revertCard('b1', original!.id, 'alice');
+
+        expect(summary('b1').map(([version, action]) => `${version}:${action}`)).toEqual(['1:created', '2:deleted', '3:reverted']);
+        expect(storage.getDeckCard(biology, 'b1')).toEqual(expect.objectContaining({ front: 'Powerhouse of the cell?' }));
+    });
+
+    it('restores a deleted cloze card with its tags, source, quality and creation time', async () => {
+        await storage.saveDeck({
+            topic: 'Biology',
+            cards: [{
+                id: 'z1',
+                front: 'The {{c1::mitochondria}} makes ATP',
+                back: '',
+                kind: 'cloze',
+                tags: ['cells'],
+                source: { type: 'pdf', filename: 'cells.pdf' },
+                quality: { score: 0.9 }
+            }]
+        });
+        const stored = { ...storage.getFlashcard('z1')! };
+        await storage.removeCard(biology, 'z1', 'alice');
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        // From the history reloaded on restart
+        const restarted = new FlashcardStorageService(db);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const [original] = restarted.getRevisions('z1');
+        const restored = await restarted.revertCard('z1', original!.id, 'alice');
+
+        expect(restored).toEqual({ ...stored, usedInQuizzes: [] });
+    });
+
+    it('reloads the history on restart', async () => {
+        await storage.updateCard(biology, 'b1', { front: 'Edited' }, 'alice');
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        const restarted = new FlashcardStorageService(db);
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(restarted.getRevisions('b1').map(r => r.editedBy)).toEqual([GENERATED_BY, 'alice']);
+    });
+});
+
+describe('FlashcardStorageService decks, tags and saved searches', () => {
+    let db: LocalDbService;
+    let storage: FlashcardStorageService;
+
+    beforeEach(async () => {
+        db = new LocalDbService(':memory:');
+        await db.initialize();
+        storage = new FlashcardStorageService(db);
+        storage.storeFlashcards([
+            card('m1', 'Biology :: Cell :: Mitosis'),
+            card('c1', 'Biology::Cell'),
+            card('c2', 'biology::cell'),
+            card('p1', 'Chemistry')
+        ]);
+    });
+
+    it('builds a deck tree from nested topics, counting subdeck cards', () => {
+        const tree = storage.getDeckTree();
+        const flatten = (nodes: typeof tree, depth = 0): string[] =>
+            nodes.flatMap(node => [`${'  '.repeat(depth)}${node.name} ${node.cardCount}/${node.totalCardCount}`, ...flatten(node.children, depth + 1)]);
+
+        expect(flatten(tree)).toEqual(['Biology 0/3', '  Cell 2/3', '    Mitosis 1/1', 'Chemistry 1/1']);
+        expect(tree[0]!.children[0]!.path).toBe('Biology::Cell');
+        expect(storage.getFlashcard('m1')?.topic).toBe('Biology::Cell::Mitosis');
+    });
+
+    it('adds and removes tags in bulk and counts them', async () => {
+        await storage.tagCards(['m1', 'c1', 'missing'], { add: ['exam', 'cells'] });
+        await storage.tagCards(['c1'], { remove: ['EXAM'] });
+
+        expect(storage.getFlashcard('c1')?.tags).toEqual(['cells']);
+        expect(storage.getTags()).toEqual([{ tag: 'cells', count: 2 }, { tag: 'exam', count: 1 }]);
+        expect(storage.searchCards('tag:exam deck:Biology').map(c => c.id)).toEqual(['m1']);
+    });
+
+    it('keeps saved searches per user, replacing one saved under the same name', async () => {
+        const first = storage.saveSearch('alice', 'Cells', 'deck:Biology::Cell');
+        const replaced = storage.saveSearch('alice', 'cells', 'deck:Biology::Cell -deck:Biology::Cell::Mitosis');
+        storage.saveSearch('bob', 'Chemistry', 'deck:Chemistry');
+
+        expect(replaced.id).toBe(first.id);
+        expect(storage.getSavedSearches('alice').map(s => s.query)).toEqual(['deck:Biology::Cell -deck:Biology::Cell::Mitosis']);
+        expect(storage.getSavedSearch('bob', first.id)).toBeNull();
+        expect(() => storage.saveSearch('alice', 'Broken', 'deck:(')).toThrow();
+
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const restarted = new FlashcardStorageService(db);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(restarted.getSavedSearches('bob').map(s => s.name)).toEqual(['Chemistry']);
+        expect(restarted.deleteSavedSearch('alice', first.id)).toBe(true);
+        expect(restarted.getSavedSearches('alice')).toEqual([]);
+    });
+});
+
+describe('FlashcardStorageService with Supabase', () => {
+    it('logs writes that Supabase reports as failed', async () => {
+        const warn = jest.spyOn(LoggerService.prototype, 'warn').mockImplementation(() => undefined);
+        const supabase = {
+            storeFlashcards: jest.fn(async () => ({ data: null, error: { message: 'column "kind" does not exist' } })),
+            deleteFlashcard: jest.fn(async () => ({ data: null, error: null }))
+        } as unknown as SupabaseService;
+        const storage = new FlashcardStorageService(supabase);
+        storage.storeFlashcards([card('b1', 'Biology')]);
+
+        await storage.updateCard(storage.getDeckId('Biology'), 'b1', { front: 'Edited' });
+
+        expect(warn).toHaveBeenCalledWith('Failed to persist card changes', { failed: 1, reason: 'column "kind" does not exist' });
+        warn.mockRestore();
+    });
+});
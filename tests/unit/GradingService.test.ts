@@ -0,0 +1,87 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { GradingService } from '../../src/core/services/GradingService.js';
+import { AdapterManager } from '../../src/core/services/AdapterManager.js';
+import type { LLMAdapter } from '../../src/core/services/AdapterManager.js';
+import type { AnswerJudgement } from '../../src/core/ports/interfaces.js';
+import { canonicalAnswer, parseAnswerJudgement } from '../../src/utils/answerMatching.js';
+
+const shortAnswer = (correctAnswer: string, acceptedAnswers?: string[]) =>
+  ({ kind: 'short-answer' as const, question: 'Q?', correctAnswer, ...(acceptedAnswers ? { acceptedAnswers } : {}) });
+
+const judgeWith = (judgeAnswer: (...args: unknown[]) => Promise<AnswerJudgement>) => {
+  const adapter = { name: 'judge', isAvailable: async () => true, judgeAnswer: jest.fn(judgeAnswer) };
+  const manager = new AdapterManager({ judge: adapter as unknown as LLMAdapter }, { priority: 'judge' });
+  return { adapter, grader: new GradingService(manager, { typoRatio: 0.2, minPartialCredit: 0.5 }) };
+};
+
+describe('answer matching', () => {
+  it('canonicalises case, accents, punctuation, numbers and units', () => {
+    expect(canonicalAnswer('  Café, au-lait! ')).toBe('cafe au lait');
+    expect(canonicalAnswer('Twenty-one kilometres')).toBe('21 km');
+    expect(canonicalAnswer('1,000 m')).toBe(canonicalAnswer('one thousand metres'));
+    expect(canonicalAnswer('100°C')).toBe(canonicalAnswer('100 degrees celsius'));
+    expect(canonicalAnswer('The second world war')).toBe('second world war');
+    expect(canonicalAnswer('H2O')).toBe('h2o');
+  });
+
+  it('reads a model judgement and clamps its credit', () => {
+    expect(parseAnswerJudgement('Sure: {"credit": 1.5, "rationale": " Same meaning. "}')).toEqual({ credit: 1, rationale: 'Same meaning.' });
+    expect(() => parseAnswerJudgement('no idea')).toThrow();
+  });
+});
+
+describe('GradingService', () => {
+  const grader = new GradingService(undefined, { typoRatio: 0.2, minPartialCredit: 0.5 });
+
+  it('keeps exact grading for choice questions', () => {
+    const question = { question: 'Q?', correctAnswer: 'Paris' };
+    expect(grader.gradeLocally(question, 'Paris')).toEqual(expect.objectContaining({ correct: true, credit: 1, method: 'exact' }));
+    expect(grader.gradeLocally(question, 'paris')).toEqual(expect.objectContaining({ correct: false, credit: 0, method: 'none' }));
+    expect(grader.gradeLocally(question, undefined).explanation).toBe('No answer given');
+  });
+
+  it('accepts typed answers that differ only in form', () => {
+    expect(grader.gradeLocally(shortAnswer('21 km'), 'twenty-one kilometres').method).toBe('normalized');
+    expect(grader.gradeLocally(shortAnswer('Carbon dioxide'), 'CO2').method).toBe('synonym');
+    expect(grader.gradeLocally(shortAnswer('Mitochondria'), 'mitocondria').method).toBe('fuzzy');
+    expect(grader.gradeLocally(shortAnswer('Mitochondria'), 'nucleus').correct).toBe(false);
+  });
+
+  it('never treats a different number as a typo', () => {
+    expect(grader.gradeLocally(shortAnswer('1945'), '1944').correct).toBe(false);
+  });
+
+  it('gives partial credit for most of a multi-word answer', () => {
+    const grade = grader.gradeLocally(shortAnswer('Treaty of Versailles'), 'Versailles treaty');
+    expect(grade).toEqual(expect.objectContaining({ correct: false, method: 'partial' }));
+    expect(grade.credit).toBeCloseTo(0.67);
+    expect(grader.gradeLocally(shortAnswer('Versailles'), 'treaty of versailles').credit).toBe(0);
+  });
+
+  it('asks the model about answers the local rules reject', async () => {
+    const { adapter, grader: judging } = judgeWith(async () => ({ credit: 1, rationale: 'Both name the same organelle.' }));
+    const grade = await judging.grade(shortAnswer('Mitochondria'), 'the powerhouse of the cell', { judge: true });
+
+    expect(grade).toEqual({ correct: true, credit: 1, method: 'llm', explanation: 'Both name the same organelle.' });
+    expect(adapter.judgeAnswer).toHaveBeenCalledWith(
+      expect.objectContaining({ expected: 'Mitochondria', answer: 'the powerhouse of the cell' }),
+      undefined
+    );
+  });
+
+  it('only asks the model when asked to and when the answer is not already accepted', async () => {
+    const { adapter, grader: judging } = judgeWith(async () => ({ credit: 1, rationale: '' }));
+    await judging.grade(shortAnswer('Mitochondria'), 'mitochondria', { judge: true });
+    await judging.grade(shortAnswer('Mitochondria'), 'nucleus');
+    await judging.grade({ question: 'Q?', correctAnswer: 'A' }, 'B', { judge: true });
+    expect(adapter.judgeAnswer).not.toHaveBeenCalled();
+  });
+
+  it('keeps the local grade when the model fails or is stricter', async () => {
+    const failing = judgeWith(async () => { throw new Error('offline'); });
+    expect((await failing.grader.grade(shortAnswer('Mitochondria'), 'nucleus', { judge: true })).method).toBe('none');
+
+    const strict = judgeWith(async () => ({ credit: 0, rationale: 'Incomplete.' }));
+    expect((await strict.grader.grade(shortAnswer('Treaty of Versailles'), 'Versailles treaty', { judge: true })).method).toBe('partial');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { LocalQueue, JOB_INTERRUPTED_REASON } from '../../src/core/services/LocalQueue.js';
+import type { LocalJob } from '../../src/core/services/LocalQueue.js';
+import { LocalDbService } from '../../src/core/services/LocalDbService.js';
+
+const waitFor = async (condition: () => boolean | Promise<boolean>, timeoutMs = 2000) => {
+    const started = Date.now();
+    while (!(await condition())) {
+        if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for condition');
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+};
+
+const status = async (queue: LocalQueue, id: string) => (await queue.getJob(id))?.status;
+
+describe('LocalQueue', () => {
+    let db: LocalDbService;
+
+    beforeEach(async () => {
+        // In memory when SQLite is unavailable; either way shared by the queues of one test
+        db = new LocalDbService(':memory:');
+        await db.initialize();
+    });
+
+    it('gives every job its own id and keeps jobs for a queue created later on the same database', async () => {
+        const queue = new LocalQueue<{ n: number }>('test', db);
+        const jobs = await Promise.all([1, 2, 3].map(n => queue.add({ n })));
+        await queue.close();
+
+        expect(new Set(jobs.map(job => job.id)).size).toBe(3);
+
+        const reopened = new LocalQueue<{ n: number }>('test', db);
+        const processed: number[] = [];
+        await reopened.process(async job => { processed.push(job.data.n); }, { concurrency: 1 });
+        await waitFor(() => processed.length === 3);
+
+        expect(processed).toEqual([1, 2, 3]);
+        expect(await new LocalQueue('other', db).getJobs()).toEqual([]);
+        await reopened.close();
+    });
+
+    it('holds delayed jobs back until their delay has passed', async () => {
+        const queue = new LocalQueue('test', db, { dispatchDelayMs: 0 });
+        const started: string[] = [];
+        await queue.process(async job => { started.push(job.data); }, { concurrency: 2 });
+
+        const delayed = await queue.add('later', { delayMs: 80 });
+        await queue.add('now');
+        await waitFor(() => started.length === 1);
+
+        expect(started).toEqual(['now']);
+        expect(await status(queue, delayed.id)).toBe('delayed');
+        await waitFor(() => started.length === 2);
+        expect(await status(queue, delayed.id)).toBe('completed');
+        await queue.close();
+    });
+
+    it('retries failed attempts with exponential backoff and reports the final failure', async () => {
+        const queue = new LocalQueue('test', db, { dispatchDelayMs: 0 });
+        const attemptTimes: number[] = [];
+        const onFailed = jest.fn((_job: LocalJob, _error: Error, _willRetry: boolean) => undefined);
+        await queue.process(async () => {
+            attemptTimes.push(Date.now());
+            throw new Error('model down');
+        }, { concurrency: 1, onFailed });
+
+        const job = await queue.add('flaky', { attempts: 3, backoffMs: 30 });
+        await waitFor(async () => (await status(queue, job.id)) === 'failed');
+
+        expect(attemptTimes).toHaveLength(3);
+        expect(attemptTimes[1]! - attemptTimes[0]!).toBeGreaterThanOrEqual(30);
+        expect(attemptTimes[2]! - attemptTimes[1]!).toBeGreaterThanOrEqual(60);
+        expect(onFailed.mock.calls.map(([, error, willRetry]) => `${error.message}:${willRetry}`))
+            .toEqual(['model down:true', 'model down:true', 'model down:false']);
+        expect(await queue.getJob(job.id)).toEqual(expect.objectContaining({ attemptsMade: 3, failedReason: 'model down' }));
+        await queue.close();
+    });
+
+    it('retries jobs a crash left running, counting the interrupted run as an attempt', async () => {
+        const crashed = new LocalQueue('test', db, { dispatchDelayMs: 0 });
+        await crashed.process(() => new Promise(() => undefined), { concurrency: 2 });
+        const retried = await crashed.add('retried', { attempts: 2 });
+        const exhausted = await crashed.add('exhausted', { attempts: 1 });
+        await waitFor(async () => (await crashed.getJobs(['active'])).length === 2);
+        await crashed.close();
+
+        const restarted = new LocalQueue('test', db, { dispatchDelayMs: 0 });
+        const onFailed = jest.fn((_job: LocalJob, _error: Error, _willRetry: boolean) => undefined);
+        await restarted.process(async job => `done ${job.data}`, { concurrency: 2, onFailed });
+        await waitFor(async () => (await status(restarted, retried.id)) === 'completed');
+
+        expect(await restarted.getJob(retried.id)).toEqual(expect.objectContaining({ attemptsMade: 1, returnvalue: 'done retried' }));
+        expect(await restarted.getJob(exhausted.id)).toEqual(expect.objectContaining({ status: 'failed', failedReason: JOB_INTERRUPTED_REASON }));
+        expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ id: exhausted.id }), expect.any(Error), false);
+        await restarted.close();
+    });
+
+    it('aborts a cancelled job and ignores what its processor returns', async () => {
+        const queue = new LocalQueue('test', db, { dispatchDelayMs: 0 });
+        let finish: (value: string) => void = () => undefined;
+        let signal: AbortSignal | undefined;
+        await queue.process((_job, jobSignal) => {
+            signal = jobSignal;
+            return new Promise<string>(resolve => { finish = resolve; });
+        }, { concurrency: 1 });
+        const job = await queue.add('slow');
+        await waitFor(() => signal !== undefined);
+
+        await expect(queue.cancel(job.id, 'stop')).resolves.toBe('cancelled');
+        finish('too late');
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(signal?.aborted).toBe(true);
+        expect(await queue.getJob(job.id)).toEqual(expect.objectContaining({ status: 'cancelled', failedReason: 'stop' }));
+        await expect(queue.cancel(job.id, 'stop')).resolves.toBe('finished');
+        await queue.close();
+    });
+});
@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { QueueService, jobUpdatedTrigger } from '../../src/core/services/QueueService.js';
+import type { JobUpdate } from '../../src/core/services/QueueService.js';
+import { PubSubService } from '../../src/core/services/PubSubService.js';
+import { LocalDbService } from '../../src/core/services/LocalDbService.js';
+import { appProperties } from '../../src/config/properties.js';
+
+// Fresh database per test; in memory when SQLite is unavailable
+async function localDb() {
+    const db = new LocalDbService(':memory:');
+    await db.initialize();
+    return db;
+}
+
+const waitFor = async (condition: () => boolean | Promise<boolean>, timeoutMs = 2000) => {
+    const started = Date.now();
+    while (!(await condition())) {
+        if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for condition');
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+// Local jobs only become due after the queue's dispatch delay (100 ms)
+const untilQueuedJobsAreDue = () => new Promise(resolve => setTimeout(resolve, 150));
+
+/** A processor whose jobs stay running until released, recording the order they started in. */
+function blockingProcessor() {
+    const started: string[] = [];
+    const signals = new Map<string, AbortSignal>();
+    const releases = new Map<string, () => void>();
+    const processor = (job: any, signal?: AbortSignal) => new Promise<any>((resolve, reject) => {
+        started.push(job.data.topic);
+        signals.set(job.data.topic, signal!);
+        releases.set(job.data.topic, () => resolve({ topic: job.data.topic }));
+        signal?.addEventListener('abort', () => reject(signal.reason));
+    });
+    return { processor, started, signals, release: (topic: string) => releases.get(topic)?.() };
+}
+
+describe('QueueService scheduling (in-memory queue)', () => {
+    const originalLocal = process.env.USE_LOCAL_QUEUE;
+    const { QUEUE_CONCURRENCY, QUEUE_MAX_JOBS_PER_USER } = appProperties;
+    let pubsub: PubSubService;
+    let queueService: QueueService;
+    let updates: JobUpdate[];
+
+    beforeEach(async () => {
+        process.env.USE_LOCAL_QUEUE = 'true';
+        pubsub = new PubSubService();
+        queueService = new QueueService(pubsub, await localDb());
+        updates = [];
+    });
+
+    afterEach(async () => {
+        await queueService.close();
+        process.env.USE_LOCAL_QUEUE = originalLocal;
+        appProperties.QUEUE_CONCURRENCY = QUEUE_CONCURRENCY;
+        appProperties.QUEUE_MAX_JOBS_PER_USER = QUEUE_MAX_JOBS_PER_USER;
+    });
+
+    async function watch(jobId: string) {
+        await pubsub.subscribe(jobUpdatedTrigger(jobId), ({ jobUpdated }: { jobUpdated: JobUpdate }) => updates.push(jobUpdated));
+    }
+
+    it('runs interactive jobs before background ones queued earlier', async () => {
+        appProperties.QUEUE_CONCURRENCY = 1;
+        const { processor, started, release } = blockingProcessor();
+
+        await queueService.addGenerateJob({ topic: 'first', count: 1 });
+        await queueService.addGenerateJob({ topic: 'background', count: 1, priority: 'background' });
+        await queueService.addGenerateJob({ topic: 'interactive', count: 1, priority: 'interactive' });
+        await untilQueuedJobsAreDue();
+        queueService.initWorker(processor);
+
+        await waitFor(() => started.length === 1);
+        release('first');
+        await waitFor(() => started.length === 2);
+        release('interactive');
+        await waitFor(() => started.length === 3);
+
+        expect(started).toEqual(['first', 'interactive', 'background']);
+    });
+
+    it('holds back jobs of a user at the limit while other users proceed', async () => {
+        appProperties.QUEUE_MAX_JOBS_PER_USER = 1;
+        const { processor, started, release } = blockingProcessor();
+        queueService.initWorker(processor);
+
+        await queueService.addGenerateJob({ topic: 'a-1', count: 1, userId: 'alice' });
+        await queueService.addGenerateJob({ topic: 'a-2', count: 1, userId: 'alice' });
+        await queueService.addGenerateJob({ topic: 'b-1', count: 1, userId: 'bob' });
+
+        await waitFor(() => started.length === 2);
+        expect(started).toEqual(['a-1', 'b-1']);
+
+        release('a-1');
+        await waitFor(() => started.length === 3);
+        expect(started[2]).toBe('a-2');
+    });
+
+    it('drops a waiting job when it is cancelled', async () => {
+        const jobId = await queueService.addGenerateJob({ topic: 'never', count: 1 });
+        await watch(jobId);
+
+        await expect(queueService.cancelJob(jobId)).resolves.toBe('cancelled');
+        const { processor, started } = blockingProcessor();
+        queueService.initWorker(processor);
+        await new Promise(resolve => setTimeout(resolve, 150));
+
+        expect(started).toEqual([]);
+        expect((await queueService.getJobStatus(jobId)).status).toBe('cancelled');
+        expect(updates.map(u => u.status)).toEqual(['CANCELLED']);
+    });
+
+    it('aborts the signal of a running job and reports it cancelled rather than failed', async () => {
+        const { processor, started, signals } = blockingProcessor();
+        queueService.initWorker(processor);
+        const jobId = await queueService.addGenerateJob({ topic: 'running', count: 1 });
+        await watch(jobId);
+        await waitFor(() => started.length === 1);
+
+        await expect(queueService.cancelJob(jobId)).resolves.toBe('cancelled');
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        expect(signals.get('running')?.aborted).toBe(true);
+        expect((await queueService.getJobStatus(jobId)).status).toBe('cancelled');
+        expect(updates.map(u => u.status)).toEqual(['PROCESSING', 'CANCELLED']);
+    });
+
+    it('leaves finished and unknown jobs alone', async () => {
+        queueService.initWorker(async () => ({ cards: [] }));
+        const jobId = await queueService.addGenerateJob({ topic: 'done', count: 1 });
+        await waitFor(async () => (await queueService.getJobStatus(jobId)).status === 'completed');
+
+        await expect(queueService.cancelJob(jobId)).resolves.toBe('finished');
+        await expect(queueService.cancelJob('missing')).resolves.toBe('not_found');
+    });
+});
+
+describe('QueueService request coalescing (in-memory queue)', () => {
+    const originalLocal = process.env.USE_LOCAL_QUEUE;
+    const { QUEUE_CONCURRENCY } = appProperties;
+    let queueService: QueueService;
+
+    beforeEach(async () => {
+        process.env.USE_LOCAL_QUEUE = 'true';
+        queueService = new QueueService(new PubSubService(), await localDb());
+    });
+
+    afterEach(async () => {
+        await queueService.close();
+        process.env.USE_LOCAL_QUEUE = originalLocal;
+        appProperties.QUEUE_CONCURRENCY = QUEUE_CONCURRENCY;
+    });
+
+    it('gives identical in-flight requests the same job and runs it once', async () => {
+        const { processor, started, release } = blockingProcessor();
+        queueService.initWorker(processor);
+
+        const [first, second] = await Promise.all([
+            queueService.addGenerateJob({ topic: 'Biology', count: 5, userId: 'alice' }),
+            queueService.addGenerateJob({ topic: 'biology', count: 5, userId: 'bob', mode: 'standard' })
+        ]);
+        await waitFor(() => started.length === 1);
+        const third = await queueService.addGenerateJob({ topic: 'Biology', count: 5, userId: 'carol' });
+        release('Biology');
+        await waitFor(async () => (await queueService.getJobStatus(first)).status === 'completed');
+
+        expect(second).toBe(first);
+        expect(third).toBe(first);
+        expect(started).toEqual(['Biology']);
+        expect((await queueService.getJobStatus(first)).data.requesters).toEqual(['alice', 'bob', 'carol']);
+    });
+
+    it('keeps requests apart when count, mode or knowledge source differ, or the job has finished', async () => {
+        queueService.initWorker(async () => ({ cards: [] }));
+        const base = await queueService.addGenerateJob({ topic: 'Biology', count: 5 });
+        const others = await Promise.all([
+            queueService.addGenerateJob({ topic: 'Biology', count: 10 }),
+            queueService.addGenerateJob({ topic: 'Biology', count: 5, mode: 'deep-dive' }),
+            queueService.addGenerateJob({ topic: 'Biology', count: 5, knowledgeSource: 'web-only' })
+        ]);
+        await waitFor(async () => (await queueService.getJobStatus(base)).status === 'completed');
+        const after = await queueService.addGenerateJob({ topic: 'Biology', count: 5 });
+
+        expect(new Set([base, ...others, after]).size).toBe(5);
+    });
+
+    it('promotes a waiting background job when an interactive request joins it', async () => {
+        appProperties.QUEUE_CONCURRENCY = 1;
+        const { processor, started, release } = blockingProcessor();
+
+        await queueService.addGenerateJob({ topic: 'first', count: 1 });
+        await queueService.addGenerateJob({ topic: 'other', count: 1, priority: 'background' });
+        await queueService.addGenerateJob({ topic: 'shared', count: 1, priority: 'background' });
+        await queueService.addGenerateJob({ topic: 'shared', count: 1, priority: 'interactive', userId: 'alice' });
+        await untilQueuedJobsAreDue();
+        queueService.initWorker(processor);
+
+        await waitFor(() => started.length === 1);
+        release('first');
+        await waitFor(() => started.length === 2);
+
+        expect(started).toEqual(['first', 'shared']);
+        release('shared');
+    });
+
+    it('detaches a requester that cancels a shared job and keeps it running for the others', async () => {
+        const { processor, started, signals, release } = blockingProcessor();
+        queueService.initWorker(processor);
+        const jobId = await queueService.addGenerateJob({ topic: 'shared', count: 1, userId: 'alice' });
+        await queueService.addGenerateJob({ topic: 'shared', count: 1, userId: 'bob' });
+        await waitFor(() => started.length === 1);
+
+        await expect(queueService.cancelJob(jobId, 'alice')).resolves.toBe('detached');
+
+        expect(signals.get('shared')?.aborted).toBe(false);
+        expect((await queueService.getJobStatus(jobId)).data).toEqual(expect.objectContaining({ userId: 'bob', requesters: ['bob'] }));
+        await expect(queueService.cancelJob(jobId, 'bob')).resolves.toBe('cancelled');
+        expect(signals.get('shared')?.aborted).toBe(true);
+        release('shared');
+    });
+});
+
+describe('QueueService dead-letter queue (in-memory queue)', () => {
+    const originalLocal = process.env.USE_LOCAL_QUEUE;
+    const { QUEUE_BACKOFF_MS } = appProperties;
+    let queueService: QueueService;
+
+    beforeEach(async () => {
+        process.env.USE_LOCAL_QUEUE = 'true';
+        appProperties.QUEUE_BACKOFF_MS = 5;
+        queueService = new QueueService(new PubSubService(), await localDb());
+    });
+
+    afterEach(async () => {
+        await queueService.close();
+        process.env.USE_LOCAL_QUEUE = originalLocal;
+        appProperties.QUEUE_BACKOFF_MS = QUEUE_BACKOFF_MS;
+    });
+
+    async function failJobs(jobs: { topic: string; userId?: string; error: string }[]) {
+        queueService.initWorker(async (job) => {
+            throw new Error(jobs.find(j => j.topic === job.data.topic)!.error);
+        });
+        const ids: string[] = [];
+        for (const { topic, userId } of jobs) {
+            ids.push(await queueService.addGenerateJob({ topic, count: 5, userId }));
+        }
+        await waitFor(async () => (await queueService.listDeadLetters()).length === jobs.length);
+        return ids;
+    }
+
+    it('keeps jobs that failed every attempt with their reason, attempts and original data', async () => {
+        const [jobId] = await failJobs([{ topic: 'Biology', userId: 'alice', error: 'connect ECONNREFUSED 127.0.0.1:11434' }]);
+
+        const [entry] = await queueService.listDeadLetters();
+
+        expect(entry).toEqual(expect.objectContaining({
+            originalJobId: jobId,
+            failedReason: 'connect ECONNREFUSED 127.0.0.1:11434',
+            attemptsMade: appProperties.QUEUE_JOB_ATTEMPTS,
+            data: expect.objectContaining({ topic: 'Biology', count: 5, userId: 'alice' })
+        }));
+        expect(await queueService.getDeadLetter(entry!.id)).toEqual(entry);
+    });
+
+    it('filters entries by topic, user and failure reason', async () => {
+        await failJobs([
+            { topic: 'Biology', userId: 'alice', error: 'connect ECONNREFUSED' },
+            { topic: 'Chemistry', userId: 'bob', error: 'connect ECONNREFUSED' },
+            { topic: 'Physics', userId: 'alice', error: 'Invalid JSON from model' }
+        ]);
+
+        const topics = async (filter: object) => (await queueService.listDeadLetters(filter)).map(e => e.data.topic).sort();
+
+        expect(await topics({ reason: 'econnrefused' })).toEqual(['Biology', 'Chemistry']);
+        expect(await topics({ userId: 'alice' })).toEqual(['Biology', 'Physics']);
+        expect(await topics({ topic: 'physics' })).toEqual(['Physics']);
+        expect(await topics({ failedSince: new Date(Date.now() + 60_000) })).toEqual([]);
+    });
+
+    it('replays entries as new jobs with the original data and removes them', async () => {
+        await failJobs([
+            { topic: 'Biology', userId: 'alice', error: 'connect ECONNREFUSED' },
+            { topic: 'Physics', error: 'Invalid JSON from model' }
+        ]);
+        const processed: any[] = [];
+        queueService.initWorker(async (job) => { processed.push(job.data); return { cards: [] }; });
+
+        const replayed = await queueService.replayDeadLetters({ reason: 'ECONNREFUSED' });
+        await waitFor(() => processed.length === 1);
+
+        expect(replayed).toHaveLength(1);
+        expect(processed[0]).toEqual(expect.objectContaining({ topic: 'Biology', count: 5, userId: 'alice' }));
+        expect((await queueService.getJobStatus(replayed[0]!.jobId)).data.topic).toBe('Biology');
+        expect((await queueService.listDeadLetters()).map(e => e.data.topic)).toEqual(['Physics']);
+        await expect(queueService.replayDeadLetter('missing')).resolves.toBeNull();
+    });
+
+    it('purges single entries and entries matching a filter', async () => {
+        await failJobs([
+            { topic: 'Biology', error: 'connect ECONNREFUSED' },
+            { topic: 'Chemistry', error: 'connect ECONNREFUSED' },
+            { topic: 'Physics', error: 'Invalid JSON from model' }
+        ]);
+        const physics = (await queueService.listDeadLetters({ topic: 'Physics' }))[0]!;
+
+        await expect(queueService.purgeDeadLetter(physics.id)).resolves.toBe(true);
+        await expect(queueService.purgeDeadLetter(physics.id)).resolves.toBe(false);
+        await expect(queueService.purgeDeadLetters({ reason: 'ECONNREFUSED' })).resolves.toBe(2);
+        expect(await queueService.listDeadLetters()).toEqual([]);
+    });
+});
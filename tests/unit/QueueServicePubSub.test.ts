@@ -1,23 +1,19 @@
 import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
 import { QueueService } from '../../src/core/services/QueueService.js';
+import { PubSubService } from '../../src/core/services/PubSubService.js';
+import { LocalDbService } from '../../src/core/services/LocalDbService.js';
+import { appProperties } from '../../src/config/properties.js';
 import type { PubSub } from 'graphql-subscriptions';
 
-// Mock the job.resolvers module to capture pubsub calls
+// Injected engine capturing the published job updates
 const mockPubsubPublish = jest.fn() as jest.Mock<(...args: any[]) => Promise<void>>;
 const mockPubsub = {
     publish: mockPubsubPublish,
     subscribe: jest.fn(),
     unsubscribe: jest.fn(),
-    asyncIterator: jest.fn(),
     asyncIterableIterator: jest.fn()
 } as unknown as PubSub;
 
-jest.unstable_mockModule('../../src/graphql/resolvers/job.resolvers.js', () => {
-    return {
-        pubsub: mockPubsub
-    };
-});
-
 const SKIP_SANDBOX = true;
 
 (SKIP_SANDBOX ? describe.skip : describe)('QueueService PubSub Integration', () => {
@@ -30,7 +26,7 @@ const SKIP_SANDBOX = true;
         mockPubsubPublish.mockResolvedValue(undefined);
 
         // Create queue service instance
-        queueService = new QueueService();
+        queueService = new QueueService(mockPubsub);
 
         // Mock processor function
         mockProcessor = jest.fn<(...args: any[]) => Promise<any>>().mockResolvedValue({
@@ -244,3 +240,84 @@ const SKIP_SANDBOX = true;
         });
     });
 });
+
+describe('QueueService job updates (local queue)', () => {
+    const originalLocal = process.env.USE_LOCAL_QUEUE;
+    let pubsub: PubSubService;
+    let queueService: QueueService;
+
+    const { QUEUE_BACKOFF_MS } = appProperties;
+
+    beforeEach(async () => {
+        process.env.USE_LOCAL_QUEUE = 'true';
+        appProperties.QUEUE_BACKOFF_MS = 0;
+        pubsub = new PubSubService();
+        const db = new LocalDbService(':memory:');
+        await db.initialize();
+        queueService = new QueueService(pubsub, db);
+    });
+
+    afterEach(async () => {
+        await queueService.close();
+        process.env.USE_LOCAL_QUEUE = originalLocal;
+        appProperties.QUEUE_BACKOFF_MS = QUEUE_BACKOFF_MS;
+    });
+
+    async function collect(jobId: string) {
+        const updates: any[] = [];
+        for await (const { jobUpdated } of await queueService.watchJob(jobId)) {
+            updates.push(jobUpdated);
+        }
+        return updates;
+    }
+
+    it('streams progress and completion to subscribers and ends the stream', async () => {
+        queueService.initWorker(async (job) => {
+            await job.updateProgress(40);
+            return { cards: [{ front: 'Q', back: 'A' }] };
+        });
+        const jobId = await queueService.addGenerateJob({ topic: 'Test', count: 1 });
+
+        const updates = await collect(jobId);
+
+        expect(updates.map(u => `${u.status}:${u.progress}`)).toEqual(['PENDING:0', 'PROCESSING:0', 'PROCESSING:40', 'COMPLETED:100']);
+        expect(updates[updates.length - 1]).toEqual(expect.objectContaining({ id: jobId, result: { cards: [{ front: 'Q', back: 'A' }] } }));
+    });
+
+    it('publishes retried attempts as pending and the final failure with the error message', async () => {
+        queueService.initWorker(async () => {
+            throw new Error('model crashed');
+        });
+        const jobId = await queueService.addGenerateJob({ topic: 'Test', count: 1 });
+
+        const updates = await collect(jobId);
+
+        expect(updates.filter(u => u.status === 'PENDING' && u.error === 'model crashed')).toHaveLength(appProperties.QUEUE_JOB_ATTEMPTS - 1);
+        expect(updates[updates.length - 1]).toEqual(expect.objectContaining({ id: jobId, status: 'FAILED', error: 'model crashed' }));
+    });
+
+    it('delivers the outcome of a job that finished before the subscription', async () => {
+        queueService.initWorker(async () => ({ cards: [] }));
+        const jobId = await queueService.addGenerateJob({ topic: 'Test', count: 1 });
+        await new Promise(resolve => setTimeout(resolve, 150));
+
+        const updates = await collect(jobId);
+
+        expect(updates).toEqual([expect.objectContaining({ id: jobId, status: 'COMPLETED', progress: 100 })]);
+    });
+});
+
+describe('PubSubService', () => {
+    it('delivers messages from other instances and ignores its own echoes from Redis', async () => {
+        const pubsub = new PubSubService();
+        const received: unknown[] = [];
+        await pubsub.subscribe('JOB_UPDATED_1', (payload: unknown) => received.push(payload));
+
+        await pubsub.publish('JOB_UPDATED_1', { n: 1 });
+        (pubsub as any).onRedisMessage('pubsub:JOB_UPDATED_1', JSON.stringify({ origin: (pubsub as any).instanceId, payload: { n: 1 } }));
+        (pubsub as any).onRedisMessage('pubsub:JOB_UPDATED_1', JSON.stringify({ origin: 'other-instance', payload: { n: 2 } }));
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(received).toEqual([{ n: 1 }, { n: 2 }]);
+    });
+});
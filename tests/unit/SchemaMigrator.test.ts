@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalDbService } from '../../src/core/services/LocalDbService.js';
+import { MIGRATIONS, SchemaMigrationError, SchemaMigrator } from '../../src/core/services/SchemaMigrator.js';
+
+// The upgrade tests need a real SQLite engine; better-sqlite3 is an optional dependency
+let Database: any = null;
+try {
+    // @ts-ignore - optional dependency not installed in all environments
+    Database = (await import('better-sqlite3')).default;
+} catch {
+    Database = null;
+}
+const describeWithSqlite = Database ? describe : describe.skip;
+
+const QUESTIONS = [{ id: 'q1', question: 'What is ATP?', options: ['Energy', 'Salt'], correctAnswer: 'Energy' }];
+
+describe('SchemaMigrator', () => {
+    it('numbers migrations from 1 and gives every one a down script', () => {
+        MIGRATIONS.forEach((migration, index) => {
+            expect(migration.version).toBe(index + 1);
+            expect(migration.name).toMatch(/^[a-z_]+$/);
+            expect(migration.down.trim()).not.toBe('');
+        });
+    });
+
+    it('rejects migration lists with gaps', () => {
+        const step = { name: 'step', up: '', down: '' };
+        expect(() => new SchemaMigrator(null as never, [{ ...step, version: 1 }, { ...step, version: 3 }]))
+            .toThrow(SchemaMigrationError);
+    });
+
+    (Database ? it.skip : it)('reports that the in-memory fallback has no schema', async () => {
+        const db = new LocalDbService(':memory:');
+        await db.initialize();
+
+        expect((await db.migrateSchema()).error).toMatch(/SQLite is not available/);
+        expect((await db.getSchemaStatus()).data).toEqual([]);
+    });
+});
+
+describeWithSqlite('SchemaMigrator on SQLite', () => {
+    let dir: string;
+    const dbFile = () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mindflip-migrations-'));
+        return path.join(dir, 'local.db');
+    };
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('upgrades a database created before schema versioning', async () => {
+        const file = dbFile();
+        const old = new Database(file);
+        // What the first releases created on open, with quizzes serialised twice
+        old.exec(`
+            CREATE TABLE flashcards (id TEXT PRIMARY KEY, user_id TEXT, topic TEXT, cards_json TEXT, created_at INTEGER);
+            CREATE TABLE quizzes (id TEXT PRIMARY KEY, user_id TEXT, topic TEXT, questions_json TEXT, score INTEGER, created_at INTEGER);
+            CREATE TABLE quiz_attempts (id TEXT PRIMARY KEY, quiz_id TEXT, user_id TEXT, result_json TEXT, created_at INTEGER);
+        `);
+        old.prepare('INSERT INTO flashcards VALUES (?, NULL, ?, ?, 1)').run('deck-1', 'Biology', JSON.stringify([{ id: 'c1', front: 'ATP', back: 'Energy' }]));
+        old.prepare('INSERT INTO quizzes VALUES (?, NULL, ?, ?, 0, 2)').run('quiz-1', 'Biology', JSON.stringify(JSON.stringify(QUESTIONS)));
+        old.prepare('INSERT INTO quiz_attempts VALUES (?, ?, NULL, ?, 3)').run('attempt-1', 'quiz-1', JSON.stringify(JSON.stringify({ score: 1 })));
+        old.close();
+
+        const db = new LocalDbService(file);
+        await db.initialize();
+
+        expect((await db.getSchemaStatus()).data.map(m => m.appliedAt !== null)).toEqual(MIGRATIONS.map(() => true));
+        expect((await db.getFlashcards()).data).toEqual([expect.objectContaining({ id: 'deck-1', cards: [{ id: 'c1', front: 'ATP', back: 'Energy' }] })]);
+        expect((await db.getQuiz('quiz-1')).data?.questions).toEqual(QUESTIONS);
+        expect((await db.getQuizAttempts('quiz-1')).data[0]?.result).toEqual({ score: 1 });
+        expect((await db.saveDeckHistory({ id: 'd1', topic: 'Biology', deck: { id: 'd1' }, created_at: 4 })).error).toBeNull();
+    });
+
+    it('adopts the steps a database counted in user_version without running them again', () => {
+        const db = new Database(dbFile());
+        db.exec(MIGRATIONS[0]!.up + MIGRATIONS[1]!.up);
+        db.pragma('user_version = 2');
+
+        const migrator = new SchemaMigrator(db);
+        expect(migrator.currentVersion()).toBe(2);
+        expect(migrator.migrate().map(m => m.version)).toEqual([3, 4, 5]);
+        expect(db.pragma('user_version', { simple: true })).toBe(5);
+        db.close();
+    });
+
+    it('rolls back to an empty database and migrates up again', () => {
+        const db = new Database(dbFile());
+        const migrator = new SchemaMigrator(db);
+        migrator.migrate();
+        db.prepare('INSERT INTO quizzes (id, questions_json) VALUES (?, ?)').run('quiz-1', JSON.stringify(QUESTIONS));
+
+        expect(migrator.rollback(2).map(m => m.version)).toEqual([5, 4, 3]);
+        // Back in the format the previous release read
+        const { questions_json } = db.prepare('SELECT questions_json FROM quizzes').get() as { questions_json: string };
+        expect(JSON.parse(JSON.parse(questions_json))).toEqual(QUESTIONS);
+
+        expect(migrator.rollback(0).map(m => m.version)).toEqual([2, 1]);
+        expect(db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name != 'schema_version'").all()).toEqual([]);
+        expect(() => migrator.migrate(-1)).toThrow(SchemaMigrationError);
+
+        expect(migrator.migrate().map(m => m.version)).toEqual(MIGRATIONS.map(m => m.version));
+        expect(migrator.status().every(m => m.appliedAt !== null)).toBe(true);
+        db.close();
+    });
+
+    it('refuses to migrate a database written by a newer build', () => {
+        const db = new Database(dbFile());
+        new SchemaMigrator(db).migrate();
+        db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)').run(MIGRATIONS.length + 1, 'future', 0);
+
+        expect(() => new SchemaMigrator(db).migrate()).toThrow(/newer than this build/);
+        db.close();
+    });
+
+    it('fails to open rather than hide the stored data behind the in-memory fallback', async () => {
+        const file = dbFile();
+        const db = new Database(file);
+        new SchemaMigrator(db).migrate();
+        db.prepare('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)').run(MIGRATIONS.length + 1, 'future', 0);
+        db.close();
+
+        await expect(new LocalDbService(file).initialize()).rejects.toThrow(SchemaMigrationError);
+    });
+});
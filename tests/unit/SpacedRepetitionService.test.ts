@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ANONYMOUS_USER_ID, SpacedRepetitionService, scheduleSm2, gradeFromSwipe, interleaveByTopic } from '../../src/core/services/SpacedRepetitionService.js';
+import { LocalDbService } from '../../src/core/services/LocalDbService.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ids = { userId: 'u1', cardId: 'c1' };
+
+describe('scheduleSm2', () => {
+  const now = 1_700_000_000_000;
+
+  it('schedules a new card one day out, then six days', () => {
+    const first = scheduleSm2(null, 'good', now, ids);
+    expect(first.repetitions).toBe(1);
+    expect(first.intervalDays).toBe(1);
+    expect(first.dueAt).toBe(now + DAY_MS);
+
+    const second = scheduleSm2(first, 'good', now, ids);
+    expect(second.intervalDays).toBe(6);
+  });
+
+  it('grows the interval by the ease factor after the second repetition', () => {
+    let schedule = scheduleSm2(null, 'good', now, ids);
+    schedule = scheduleSm2(schedule, 'good', now, ids);
+    const third = scheduleSm2(schedule, 'good', now, ids);
+    expect(third.intervalDays).toBe(Math.round(6 * third.easeFactor));
+  });
+
+  it('resets repetitions and counts a lapse on again', () => {
+    let schedule = scheduleSm2(null, 'good', now, ids);
+    schedule = scheduleSm2(schedule, 'good', now, ids);
+    const lapsed = scheduleSm2(schedule, 'again', now, ids);
+    expect(lapsed.repetitions).toBe(0);
+    expect(lapsed.lapses).toBe(1);
+    expect(lapsed.dueAt).toBeLessThan(now + DAY_MS);
+    expect(lapsed.easeFactor).toBeLessThan(schedule.easeFactor);
+  });
+
+  it('never drops the ease factor below 1.3', () => {
+    let schedule = scheduleSm2(null, 'again', now, ids);
+    for (let i = 0; i < 20; i++) {
+      schedule = scheduleSm2(schedule, 'again', now, ids);
+    }
+    expect(schedule.easeFactor).toBeCloseTo(1.3);
+  });
+
+  it('maps swipes to grades', () => {
+    expect(gradeFromSwipe('left')).toBe('again');
+    expect(gradeFromSwipe('right')).toBe('good');
+  });
+});
+
+describe('SpacedRepetitionService', () => {
+  let service: SpacedRepetitionService;
+
+  beforeEach(() => {
+    service = new SpacedRepetitionService();
+  });
+
+  it('records reviews with latency and keeps state per user', () => {
+    service.recordReview({ userId: 'u1', cardId: 'c1', grade: 'good', latencyMs: 1500 });
+
+    expect(service.getSchedule('u1', 'c1')?.repetitions).toBe(1);
+    expect(service.getSchedule('u2', 'c1')).toBeNull();
+
+    const logs = service.getReviewLogs('u1');
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toEqual(expect.objectContaining({ cardId: 'c1', grade: 'good', latencyMs: 1500 }));
+  });
+
+  it('keeps no schedule for anonymous reviews', () => {
+    expect(service.recordReview({ userId: ANONYMOUS_USER_ID, cardId: 'c1', grade: 'good' })).toBeNull();
+    expect(service.getSchedule(ANONYMOUS_USER_ID, 'c1')).toBeNull();
+    expect(service.getReviewLogs(ANONYMOUS_USER_ID)).toEqual([]);
+  });
+
+  it('is ready once the saved schedules are loaded', async () => {
+    const db = new LocalDbService(':memory:');
+    await db.initialize();
+    const earlier = new SpacedRepetitionService(db);
+    await earlier.ready;
+    earlier.recordReview({ userId: 'u1', cardId: 'c1', grade: 'good' });
+    await new Promise(resolve => setImmediate(resolve));
+
+    const restarted = new SpacedRepetitionService(db);
+    await restarted.ready;
+    expect(restarted.getSchedule('u1', 'c1')?.repetitions).toBe(1);
+    expect(restarted.getReviewLogs('u1')).toHaveLength(1);
+  });
+
+  it('orders due cards first, then new cards, then cards not yet due', () => {
+    const now = Date.now();
+    service.recordReview({ userId: 'u1', cardId: 'later', grade: 'easy', reviewedAt: now });
+    service.recordReview({ userId: 'u1', cardId: 'overdue', grade: 'good', reviewedAt: now - 3 * DAY_MS });
+    service.recordReview({ userId: 'u1', cardId: 'due', grade: 'good', reviewedAt: now - DAY_MS - 1000 });
+
+    const result = service.prioritize('u1', ['later', 'new-a', 'due', 'new-b', 'overdue'], now);
+
+    expect(result.cardIds).toEqual(['overdue', 'due', 'new-a', 'new-b', 'later']);
+    expect(result.dueCount).toBe(2);
+    expect(result.newCount).toBe(2);
+  });
+
+  describe('buildQueue', () => {
+    const limits = { newPerDay: 20, reviewsPerDay: 200 };
+
+    it('puts due cards before new cards and leaves out cards not yet due', () => {
+      const now = new Date(2024, 0, 10, 12).getTime();
+      service.recordReview({ userId: 'u1', cardId: 'due', grade: 'good', reviewedAt: now - 2 * DAY_MS });
+      service.recordReview({ userId: 'u1', cardId: 'later', grade: 'easy', reviewedAt: now - 1000 });
+
+      const queue = service.buildQueue('u1', [
+        { id: 'new', topic: 'Biology', createdAt: 1 },
+        { id: 'later', topic: 'Biology' },
+        { id: 'due', topic: 'Chemistry' }
+      ], limits, now);
+
+      expect(queue.items.map(i => i.cardId)).toEqual(['due', 'new']);
+      expect(queue.items.map(i => i.state)).toEqual(['due', 'new']);
+      expect(queue.dueCount).toBe(1);
+      expect(queue.newCount).toBe(1);
+    });
+
+    it('caps new cards by what is left of the daily limit', () => {
+      const now = new Date(2024, 0, 10, 12).getTime();
+      service.recordReview({ userId: 'u1', cardId: 'seen-today', grade: 'good', reviewedAt: now - 1000 });
+
+      const cards = ['a', 'b', 'c'].map((id, i) => ({ id, topic: 'T', createdAt: i }));
+      const queue = service.buildQueue('u1', cards, { newPerDay: 3, reviewsPerDay: 200 }, now);
+
+      expect(queue.newRemaining).toBe(2);
+      expect(queue.items.map(i => i.cardId)).toEqual(['a', 'b']);
+    });
+
+    it('interleaves cards across topics', () => {
+      const cards = [
+        { id: 'b1', topic: 'Biology', createdAt: 1 },
+        { id: 'b2', topic: 'Biology', createdAt: 2 },
+        { id: 'b3', topic: 'Biology', createdAt: 3 },
+        { id: 'h1', topic: 'History', createdAt: 4 },
+        { id: 'h2', topic: 'history', createdAt: 5 }
+      ];
+
+      const queue = service.buildQueue('u1', cards, limits);
+
+      expect(queue.items.map(i => i.cardId)).toEqual(['b1', 'h1', 'b2', 'h2', 'b3']);
+    });
+  });
+
+  describe('reviewQueue', () => {
+    it('queues cloze deletions separately, each with its card', () => {
+      const queue = service.reviewQueue('u1', [
+        { id: 'z1', topic: 'Biology', kind: 'cloze' as const, front: '{{c1::ATP}} is made by {{c2::mitochondria}}', back: '', createdAt: 1 },
+        { id: 'b1', topic: 'Biology', front: 'Q', back: 'A', createdAt: 2 }
+      ], { newPerDay: 20, reviewsPerDay: 200 });
+
+      expect(queue.items.map(i => i.cardId)).toEqual(['z1::c1', 'z1::c2', 'b1']);
+      expect(queue.items[1]!.card).toEqual(expect.objectContaining({ id: 'z1::c2', clozeIndex: 2 }));
+      expect(queue.newCount).toBe(3);
+    });
+
+    it('leaves out scheduled cards that are not given', () => {
+      const now = new Date(2024, 0, 10, 12).getTime();
+      service.recordReview({ userId: 'u1', cardId: 'deleted', grade: 'good', reviewedAt: now - 2 * DAY_MS });
+
+      const queue = service.reviewQueue('u1', [{ id: 'kept', topic: 'T', front: 'Q', back: 'A' }], { newPerDay: 20, reviewsPerDay: 200 }, now);
+
+      expect(queue.items.map(i => i.cardId)).toEqual(['kept']);
+      expect(queue.dueCount).toBe(0);
+    });
+  });
+});
+
+describe('interleaveByTopic', () => {
+  it('keeps order within a topic', () => {
+    const items = [
+      { id: 1, topic: 'a' }, { id: 2, topic: 'a' }, { id: 3, topic: 'b' }
+    ];
+    expect(interleaveByTopic(items).map(i => i.id)).toEqual([1, 3, 2]);
+  });
+});
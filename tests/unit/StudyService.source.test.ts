@@ -4,6 +4,7 @@
 import { jest, describe, it, expect, beforeEach } from '@jest/globals';
 import { StudyService } from '../../src/core/services/StudyService.js';
 import type { Flashcard } from '../../src/core/domain/models.js';
+import { appProperties } from '../../src/config/properties.js';
 import fs from 'fs';
 import path from 'path';
 
@@ -67,6 +68,48 @@ describe('StudyService source tagging & scope', () => {
     expect(result[0].sourceName).toBe('file.txt');
   });
 
+  it('imports structured CSV uploads verbatim without calling the LLM', async () => {
+    const csv = 'front,back,tags\r\n"Capital of France, in one word",Paris,geo europe\r\n2+2,4,\r\n';
+    const result = await service.processFile(Buffer.from(csv), 'deck.csv', 'text/csv', 'Topic');
+    expect(mockOllamaAdapter.generateFlashcardsFromText).not.toHaveBeenCalled();
+    expect(result).toHaveLength(2);
+    expect(result[0]).toEqual(expect.objectContaining({
+      front: 'Capital of France, in one word',
+      back: 'Paris',
+      tags: ['geo', 'europe'],
+      sourceType: 'upload',
+      sourceName: 'deck.csv'
+    }));
+  });
+
+  it('generates long PDFs chunk by chunk with page provenance and no duplicates', async () => {
+    const pages = [
+      { page: 1, text: 'Mitochondria produce ATP through cellular respiration in animal cells.' },
+      { page: 2, text: 'Chloroplasts capture sunlight and perform photosynthesis in plant cells.' },
+      { page: 3, text: 'Ribosomes translate messenger RNA into proteins inside every cell.' }
+    ];
+    jest.spyOn(service as any, 'extractPdfPages').mockResolvedValue({ text: pages.map(p => p.text).join('\n\n'), pages });
+    const previous = appProperties.DOC_CHUNK_CHARS;
+    appProperties.DOC_CHUNK_CHARS = 100;
+    mockOllamaAdapter.generateFlashcardsFromText.mockImplementation((async (text: string) => [
+      { id: `c-${text.length}`, front: 'What do mitochondria produce?', back: 'ATP through cellular respiration', topic: 'Cells' },
+      { id: `r-${text.length}`, front: text.includes('Ribosomes') ? 'What do ribosomes translate?' : 'What captures sunlight in plant cells?', back: text.includes('Ribosomes') ? 'Messenger RNA into proteins' : 'Chloroplasts capture sunlight', topic: 'Cells' }
+    ]) as any);
+
+    try {
+      const result = await service.processFile(Buffer.from('%PDF'), 'cells.pdf', 'application/pdf', 'Cells');
+
+      expect(mockOllamaAdapter.generateFlashcardsFromText).toHaveBeenCalledTimes(3);
+      expect(mockOllamaAdapter.generateFlashcardsFromText.mock.calls[2]?.[3]).toEqual({ filename: 'cells.pdf', page: 3 });
+      expect(result.map(c => c.front)).toEqual(['What do mitochondria produce?', 'What captures sunlight in plant cells?', 'What do ribosomes translate?']);
+      expect(result.map(c => c.source?.page)).toEqual([1, 2, 3]);
+      expect(result.every(c => c.source?.filename === 'cells.pdf')).toBe(true);
+    } finally {
+      appProperties.DOC_CHUNK_CHARS = previous;
+      mockOllamaAdapter.generateFlashcardsFromText.mockResolvedValue(mockCards as never);
+    }
+  });
+
   it('tags pasted text flashcards with sourceType text', async () => {
     const result = await service.processRawText('some text content', 'Topic');
     expect(result[0].sourceType).toBe('text');
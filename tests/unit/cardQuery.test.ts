@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import { CardQueryError, matchesCardQuery, normalizeDeckPath, parseCardQuery } from '../../src/utils/cardQuery.js';
+import type { CardDueState, SearchableCard } from '../../src/utils/cardQuery.js';
+
+const quality = (score: number) => ({ score, atomicity: score, answerLength: score, ambiguity: score, leakage: score, issues: [] });
+
+const cards: SearchableCard[] = [
+  { id: 'mitosis', topic: 'Biology::Cell::Mitosis', front: 'Phases of mitosis?', back: 'Prophase, metaphase, anaphase, telophase', tags: ['cells::division'], quality: quality(0.9), source: { filename: 'cells.pdf' } },
+  { id: 'atp', topic: 'Biology::Cell', front: 'The {{c1::mitochondria}} make ATP', back: 'The mitochondria make ATP', kind: 'cloze', tags: ['enzymes'], quality: quality(0.6) },
+  { id: 'ph', topic: 'Chemistry', front: 'What does pH measure?', back: 'Acidity', tags: [] }
+];
+
+const dueStates: Record<string, CardDueState> = { mitosis: 'due', atp: 'scheduled' };
+
+const search = (query: string) => {
+  const node = parseCardQuery(query);
+  return cards.filter(card => matchesCardQuery(node, card, { dueState: c => dueStates[c.id] ?? 'new' })).map(card => card.id);
+};
+
+describe('card query language', () => {
+  it('normalizes nested deck paths', () => {
+    expect(normalizeDeckPath(' Biology :: Cell ::')).toBe('Biology::Cell');
+  });
+
+  it('matches words against both sides and fields against their own values', () => {
+    expect(search('')).toEqual(['mitosis', 'atp', 'ph']);
+    expect(search('mitochondria')).toEqual(['atp']);
+    expect(search('"pH measure"')).toEqual(['ph']);
+    expect(search('back:acid*')).toEqual(['ph']);
+  });
+
+  it('includes subdecks and child tags', () => {
+    expect(search('deck:biology')).toEqual(['mitosis', 'atp']);
+    expect(search('deck:Biology::Cell::Mitosis')).toEqual(['mitosis']);
+    expect(search('tag:cells')).toEqual(['mitosis']);
+    expect(search('tag:none')).toEqual(['ph']);
+  });
+
+  it('filters on review state, kind, quality and source file', () => {
+    expect(search('is:due')).toEqual(['mitosis']);
+    expect(search('is:new')).toEqual(['ph']);
+    expect(search('is:cloze')).toEqual(['atp']);
+    expect(search('quality>=0.8')).toEqual(['mitosis']);
+    expect(search('quality<0.8')).toEqual(['atp']);
+    expect(search('source:*.pdf')).toEqual(['mitosis']);
+  });
+
+  it('combines terms with AND, OR, negation and parentheses', () => {
+    expect(search('deck:Biology -is:due')).toEqual(['atp']);
+    expect(search('tag:enzymes OR deck:Chemistry')).toEqual(['atp', 'ph']);
+    expect(search('-(deck:Biology is:scheduled) -tag:cells')).toEqual(['ph']);
+  });
+
+  it('matches many wildcards without backtracking', () => {
+    expect(search('back:pro*met*ana*tel*')).toEqual(['mitosis']);
+    expect(search('back:*phase*phase*phase*phase')).toEqual(['mitosis']);
+    expect(search('back:*phase*phase*phase*phase*phase')).toEqual([]);
+
+    const started = Date.now();
+    const long = { id: 'long', topic: 'Long', front: 'a'.repeat(5000), back: '' };
+    expect(matchesCardQuery(parseCardQuery('*a*a*a*a*a*a*a*a*a*a*a*a*b*'), long)).toBe(false);
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+  it('reports malformed queries with a position', () => {
+    expect(() => parseCardQuery('color:red')).toThrow(CardQueryError);
+    expect(() => parseCardQuery('quality>=high')).toThrow('quality needs a number');
+    expect(() => parseCardQuery('is:late')).toThrow('is: takes one of');
+    expect(() => parseCardQuery('(deck:Biology')).toThrow('Missing ")"');
+    expect(() => parseCardQuery('deck:Biology OR')).toThrow(expect.objectContaining({ position: 15 }));
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from '@jest/globals';
+import { expandReviewItems, getClozeIndices, renderClozeFront, revealCloze } from '../../src/utils/cloze.js';
+
+const text = 'The {{c1::mitochondria}} produce {{c2::ATP::energy molecule}} for the {{c1::cell}}.';
+
+describe('cloze utils', () => {
+  it('finds distinct deletion numbers', () => {
+    expect(getClozeIndices(text)).toEqual([1, 2]);
+    expect(getClozeIndices('no deletions here')).toEqual([]);
+  });
+
+  it('blanks only the active deletion and shows hints', () => {
+    expect(renderClozeFront(text, 1)).toBe('The [...] produce ATP for the [...].');
+    expect(renderClozeFront(text, 2)).toBe('The mitochondria produce [energy molecule] for the cell.');
+  });
+
+  it('reveals every deletion', () => {
+    expect(revealCloze(text)).toBe('The mitochondria produce ATP for the cell.');
+  });
+
+  it('expands a cloze card into one review item per deletion', () => {
+    const items = expandReviewItems({ id: 'c', front: text, back: revealCloze(text), topic: 'Bio', kind: 'cloze' });
+
+    expect(items.map(i => i.id)).toEqual(['c::c1', 'c::c2']);
+    expect(items[1]).toEqual(expect.objectContaining({
+      front: 'The mitochondria produce [energy molecule] for the cell.',
+      back: 'The mitochondria produce ATP for the cell.',
+      clozeIndex: 2
+    }));
+  });
+
+  it('leaves basic cards untouched', () => {
+    const card = { id: 'b', front: 'Q?', back: 'A', topic: 'Bio' };
+    expect(expandReviewItems(card)).toEqual([card]);
+  });
+});
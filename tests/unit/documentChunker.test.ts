@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { allocateCardCounts, attributePage, chunkSections, dedupeCards } from '../../src/utils/documentChunker.js';
+
+describe('chunkSections', () => {
+  it('packs consecutive pages into chunks and records where each page starts', () => {
+    const chunks = chunkSections([
+      { page: 1, text: 'a'.repeat(40) },
+      { page: 2, text: 'b'.repeat(40) },
+      { page: 3, text: 'c'.repeat(40) }
+    ], 100);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]?.pages).toEqual([{ page: 1, offset: 0 }, { page: 2, offset: 42 }]);
+    expect(chunks[1]?.pages).toEqual([{ page: 3, offset: 0 }]);
+    expect(chunks.every(c => c.text.length <= 100)).toBe(true);
+  });
+
+  it('splits an oversized page at sentence boundaries and keeps its page number', () => {
+    const sentence = 'Photosynthesis converts light into chemical energy. ';
+    const chunks = chunkSections([{ page: 7, text: sentence.repeat(10) }], 120);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => c.text.length <= 120)).toBe(true);
+    expect(chunks.every(c => c.pages[0]?.page === 7)).toBe(true);
+  });
+
+  it('leaves pages empty for unpaged text', () => {
+    const [chunk] = chunkSections([{ text: 'plain document text' }], 100);
+    expect(chunk?.pages).toEqual([]);
+  });
+});
+
+describe('allocateCardCounts', () => {
+  it('splits cards in proportion to chunk length', () => {
+    const chunks = [{ text: 'x'.repeat(300), pages: [] }, { text: 'x'.repeat(100), pages: [] }];
+    expect(allocateCardCounts(chunks, 8)).toEqual([6, 2]);
+  });
+
+  it('spaces cards evenly through the document when there are more chunks than cards', () => {
+    const chunks = Array.from({ length: 10 }, () => ({ text: 'x'.repeat(100), pages: [] }));
+    const counts = allocateCardCounts(chunks, 3);
+    expect(counts.reduce((a, b) => a + b, 0)).toBe(3);
+    expect(counts.slice(0, 3).reduce((a, b) => a + b, 0)).toBeLessThanOrEqual(1);
+    expect(counts.slice(7).reduce((a, b) => a + b, 0)).toBeGreaterThanOrEqual(1);
+  });
+});
+
+describe('attributePage', () => {
+  it('picks the page whose text best matches the card', () => {
+    const [chunk] = chunkSections([
+      { page: 4, text: 'The mitochondria produce ATP for the cell.' },
+      { page: 5, text: 'Chloroplasts capture sunlight during photosynthesis.' }
+    ], 1000);
+
+    expect(attributePage(chunk!, { front: 'What captures sunlight?', back: 'Chloroplasts, during photosynthesis' })).toBe(5);
+    expect(attributePage(chunk!, { front: 'Unrelated', back: 'Nothing shared' })).toBe(4);
+  });
+});
+
+describe('dedupeCards', () => {
+  it('drops exact and near-duplicate questions, keeping the first', () => {
+    const cards = dedupeCards([
+      { id: '1', front: 'What is the powerhouse of the cell?' },
+      { id: '2', front: 'what is the powerhouse of the cell' },
+      { id: '3', front: 'What organelle is the powerhouse of the cell?' },
+      { id: '4', front: 'Which pigment absorbs light?' }
+    ], 0.6);
+    expect(cards.map(c => c.id)).toEqual(['1', '4']);
+  });
+});
@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { describe, it, beforeAll, expect, jest } from '@jest/globals';
 import { ExpressServer } from '../../src/adapters/primary/express/server.js';
 import { FlashcardCacheService } from '../../src/core/services/FlashcardCacheService.js';
@@ -27,7 +28,7 @@ describe('Generate fallback when queue is unavailable', () => {
         const flashcardCache = new FlashcardCacheService(3600);
         const mockWebLLMService = {} as any;
         const mockQuizStorage = {} as any;
-        const mockFlashcardStorage = {} as any;
+        const mockFlashcardStorage = { recordRevisions: jest.fn() } as any;
 
         server = new ExpressServer(
             mockStudyService,
@@ -83,4 +84,47 @@ describe('Generate fallback when queue is unavailable', () => {
         expect(payload.cards).toHaveLength(2);
         expect(payload.jobId).toBeUndefined();
     });
+
+    it('queues the job for the user a token names only by its subject', async () => {
+        (server as any).queueAvailable = true;
+        mockQueue.addGenerateJob.mockResolvedValueOnce('job-1');
+        const req: any = { body: { topic: 'Chemistry', count: 2 }, user: { sub: 'user-2' } };
+        const res: any = {
+            status: jest.fn().mockReturnThis(),
+            json: jest.fn().mockReturnThis()
+        };
+
+        await (server as any).handleGenerate(req, res);
+
+        expect(mockQueue.addGenerateJob).toHaveBeenLastCalledWith(expect.objectContaining({ topic: 'Chemistry', userId: 'user-2' }));
+        expect(res.status).toHaveBeenCalledWith(202);
+    });
+
+    it('aborts a streamed generation when the client disconnects', async () => {
+        let signal: AbortSignal | undefined;
+        mockStudyService.generateFlashcards.mockImplementationOnce((...args: any[]) => {
+            signal = args[7].signal;
+            return new Promise((_resolve, reject) => {
+                signal!.addEventListener('abort', () => reject(signal!.reason));
+            });
+        });
+        const req: any = { body: { topic: 'Physics', count: 2 } };
+        const res: any = Object.assign(new EventEmitter(), {
+            writableEnded: false,
+            status: jest.fn().mockReturnThis(),
+            setHeader: jest.fn(),
+            flushHeaders: jest.fn(),
+            write: jest.fn(),
+            end: jest.fn(() => { res.writableEnded = true; })
+        });
+
+        const pending = (server as any).handleGenerateStream(req, res);
+        await new Promise(resolve => setImmediate(resolve));
+        res.emit('close');
+        await pending;
+
+        expect(signal?.aborted).toBe(true);
+        expect(res.write).not.toHaveBeenCalledWith(expect.stringContaining('event: error'));
+    });
 });
+
@@ -1,8 +1,8 @@
-import { describe, it, expect } from '@jest/globals';
+import { describe, it, expect, jest } from '@jest/globals';
 import { makeExecutableSchema } from '@graphql-tools/schema';
 import { typeDefs } from '../../src/graphql/schema.js';
 import { resolvers } from '../../src/graphql/resolvers/index.js';
-import { GraphQLSchema, GraphQLObjectType, GraphQLScalarType } from 'graphql';
+import { GraphQLSchema, GraphQLObjectType, GraphQLScalarType, graphql } from 'graphql';
 
 describe('GraphQL Schema Validation', () => {
     let schema: GraphQLSchema;
@@ -104,6 +104,22 @@ describe('GraphQL Schema Validation', () => {
 
             expect(fields?.submitQuizAnswer).toBeDefined();
         });
+
+        it('should have single-card mutation fields', () => {
+            const fields = schema.getMutationType()?.getFields();
+
+            for (const name of ['addCard', 'updateCard', 'deleteCard', 'moveCards', 'copyCards']) {
+                expect(fields?.[name]).toBeDefined();
+            }
+        });
+
+        it('should have tagging and saved search mutation fields', () => {
+            const fields = schema.getMutationType()?.getFields();
+
+            for (const name of ['tagCards', 'saveSearch', 'deleteSavedSearch']) {
+                expect(fields?.[name]).toBeDefined();
+            }
+        });
     });
 
     describe('Subscription Type Fields', () => {
@@ -208,6 +224,89 @@ describe('GraphQL Schema Validation', () => {
         });
     });
 
+    describe('Quiz Questions', () => {
+        it('resolves each question kind to its member of the QuizQuestion union', async () => {
+            const questions = [
+                { id: 'mc', question: 'Pick one', options: ['A', 'B'], correctAnswer: 'A' },
+                { id: 'tf', kind: 'true-false', question: 'Judge', options: ['True', 'False'], correctAnswer: 'False' },
+                { id: 'or', kind: 'ordering', question: 'Order', options: ['b', 'a'], correctAnswers: ['a', 'b'], correctAnswer: 'a → b' },
+                { id: 'sa', kind: 'short-answer', question: 'Type', options: [], correctAnswer: 'ATP' }
+            ];
+            const contextValue = { quizStorage: { getQuiz: () => ({ id: 'quiz-1', topic: 'Bio', questions, createdAt: new Date(0) }) } };
+
+            const result = await graphql({
+                schema,
+                contextValue,
+                source: `{
+                    quiz(id: "quiz-1") {
+                        questions {
+                            __typename
+                            ... on MultipleChoiceQuestion { kind correctAnswer }
+                            ... on TrueFalseQuestion { kind isTrue }
+                            ... on OrderingQuestion { items correctOrder }
+                            ... on ShortAnswerQuestion { acceptedAnswers }
+                        }
+                    }
+                }`
+            });
+
+            expect(result.errors).toBeUndefined();
+            expect((result.data as any).quiz.questions).toEqual([
+                { __typename: 'MultipleChoiceQuestion', kind: 'MULTIPLE_CHOICE', correctAnswer: 'A' },
+                { __typename: 'TrueFalseQuestion', kind: 'TRUE_FALSE', isTrue: false },
+                { __typename: 'OrderingQuestion', items: ['b', 'a'], correctOrder: ['a', 'b'] },
+                { __typename: 'ShortAnswerQuestion', acceptedAnswers: [] }
+            ]);
+        });
+
+        it('returns each answer\'s grade and passes judge to the store', async () => {
+            const submitAnswers = jest.fn(async (..._args: unknown[]) => ({
+                quizId: 'quiz-1',
+                score: 0,
+                total: 1,
+                credit: 0.5,
+                answers: { sa: 'powerhouse' },
+                grades: { sa: { correct: false, credit: 0.5, method: 'llm', explanation: 'Partly right.' } },
+                timestamp: 0
+            }));
+
+            const result = await graphql({
+                schema,
+                contextValue: { user: { id: 'user-1' }, quizStorage: { submitAnswers, getQuiz: () => undefined } },
+                source: `mutation {
+                    submitQuizAnswer(quizId: "quiz-1", answers: [{ questionId: "sa", answer: "powerhouse" }], judge: true) {
+                        score
+                        credit
+                        grades { questionId credit method explanation }
+                    }
+                }`
+            });
+
+            expect(result.errors).toBeUndefined();
+            expect((result.data as any).submitQuizAnswer).toEqual({
+                score: 0,
+                credit: 0.5,
+                grades: [{ questionId: 'sa', credit: 0.5, method: 'LLM', explanation: 'Partly right.' }]
+            });
+            expect(submitAnswers).toHaveBeenCalledWith('quiz-1', [{ questionId: 'sa', answer: 'powerhouse' }], { judge: true, userId: 'user-1' });
+        });
+
+        it('requires sign-in for judged submissions', async () => {
+            const submitAnswers = jest.fn();
+
+            const result = await graphql({
+                schema,
+                contextValue: { quizStorage: { submitAnswers, getQuiz: () => undefined } },
+                source: `mutation {
+                    submitQuizAnswer(quizId: "quiz-1", answers: [{ questionId: "sa", answer: "powerhouse" }], judge: true) { score }
+                }`
+            });
+
+            expect(result.errors?.[0]?.message).toBe('Authentication required');
+            expect(submitAnswers).not.toHaveBeenCalled();
+        });
+    });
+
     describe('Schema Integrity', () => {
         it('should not have any orphaned types', () => {
             const typeMap = schema.getTypeMap();
@@ -0,0 +1,38 @@
+import { describe, it, expect } from '@jest/globals';
+import { sanitizeHtml } from '../../src/utils/html.js';
+
+describe('sanitizeHtml', () => {
+  it('keeps formatting, images and audio', () => {
+    const html = '<div class="q"><b>ATP</b> &amp; <i>ADP</i><br><img src="data:image/png;base64,AAAA" alt="cell"></div><audio controls src="data:audio/mpeg;base64,BBBB"></audio>';
+    expect(sanitizeHtml(html)).toBe(html);
+    expect(sanitizeHtml('Plain text, 3 > 2')).toBe('Plain text, 3 > 2');
+  });
+
+  it('drops scripts, event handlers and styles', () => {
+    expect(sanitizeHtml('<img src=x onerror=alert(1)>')).toBe('<img src="x">');
+    expect(sanitizeHtml('<IMG SRC="x" ONERROR="alert(1)" style="color:red">')).toBe('<img src="x">');
+    expect(sanitizeHtml('a<script>alert(1)</script>b<style>*{}</style>c')).toBe('abc');
+    expect(sanitizeHtml('<svg onload=alert(1)><circle/></svg>after')).toBe('after');
+    expect(sanitizeHtml('<iframe src="https://example.com">')).toBe('');
+    expect(sanitizeHtml('<details open ontoggle=alert(1)>x</details><!-- note -->')).toBe('x');
+  });
+
+  it('drops unsafe URLs, however they are written', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href="  java\tscript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<a href="&#106;avascript&colon;alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHtml('<img src="data:text/html;base64,AAAA">')).toBe('<img>');
+    expect(sanitizeHtml('<a href="https://example.com/?a=1&b=2">x</a>')).toBe('<a href="https://example.com/?a=1&amp;b=2">x</a>');
+  });
+
+  it('escapes markup that is not a well-formed tag', () => {
+    expect(sanitizeHtml('<img alt="<img src=x onerror=alert(1)>">')).toBe('&lt;img alt="<img src="x">">');
+    expect(sanitizeHtml('1 < 2')).toBe('1 &lt; 2');
+  });
+
+  it('stays fast on pathological input', () => {
+    const started = Date.now();
+    sanitizeHtml('<a "'.repeat(20000) + '<a<a<a'.repeat(20000));
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from '@jest/globals';
+import { calibrateItem, calibrateItems, estimateAbility, itemInformation, probabilityCorrect } from '../../src/utils/irt.js';
+
+const item = { difficulty: 1, discrimination: 1.5 };
+
+describe('item response theory', () => {
+  it('gives an even chance and the most information at the item difficulty', () => {
+    expect(probabilityCorrect(1, item)).toBeCloseTo(0.5);
+    expect(probabilityCorrect(3, item)).toBeGreaterThan(0.9);
+    expect(itemInformation(1, item)).toBeCloseTo(1.5 ** 2 / 4);
+    expect(itemInformation(1, item)).toBeGreaterThan(itemInformation(0, item));
+    expect(itemInformation(1, item)).toBeGreaterThan(itemInformation(2, item));
+  });
+
+  it('estimates ability from answers, staying finite when all are right', () => {
+    expect(estimateAbility([]).theta).toBeCloseTo(0);
+    expect(estimateAbility([]).standardError).toBeCloseTo(1, 1);
+    expect(estimateAbility([], { mean: 1.5, sd: 1 }).theta).toBeCloseTo(1.5, 1);
+
+    const allRight = estimateAbility([{ item, credit: 1 }, { item, credit: 1 }]);
+    const allWrong = estimateAbility([{ item, credit: 0 }, { item, credit: 0 }]);
+    expect(allRight.theta).toBeGreaterThan(0);
+    expect(allRight.theta).toBeLessThan(4);
+    expect(allWrong.theta).toBeLessThan(0);
+
+    const half = estimateAbility([{ item, credit: 0.5 }]).theta;
+    expect(half).toBeGreaterThan(allWrong.theta);
+    expect(half).toBeLessThan(allRight.theta);
+  });
+
+  it('narrows the estimate as answers add information', () => {
+    const few = estimateAbility(Array.from({ length: 2 }, () => ({ item, credit: 1 })));
+    const many = estimateAbility(Array.from({ length: 20 }, (_, index) => ({ item, credit: index % 2 })));
+    expect(many.standardError).toBeLessThan(few.standardError);
+  });
+
+  it('recovers an item from answers by learners of known ability', () => {
+    const responses = Array.from({ length: 201 }, (_, index) => {
+      const theta = -3 + index * 0.03;
+      return { theta, credit: probabilityCorrect(theta, item) };
+    });
+    const fitted = calibrateItem(responses);
+    expect(fitted.difficulty).toBeCloseTo(1, 1);
+    expect(fitted.discrimination).toBeGreaterThan(1.2);
+    expect(fitted.discrimination).toBeLessThan(1.8);
+  });
+
+  it('keeps the prior of items with no answers', () => {
+    expect(calibrateItem([], { difficulty: -1, discrimination: 1 })).toEqual({ difficulty: -1, discrimination: 1 });
+  });
+
+  it('calibrates items answered correctly more often as easier', () => {
+    const attempts = Array.from({ length: 12 }, (_, index) => ({
+      easy: index < 10 ? 1 : 0,
+      hard: index < 3 ? 1 : 0
+    }));
+    const items = calibrateItems(attempts, {
+      easy: { difficulty: 0, discrimination: 1 },
+      hard: { difficulty: 0, discrimination: 1 },
+      unseen: { difficulty: 0.5, discrimination: 1 }
+    });
+    expect(items.easy!.difficulty).toBeLessThan(0);
+    expect(items.hard!.difficulty).toBeGreaterThan(0);
+    expect(items.unseen).toEqual({ difficulty: 0.5, discrimination: 1 });
+  });
+});
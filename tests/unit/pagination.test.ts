@@ -0,0 +1,46 @@
+import { describe, it, expect } from '@jest/globals';
+import { MAX_PAGE_SIZE, PaginationError, deckLastStudied, pageDecks, paginate } from '../../src/utils/pagination.js';
+
+const deck = (id: string, topic: string, timestamp: number, cardIds: string[] = []) =>
+  ({ id, topic, timestamp, cards: cardIds.map(cardId => ({ id: cardId, front: '', back: '', topic })) });
+
+describe('pagination', () => {
+  const items = ['a', 'b', 'c', 'd', 'e'].map((id, index) => ({ id, rank: index % 2 }));
+  const byRank = { key: (item: { rank: number }) => item.rank, id: (item: { id: string }) => item.id, order: 'asc' as const };
+
+  it('walks every item exactly once, breaking ties by id', () => {
+    const seen: string[] = [];
+    let after: string | undefined;
+    do {
+      const page = paginate(items, byRank, { first: 2, after });
+      seen.push(...page.edges.map(edge => edge.node.id));
+      after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor! : undefined;
+    } while (after);
+
+    expect(seen).toEqual(['a', 'c', 'e', 'b', 'd']);
+  });
+
+  it('keeps the page boundary when earlier items are removed', () => {
+    const page = paginate(items, byRank, { first: 2 });
+    const next = paginate(items.filter(item => item.id !== 'a'), byRank, { first: 2, after: page.pageInfo.endCursor! });
+
+    expect(next.edges.map(edge => edge.node.id)).toEqual(['e', 'b']);
+    expect(next.totalCount).toBe(4);
+  });
+
+  it('validates the page size and cursor', () => {
+    expect(() => paginate(items, byRank, { first: MAX_PAGE_SIZE + 1 })).toThrow(PaginationError);
+    expect(() => paginate(items, byRank, { after: 'garbage' })).toThrow('Invalid cursor');
+  });
+
+  it('filters and sorts decks, with unstudied decks last', () => {
+    const decks = [deck('d1', 'Biology', 100, ['b1']), deck('d2', 'Algebra', 300, ['x1']), deck('d3', 'Biochemistry', 200, ['c1'])];
+    const ids = (query: Parameters<typeof pageDecks>[1]) => pageDecks(decks, query).edges.map(edge => edge.node.id);
+    const lastStudied = deckLastStudied(() => new Map([['b1', 50], ['c1', 70]]));
+
+    expect(ids({})).toEqual(['d2', 'd3', 'd1']);
+    expect(ids({ sortBy: 'topic' })).toEqual(['d2', 'd3', 'd1']);
+    expect(ids({ topic: 'bio', createdAfter: 150 })).toEqual(['d3']);
+    expect(ids({ sortBy: 'lastStudied', lastStudied })).toEqual(['d3', 'd1', 'd2']);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { answersByQuestionId, formatAnswer, gradeAnswer, normalizeQuestionTiming, normalizeQuizQuestion, normalizeText, questionKindsPrompt } from '../../src/utils/quizQuestions.js';
+
+describe('quiz question utils', () => {
+  it('grades multiple choice by the exact option', () => {
+    const question = { correctAnswer: 'Mitochondria' };
+    expect(gradeAnswer(question, 'Mitochondria')).toBe(true);
+    expect(gradeAnswer(question, 'mitochondria')).toBe(false);
+    expect(gradeAnswer(question, null)).toBe(false);
+  });
+
+  it('grades true/false from any common spelling', () => {
+    const question = { kind: 'true-false' as const, correctAnswer: 'False' };
+    expect(gradeAnswer(question, 'false')).toBe(true);
+    expect(gradeAnswer(question, 'No')).toBe(true);
+    expect(gradeAnswer(question, 'True')).toBe(false);
+    expect(gradeAnswer(question, 'maybe')).toBe(false);
+  });
+
+  it('grades multiple-select as the exact set of correct options', () => {
+    const question = { kind: 'multiple-select' as const, correctAnswer: 'A, C', correctAnswers: ['A', 'C'] };
+    expect(gradeAnswer(question, ['C', 'A'])).toBe(true);
+    expect(gradeAnswer(question, ['A'])).toBe(false);
+    expect(gradeAnswer(question, ['A', 'B', 'C'])).toBe(false);
+  });
+
+  it('grades ordering by the full sequence', () => {
+    const question = { kind: 'ordering' as const, correctAnswer: '1 → 2 → 3', correctAnswers: ['1', '2', '3'] };
+    expect(gradeAnswer(question, ['1', '2', '3'])).toBe(true);
+    expect(gradeAnswer(question, ['2', '1', '3'])).toBe(false);
+    expect(gradeAnswer(question, ['1', '2'])).toBe(false);
+  });
+
+  it('grades short answers loosely against the answer and its alternatives', () => {
+    const question = { kind: 'short-answer' as const, correctAnswer: 'The Mitochondrion', acceptedAnswers: ['mitochondria'] };
+    expect(gradeAnswer(question, '  mitochondrion! ')).toBe(true);
+    expect(gradeAnswer(question, 'Mitochondria')).toBe(true);
+    expect(gradeAnswer(question, 'nucleus')).toBe(false);
+    expect(gradeAnswer(question, '')).toBe(false);
+    expect(normalizeText('Café  Au-Lait')).toBe('cafe au lait');
+  });
+
+  it('formats list answers for results', () => {
+    expect(formatAnswer({ kind: 'ordering' }, ['a', 'b'])).toBe('a → b');
+    expect(formatAnswer({ kind: 'multiple-select' }, ['a', 'b'])).toBe('a, b');
+    expect(formatAnswer({}, undefined)).toBe('');
+  });
+
+  it('normalizes what a model returns for each kind', () => {
+    expect(normalizeQuizQuestion({ question: 'Q', options: ['A', 'B'], correctAnswer: 1 }, 'q1'))
+      .toEqual({ id: 'q1', kind: 'multiple-choice', question: 'Q', options: ['A', 'B'], correctAnswer: 'B' });
+    expect(normalizeQuizQuestion({ type: 'True/False', question: 'Q', correctAnswer: false }, 'q2'))
+      .toEqual(expect.objectContaining({ kind: 'true-false', options: ['True', 'False'], correctAnswer: 'False' }));
+    expect(normalizeQuizQuestion({ kind: 'multiple_select', question: 'Q', options: ['A', 'B', 'C'], correctAnswers: ['A', 2] }, 'q3'))
+      .toEqual(expect.objectContaining({ kind: 'multiple-select', correctAnswers: ['A', 'C'], correctAnswer: 'A, C' }));
+    expect(normalizeQuizQuestion({ kind: 'short-answer', question: 'Q', correctAnswer: 'ATP', acceptedAnswers: ['adenosine triphosphate'] }, 'q4'))
+      .toEqual(expect.objectContaining({ options: [], correctAnswer: 'ATP', acceptedAnswers: ['adenosine triphosphate'] }));
+
+    const ordering = normalizeQuizQuestion({ kind: 'ordering', question: 'Q', items: ['1', '2', '3'] }, 'q5');
+    expect(ordering?.correctAnswers).toEqual(['1', '2', '3']);
+    expect([...ordering!.options].sort()).toEqual(['1', '2', '3']);
+    expect(ordering!.options).not.toEqual(['1', '2', '3']);
+  });
+
+  it('drops questions that cannot be graded', () => {
+    expect(normalizeQuizQuestion({ question: '' }, 'q')).toBeNull();
+    expect(normalizeQuizQuestion({ kind: 'true-false', question: 'Q', correctAnswer: 'perhaps' }, 'q')).toBeNull();
+    expect(normalizeQuizQuestion({ kind: 'multiple-select', question: 'Q', options: ['A', 'B'], correctAnswers: ['Z'] }, 'q')).toBeNull();
+    expect(normalizeQuizQuestion({ kind: 'ordering', question: 'Q', items: ['only one'] }, 'q')).toBeNull();
+  });
+
+  it('asks for the JSON shape of every requested kind', () => {
+    const prompt = questionKindsPrompt(['true-false', 'ordering']);
+    expect(prompt).toContain('a mix of true-false, ordering');
+    expect(prompt).toContain('"kind": "ordering"');
+    expect(prompt).not.toContain('"kind": "short-answer"');
+  });
+
+  it('reads stored answers by question id whatever their shape', () => {
+    const questions = [{ id: 'a', options: ['x', 'y'] }, { id: 'b', options: ['z'] }];
+    expect(answersByQuestionId({ a: 'y', b: ['z'] }, questions)).toEqual({ a: 'y', b: ['z'] });
+    expect(answersByQuestionId([1, null], questions)).toEqual({ a: 'y' });
+    expect(answersByQuestionId(undefined, questions)).toEqual({});
+  });
+
+  it('keeps only usable question timing', () => {
+    expect(normalizeQuestionTiming({ timeMs: 1500.4, changes: 2.7, timedOut: 'yes', startedAt: -1 }))
+      .toEqual({ timeMs: 1500, changes: 2, timedOut: false });
+    expect(normalizeQuestionTiming({ timeMs: -5 })).toBeUndefined();
+    expect(normalizeQuestionTiming('slow')).toBeUndefined();
+    expect(normalizeQuestionTiming({ timeMs: 9e12 })?.timeMs).toBe(60 * 60 * 1000);
+    expect(normalizeQuestionTiming({ timeMs: 90000 }, 30000)?.timeMs).toBe(30000);
+  });
+});
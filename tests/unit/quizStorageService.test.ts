@@ -1,4 +1,5 @@
 import { QuizStorageService } from '../../src/core/services/QuizStorageService.js';
+import { LocalDbService } from '../../src/core/services/LocalDbService.js';
 
 const sampleQuiz = {
   id: 'quiz-1',
@@ -77,4 +78,135 @@ describe('QuizStorageService', () => {
     expect(quiz?.id).toBe('quiz-1');
     expect(attempts).toHaveLength(1);
   });
+
+  it('grades submitted answers by question kind', async () => {
+    storage.storeQuiz({
+      ...sampleQuiz,
+      questions: [
+        { id: 'tf', kind: 'true-false', question: 'ATP stores energy', options: ['True', 'False'], correctAnswer: 'True' },
+        { id: 'ms', kind: 'multiple-select', question: 'Primary colours?', options: ['Red', 'Green', 'Blue'], correctAnswers: ['Red', 'Blue'], correctAnswer: 'Red, Blue' },
+        { id: 'or', kind: 'ordering', question: 'Order', options: ['b', 'a'], correctAnswers: ['a', 'b'], correctAnswer: 'a → b' },
+        { id: 'sa', kind: 'short-answer', question: 'Powerhouse?', options: [], correctAnswer: 'Mitochondria' }
+      ]
+    } as any);
+
+    const result = await storage.submitAnswers('quiz-1', [
+      { questionId: 'tf', answer: 'true' },
+      { questionId: 'ms', answer: ['Blue', 'Red'] },
+      { questionId: 'or', answer: ['b', 'a'] },
+      { questionId: 'sa', answer: 'the mitochondria' }
+    ]);
+
+    expect(result).toEqual(expect.objectContaining({ score: 3, total: 4 }));
+    expect(storage.getAttempts('quiz-1')[0]?.answers.ms).toEqual(['Blue', 'Red']);
+    expect(storage.getAttempts('quiz-1')[0]?.grades?.or).toEqual(expect.objectContaining({ correct: false, credit: 0 }));
+  });
+
+  it('stores partial credit and how each typed answer was graded', async () => {
+    storage.storeQuiz({
+      ...sampleQuiz,
+      questions: [
+        { id: 'a', kind: 'short-answer', question: 'Distance?', options: [], correctAnswer: '21 km' },
+        { id: 'b', kind: 'short-answer', question: 'Which treaty?', options: [], correctAnswer: 'Treaty of Versailles' }
+      ]
+    } as any);
+
+    const result = await storage.submitAnswers('quiz-1', [
+      { questionId: 'a', answer: 'twenty-one kilometres' },
+      { questionId: 'b', answer: 'Versailles treaty' }
+    ]);
+
+    expect(result).toEqual(expect.objectContaining({ score: 1, credit: 1.67 }));
+    expect(storage.getAttempts('quiz-1')[0]?.grades?.b?.method).toBe('partial');
+  });
+
+  it('stores timing with the attempt and totals the time spent', async () => {
+    storage.storeQuiz(sampleQuiz);
+    const result = await storage.submitAnswers('quiz-1', [
+      { questionId: 'q1', answer: 'Lang' },
+      { questionId: 'q2', answer: 'Static' }
+    ], {
+      timings: {
+        q1: { timeMs: 4000, changes: 1, timedOut: false },
+        q2: { timeMs: 6000, changes: 0, timedOut: false }
+      }
+    });
+
+    expect(result).toEqual(expect.objectContaining({ timeSpent: 10000 }));
+    expect(storage.getAttempts('quiz-1')[0]?.timings?.q1).toEqual({ timeMs: 4000, changes: 1, timedOut: false });
+  });
+
+  it('reports accuracy, time and option choices per question', async () => {
+    storage.storeQuiz({
+      ...sampleQuiz,
+      questions: [
+        { id: 'q1', question: 'Capital of France?', options: ['Paris', 'Lyon', 'Nice'], correctAnswer: 'Paris' },
+        { id: 'q2', question: 'Types?', options: ['Static', 'Dynamic'], correctAnswer: 'Static' }
+      ]
+    });
+    await storage.submitAnswers('quiz-1', [{ questionId: 'q1', answer: 'Paris' }, { questionId: 'q2', answer: 'Static' }], {
+      timings: { q1: { timeMs: 2000, changes: 0, timedOut: false }, q2: { timeMs: 1000, changes: 0, timedOut: false } }
+    });
+    await storage.submitAnswers('quiz-1', [{ questionId: 'q1', answer: 'Lyon' }], {
+      timings: { q1: { timeMs: 4000, changes: 2, timedOut: false }, q2: { timeMs: 30000, changes: 0, timedOut: true } }
+    });
+    // Older attempts stored answers as an array in question order
+    storage.storeAttempt({ id: 'old', quizId: 'quiz-1', timestamp: 1, score: 0, total: 2, answers: ['Lyon', 'Dynamic'] as any });
+
+    const analytics = storage.getAnalytics('quiz-1');
+    expect(analytics).toEqual(expect.objectContaining({ attempts: 3, averageScore: 0.33, averageTimeMs: 18500 }));
+
+    const [capital, types] = analytics!.questions;
+    expect(capital).toEqual(expect.objectContaining({ answered: 3, correct: 1, accuracy: 0.33, averageTimeMs: 3000, averageChanges: 1 }));
+    expect(capital?.options).toEqual([
+      { option: 'Paris', correct: true, selections: 1, rate: 0.33 },
+      { option: 'Lyon', correct: false, selections: 2, rate: 0.67 },
+      { option: 'Nice', correct: false, selections: 0, rate: 0 }
+    ]);
+    expect(types).toEqual(expect.objectContaining({ answered: 2, correct: 1, timeouts: 1 }));
+    expect(storage.getAnalytics('missing')).toBeUndefined();
+  });
+
+  it('limits analytics and history to one learner\'s attempts when asked', async () => {
+    storage.storeQuiz(sampleQuiz);
+    await storage.submitAnswers('quiz-1', [{ questionId: 'q1', answer: 'Lang' }], { userId: 'ada' });
+    await storage.submitAnswers('quiz-1', [{ questionId: 'q1', answer: 'Lang' }], { userId: 'bob' });
+    await storage.submitAnswers('quiz-1', [{ questionId: 'q1', answer: 'Lang' }]);
+
+    expect(storage.getAnalytics('quiz-1')?.attempts).toBe(3);
+    expect(storage.getAnalytics('quiz-1', 'ada')?.attempts).toBe(1);
+    expect(storage.getAnalytics('quiz-1', 'eve')?.attempts).toBe(0);
+    expect(storage.listAttempts({ userId: 'ada' }).edges.map(edge => edge.node.userId)).toEqual(['ada']);
+  });
+
+  it('keeps attempts and their analytics across a restart', async () => {
+    const db = new LocalDbService(':memory:');
+    await db.initialize();
+    const before = new QuizStorageService(db);
+    before.storeQuiz(sampleQuiz);
+    await before.submitAnswers('quiz-1', [{ questionId: 'q1', answer: 'Lang' }], {
+      userId: 'ada',
+      timings: { q1: { timeMs: 4000, changes: 1, timedOut: false } }
+    });
+    await new Promise(resolve => setImmediate(resolve));
+
+    const after = new QuizStorageService(db);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(after.getAttempts('quiz-1')).toHaveLength(1);
+    expect(after.getAnalytics('quiz-1', 'ada')).toEqual(expect.objectContaining({ attempts: 1, averageTimeMs: 4000 }));
+    expect(after.getAnalytics('quiz-1')?.questions[0]).toEqual(expect.objectContaining({ correct: 1, averageChanges: 1 }));
+  });
+
+  it('drops exam answers received after their deadline', async () => {
+    storage.storeQuiz({ ...sampleQuiz, exam: { sections: [], shuffleQuestions: false, shuffleOptions: false } });
+    const presented = sampleQuiz.questions.map(q => ({ questionId: q.id, sectionId: 's1', options: q.options }));
+    const result = await storage.submitAnswers('quiz-1', [
+      { questionId: 'q1', answer: 'Lang' },
+      { questionId: 'q2', answer: 'Static' }
+    ], { exam: { attemptId: 'exam-1', presented, deadlines: { q1: 100, q2: 100 }, receivedAt: { q1: 90, q2: 110 } } });
+
+    expect(result).toEqual(expect.objectContaining({ score: 1, total: 2, lateAnswers: ['q2'] }));
+    expect(storage.getAttempts('quiz-1')[0]).toEqual(expect.objectContaining({ id: 'exam-1', answers: { q1: 'Lang' }, presented }));
+  });
 });
+